@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, Suspense } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BearerTokenGate } from "@/components/config-manager/bearer-token-prompt";
+import { StagedLoanBookForm } from "@/components/config-manager/staged-loan-book-form";
+import {
+  useStagedLoanBook,
+  useUpdateStagedLoanBook,
+} from "@/lib/hooks/use-config-manager";
+import { isConfigManagerAuthError } from "@/lib/config-manager-service";
+import type { UpdateStagedLoanBookRequest } from "@/lib/types/config-manager";
+
+function EditStagedLoanBookContent({
+  address,
+  bearerToken,
+  clearBearerToken,
+}: {
+  address: string;
+  bearerToken: string;
+  clearBearerToken: (reason?: string) => void;
+}) {
+  const router = useRouter();
+  const { data: loanBook, isLoading, error } = useStagedLoanBook(
+    address,
+    bearerToken
+  );
+  const updateMutation = useUpdateStagedLoanBook(bearerToken);
+
+  useEffect(() => {
+    if (isConfigManagerAuthError(error)) {
+      clearBearerToken(
+        "The config manager rejected this token. Please enter a new one."
+      );
+    }
+  }, [error, clearBearerToken]);
+
+  const detailHref = `/admin/staged-loan-books/${encodeURIComponent(address)}`;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={detailHref}>
+            <ArrowLeft />
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold">Edit Staged Loan Book</h1>
+      </div>
+
+      {isLoading ? (
+        <div className="h-96 w-full rounded-xl bg-muted animate-pulse" />
+      ) : error ? (
+        !isConfigManagerAuthError(error) && (
+          <div className="text-red-500">
+            Error loading staged loan book: {error.message}
+          </div>
+        )
+      ) : loanBook ? (
+        <StagedLoanBookForm
+          initialData={loanBook}
+          isSubmitting={updateMutation.isPending}
+          onCancel={() => router.push(detailHref)}
+          onSubmit={(data) =>
+            updateMutation.mutate(
+              { address, data: data as UpdateStagedLoanBookRequest },
+              { onSuccess: () => router.push(detailHref) }
+            )
+          }
+        />
+      ) : (
+        <div className="text-muted-foreground">
+          No staged loan book found for {address}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EditStagedLoanBookRoute() {
+  const params = useParams<{ address: string }>();
+  const address = decodeURIComponent(params.address);
+
+  return (
+    <BearerTokenGate>
+      {(bearerToken, clearBearerToken) => (
+        <EditStagedLoanBookContent
+          address={address}
+          bearerToken={bearerToken}
+          clearBearerToken={clearBearerToken}
+        />
+      )}
+    </BearerTokenGate>
+  );
+}
+
+export default function EditStagedLoanBookPage() {
+  return (
+    <Suspense fallback={<div>Loading staged loan book...</div>}>
+      <EditStagedLoanBookRoute />
+    </Suspense>
+  );
+}
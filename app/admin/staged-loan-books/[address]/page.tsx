@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Pencil, Rocket, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BearerTokenGate } from "@/components/config-manager/bearer-token-prompt";
+import { StagedLoanBookDetails } from "@/components/config-manager/staged-loan-book-details";
+import { PromoteStagedLoanBookDialog } from "@/components/config-manager/promote-staged-loan-book-dialog";
+import { AutoPledgePanel } from "@/components/config-manager/auto-pledge-panel";
+import {
+  useDeleteStagedLoanBook,
+  usePromoteStagedLoanBook,
+  useStagedLoanBook,
+} from "@/lib/hooks/use-config-manager";
+import { isConfigManagerAuthError } from "@/lib/config-manager-service";
+import { isPromoted } from "@/lib/utils/staged-loan-book";
+import type { StagedLoanBookResponse } from "@/lib/types/config-manager";
+
+function StagedLoanBookDetailContent({
+  address,
+  bearerToken,
+  clearBearerToken,
+}: {
+  address: string;
+  bearerToken: string;
+  clearBearerToken: (reason?: string) => void;
+}) {
+  const router = useRouter();
+  const [promoting, setPromoting] = useState<StagedLoanBookResponse | null>(
+    null
+  );
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { data: loanBook, isLoading, error } = useStagedLoanBook(
+    address,
+    bearerToken
+  );
+  const promoteMutation = usePromoteStagedLoanBook(bearerToken);
+  const deleteMutation = useDeleteStagedLoanBook(bearerToken);
+
+  useEffect(() => {
+    if (isConfigManagerAuthError(error)) {
+      clearBearerToken(
+        "The config manager rejected this token. Please enter a new one."
+      );
+    }
+  }, [error, clearBearerToken]);
+
+  const editHref = `/admin/staged-loan-books/${encodeURIComponent(address)}/edit`;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/admin/staged-loan-books">
+              <ArrowLeft />
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">Staged Loan Book</h1>
+        </div>
+        {loanBook && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link href={editHref}>
+                <Pencil />
+                Edit
+              </Link>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => setConfirmDelete(true)}
+            >
+              <Trash2 />
+              Delete
+            </Button>
+            {!isPromoted(loanBook) && (
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+                onClick={() => setPromoting(loanBook)}
+              >
+                <Rocket />
+                Promote
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-96 w-full rounded-xl bg-muted animate-pulse" />
+      ) : error ? (
+        !isConfigManagerAuthError(error) && (
+          <div className="text-red-500">
+            Error loading staged loan book: {error.message}
+          </div>
+        )
+      ) : loanBook ? (
+        <>
+          <StagedLoanBookDetails loanBook={loanBook} />
+          <AutoPledgePanel loanBook={loanBook} />
+        </>
+      ) : (
+        <div className="text-muted-foreground">
+          No staged loan book found for {address}
+        </div>
+      )}
+
+      <PromoteStagedLoanBookDialog
+        loanBook={promoting}
+        onOpenChange={(open) => !open && setPromoting(null)}
+        isPromoting={promoteMutation.isPending}
+        onConfirm={(lb) =>
+          promoteMutation.mutate(lb.loan_book_address, {
+            onSettled: () => setPromoting(null),
+          })
+        }
+      />
+
+      <AlertDialog
+        open={confirmDelete}
+        onOpenChange={(open) =>
+          !deleteMutation.isPending && setConfirmDelete(open)
+        }
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Staged Loan Book</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the staged config for {loanBook?.name || address}? The
+              on-chain loan book is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMutation.isPending}
+              onClick={(e) => {
+                // Stay open while deleting; close once the request settles
+                e.preventDefault();
+                deleteMutation.mutate(address, {
+                  onSuccess: () => router.push("/admin/staged-loan-books"),
+                  onSettled: () => setConfirmDelete(false),
+                });
+              }}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function StagedLoanBookDetailRoute() {
+  const params = useParams<{ address: string }>();
+  const address = decodeURIComponent(params.address);
+
+  return (
+    <BearerTokenGate>
+      {(bearerToken, clearBearerToken) => (
+        <StagedLoanBookDetailContent
+          address={address}
+          bearerToken={bearerToken}
+          clearBearerToken={clearBearerToken}
+        />
+      )}
+    </BearerTokenGate>
+  );
+}
+
+export default function StagedLoanBookDetailPage() {
+  return (
+    <Suspense fallback={<div>Loading staged loan book...</div>}>
+      <StagedLoanBookDetailRoute />
+    </Suspense>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BearerTokenGate } from "@/components/config-manager/bearer-token-prompt";
+import { StagedLoanBookForm } from "@/components/config-manager/staged-loan-book-form";
+import { useCreateStagedLoanBook } from "@/lib/hooks/use-config-manager";
+import type { CreateStagedLoanBookRequest } from "@/lib/types/config-manager";
+
+function NewStagedLoanBookContent({ bearerToken }: { bearerToken: string }) {
+  const router = useRouter();
+  const createMutation = useCreateStagedLoanBook(bearerToken);
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/admin/staged-loan-books">
+            <ArrowLeft />
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold">New Staged Loan Book</h1>
+      </div>
+
+      <StagedLoanBookForm
+        isSubmitting={createMutation.isPending}
+        onCancel={() => router.push("/admin/staged-loan-books")}
+        onSubmit={(data) =>
+          createMutation.mutate(data as CreateStagedLoanBookRequest, {
+            onSuccess: (created) =>
+              router.push(
+                `/admin/staged-loan-books/${encodeURIComponent(created.loan_book_address)}`
+              ),
+          })
+        }
+      />
+    </div>
+  );
+}
+
+export default function NewStagedLoanBookPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <BearerTokenGate>
+        {(bearerToken) => <NewStagedLoanBookContent bearerToken={bearerToken} />}
+      </BearerTokenGate>
+    </Suspense>
+  );
+}
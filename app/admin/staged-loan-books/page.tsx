@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useMemo, useState, Suspense } from "react";
+import { useRouter } from "next/navigation";
+import { LogOut, Plus, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StagedLoanBookList } from "@/components/config-manager/staged-loan-book-list";
+import { BearerTokenGate } from "@/components/config-manager/bearer-token-prompt";
+import { PromoteStagedLoanBookDialog } from "@/components/config-manager/promote-staged-loan-book-dialog";
+import {
+  useDeleteStagedLoanBook,
+  usePromoteStagedLoanBook,
+  useStagedLoanBooks,
+} from "@/lib/hooks/use-config-manager";
+import { isConfigManagerAuthError } from "@/lib/config-manager-service";
+import { isPromoted } from "@/lib/utils/staged-loan-book";
+import type { StagedLoanBookResponse } from "@/lib/types/config-manager";
+
+type CompletenessFilter = "all" | "complete" | "incomplete";
+type PromotionFilter = "all" | "promoted" | "unpromoted";
+
+function StagedLoanBooksContent({
+  bearerToken,
+  clearBearerToken,
+}: {
+  bearerToken: string;
+  clearBearerToken: (reason?: string) => void;
+}) {
+  const router = useRouter();
+  const [completeness, setCompleteness] = useState<CompletenessFilter>("all");
+  const [promotion, setPromotion] = useState<PromotionFilter>("all");
+  const [search, setSearch] = useState("");
+  const [promoting, setPromoting] = useState<StagedLoanBookResponse | null>(
+    null
+  );
+  const [deleting, setDeleting] = useState<StagedLoanBookResponse | null>(
+    null
+  );
+
+  // The API can filter incomplete books server-side; everything else is local
+  const {
+    data: loanBooks,
+    isLoading,
+    error,
+    refetch,
+    isFetching,
+  } = useStagedLoanBooks(
+    completeness === "incomplete" ? true : undefined,
+    bearerToken
+  );
+  const promoteMutation = usePromoteStagedLoanBook(bearerToken);
+  const deleteMutation = useDeleteStagedLoanBook(bearerToken);
+
+  useEffect(() => {
+    if (isConfigManagerAuthError(error)) {
+      clearBearerToken(
+        "The config manager rejected this token. Please enter a new one."
+      );
+    }
+  }, [error, clearBearerToken]);
+
+  const filteredLoanBooks = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (loanBooks ?? []).filter((loanBook) => {
+      if (completeness === "complete" && !loanBook.is_complete) return false;
+      if (promotion === "promoted" && !isPromoted(loanBook)) return false;
+      if (promotion === "unpromoted" && isPromoted(loanBook)) return false;
+      if (!query) return true;
+      return [loanBook.name, loanBook.loan_book_address, loanBook.org_id]
+        .filter(Boolean)
+        .some((value) => value!.toLowerCase().includes(query));
+    });
+  }, [loanBooks, completeness, promotion, search]);
+
+  const detailHref = (loanBook: StagedLoanBookResponse) =>
+    `/admin/staged-loan-books/${encodeURIComponent(loanBook.loan_book_address)}`;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Staged Loan Books</h1>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+          >
+            <RefreshCw className={isFetching ? "animate-spin" : ""} />
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => router.push("/admin/staged-loan-books/new")}
+          >
+            <Plus />
+            New Staged Loan Book
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearBearerToken()}
+            title="Forget bearer token"
+          >
+            <LogOut />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="search">Search</Label>
+          <Input
+            id="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Name, address or org ID"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="completeness">Completeness</Label>
+          <Select
+            value={completeness}
+            onValueChange={(value) =>
+              setCompleteness(value as CompletenessFilter)
+            }
+          >
+            <SelectTrigger id="completeness" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="complete">Complete</SelectItem>
+              <SelectItem value="incomplete">Incomplete</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promotion">Promotion Status</Label>
+          <Select
+            value={promotion}
+            onValueChange={(value) => setPromotion(value as PromotionFilter)}
+          >
+            <SelectTrigger id="promotion" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="promoted">Promoted</SelectItem>
+              <SelectItem value="unpromoted">Not Promoted</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && !isConfigManagerAuthError(error) ? (
+        <div className="text-red-500">
+          Error loading staged loan books: {error.message}
+        </div>
+      ) : (
+        <StagedLoanBookList
+          loanBooks={filteredLoanBooks}
+          isLoading={isLoading}
+          onView={(loanBook) => router.push(detailHref(loanBook))}
+          onEdit={(loanBook) => router.push(`${detailHref(loanBook)}/edit`)}
+          onDelete={setDeleting}
+          onPromote={(loanBook) =>
+            !isPromoted(loanBook) && setPromoting(loanBook)
+          }
+        />
+      )}
+
+      <PromoteStagedLoanBookDialog
+        loanBook={promoting}
+        onOpenChange={(open) => !open && setPromoting(null)}
+        isPromoting={promoteMutation.isPending}
+        onConfirm={(loanBook) =>
+          promoteMutation.mutate(loanBook.loan_book_address, {
+            onSettled: () => setPromoting(null),
+          })
+        }
+      />
+
+      <AlertDialog
+        open={!!deleting}
+        onOpenChange={(open) =>
+          !open && !deleteMutation.isPending && setDeleting(null)
+        }
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Staged Loan Book</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the staged config for{" "}
+              {deleting?.name || deleting?.loan_book_address}? The on-chain loan
+              book is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMutation.isPending}
+              onClick={(e) => {
+                // Stay open while deleting; close once the request settles
+                e.preventDefault();
+                if (!deleting) return;
+                deleteMutation.mutate(deleting.loan_book_address, {
+                  onSettled: () => setDeleting(null),
+                });
+              }}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function StagedLoanBooksPage() {
+  return (
+    <Suspense fallback={<div>Loading staged loan books...</div>}>
+      <BearerTokenGate>
+        {(bearerToken, clearBearerToken) => (
+          <StagedLoanBooksContent
+            bearerToken={bearerToken}
+            clearBearerToken={clearBearerToken}
+          />
+        )}
+      </BearerTokenGate>
+    </Suspense>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { toast } from "sonner";
+import { AlertTriangle, ArrowRight } from "lucide-react";
+import {
+  StepperTransactionResult,
+  TransactionStepper,
+} from "@/components/transaction-stepper";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { BorrowingBaseTree } from "@/components/borrowing-base-tree";
+import { SimulationResults } from "@/components/simulation-results";
+import { TokenAmountInput } from "@/components/token-amount-input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { createAptosClient, SimulationResult } from "@/lib/aptos-service";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useBorrowingBaseTree } from "@/lib/hooks/use-borrowing-base-tree";
+import { formatTokenAmount } from "@/lib/utils/token";
+import {
+  BorrowingBaseNodeEvaluation,
+  evaluateBorrowingBaseTree,
+  getAttestableNodeIndex,
+  getSimulatedBorrowingBaseTree,
+  isAttestationStale,
+  withAttestedValue,
+} from "@/lib/utils/borrowing-base";
+
+function formatEvaluation(
+  evaluation: BorrowingBaseNodeEvaluation | undefined,
+  decimals: number,
+  symbol: string
+) {
+  if (evaluation?.value === undefined) return evaluation?.error ?? "Unknown";
+  return `${formatTokenAmount(evaluation.value, decimals)} ${symbol}`;
+}
+
+function BorrowingBaseContent() {
+  const searchParams = useSearchParams();
+  const network = useEffectiveNetwork();
+  const facilityAddress = searchParams.get("facility");
+  const moduleAddress = searchParams.get("module") || "0x1";
+
+  const { data, isLoading, error, refetch } = useBorrowingBaseTree({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+  });
+
+  const [attestedValue, setAttestedValue] = useState<bigint>();
+  // Bumped to remount the amount input, which only reads its initial value
+  const [formKey, setFormKey] = useState(0);
+
+  const attestableIndex = data ? getAttestableNodeIndex(data.nodes) : undefined;
+  const attestableNode =
+    data && attestableIndex !== undefined
+      ? data.nodes[attestableIndex]
+      : undefined;
+  const currentAttestedValue =
+    attestableNode?.kind === "AttestedValue" ? attestableNode.value : undefined;
+
+  useEffect(() => {
+    if (currentAttestedValue !== undefined && attestedValue === undefined) {
+      setAttestedValue(currentAttestedValue);
+    }
+  }, [currentAttestedValue, attestedValue]);
+
+  if (!facilityAddress) {
+    return (
+      <ConfigPrompt missingFields={["facility"]} pageTitle="Borrowing Base" />
+    );
+  }
+
+  const decimals = data?.decimals ?? 6;
+  const symbol = data?.symbol ?? "";
+
+  const evaluations = data
+    ? evaluateBorrowingBaseTree(data.nodes, data)
+    : [];
+  // An attestation always refreshes updated_at, so preview it even when the
+  // value itself is unchanged
+  const previewEvaluations =
+    data && attestableIndex !== undefined && attestedValue !== undefined
+      ? evaluateBorrowingBaseTree(
+          withAttestedValue(data.nodes, attestableIndex, attestedValue, data.now),
+          data
+        )
+      : undefined;
+  const staleCount = data
+    ? data.nodes.filter(
+        (node) =>
+          node.kind === "AttestedValue" && isAttestationStale(node, data.now)
+      ).length
+    : 0;
+
+  const steps =
+    attestableNode?.kind === "AttestedValue" && attestedValue !== undefined
+      ? [
+          {
+            title: "Attest Value",
+            description: `Attest "${
+              attestableNode.updateKeyLabel
+            }" at ${formatTokenAmount(attestedValue, decimals)} ${symbol}`,
+            moduleAddress,
+            moduleName: "borrowing_base_engine",
+            functionName: "attest_value",
+            args: [
+              facilityAddress,
+              attestableNode.updateKey,
+              attestedValue.toString(),
+            ] as unknown as EntryFunctionArgumentTypes[],
+          },
+        ]
+      : [];
+
+  const handleTransactionSubmitted = async ({
+    txHash,
+  }: StepperTransactionResult) => {
+    if (!txHash) return;
+    await createAptosClient(network.name)
+      .waitForTransaction({
+        transactionHash: txHash,
+        options: { checkSuccess: false },
+      })
+      .catch((error) =>
+        console.error("Error waiting for attestation transaction:", error)
+      );
+    const { data: updated } = await refetch();
+    const index = updated ? getAttestableNodeIndex(updated.nodes) : undefined;
+    const node = updated && index !== undefined ? updated.nodes[index] : null;
+    setAttestedValue(node?.kind === "AttestedValue" ? node.value : undefined);
+    setFormKey((key) => key + 1);
+  };
+
+  // Evaluates the tree the simulated transaction leaves behind, which also
+  // catches an attestation that would silently update nothing
+  const renderAttestationSimulation = (simulationResult: SimulationResult) => {
+    const simulatedNodes = data
+      ? getSimulatedBorrowingBaseTree(simulationResult, facilityAddress)
+      : undefined;
+    const simulatedEvaluations =
+      data && simulatedNodes
+        ? evaluateBorrowingBaseTree(simulatedNodes, data)
+        : undefined;
+
+    return (
+      <Tabs defaultValue="borrowing-base" className="w-full">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="borrowing-base">Borrowing Base</TabsTrigger>
+          <TabsTrigger value="standard">Standard Results</TabsTrigger>
+        </TabsList>
+        <TabsContent value="borrowing-base">
+          <div className="p-4 space-y-4">
+            {!simulationResult.success ? (
+              <div className="text-sm text-red-500">
+                The attestation would fail: {simulationResult.vmStatus}
+              </div>
+            ) : !simulatedNodes || !simulatedEvaluations || !data ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  The simulated transaction does not change the borrowing
+                  base tree, so no attested value would be updated.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-muted-foreground">Evaluate</span>
+                  <span>
+                    {formatEvaluation(evaluations[0], decimals, symbol)}
+                  </span>
+                  <ArrowRight className="h-4 w-4" />
+                  <span className="font-medium">
+                    {formatEvaluation(simulatedEvaluations[0], decimals, symbol)}
+                  </span>
+                </div>
+                <BorrowingBaseTree
+                  nodes={data.nodes}
+                  evaluations={evaluations}
+                  previewEvaluations={simulatedEvaluations}
+                  now={data.now}
+                  attestableIndex={attestableIndex}
+                  decimals={decimals}
+                  symbol={symbol}
+                />
+              </>
+            )}
+          </div>
+        </TabsContent>
+        <TabsContent value="standard">
+          <SimulationResults
+            result={simulationResult}
+            isLoading={false}
+            error={null}
+          />
+        </TabsContent>
+      </Tabs>
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Borrowing Base</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {facilityAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 rounded-lg bg-muted animate-pulse" />
+      ) : error ? (
+        <div className="text-red-500">
+          Error loading borrowing base tree: {error.message}
+        </div>
+      ) : data ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Current Borrowing Base
+                {staleCount > 0 && (
+                  <Badge variant="destructive">
+                    {staleCount} stale attestation{staleCount > 1 ? "s" : ""}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-xs text-muted-foreground">
+                    On-chain evaluate
+                  </div>
+                  <div className="font-medium">
+                    {data.evaluated !== undefined
+                      ? `${formatTokenAmount(data.evaluated, decimals)} ${symbol}`
+                      : "Aborts"}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">
+                    Recomputed from nodes
+                  </div>
+                  <div className="font-medium">
+                    {formatEvaluation(evaluations[0], decimals, symbol)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Nodes</div>
+                  <div className="font-medium">{data.nodes.length}</div>
+                </div>
+              </div>
+              {data.evaluateError && (
+                <p className="text-xs text-red-500 mt-4 break-all">
+                  {data.evaluateError}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tree</CardTitle>
+              <CardDescription>
+                Every node with the value it evaluates to at the current
+                ledger time.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BorrowingBaseTree
+                nodes={data.nodes}
+                evaluations={evaluations}
+                previewEvaluations={previewEvaluations}
+                now={data.now}
+                attestableIndex={attestableIndex}
+                decimals={decimals}
+                symbol={symbol}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Attest Value</CardTitle>
+              <CardDescription>
+                Submits borrowing_base_engine::attest_value. The connected
+                wallet must be on the node&apos;s attestor whitelist.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {attestableNode?.kind === "AttestedValue" ? (
+                <>
+                  <div key={formKey} className="max-w-sm">
+                    <TokenAmountInput
+                      label={`New value for "${attestableNode.updateKeyLabel}"`}
+                      initialValue={attestableNode.value}
+                      onChange={setAttestedValue}
+                      decimals={decimals}
+                      placeholder="0"
+                    />
+                  </div>
+                  {previewEvaluations && (
+                    <div className="flex items-center gap-3 text-sm">
+                      <span className="text-muted-foreground">
+                        Evaluate after signing
+                      </span>
+                      <span>
+                        {formatEvaluation(evaluations[0], decimals, symbol)}
+                      </span>
+                      <ArrowRight className="h-4 w-4" />
+                      <span className="font-medium">
+                        {formatEvaluation(
+                          previewEvaluations[0],
+                          decimals,
+                          symbol
+                        )}
+                      </span>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    attest_value only checks the first value node in the
+                    tree, and this tree&apos;s first value node is not an
+                    attested value, so nothing can be attested.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          {steps.length > 0 && (
+            <TransactionStepper
+              key={formKey}
+              steps={steps}
+              hideBatchMode
+              hideAtomicMode
+              onTransactionSubmitted={handleTransactionSubmitted}
+              renderCustomSimulationResults={renderAttestationSimulation}
+              onComplete={() => {
+                toast.success("Attestation submitted", {
+                  description: steps[0].description,
+                });
+              }}
+            />
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function BorrowingBasePage() {
+  return (
+    <Suspense fallback={<div>Loading borrowing base...</div>}>
+      <BorrowingBaseContent />
+    </Suspense>
+  );
+}
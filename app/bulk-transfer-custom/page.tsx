@@ -15,6 +15,8 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { X, Plus, Upload } from "lucide-react";
+import { getAddressLabel } from "@/lib/address-book";
+import { useAddressBook } from "@/lib/hooks/use-address-book";
 
 const BULK_TRANSFER_MODULE =
   "0x4d099259771bd0ec259353e06b0d2bd5f5e03141a56adb066a71ec64bd2b50c9";
@@ -42,6 +44,16 @@ function CustomBulkTransferContent() {
   const [manualWallet, setManualWallet] = useState("");
   const [manualAmount, setManualAmount] = useState("");
   const [transfers, setTransfers] = useState<TransferEntry[]>([]);
+  const addressBook = useAddressBook();
+
+  // Address book labels of the wallets in the list, by transfer id
+  const labels = useMemo(
+    () =>
+      new Map(
+        transfers.map((t) => [t.id, getAddressLabel(addressBook, t.wallet)])
+      ),
+    [transfers, addressBook]
+  );
 
   useEffect(() => {
     const fetchTokenMetadata = async () => {
@@ -322,9 +334,16 @@ function CustomBulkTransferContent() {
                   <span className="text-sm text-muted-foreground w-8">
                     {index + 1}.
                   </span>
-                  <span className="font-mono text-sm flex-1 truncate">
-                    {transfer.wallet}
-                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono text-sm truncate">
+                      {transfer.wallet}
+                    </div>
+                    {labels.get(transfer.id) && (
+                      <div className="text-xs text-muted-foreground">
+                        {labels.get(transfer.id)}
+                      </div>
+                    )}
+                  </div>
                   <span className="font-medium whitespace-nowrap">
                     {transfer.amount}
                     {tokenMetadata && (
@@ -13,6 +13,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { getAddressLabel } from "@/lib/address-book";
+import { useAddressBook } from "@/lib/hooks/use-address-book";
 
 const BULK_TRANSFER_MODULE =
   "0x4d099259771bd0ec259353e06b0d2bd5f5e03141a56adb066a71ec64bd2b50c9";
@@ -35,6 +37,7 @@ function BulkTransferContent() {
   const [recipientsText, setRecipientsText] = useState("");
   const [amountInput, setAmountInput] = useState("");
   const [editingAmount, setEditingAmount] = useState(false);
+  const addressBook = useAddressBook();
 
   const validAddresses = useMemo(() => {
     if (!recipientsText.trim()) return [];
@@ -44,6 +47,15 @@ function BulkTransferContent() {
       .filter((addr) => addr.length > 0 && addr.startsWith("0x"));
   }, [recipientsText]);
 
+  const labelledRecipients = useMemo(
+    () =>
+      validAddresses.flatMap((address) => {
+        const label = getAddressLabel(addressBook, address);
+        return label ? [{ address, label }] : [];
+      }),
+    [validAddresses, addressBook]
+  );
+
   const rawAmount = useMemo(() => {
     if (!tokenMetadata || !amountInput) return BigInt(0);
     return parseTokenAmount(amountInput, tokenMetadata.decimals);
@@ -192,6 +204,18 @@ function BulkTransferContent() {
               {validAddresses.length}
             </Badge>
           </div>
+          {labelledRecipients.length > 0 && (
+            <div className="space-y-1 max-h-[200px] overflow-y-auto text-sm">
+              {labelledRecipients.map(({ address, label }, index) => (
+                <div key={`${address}-${index}`} className="flex gap-2">
+                  <span className="font-medium">{label}</span>
+                  <span className="font-mono text-muted-foreground truncate">
+                    {address}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
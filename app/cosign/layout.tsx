@@ -0,0 +1,15 @@
+import { Toaster } from "@/components/ui/sonner";
+import { Suspense } from "react";
+
+export default function CoSignLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <Suspense>{children}</Suspense>
+      <Toaster />
+    </>
+  );
+}
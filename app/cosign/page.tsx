@@ -0,0 +1,375 @@
+"use client";
+
+import { Suspense, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { AnyRawTransaction } from "@aptos-labs/ts-sdk";
+import { Copy, Download } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { SimulationResults } from "@/components/simulation-results";
+import { useWallet } from "@/lib/use-wallet";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useAddressBook } from "@/lib/hooks/use-address-book";
+import { formatLabelledAddress } from "@/lib/address-book";
+import { createAptosClient, toSimulationResult } from "@/lib/aptos-service";
+import {
+  decodeSigningRequest,
+  deserializeTransaction,
+  encodeSigningResponse,
+  findRequiredSigner,
+  getRequiredSigners,
+  getTransactionFunction,
+  SigningRequest,
+  SigningResponse,
+} from "@/lib/co-signing";
+import { downloadFile } from "@/lib/utils";
+
+interface LoadedRequest {
+  request: SigningRequest;
+  transaction: AnyRawTransaction;
+}
+
+function loadRequest(input: string): LoadedRequest {
+  const request = decodeSigningRequest(input);
+  return { request, transaction: deserializeTransaction(request) };
+}
+
+function CoSignContent() {
+  const searchParams = useSearchParams();
+  const sharedRequest = searchParams?.get("request");
+  const { account, signTransaction } = useWallet();
+  const network = useEffectiveNetwork();
+  const addressBook = useAddressBook();
+  const [requestInput, setRequestInput] = useState("");
+  const [pastedRequest, setPastedRequest] = useState<LoadedRequest>();
+  const [response, setResponse] = useState<SigningResponse>();
+  const [isSigning, setIsSigning] = useState(false);
+
+  const linkedRequest = useMemo(() => {
+    if (!sharedRequest) return { loaded: undefined, error: undefined };
+    try {
+      return { loaded: loadRequest(sharedRequest), error: undefined };
+    } catch (error) {
+      return {
+        loaded: undefined,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [sharedRequest]);
+  const loaded = pastedRequest ?? linkedRequest.loaded;
+
+  const simulation = useQuery({
+    queryKey: ["cosignSimulation", loaded?.request.transaction, network.name],
+    queryFn: async () => {
+      const client = createAptosClient(network.name);
+      const [result] = loaded!.request.multiAgent
+        ? await client.transaction.simulate.multiAgent({
+            transaction: loaded!.transaction,
+          })
+        : await client.transaction.simulate.simple({
+            transaction: loaded!.transaction,
+          });
+      return toSimulationResult(result);
+    },
+    enabled: !!loaded,
+    retry: false,
+  });
+
+  const handleLoad = (input: string) => {
+    try {
+      setPastedRequest(loadRequest(input));
+      setResponse(undefined);
+      setRequestInput("");
+    } catch (error) {
+      toast.error("Invalid signing request", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const transaction = loaded?.transaction;
+  const accountAddress = account?.address.toString();
+  const walletSigner =
+    transaction && accountAddress
+      ? findRequiredSigner(transaction, accountAddress)
+      : undefined;
+  const expiresAt = transaction
+    ? new Date(
+        Number(transaction.rawTransaction.expiration_timestamp_secs) * 1000
+      )
+    : undefined;
+  const isExpired = !!expiresAt && expiresAt.getTime() < Date.now();
+  const chainMismatch =
+    !!transaction &&
+    network.isFromWallet &&
+    transaction.rawTransaction.chain_id.chainId !== network.chainId;
+
+  const handleSign = async () => {
+    if (!transaction || !walletSigner || !accountAddress) return;
+    setIsSigning(true);
+    try {
+      const asFeePayer = walletSigner.role === "feePayer";
+      const { authenticator } = await signTransaction({
+        transactionOrPayload: transaction,
+        asFeePayer,
+      });
+      setResponse({
+        version: 1,
+        signer: accountAddress,
+        asFeePayer,
+        authenticator: authenticator.bcsToHex().toString(),
+      });
+    } catch (error) {
+      toast.error("Signing failed", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Co-Sign Transaction</h1>
+          <p className="text-muted-foreground">
+            Review and sign a transaction shared by its sender
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Signing Request</CardTitle>
+          <CardDescription>
+            Open a signing link, or paste its code or upload the request file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {linkedRequest.error && !pastedRequest && (
+            <p className="text-red-500">
+              Could not read the linked request: {linkedRequest.error}
+            </p>
+          )}
+          <textarea
+            id="signing-request"
+            className="w-full min-h-[80px] p-3 border rounded-md bg-transparent text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring font-mono"
+            placeholder="Paste a signing link or code"
+            value={requestInput}
+            onChange={(e) => setRequestInput(e.target.value)}
+          />
+          <div className="flex flex-wrap items-end gap-4">
+            <Button
+              disabled={!requestInput.trim()}
+              onClick={() => handleLoad(requestInput)}
+            >
+              Load Request
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="signing-request-file">Request File</Label>
+              <Input
+                id="signing-request-file"
+                type="file"
+                accept=".json,application/json"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) handleLoad(await file.text());
+                }}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loaded && transaction && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{loaded.request.title}</CardTitle>
+            <CardDescription className="font-mono break-all">
+              {getTransactionFunction(transaction) ??
+                "Not an entry function call"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {chainMismatch && (
+              <Alert variant="destructive">
+                <AlertTitle>Wrong network</AlertTitle>
+                <AlertDescription>
+                  This transaction is for chain{" "}
+                  {transaction.rawTransaction.chain_id.chainId}
+                  {loaded.request.network && ` (${loaded.request.network})`},
+                  but the wallet is on chain {network.chainId}.
+                </AlertDescription>
+              </Alert>
+            )}
+            {isExpired && (
+              <Alert variant="destructive">
+                <AlertTitle>Expired</AlertTitle>
+                <AlertDescription>
+                  This transaction expired at {expiresAt?.toLocaleString()}.
+                  Ask the sender for a new request.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-xs">
+                <tbody>
+                  <tr>
+                    <td className="px-3 py-2 font-medium">Sender</td>
+                    <td className="px-3 py-2 font-mono">
+                      {formatLabelledAddress(
+                        addressBook,
+                        transaction.rawTransaction.sender.toString()
+                      )}
+                    </td>
+                  </tr>
+                  {getRequiredSigners(transaction).map((signer) => (
+                    <tr
+                      key={`${signer.role}:${signer.address}`}
+                      className="border-t"
+                    >
+                      <td className="px-3 py-2 font-medium">
+                        {signer.role === "feePayer" ? "Fee payer" : "Co-signer"}
+                      </td>
+                      <td className="px-3 py-2 font-mono">
+                        {formatLabelledAddress(addressBook, signer.address)}
+                        {walletSigner?.address === signer.address &&
+                          walletSigner.role === signer.role && (
+                            <Badge variant="secondary" className="ml-2">
+                              Connected wallet
+                            </Badge>
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t">
+                    <td className="px-3 py-2 font-medium">Expires</td>
+                    <td className="px-3 py-2">{expiresAt?.toLocaleString()}</td>
+                  </tr>
+                  {loaded.request.summary.args.map((arg, index) => (
+                    <tr key={index} className="border-t">
+                      <td className="px-3 py-2 font-medium">
+                        Argument {index + 1}
+                      </td>
+                      <td className="px-3 py-2 font-mono break-all">
+                        {formatLabelledAddress(addressBook, arg)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Arguments are as described by the sender; the function, signers
+              and expiry are read from the transaction itself.
+            </p>
+
+            <SimulationResults
+              result={simulation.data ?? null}
+              isLoading={simulation.isLoading}
+              error={simulation.error}
+              addressBook={addressBook}
+            />
+
+            {!account ? (
+              <p className="text-muted-foreground">
+                Connect the wallet of a co-signer or the fee payer to sign.
+              </p>
+            ) : !walletSigner ? (
+              <p className="text-red-500">
+                The connected wallet is not a co-signer or fee payer of this
+                transaction.
+              </p>
+            ) : (
+              <Button
+                onClick={handleSign}
+                disabled={isSigning || isExpired || chainMismatch}
+              >
+                {isSigning
+                  ? "Signing..."
+                  : walletSigner.role === "feePayer"
+                  ? "Sign as Fee Payer"
+                  : "Sign as Co-Signer"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {response && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Signature</CardTitle>
+            <CardDescription>
+              Send this code or file back to the sender, who adds it before
+              submitting.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <textarea
+              readOnly
+              className="w-full min-h-[80px] p-3 border rounded-md bg-transparent text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring font-mono"
+              value={encodeSigningResponse(response)}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={async () => {
+                  await navigator.clipboard.writeText(
+                    encodeSigningResponse(response)
+                  );
+                  toast.success("Signature code copied");
+                }}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Code
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  downloadFile(
+                    "signing-response.json",
+                    JSON.stringify(response, null, 2),
+                    "application/json"
+                  )
+                }
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default function CoSignPage() {
+  return (
+    <Suspense fallback={<div>Loading signing request...</div>}>
+      <CoSignContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,412 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useFacilityEvents } from "@/lib/hooks/use-facility-events";
+import {
+  ShareClassSummary,
+  useShareClasses,
+} from "@/lib/hooks/use-share-classes";
+import { formatTokenAmount } from "@/lib/utils/token";
+import { cn, shortenAddress } from "@/lib/utils";
+
+const PAGE_SIZE = 100;
+
+// Event field holding the running balance after each event
+const BALANCE_FIELDS: Record<string, { field: string; label: string }> = {
+  ContributionEventV0: {
+    field: "current_contributed",
+    label: "Outstanding",
+  },
+  PrincipalRepaidEventV0: {
+    field: "outstanding_principal",
+    label: "Outstanding",
+  },
+  InterestDistributedEventV0: {
+    field: "total_distributed_interest",
+    label: "Interest to date",
+  },
+};
+
+function percentOf(part: bigint, whole: bigint) {
+  if (whole === BigInt(0)) return "—";
+  return `${((Number(part) / Number(whole)) * 100).toFixed(2)}%`;
+}
+
+function TrancheLedger({
+  share,
+  facilityAddress,
+  moduleAddress,
+}: {
+  share: ShareClassSummary;
+  facilityAddress: string;
+  moduleAddress: string;
+}) {
+  const network = useEffectiveNetwork();
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data, isLoading, error, isFetching } = useFacilityEvents({
+    facilityAddress,
+    moduleAddress,
+    shareAddress: share.address,
+    limit,
+  });
+
+  const events = (data?.events ?? []).filter(
+    (event) =>
+      event.definition.category === "contribution" ||
+      event.definition.category === "distribution"
+  );
+  const hasMore = (data?.events.length ?? 0) >= limit;
+  const formatAmount = (value: unknown) =>
+    `${formatTokenAmount(BigInt(String(value ?? 0)), data?.decimals ?? 6)} ${
+      data?.symbol ?? ""
+    }`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{share.name} Ledger</CardTitle>
+        <CardDescription>
+          Contributions and distributions for{" "}
+          <span className="font-mono">{share.address}</span>, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div>Loading events...</div>
+        ) : error ? (
+          <div className="text-red-500">
+            Error loading events: {error.message}
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-muted-foreground">
+            No contributions or distributions yet.
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left">Time</th>
+                  <th className="px-3 py-2 text-left">Event</th>
+                  <th className="px-3 py-2 text-right">Amount</th>
+                  <th className="px-3 py-2 text-right">Balance After</th>
+                  <th className="px-3 py-2 text-right">Transaction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => {
+                  const balance = BALANCE_FIELDS[event.definition.name];
+                  const deficit = BigInt(String(event.data.deficit ?? 0));
+                  return (
+                    <tr key={event.id} className="border-t">
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {event.timestamp
+                          ? format(event.timestamp, "MMM d, yyyy HH:mm")
+                          : "Unknown"}
+                      </td>
+                      <td className="px-3 py-2">
+                        {event.definition.label}
+                        {deficit > BigInt(0) && (
+                          <Badge variant="destructive" className="ml-2">
+                            Deficit {formatAmount(deficit)}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatAmount(event.data.amount)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {balance && (
+                          <>
+                            <span className="text-muted-foreground">
+                              {balance.label}{" "}
+                            </span>
+                            {formatAmount(event.data[balance.field])}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <a
+                          href={`https://explorer.aptoslabs.com/txn/${event.transactionVersion}?network=${network.name.toLowerCase()}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                        >
+                          v{event.transactionVersion}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {hasMore && (
+          <Button
+            variant="outline"
+            onClick={() => setLimit(limit + PAGE_SIZE)}
+            disabled={isFetching}
+          >
+            Load older events
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CapTableContent() {
+  const searchParams = useSearchParams();
+  const facilityAddress = searchParams.get("facility");
+  const moduleAddress = searchParams.get("module") || "0x1";
+
+  const [selectedAddress, setSelectedAddress] = useState<string>();
+
+  const { data, isLoading, error } = useShareClasses({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+  });
+
+  if (!facilityAddress) {
+    return <ConfigPrompt missingFields={["facility"]} pageTitle="Cap Table" />;
+  }
+
+  const decimals = data?.decimals ?? 6;
+  const symbol = data?.symbol ?? "";
+  const formatAmount = (value: bigint) =>
+    `${formatTokenAmount(value, decimals)} ${symbol}`;
+
+  const shares = data?.shares ?? [];
+  const totals = shares.reduce(
+    (sum, share) => ({
+      currentContributed: sum.currentContributed + share.currentContributed,
+      totalContributed: sum.totalContributed + share.totalContributed,
+      totalDistributedInterest:
+        sum.totalDistributedInterest + share.totalDistributedInterest,
+      interestOwed: sum.interestOwed + (share.interestOwed ?? BigInt(0)),
+    }),
+    {
+      currentContributed: BigInt(0),
+      totalContributed: BigInt(0),
+      totalDistributedInterest: BigInt(0),
+      interestOwed: BigInt(0),
+    }
+  );
+  const selectedShare = shares.find(
+    (share) => share.address === selectedAddress
+  );
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Cap Table</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {facilityAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 rounded-lg bg-muted animate-pulse" />
+      ) : error ? (
+        <div className="text-red-500">
+          Error loading share classes: {error.message}
+        </div>
+      ) : data ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Tranches</CardTitle>
+              <CardDescription>
+                Select a tranche to see its contribution and distribution
+                history.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {shares.length === 0 ? (
+                <div className="text-muted-foreground">
+                  This facility has no share classes.
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Tranche</th>
+                        <th className="px-3 py-2 text-right">Outstanding</th>
+                        <th className="px-3 py-2 text-right">
+                          Total Contributed
+                        </th>
+                        <th className="px-3 py-2 text-right">Interest Paid</th>
+                        <th className="px-3 py-2 text-right">Interest Owed</th>
+                        <th className="px-3 py-2 text-right">
+                          Capital Call Weight
+                        </th>
+                        <th className="px-3 py-2 text-right">
+                          Call / Repay Priority
+                        </th>
+                        <th className="px-3 py-2 text-left">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shares.map((share) => (
+                        <tr
+                          key={share.address}
+                          className={cn(
+                            "border-t cursor-pointer hover:bg-muted/50",
+                            share.address === selectedAddress && "bg-muted"
+                          )}
+                          onClick={() =>
+                            setSelectedAddress(
+                              share.address === selectedAddress
+                                ? undefined
+                                : share.address
+                            )
+                          }
+                        >
+                          <td className="px-3 py-2">
+                            <div className="font-medium">
+                              {share.name}
+                              {share.symbol && (
+                                <span className="ml-1 text-muted-foreground">
+                                  ({share.symbol})
+                                </span>
+                              )}
+                            </div>
+                            <div className="font-mono text-muted-foreground">
+                              #{share.index} {shortenAddress(share.address)}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <div>{formatAmount(share.currentContributed)}</div>
+                            <div className="text-muted-foreground">
+                              {percentOf(
+                                share.currentContributed,
+                                totals.currentContributed
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatAmount(share.totalContributed)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatAmount(share.totalDistributedInterest)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {share.interestOwed !== undefined
+                              ? formatAmount(share.interestOwed)
+                              : "—"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <div>{share.capitalCallWeight.toString()}</div>
+                            <div className="text-muted-foreground">
+                              {percentOf(
+                                share.capitalCallWeight,
+                                data.totalCapitalCallWeight
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {share.capitalCallPriority} /{" "}
+                            {share.principalRepayPriority}
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="flex flex-wrap gap-1">
+                              {share.interestDeficit > BigInt(0) ? (
+                                <Badge variant="destructive">
+                                  Deficit {formatAmount(share.interestDeficit)}
+                                </Badge>
+                              ) : (
+                                share.interestType && (
+                                  <Badge variant="secondary">Current</Badge>
+                                )
+                              )}
+                              {share.capitalCallRemaining > BigInt(0) && (
+                                <Badge variant="outline">
+                                  Call {formatAmount(share.capitalCallRemaining)}{" "}
+                                  of {formatAmount(share.capitalCallTotal)}
+                                </Badge>
+                              )}
+                            </div>
+                            {share.lastInterestPaidAt ? (
+                              <div className="text-muted-foreground mt-1">
+                                Last paid{" "}
+                                {format(
+                                  new Date(share.lastInterestPaidAt / 1000),
+                                  "MMM d, yyyy"
+                                )}
+                              </div>
+                            ) : null}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="border-t bg-muted font-medium">
+                        <td className="px-3 py-2">Total</td>
+                        <td className="px-3 py-2 text-right">
+                          {formatAmount(totals.currentContributed)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatAmount(totals.totalContributed)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatAmount(totals.totalDistributedInterest)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatAmount(totals.interestOwed)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {data.totalCapitalCallWeight.toString()}
+                        </td>
+                        <td className="px-3 py-2" colSpan={2} />
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedShare && (
+            <TrancheLedger
+              share={selectedShare}
+              facilityAddress={facilityAddress}
+              moduleAddress={moduleAddress}
+            />
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function CapTablePage() {
+  return (
+    <Suspense fallback={<div>Loading cap table...</div>}>
+      <CapTableContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { useMemo, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { format, isSameMonth } from "date-fns";
+import { ExternalLink, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { MonthPicker } from "@/components/ui/month-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import {
+  FACILITY_EVENTS,
+  FacilityEventCategory,
+  FacilityTimelineEvent,
+  useFacilityEvents,
+} from "@/lib/hooks/use-facility-events";
+import { formatTokenAmount } from "@/lib/utils/token";
+import { cn, shortenAddress } from "@/lib/utils";
+
+const PAGE_SIZE = 100;
+
+const CATEGORIES: {
+  value: FacilityEventCategory;
+  label: string;
+  className: string;
+}[] = [
+  {
+    value: "capital-call",
+    label: "Capital Calls",
+    className: "bg-blue-500 text-white",
+  },
+  { value: "recycle", label: "Recycles", className: "bg-purple-500 text-white" },
+  {
+    value: "distribution",
+    label: "Distributions",
+    className: "bg-green-500 text-white",
+  },
+  {
+    value: "contribution",
+    label: "Contributions",
+    className: "bg-orange-500 text-white",
+  },
+];
+
+function formatFieldName(field: string) {
+  return field
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function EventFields({
+  event,
+  decimals,
+  symbol,
+}: {
+  event: FacilityTimelineEvent;
+  decimals: number;
+  symbol: string;
+}) {
+  const { amountFields } = event.definition;
+  const otherFields = Object.entries(event.data).filter(
+    ([field]) =>
+      !amountFields.includes(field) &&
+      !["facility", "facility_address", "run_id"].includes(field)
+  );
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-sm">
+      {amountFields.map((field) => (
+        <div key={field}>
+          <div className="text-xs text-muted-foreground">
+            {formatFieldName(field)}
+          </div>
+          <div className="font-medium">
+            {formatTokenAmount(BigInt(String(event.data[field] ?? 0)), decimals)}{" "}
+            {symbol}
+          </div>
+        </div>
+      ))}
+      {otherFields.map(([field, value]) => (
+        <div key={field}>
+          <div className="text-xs text-muted-foreground">
+            {formatFieldName(field)}
+          </div>
+          <div className="font-mono text-xs break-all">
+            {typeof value === "string" && value.startsWith("0x")
+              ? shortenAddress(value)
+              : String(value)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function FacilityTimelineContent() {
+  const searchParams = useSearchParams();
+  const network = useEffectiveNetwork();
+  const facilityAddress = searchParams.get("facility");
+  const moduleAddress = searchParams.get("module") || "0x1";
+
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [categories, setCategories] = useState<Set<FacilityEventCategory>>(
+    () => new Set(CATEGORIES.map((category) => category.value))
+  );
+  const [eventName, setEventName] = useState("all");
+  const [month, setMonth] = useState<Date | undefined>();
+
+  const { data, isLoading, error, isFetching } = useFacilityEvents({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+    limit,
+  });
+
+  const filteredEvents = useMemo(
+    () =>
+      (data?.events ?? []).filter(
+        (event) =>
+          categories.has(event.definition.category) &&
+          (eventName === "all" || event.definition.name === eventName) &&
+          (!month ||
+            (event.timestamp && isSameMonth(event.timestamp, month)))
+      ),
+    [data, categories, eventName, month]
+  );
+
+  // Group consecutive events by day for the timeline headings
+  const eventsByDay = useMemo(() => {
+    const groups: { day: string; events: FacilityTimelineEvent[] }[] = [];
+    filteredEvents.forEach((event) => {
+      const day = event.timestamp
+        ? format(event.timestamp, "EEEE, MMMM d, yyyy")
+        : "Unknown date";
+      if (groups[groups.length - 1]?.day === day) {
+        groups[groups.length - 1].events.push(event);
+      } else {
+        groups.push({ day, events: [event] });
+      }
+    });
+    return groups;
+  }, [filteredEvents]);
+
+  const toggleCategory = (category: FacilityEventCategory) => {
+    setCategories((previous) => {
+      const next = new Set(previous);
+      if (next.has(category)) {
+        next.delete(category);
+      } else {
+        next.add(category);
+      }
+      return next;
+    });
+  };
+
+  if (!facilityAddress) {
+    return (
+      <ConfigPrompt missingFields={["facility"]} pageTitle="Facility Timeline" />
+    );
+  }
+
+  const hasMore = (data?.events.length ?? 0) >= limit;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Facility Timeline</h1>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Categories</Label>
+          <div className="flex flex-wrap gap-2">
+            {CATEGORIES.map((category) => (
+              <Badge
+                key={category.value}
+                className={cn(
+                  "cursor-pointer",
+                  categories.has(category.value)
+                    ? category.className
+                    : "bg-muted text-muted-foreground"
+                )}
+                onClick={() => toggleCategory(category.value)}
+              >
+                {category.label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="event-type">Event Type</Label>
+          <Select value={eventName} onValueChange={setEventName}>
+            <SelectTrigger id="event-type" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All events</SelectItem>
+              {FACILITY_EVENTS.map((definition) => (
+                <SelectItem key={definition.name} value={definition.name}>
+                  {definition.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Month</Label>
+          <div className="flex gap-2">
+            <MonthPicker
+              month={month}
+              setMonth={setMonth}
+              placeholder="All months"
+            />
+            {month && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setMonth(undefined)}
+                title="Clear month"
+              >
+                <X />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {filteredEvents.length} of {data?.events.length ?? 0} events
+            {isFetching && !isLoading && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                Refreshing...
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div>Loading events...</div>
+          ) : error ? (
+            <div className="text-red-500">
+              Error loading events: {error.message}
+            </div>
+          ) : eventsByDay.length === 0 ? (
+            <div className="text-muted-foreground">
+              No events match the current filters.
+            </div>
+          ) : (
+            eventsByDay.map(({ day, events }) => (
+              <div key={day} className="space-y-3">
+                <h3 className="text-sm font-semibold text-muted-foreground">
+                  {day}
+                </h3>
+                <ol className="relative border-l ml-2 space-y-4">
+                  {events.map((event) => {
+                    const category = CATEGORIES.find(
+                      (c) => c.value === event.definition.category
+                    )!;
+                    return (
+                      <li key={event.id} className="ml-4">
+                        <span
+                          className={cn(
+                            "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full",
+                            category.className
+                          )}
+                        />
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium">
+                            {event.definition.label}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {event.timestamp
+                              ? format(event.timestamp, "HH:mm:ss")
+                              : ""}
+                          </span>
+                          <a
+                            href={`https://explorer.aptoslabs.com/txn/${event.transactionVersion}?network=${network.name.toLowerCase()}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                          >
+                            v{event.transactionVersion}
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        </div>
+                        <EventFields
+                          event={event}
+                          decimals={data!.decimals}
+                          symbol={data!.symbol}
+                        />
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))
+          )}
+          {hasMore && (
+            <Button
+              variant="outline"
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              disabled={isFetching}
+            >
+              Load older events
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function FacilityTimelinePage() {
+  return (
+    <Suspense fallback={<div>Loading facility timeline...</div>}>
+      <FacilityTimelineContent />
+    </Suspense>
+  );
+}
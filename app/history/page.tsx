@@ -0,0 +1,405 @@
+"use client";
+
+import { Fragment, useMemo, useState, Suspense } from "react";
+import { format } from "date-fns";
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  ExternalLink,
+  Trash2,
+} from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { useTransactionHistory } from "@/lib/hooks/use-transaction-history";
+import {
+  clearTransactionRecords,
+  TransactionRecord,
+  TransactionRecordStatus,
+  transactionRecordsToCsv,
+} from "@/lib/transaction-history";
+import { downloadFile, shortenAddress } from "@/lib/utils";
+
+const STATUS_STYLES: Record<TransactionRecordStatus, string> = {
+  submitted: "bg-yellow-500 text-white",
+  success: "bg-green-500 text-white",
+  simulated: "bg-blue-500 text-white",
+  cancelled: "bg-gray-400 text-white",
+  failed: "bg-red-500 text-white",
+};
+
+function matchesSearch(record: TransactionRecord, query: string) {
+  const haystack = [
+    record.page,
+    record.facilityAddress,
+    record.moduleAddress,
+    record.signer,
+    record.txHash,
+    record.error,
+    ...record.calls.flatMap((call) => [call.function, call.title, ...call.args]),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return haystack.includes(query);
+}
+
+function HistoryRow({ record }: { record: TransactionRecord }) {
+  const [expanded, setExpanded] = useState(false);
+  const explorerUrl =
+    record.txHash &&
+    `https://explorer.aptoslabs.com/txn/${record.txHash}?network=${
+      record.network?.toLowerCase() || "mainnet"
+    }`;
+
+  return (
+    <Fragment>
+      <tr
+        className="border-t cursor-pointer hover:bg-muted/50"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <td className="p-2">
+          {expanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+        </td>
+        <td className="p-2 whitespace-nowrap">
+          {format(record.createdAt, "yyyy-MM-dd HH:mm:ss")}
+        </td>
+        <td className="p-2">
+          <Badge className={STATUS_STYLES[record.status]}>{record.status}</Badge>
+        </td>
+        <td className="p-2">{record.page}</td>
+        <td className="p-2">
+          {record.calls.length === 1
+            ? record.calls[0].function.split("::").slice(1).join("::")
+            : `${record.calls.length} calls (${record.mode})`}
+        </td>
+        <td className="p-2 font-mono">
+          {record.signer ? shortenAddress(record.signer) : "-"}
+        </td>
+        <td className="p-2 font-mono">
+          {explorerUrl ? (
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {shortenAddress(record.txHash!)}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          ) : (
+            "-"
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="bg-muted/30">
+          <td />
+          <td colSpan={6} className="p-3 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <div>
+                <span className="text-muted-foreground">Facility: </span>
+                <span className="font-mono break-all">
+                  {record.facilityAddress || "-"}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Module: </span>
+                <span className="font-mono break-all">
+                  {record.moduleAddress}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Network: </span>
+                {record.network || "-"}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Source: </span>
+                {record.source}
+              </div>
+              {record.simulation && (
+                <div className="md:col-span-2">
+                  <span className="text-muted-foreground">Simulation: </span>
+                  {record.simulation.success ? "Success" : "Failed"} (
+                  {record.simulation.vmStatus}, gas {record.simulation.gasUsed})
+                </div>
+              )}
+              {record.vmStatus && (
+                <div className="md:col-span-3">
+                  <span className="text-muted-foreground">On chain: </span>
+                  {record.vmStatus}
+                </div>
+              )}
+            </div>
+            {record.error && (
+              <div className="text-red-500 break-all">{record.error}</div>
+            )}
+            <div className="space-y-2">
+              {record.calls.map((call, index) => (
+                <div key={index} className="rounded-md border bg-background p-2">
+                  {call.title && <div className="font-medium">{call.title}</div>}
+                  <div className="font-mono break-all">{call.function}</div>
+                  {call.args.length > 0 && (
+                    <ol className="list-decimal pl-5 font-mono break-all">
+                      {call.args.map((arg, argIndex) => (
+                        <li key={argIndex}>{arg || '""'}</li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ))}
+            </div>
+          </td>
+        </tr>
+      )}
+    </Fragment>
+  );
+}
+
+function HistoryContent() {
+  const queryClient = useQueryClient();
+  const { data: records = [], isLoading, error } = useTransactionHistory();
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<"all" | TransactionRecordStatus>("all");
+  const [page, setPage] = useState("all");
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const pages = useMemo(
+    () => Array.from(new Set(records.map((record) => record.page))).sort(),
+    [records]
+  );
+
+  const filteredRecords = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return records.filter(
+      (record) =>
+        (status === "all" || record.status === status) &&
+        (page === "all" || record.page === page) &&
+        (!query || matchesSearch(record, query))
+    );
+  }, [records, search, status, page]);
+
+  const exportRecords = (type: "csv" | "json") => {
+    const timestamp = format(new Date(), "yyyyMMdd-HHmmss");
+    if (type === "csv") {
+      downloadFile(
+        `transaction-history-${timestamp}.csv`,
+        transactionRecordsToCsv(filteredRecords),
+        "text/csv"
+      );
+    } else {
+      downloadFile(
+        `transaction-history-${timestamp}.json`,
+        JSON.stringify(filteredRecords, null, 2),
+        "application/json"
+      );
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearTransactionRecords();
+      queryClient.invalidateQueries({ queryKey: ["transactionHistory"] });
+      toast.success("Transaction history cleared");
+    } catch (error) {
+      toast.error("Failed to clear history", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Transaction History</h1>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Every simulation and submission from transaction steppers and function
+        cards is recorded in this browser. Records are not shared with other
+        devices.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="search">Search</Label>
+          <Input
+            id="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Function, argument, address or tx hash"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="status">Status</Label>
+          <Select
+            value={status}
+            onValueChange={(value) =>
+              setStatus(value as "all" | TransactionRecordStatus)
+            }
+          >
+            <SelectTrigger id="status" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="submitted">Submitted</SelectItem>
+              <SelectItem value="success">Success</SelectItem>
+              <SelectItem value="simulated">Simulated</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="page">Page</Label>
+          <Select value={page} onValueChange={setPage}>
+            <SelectTrigger id="page" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {pages.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>
+            {filteredRecords.length} of {records.length} records
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={filteredRecords.length === 0}
+              onClick={() => exportRecords("csv")}
+            >
+              <Download />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={filteredRecords.length === 0}
+              onClick={() => exportRecords("json")}
+            >
+              <Download />
+              JSON
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              disabled={records.length === 0}
+              onClick={() => setConfirmClear(true)}
+            >
+              <Trash2 />
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div>Loading history...</div>
+          ) : error ? (
+            <div className="text-red-500">
+              Error loading history: {error.message}
+            </div>
+          ) : filteredRecords.length === 0 ? (
+            <div className="text-muted-foreground">No records found.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="p-2" />
+                    <th className="p-2 text-left font-medium">Time</th>
+                    <th className="p-2 text-left font-medium">Status</th>
+                    <th className="p-2 text-left font-medium">Page</th>
+                    <th className="p-2 text-left font-medium">Function</th>
+                    <th className="p-2 text-left font-medium">Signer</th>
+                    <th className="p-2 text-left font-medium">Tx Hash</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredRecords.map((record) => (
+                    <HistoryRow key={record.id} record={record} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear Transaction History</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes all {records.length} records stored in
+              this browser. Export them first if you need an audit trail.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleClear}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Clear History
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  return (
+    <Suspense fallback={<div>Loading transaction history...</div>}>
+      <HistoryContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,535 @@
+"use client";
+
+import { useEffect, useMemo, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { AlertTriangle, Download } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { BearerTokenGate } from "@/components/config-manager/bearer-token-prompt";
+import { useStagedLoanBook } from "@/lib/hooks/use-config-manager";
+import {
+  DelinquencyLoan,
+  useLoanDelinquency,
+} from "@/lib/hooks/use-loan-delinquency";
+import { isConfigManagerAuthError } from "@/lib/config-manager-service";
+import {
+  bucketByDaysPastDue,
+  buildAgingBuckets,
+  DAY_US,
+  projectLinearAccrualLateFee,
+} from "@/lib/utils/loan-portfolio";
+import { formatTokenAmount } from "@/lib/utils/token";
+import { cn, downloadFile, escapeCsvValue, shortenAddress } from "@/lib/utils";
+import type { DelinquentLinearAccrualLateFee } from "@/lib/types/config-manager";
+
+// Used when the loan book has no staged config, or it leaves these unset
+const DEFAULT_DPD_DEFAULT = 90;
+const DEFAULT_DAYS_IN_YEAR = 365;
+
+const PROJECTION_HORIZONS = [0, 7, 14, 30, 60, 90];
+
+interface AgingRow {
+  loan: DelinquencyLoan;
+  bucketLabel: string;
+  lateFeeStartUs?: number; // When the current installment starts accruing
+  projectedLateFee?: bigint; // undefined without a late fee config
+}
+
+function formatDateUs(timestampUs?: number) {
+  return timestampUs
+    ? format(new Date(timestampUs / 1000), "MMM d, yyyy")
+    : "—";
+}
+
+function installmentTotal(loan: DelinquencyLoan) {
+  const { principal, interest, fee } = loan.currentInstallment;
+  return BigInt(principal) + BigInt(interest) + BigInt(fee);
+}
+
+function agingRowsToCsv(rows: AgingRow[], decimals: number): string {
+  // Plain decimal amounts, without thousands separators
+  const amount = (value?: bigint) =>
+    value === undefined
+      ? ""
+      : formatTokenAmount(value, decimals).replace(/,/g, "");
+  const header = [
+    "loan_address",
+    "borrower_address",
+    "bucket",
+    "days_past_due",
+    "installment_due",
+    "installment_amount",
+    "principal_remaining",
+    "debt_remaining",
+    "late_fee_accrued",
+    "late_fee_start",
+    "projected_late_fee",
+  ];
+  const lines = rows.map(
+    ({ loan, bucketLabel, lateFeeStartUs, projectedLateFee }) => [
+      loan.loanAddress,
+      loan.borrowerAddress,
+      bucketLabel,
+      String(loan.daysPastDue),
+      new Date(Number(loan.currentInstallment.time_due_us) / 1000).toISOString(),
+      amount(installmentTotal(loan)),
+      amount(loan.principalRemaining),
+      amount(loan.debtRemaining),
+      amount(loan.lateFeeAccrued),
+      lateFeeStartUs ? new Date(lateFeeStartUs / 1000).toISOString() : "",
+      amount(projectedLateFee),
+    ]
+  );
+  return [header, ...lines]
+    .map((row) => row.map(escapeCsvValue).join(","))
+    .join("\n");
+}
+
+function formatDays(micros: number) {
+  return `${(micros / DAY_US).toFixed(2)} days`;
+}
+
+function ConfigValue({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  );
+}
+
+function AgingReport({
+  loanBookAddress,
+  bearerToken,
+  clearBearerToken,
+}: {
+  loanBookAddress: string;
+  bearerToken: string;
+  clearBearerToken: (reason?: string) => void;
+}) {
+  const [horizonDays, setHorizonDays] = useState(30);
+
+  const {
+    data: stagedLoanBook,
+    isLoading: isStagedLoading,
+    error: stagedError,
+  } = useStagedLoanBook(loanBookAddress, bearerToken);
+  const { delinquency, isLoading, isFetching, error } = useLoanDelinquency({
+    loanBookAddress,
+  });
+
+  useEffect(() => {
+    if (isConfigManagerAuthError(stagedError)) {
+      clearBearerToken(
+        "The config manager rejected this token. Please enter a new one."
+      );
+    }
+  }, [stagedError, clearBearerToken]);
+
+  const dpdDefault = stagedLoanBook?.dpd_default ?? DEFAULT_DPD_DEFAULT;
+  const daysInYear = stagedLoanBook?.days_in_year ?? DEFAULT_DAYS_IN_YEAR;
+  const lateFeeConfig: DelinquentLinearAccrualLateFee | undefined =
+    stagedLoanBook?.late_fee_config ?? undefined;
+
+  const bucketDefinitions = useMemo(
+    () => buildAgingBuckets(dpdDefault),
+    [dpdDefault]
+  );
+
+  const rows = useMemo((): AgingRow[] => {
+    if (!delinquency) return [];
+    const { asOfUs } = delinquency;
+    const horizonUs = asOfUs + horizonDays * DAY_US;
+    return delinquency.loans
+      .map((loan) => {
+        const bucket = bucketDefinitions.find(
+          (b) =>
+            loan.daysPastDue >= b.minDays &&
+            (b.maxDays === undefined || loan.daysPastDue <= b.maxDays)
+        );
+        if (!lateFeeConfig) {
+          return { loan, bucketLabel: bucket?.label ?? "" };
+        }
+        // Project the increase over the horizon on top of what is already
+        // accrued on chain, since earlier late fees may have been paid
+        const accruedNow = projectLinearAccrualLateFee(
+          loan.paymentSchedule,
+          lateFeeConfig,
+          asOfUs
+        );
+        const accruedAtHorizon = projectLinearAccrualLateFee(
+          loan.paymentSchedule,
+          lateFeeConfig,
+          horizonUs
+        );
+        return {
+          loan,
+          bucketLabel: bucket?.label ?? "",
+          lateFeeStartUs:
+            Number(loan.currentInstallment.time_due_us) +
+            lateFeeConfig.grace_period_micros,
+          projectedLateFee:
+            (loan.lateFeeAccrued ?? accruedNow) +
+            (accruedAtHorizon - accruedNow),
+        };
+      })
+      .sort((a, b) => b.loan.daysPastDue - a.loan.daysPastDue);
+  }, [delinquency, bucketDefinitions, lateFeeConfig, horizonDays]);
+
+  const buckets = useMemo(() => {
+    const principalBuckets = bucketByDaysPastDue(
+      rows,
+      (row) => row.loan.daysPastDue,
+      (row) => row.loan.principalRemaining,
+      bucketDefinitions
+    );
+    return principalBuckets.map((bucket) => {
+      const bucketRows = rows.filter((row) => row.bucketLabel === bucket.label);
+      return {
+        ...bucket,
+        lateFeeAccrued: bucketRows.reduce(
+          (sum, row) => sum + (row.loan.lateFeeAccrued ?? BigInt(0)),
+          BigInt(0)
+        ),
+        projectedLateFee: bucketRows.reduce(
+          (sum, row) => sum + (row.projectedLateFee ?? BigInt(0)),
+          BigInt(0)
+        ),
+      };
+    });
+  }, [rows, bucketDefinitions]);
+
+  const totalPrincipal = rows.reduce(
+    (sum, row) => sum + row.loan.principalRemaining,
+    BigInt(0)
+  );
+
+  const decimals = delinquency?.decimals ?? 6;
+  const symbol = delinquency?.symbol ?? "";
+  const formatAmount = (amount: bigint) =>
+    `${formatTokenAmount(amount, decimals)} ${symbol}`;
+
+  const handleExport = () => {
+    downloadFile(
+      `dpd-aging-${loanBookAddress.slice(0, 10)}-${format(
+        new Date(),
+        "yyyy-MM-dd"
+      )}.csv`,
+      agingRowsToCsv(rows, decimals),
+      "text/csv"
+    );
+  };
+
+  const ratePerPeriod = lateFeeConfig
+    ? lateFeeConfig.accrual_per_period_numerator /
+      lateFeeConfig.accrual_per_period_denominator
+    : undefined;
+  const periodsPerYear = lateFeeConfig
+    ? (daysInYear * DAY_US) / lateFeeConfig.accrual_period_micros
+    : undefined;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Delinquency Aging</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {loanBookAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {!isStagedLoading && !stagedLoanBook && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            No staged config could be loaded for this loan book
+            {stagedError ? ` (${stagedError.message})` : ""}. Using a default
+            of {DEFAULT_DPD_DEFAULT} DPD and {DEFAULT_DAYS_IN_YEAR} days per
+            year; late fee projections are unavailable.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Configuration
+            {stagedLoanBook && <Badge variant="secondary">Staged config</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <ConfigValue label="Default Threshold" value={`${dpdDefault} DPD`} />
+            <ConfigValue label="Days in Year" value={String(daysInYear)} />
+            {lateFeeConfig && ratePerPeriod !== undefined ? (
+              <>
+                <ConfigValue
+                  label="Grace Period"
+                  value={formatDays(lateFeeConfig.grace_period_micros)}
+                />
+                <ConfigValue
+                  label="Accrual Period"
+                  value={formatDays(lateFeeConfig.accrual_period_micros)}
+                />
+                <ConfigValue
+                  label="Rate per Period"
+                  value={`${(ratePerPeriod * 100).toFixed(4)}% of principal`}
+                />
+                <ConfigValue
+                  label="Max Periods"
+                  value={String(lateFeeConfig.max_periods)}
+                />
+                <ConfigValue
+                  label="Annualized Rate"
+                  value={`${(ratePerPeriod * periodsPerYear! * 100).toFixed(2)}%`}
+                />
+              </>
+            ) : (
+              <ConfigValue label="Late Fees" value="Not configured" />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="h-64 rounded-lg bg-muted animate-pulse" />
+      ) : error ? (
+        <div className="text-red-500">
+          Error loading loans: {error.message}
+        </div>
+      ) : (
+        <>
+          <div className="flex items-end justify-between gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="projection-horizon">Project late fees to</Label>
+              <Select
+                value={String(horizonDays)}
+                onValueChange={(value) => setHorizonDays(Number(value))}
+                disabled={!lateFeeConfig}
+              >
+                <SelectTrigger id="projection-horizon" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECTION_HORIZONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 0 ? "Today" : `${days} days from now`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={rows.length === 0}
+            >
+              <Download />
+              Export CSV
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Aging Buckets</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted">
+                    <tr className="text-left">
+                      <th className="p-2">Bucket</th>
+                      <th className="p-2 text-right">Loans</th>
+                      <th className="p-2 text-right">Principal</th>
+                      <th className="p-2 text-right">% of Principal</th>
+                      <th className="p-2 text-right">Late Fees Accrued</th>
+                      <th className="p-2 text-right">Projected Late Fees</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {buckets.map((bucket) => (
+                      <tr
+                        key={bucket.label}
+                        className={cn(
+                          "border-t",
+                          bucket.maxDays === undefined &&
+                            bucket.loanCount > 0 &&
+                            "bg-red-50 dark:bg-red-950"
+                        )}
+                      >
+                        <td className="p-2 font-medium">{bucket.label}</td>
+                        <td className="p-2 text-right">{bucket.loanCount}</td>
+                        <td className="p-2 text-right">
+                          {formatAmount(bucket.outstanding)}
+                        </td>
+                        <td className="p-2 text-right">
+                          {totalPrincipal > BigInt(0)
+                            ? `${(
+                                Number(
+                                  (bucket.outstanding * BigInt(10000)) /
+                                    totalPrincipal
+                                ) / 100
+                              ).toFixed(2)}%`
+                            : "—"}
+                        </td>
+                        <td className="p-2 text-right">
+                          {formatAmount(bucket.lateFeeAccrued)}
+                        </td>
+                        <td className="p-2 text-right">
+                          {lateFeeConfig
+                            ? formatAmount(bucket.projectedLateFee)
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {rows.length} outstanding loans
+                {isFetching && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    Refreshing...
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {rows.length === 0 ? (
+                <div className="text-muted-foreground">
+                  No outstanding loans in this loan book.
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr className="text-left">
+                        <th className="p-2">Loan</th>
+                        <th className="p-2">Borrower</th>
+                        <th className="p-2">Bucket</th>
+                        <th className="p-2">Current Installment</th>
+                        <th className="p-2 text-right">Principal Remaining</th>
+                        <th className="p-2 text-right">Late Fee Accrued</th>
+                        <th className="p-2">Late Fee Starts</th>
+                        <th className="p-2 text-right">Projected Late Fee</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr key={row.loan.loanAddress} className="border-t">
+                          <td
+                            className="p-2 font-mono"
+                            title={row.loan.loanAddress}
+                          >
+                            {shortenAddress(row.loan.loanAddress)}
+                          </td>
+                          <td
+                            className="p-2 font-mono"
+                            title={row.loan.borrowerAddress}
+                          >
+                            {shortenAddress(row.loan.borrowerAddress)}
+                          </td>
+                          <td className="p-2">
+                            <div>{row.bucketLabel}</div>
+                            {row.loan.daysPastDue > 0 && (
+                              <div className="text-muted-foreground">
+                                {row.loan.daysPastDue} days past due
+                              </div>
+                            )}
+                          </td>
+                          <td className="p-2">
+                            <div>{formatAmount(installmentTotal(row.loan))}</div>
+                            <div className="text-muted-foreground">
+                              Due{" "}
+                              {formatDateUs(
+                                Number(row.loan.currentInstallment.time_due_us)
+                              )}
+                            </div>
+                          </td>
+                          <td className="p-2 text-right">
+                            {formatAmount(row.loan.principalRemaining)}
+                          </td>
+                          <td className="p-2 text-right">
+                            {row.loan.lateFeeAccrued !== undefined
+                              ? formatAmount(row.loan.lateFeeAccrued)
+                              : "—"}
+                          </td>
+                          <td className="p-2">
+                            {formatDateUs(row.lateFeeStartUs)}
+                          </td>
+                          <td className="p-2 text-right">
+                            {row.projectedLateFee !== undefined
+                              ? formatAmount(row.projectedLateFee)
+                              : "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+function DelinquencyAgingContent() {
+  const searchParams = useSearchParams();
+  const loanBookAddress = searchParams.get("loan_book");
+
+  if (!loanBookAddress) {
+    return (
+      <ConfigPrompt
+        missingFields={["loan_book"]}
+        pageTitle="Delinquency Aging"
+      />
+    );
+  }
+
+  return (
+    <BearerTokenGate>
+      {(bearerToken, clearBearerToken) => (
+        <AgingReport
+          loanBookAddress={loanBookAddress}
+          bearerToken={bearerToken}
+          clearBearerToken={clearBearerToken}
+        />
+      )}
+    </BearerTokenGate>
+  );
+}
+
+export default function DelinquencyAgingPage() {
+  return (
+    <Suspense fallback={<div>Loading delinquency aging report...</div>}>
+      <DelinquencyAgingContent />
+    </Suspense>
+  );
+}
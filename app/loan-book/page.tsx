@@ -0,0 +1,388 @@
+"use client";
+
+import { useMemo, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { format, formatDistanceToNowStrict } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import {
+  PortfolioLoan,
+  PortfolioLoanStatus,
+  useLoanBookPortfolio,
+} from "@/lib/hooks/use-loan-book-portfolio";
+import { formatTokenAmount } from "@/lib/utils/token";
+import { cn, shortenAddress } from "@/lib/utils";
+
+const STATUS_LABELS: Record<PortfolioLoanStatus, string> = {
+  pending: "Pending",
+  active: "Active",
+  paid_off: "Paid Off",
+};
+
+function formatDateUs(timestampUs?: number) {
+  return timestampUs
+    ? format(new Date(timestampUs / 1000), "MMM d, yyyy")
+    : "—";
+}
+
+function LoanStatusBadge({ loan }: { loan: PortfolioLoan }) {
+  if (loan.status === "active" && loan.daysPastDue > 0) {
+    return (
+      <Badge
+        className={cn(
+          "text-white",
+          loan.daysPastDue > 30 ? "bg-red-600" : "bg-orange-500"
+        )}
+      >
+        {loan.daysPastDue} DPD
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant={loan.status === "active" ? "default" : "secondary"}>
+      {STATUS_LABELS[loan.status]}
+    </Badge>
+  );
+}
+
+function SummaryCard({
+  title,
+  value,
+  description,
+}: {
+  title: string;
+  value: string;
+  description?: string;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        {description && (
+          <p className="text-xs text-muted-foreground mt-1">{description}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LoanBookPortfolioContent() {
+  const searchParams = useSearchParams();
+  const loanBookAddress = searchParams.get("loan_book");
+
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<
+    PortfolioLoanStatus | "delinquent" | "all"
+  >("active");
+
+  const { portfolio, isLoading, isFetching, error } = useLoanBookPortfolio({
+    loanBookAddress: loanBookAddress || undefined,
+  });
+
+  const filteredLoans = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (portfolio?.loans ?? [])
+      .filter((loan) => {
+        if (statusFilter === "delinquent") {
+          if (loan.status !== "active" || loan.daysPastDue === 0) return false;
+        } else if (statusFilter !== "all" && loan.status !== statusFilter) {
+          return false;
+        }
+        return (
+          !query ||
+          loan.loanAddress.toLowerCase().includes(query) ||
+          loan.borrowerAddress?.toLowerCase().includes(query)
+        );
+      })
+      .sort(
+        (a, b) =>
+          b.daysPastDue - a.daysPastDue ||
+          (a.nextInstallment && b.nextInstallment
+            ? Number(a.nextInstallment.time_due_us) -
+              Number(b.nextInstallment.time_due_us)
+            : 0)
+      );
+  }, [portfolio, search, statusFilter]);
+
+  if (!loanBookAddress) {
+    return (
+      <ConfigPrompt
+        missingFields={["loan_book"]}
+        pageTitle="Loan Book Portfolio"
+      />
+    );
+  }
+
+  const formatAmount = (amount: bigint) =>
+    `${formatTokenAmount(amount, portfolio?.decimals ?? 6)} ${
+      portfolio?.symbol ?? ""
+    }`;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Loan Book Portfolio</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {loanBookAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="h-28 rounded-lg bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-red-500">
+          Error loading loan book: {error.message}
+        </div>
+      ) : portfolio ? (
+        <>
+          {portfolio.mixedTokens && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Loans in this book use more than one token. Totals are shown in{" "}
+                {portfolio.symbol} and include amounts in other tokens as-is.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <SummaryCard
+              title="Principal Outstanding"
+              value={formatAmount(portfolio.totalPrincipalOutstanding)}
+              description={`${portfolio.activeLoanCount} active of ${portfolio.loans.length} loans`}
+            />
+            <SummaryCard
+              title="Debt Outstanding"
+              value={formatAmount(portfolio.totalDebtOutstanding)}
+              description="Principal, interest and fees"
+            />
+            <SummaryCard
+              title="Weighted Avg. Tenor"
+              value={
+                portfolio.weightedAverageTenorDays !== undefined
+                  ? `${Math.round(portfolio.weightedAverageTenorDays)} days`
+                  : "—"
+              }
+              description="Remaining, weighted by principal"
+            />
+            <SummaryCard
+              title="Late Fees Accrued"
+              value={formatAmount(portfolio.totalLateFees)}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Delinquency</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {portfolio.delinquencyBuckets.map((bucket, i) => {
+                  const share =
+                    portfolio.totalPrincipalOutstanding > BigInt(0)
+                      ? Number(
+                          (bucket.outstanding * BigInt(10000)) /
+                            portfolio.totalPrincipalOutstanding
+                        ) / 100
+                      : 0;
+                  return (
+                    <div
+                      key={bucket.label}
+                      className={cn(
+                        "rounded-lg border p-3",
+                        i > 0 && bucket.loanCount > 0 && "border-orange-300"
+                      )}
+                    >
+                      <div className="text-xs text-muted-foreground">
+                        {bucket.label}
+                      </div>
+                      <div className="text-lg font-semibold">
+                        {formatAmount(bucket.outstanding)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {bucket.loanCount} loans · {share.toFixed(2)}%
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {filteredLoans.length} of {portfolio.loans.length} loans
+                {isFetching && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    Refreshing...
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="loan-search">Search</Label>
+                  <Input
+                    id="loan-search"
+                    placeholder="Loan or borrower address"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="loan-status">Status</Label>
+                  <Select
+                    value={statusFilter}
+                    onValueChange={(value) =>
+                      setStatusFilter(value as typeof statusFilter)
+                    }
+                  >
+                    <SelectTrigger id="loan-status" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All loans</SelectItem>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="delinquent">Past due</SelectItem>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="paid_off">Paid off</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {filteredLoans.length === 0 ? (
+                <div className="text-muted-foreground">
+                  No loans match the current filters.
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr className="text-left">
+                        <th className="p-2">Loan</th>
+                        <th className="p-2">Borrower</th>
+                        <th className="p-2">Status</th>
+                        <th className="p-2 text-right">Principal Remaining</th>
+                        <th className="p-2 text-right">Debt Remaining</th>
+                        <th className="p-2">Next Installment</th>
+                        <th className="p-2 text-right">Late Fee</th>
+                        <th className="p-2">Maturity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredLoans.map((loan) => {
+                        const next = loan.nextInstallment;
+                        return (
+                          <tr key={loan.loanAddress} className="border-t">
+                            <td
+                              className="p-2 font-mono"
+                              title={loan.loanAddress}
+                            >
+                              {shortenAddress(loan.loanAddress)}
+                            </td>
+                            <td
+                              className="p-2 font-mono"
+                              title={loan.borrowerAddress}
+                            >
+                              {loan.borrowerAddress
+                                ? shortenAddress(loan.borrowerAddress)
+                                : "—"}
+                            </td>
+                            <td className="p-2">
+                              <LoanStatusBadge loan={loan} />
+                            </td>
+                            <td className="p-2 text-right">
+                              {formatAmount(loan.principalRemaining)}
+                            </td>
+                            <td className="p-2 text-right">
+                              {formatAmount(loan.debtRemaining)}
+                            </td>
+                            <td className="p-2">
+                              {next ? (
+                                <>
+                                  <div>
+                                    {formatAmount(
+                                      BigInt(next.principal) +
+                                        BigInt(next.interest) +
+                                        BigInt(next.fee)
+                                    )}
+                                  </div>
+                                  <div className="text-muted-foreground">
+                                    {formatDateUs(Number(next.time_due_us))}
+                                  </div>
+                                </>
+                              ) : (
+                                "—"
+                              )}
+                            </td>
+                            <td className="p-2 text-right">
+                              {loan.lateFeeAccrued !== undefined
+                                ? formatAmount(loan.lateFeeAccrued)
+                                : "—"}
+                            </td>
+                            <td className="p-2">
+                              <div>{formatDateUs(loan.maturityTimeUs)}</div>
+                              {loan.status === "active" &&
+                                loan.maturityTimeUs && (
+                                  <div className="text-muted-foreground">
+                                    {formatDistanceToNowStrict(
+                                      new Date(loan.maturityTimeUs / 1000),
+                                      { addSuffix: true }
+                                    )}
+                                  </div>
+                                )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function LoanBookPortfolioPage() {
+  return (
+    <Suspense fallback={<div>Loading loan book portfolio...</div>}>
+      <LoanBookPortfolioContent />
+    </Suspense>
+  );
+}
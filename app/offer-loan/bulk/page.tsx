@@ -0,0 +1,578 @@
+"use client";
+
+import { useEffect, useMemo, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { toast } from "sonner";
+import { CheckCircle, Download, RotateCcw, Upload } from "lucide-react";
+import {
+  StepperTransactionResult,
+  TransactionStepper,
+} from "@/components/transaction-stepper";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { createAptosClient } from "@/lib/aptos-service";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useLoanBookConfig } from "@/lib/hooks/use-loan-book-config";
+import {
+  downloadFile,
+  escapeCsvValue,
+  shortenAddress,
+  stringToHexBytes,
+} from "@/lib/utils";
+import { formatTokenAmount } from "@/lib/utils/token";
+import {
+  LOAN_TAPE_EXAMPLE,
+  LoanTapeRow,
+  parseLoanTape,
+} from "@/lib/utils/loan-tape";
+
+const DEFAULT_TOKEN_DECIMALS = 8;
+// loan_exists views are checked a few at a time to stay under rate limits
+const EXISTS_CHECK_BATCH_SIZE = 10;
+
+type BulkLoanStatus =
+  | "invalid"
+  | "duplicate"
+  | "ready"
+  | "submitted"
+  | "created"
+  | "failed";
+
+interface BulkLoanRow extends LoanTapeRow {
+  status: BulkLoanStatus;
+  txHash?: string;
+  message?: string;
+}
+
+const STATUS_LABELS: Record<BulkLoanStatus, string> = {
+  invalid: "Invalid",
+  duplicate: "Already exists",
+  ready: "Ready",
+  submitted: "Submitted",
+  created: "Created",
+  failed: "Failed",
+};
+
+function StatusBadge({ status }: { status: BulkLoanStatus }) {
+  const variant =
+    status === "created"
+      ? "default"
+      : status === "invalid" || status === "failed"
+      ? "destructive"
+      : status === "duplicate"
+      ? "outline"
+      : "secondary";
+  return <Badge variant={variant}>{STATUS_LABELS[status]}</Badge>;
+}
+
+function reportToCsv(rows: BulkLoanRow[], decimals: number): string {
+  const header = [
+    "row",
+    "seed",
+    "borrower",
+    "principal",
+    "installments",
+    "status",
+    "tx_hash",
+    "message",
+  ];
+  const lines = rows.map((row) => [
+    String(row.rowNumber),
+    row.seed,
+    row.borrower,
+    formatTokenAmount(row.principal, decimals),
+    String(row.schedule.length),
+    row.status,
+    row.txHash ?? "",
+    row.message ?? row.errors.join("; "),
+  ]);
+  return [header, ...lines]
+    .map((line) => line.map(escapeCsvValue).join(","))
+    .join("\n");
+}
+
+function BulkOfferLoanContent() {
+  const searchParams = useSearchParams();
+  const network = useEffectiveNetwork();
+
+  const [loanBookAddress, setLoanBookAddress] = useState("");
+  const [decimalsInput, setDecimalsInput] = useState(
+    String(DEFAULT_TOKEN_DECIMALS)
+  );
+  const [csvText, setCsvText] = useState("");
+  const [rows, setRows] = useState<BulkLoanRow[]>([]);
+  // Rows handed to the stepper, one offer_loan_simple step each. Kept apart
+  // from rows so status updates do not rebuild the steps mid-flow.
+  const [queue, setQueue] = useState<BulkLoanRow[]>([]);
+  const [stepperKey, setStepperKey] = useState(0);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const {
+    loanBookConfig,
+    isLoading: isLoadingConfig,
+    error: configError,
+  } = useLoanBookConfig({ loanBookAddress: loanBookAddress || undefined });
+
+  useEffect(() => {
+    const loanBookParam = searchParams.get("loan_book");
+    if (loanBookParam) {
+      setLoanBookAddress(loanBookParam);
+    }
+  }, [searchParams]);
+
+  const decimals = parseInt(decimalsInput, 10);
+  const decimalsValid = Number.isInteger(decimals) && decimals >= 0;
+
+  const updateRows = (
+    rowNumbers: number[],
+    update: Partial<Pick<BulkLoanRow, "status" | "txHash" | "message">>
+  ) => {
+    setRows((current) =>
+      current.map((row) =>
+        rowNumbers.includes(row.rowNumber) ? { ...row, ...update } : row
+      )
+    );
+  };
+
+  /**
+   * Marks rows whose seed already has a loan in the book as duplicates, so
+   * offer_loan_simple is not sent for them. Rows whose check fails are
+   * marked invalid rather than queued blind.
+   */
+  const checkExistingLoans = async (
+    candidates: BulkLoanRow[]
+  ): Promise<BulkLoanRow[]> => {
+    if (!loanBookConfig) return candidates;
+    const client = createAptosClient(network.name);
+    const checked: BulkLoanRow[] = [];
+    for (let i = 0; i < candidates.length; i += EXISTS_CHECK_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + EXISTS_CHECK_BATCH_SIZE);
+      const results = await Promise.all(
+        batch.map(async (row): Promise<BulkLoanRow> => {
+          try {
+            const [exists] = await client.view({
+              payload: {
+                function: `${loanBookConfig.moduleAddress}::hybrid_loan_book::loan_exists`,
+                typeArguments: [],
+                functionArguments: [
+                  loanBookConfig.configAddress,
+                  stringToHexBytes(row.seed),
+                ],
+              },
+            });
+            return exists
+              ? {
+                  ...row,
+                  status: "duplicate",
+                  message: "A loan with this seed already exists",
+                }
+              : { ...row, status: "ready", message: undefined };
+          } catch (error) {
+            return {
+              ...row,
+              status: "invalid",
+              message: `Could not check loan_exists: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            };
+          }
+        })
+      );
+      checked.push(...results);
+    }
+    return checked;
+  };
+
+  const startQueue = (checked: BulkLoanRow[]) => {
+    setQueue(checked.filter((row) => row.status === "ready"));
+    setStepperKey((key) => key + 1);
+  };
+
+  const handleValidate = async () => {
+    if (!decimalsValid) return;
+    const parsed = parseLoanTape(csvText, decimals).map(
+      (row): BulkLoanRow => ({
+        ...row,
+        status: row.errors.length > 0 ? "invalid" : "ready",
+      })
+    );
+    if (parsed.length === 0) {
+      toast.error("No loans found", {
+        description: "Paste a header row followed by one loan per row",
+      });
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      const checked = await checkExistingLoans(
+        parsed.filter((row) => row.status === "ready")
+      );
+      const merged = parsed.map(
+        (row) => checked.find((c) => c.rowNumber === row.rowNumber) ?? row
+      );
+      setRows(merged);
+      startQueue(merged);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    const failed = rows.filter((row) => row.status === "failed");
+    setIsChecking(true);
+    try {
+      // A failed confirmation may still have landed, so check again
+      const checked = await checkExistingLoans(failed);
+      setRows((current) =>
+        current.map(
+          (row) => checked.find((c) => c.rowNumber === row.rowNumber) ?? row
+        )
+      );
+      startQueue(checked);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+  };
+
+  const handleTransactionSubmitted = async ({
+    fromStep,
+    toStep,
+    txHash,
+  }: StepperTransactionResult) => {
+    const rowNumbers = queue
+      .slice(fromStep, toStep)
+      .map((row) => row.rowNumber);
+    if (!txHash) return;
+    updateRows(rowNumbers, {
+      status: "submitted",
+      txHash,
+      message: undefined,
+    });
+
+    try {
+      const client = createAptosClient(network.name);
+      const txn = await client.waitForTransaction({
+        transactionHash: txHash,
+        options: { checkSuccess: false },
+      });
+      if ("success" in txn && !txn.success) {
+        updateRows(rowNumbers, { status: "failed", message: txn.vm_status });
+      } else {
+        updateRows(rowNumbers, { status: "created" });
+      }
+    } catch (error) {
+      updateRows(rowNumbers, {
+        status: "failed",
+        message: `Could not confirm transaction: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  };
+
+  const handleTransactionFailed = ({
+    fromStep,
+    toStep,
+    error,
+  }: StepperTransactionResult) => {
+    updateRows(
+      queue.slice(fromStep, toStep).map((row) => row.rowNumber),
+      { status: "failed", message: error }
+    );
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      `loan-origination-${loanBookAddress.slice(0, 10)}-${format(
+        new Date(),
+        "yyyy-MM-dd"
+      )}.csv`,
+      reportToCsv(rows, decimals),
+      "text/csv"
+    );
+  };
+
+  const steps = useMemo(() => {
+    if (!loanBookConfig) return [];
+    return queue.map((row) => ({
+      title: `Offer ${row.seed}`,
+      description: `Offer a loan of ${formatTokenAmount(
+        row.principal,
+        decimals
+      )} to ${shortenAddress(row.borrower)} in ${
+        row.schedule.length
+      } installment(s)`,
+      moduleAddress: loanBookConfig.moduleAddress,
+      moduleName: "hybrid_loan_book",
+      functionName: "offer_loan_simple",
+      args: [
+        loanBookConfig.configAddress,
+        stringToHexBytes(row.seed),
+        row.borrower,
+        row.schedule.map((p) => p.time_due_us.toString()),
+        row.schedule.map((p) => p.principal.toString()),
+        row.schedule.map((p) => p.interest.toString()),
+        row.schedule.map((p) => p.fee.toString()),
+        row.paymentOrderBitmap.toString(),
+        null, // fa_metadata
+        null, // start_time_us
+        null, // risk_score
+      ] as unknown as EntryFunctionArgumentTypes[],
+    }));
+  }, [queue, loanBookConfig, decimals]);
+
+  const statusCounts = rows.reduce<Partial<Record<BulkLoanStatus, number>>>(
+    (counts, row) => ({ ...counts, [row.status]: (counts[row.status] ?? 0) + 1 }),
+    {}
+  );
+
+  if (!loanBookAddress) {
+    return (
+      <ConfigPrompt
+        missingFields={["loan_book"]}
+        pageTitle="Bulk Loan Origination"
+        onConfigured={(values) => {
+          if (values.loan_book) {
+            setLoanBookAddress(values.loan_book);
+          }
+        }}
+      />
+    );
+  }
+
+  if (isLoadingConfig) {
+    return <div>Loading loan book configuration...</div>;
+  }
+
+  if (configError) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">
+              Error Loading Loan Book
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>
+              Failed to fetch loan book configuration: {configError.message}
+            </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Loan Book Address: {loanBookAddress}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Bulk Loan Origination</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {loanBookAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Loan Tape</CardTitle>
+          <CardDescription>
+            One loan per row. Give each loan its schedule as ;-separated
+            due_dates, principal, interest and fee lists, or generator
+            parameters: amount, apr, payments, frequency, type and
+            start_date. Optional columns are days_in_year, fee_per_payment
+            and payment_order (pif, ifp or fip).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4 items-end">
+            <div className="w-40 space-y-2">
+              <Label htmlFor="token-decimals">Token Decimals</Label>
+              <Input
+                id="token-decimals"
+                type="number"
+                min={0}
+                value={decimalsInput}
+                onChange={(e) => setDecimalsInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loan-tape-file">Upload CSV</Label>
+              <Input
+                id="loan-tape-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFileUpload(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="loan-tape">Or paste CSV</Label>
+            <textarea
+              id="loan-tape"
+              className="w-full min-h-[160px] p-3 border rounded-md bg-transparent text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring font-mono"
+              placeholder={LOAN_TAPE_EXAMPLE}
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleValidate}
+            disabled={!csvText.trim() || !decimalsValid || isChecking}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {isChecking ? "Checking loans..." : "Validate Loan Tape"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div className="space-y-2">
+              <CardTitle>Report</CardTitle>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_LABELS) as BulkLoanStatus[])
+                  .filter((status) => statusCounts[status])
+                  .map((status) => (
+                    <Badge key={status} variant="outline">
+                      {STATUS_LABELS[status]}: {statusCounts[status]}
+                    </Badge>
+                  ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {statusCounts.failed ? (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleRetryFailed}
+                  disabled={isChecking}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Retry Failed Rows
+                </Button>
+              ) : null}
+              <Button variant="outline" size="sm" onClick={handleExport}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Row</th>
+                    <th className="px-3 py-2 text-left">Seed</th>
+                    <th className="px-3 py-2 text-left">Borrower</th>
+                    <th className="px-3 py-2 text-right">Principal</th>
+                    <th className="px-3 py-2 text-right">Installments</th>
+                    <th className="px-3 py-2 text-left">Status</th>
+                    <th className="px-3 py-2 text-left">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.rowNumber} className="border-t align-top">
+                      <td className="px-3 py-2">{row.rowNumber}</td>
+                      <td className="px-3 py-2 font-mono">{row.seed}</td>
+                      <td className="px-3 py-2 font-mono">
+                        {row.borrower ? shortenAddress(row.borrower) : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatTokenAmount(row.principal, decimals)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {row.schedule.length}
+                      </td>
+                      <td className="px-3 py-2">
+                        <StatusBadge status={row.status} />
+                      </td>
+                      <td className="px-3 py-2 space-y-1">
+                        {row.errors.map((error) => (
+                          <p key={error} className="text-destructive">
+                            {error}
+                          </p>
+                        ))}
+                        {row.message && (
+                          <p className="text-muted-foreground break-all">
+                            {row.message}
+                          </p>
+                        )}
+                        {row.txHash && (
+                          <p className="font-mono text-muted-foreground">
+                            {shortenAddress(row.txHash)}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {steps.length > 0 && (
+        <TransactionStepper
+          key={stepperKey}
+          steps={steps}
+          hideAtomicMode
+          onTransactionSubmitted={handleTransactionSubmitted}
+          onTransactionFailed={handleTransactionFailed}
+          onComplete={() => {
+            toast.success("Loan tape submitted", {
+              description: `${steps.length} loan offer(s) sent; confirmations appear in the report.`,
+            });
+          }}
+        />
+      )}
+
+      {rows.length > 0 && steps.length === 0 && !statusCounts.failed && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CheckCircle className="h-4 w-4" />
+          No loans left to submit.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BulkOfferLoanPage() {
+  return (
+    <Suspense fallback={<div>Loading bulk origination page...</div>}>
+      <BulkOfferLoanContent />
+    </Suspense>
+  );
+}
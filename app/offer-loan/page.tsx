@@ -26,7 +26,16 @@ import {
 import { DateTimeInput } from "@/components/date-time-input";
 import { TokenAmountInput } from "@/components/token-amount-input";
 import { ConfigPrompt } from "@/components/config-prompt";
+import { AmortizationScheduleGenerator } from "@/components/amortization-schedule-generator";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useLoanBookConfig } from "@/lib/hooks/use-loan-book-config";
+import { stringToHexBytes } from "@/lib/utils";
+import {
+  PAYMENT_ORDER_BITMAPS,
+  ScheduleInterval,
+  suggestPaymentOrder,
+  validatePaymentSchedule,
+} from "@/lib/utils/amortization";
 
 const TOKEN_DECIMALS = 8;
 const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -39,21 +48,10 @@ interface PaymentInterval {
   fee: bigint;
 }
 
-function stringToHexBytes(str: string): string {
-  const encoder = new TextEncoder();
-  const byteArray = encoder.encode(str);
-  return (
-    "0x" +
-    Array.from(byteArray)
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
-  );
-}
-
 const paymentOrderOptions = [
-  { label: "Principal, Interest, Fee", value: 9 },
-  { label: "Interest, Fee, Principal", value: 36 },
-  { label: "Fee, Interest, Principal", value: 24 },
+  { label: "Principal, Interest, Fee", value: PAYMENT_ORDER_BITMAPS.pif },
+  { label: "Interest, Fee, Principal", value: PAYMENT_ORDER_BITMAPS.ifp },
+  { label: "Fee, Interest, Principal", value: PAYMENT_ORDER_BITMAPS.fip },
 ];
 
 function OfferLoanContent() {
@@ -66,6 +64,8 @@ function OfferLoanContent() {
   const [paymentOrderBitmap, setPaymentOrderBitmap] = useState<number>(
     paymentOrderOptions[0].value
   ); // Default to PIF
+  // Loan principal from the schedule generator, checked against the rows
+  const [expectedPrincipal, setExpectedPrincipal] = useState<bigint>();
 
   const [isLoading, setIsLoading] = useState(true);
 
@@ -99,6 +99,17 @@ function OfferLoanContent() {
     ]);
   };
 
+  const handleGenerateSchedule = (
+    schedule: ScheduleInterval[],
+    principal: bigint
+  ) => {
+    setPaymentSchedule(
+      schedule.map((interval) => ({ id: generateId(), ...interval }))
+    );
+    setPaymentOrderBitmap(suggestPaymentOrder(schedule));
+    setExpectedPrincipal(principal);
+  };
+
   const handleRemoveInterval = (id: string) => {
     setPaymentSchedule(
       paymentSchedule.filter((interval) => interval.id !== id)
@@ -136,6 +147,15 @@ function OfferLoanContent() {
     );
   };
 
+  const scheduleProblems =
+    paymentSchedule.length > 0
+      ? validatePaymentSchedule(
+          paymentSchedule,
+          expectedPrincipal,
+          TOKEN_DECIMALS
+        )
+      : [];
+
   const transactionArgs = () => {
     if (!loanBookConfig?.configAddress) return [];
     return [
@@ -232,6 +252,11 @@ function OfferLoanContent() {
         </CardContent>
       </Card>
 
+      <AmortizationScheduleGenerator
+        decimals={TOKEN_DECIMALS}
+        onGenerate={handleGenerateSchedule}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Loan Details</CardTitle>
@@ -315,6 +340,7 @@ function OfferLoanContent() {
                       onChange={(newValue) =>
                         handleIntervalChange(interval.id, "principal", newValue)
                       }
+                      initialValue={interval.principal}
                       decimals={TOKEN_DECIMALS}
                       placeholder="e.g., 1000.00000000"
                     />
@@ -325,6 +351,7 @@ function OfferLoanContent() {
                       onChange={(newValue) =>
                         handleIntervalChange(interval.id, "interest", newValue)
                       }
+                      initialValue={interval.interest}
                       decimals={TOKEN_DECIMALS}
                       placeholder="e.g., 50.00000000"
                     />
@@ -335,6 +362,7 @@ function OfferLoanContent() {
                       onChange={(newValue) =>
                         handleIntervalChange(interval.id, "fee", newValue)
                       }
+                      initialValue={interval.fee}
                       decimals={TOKEN_DECIMALS}
                       placeholder="e.g., 10.00000000"
                     />
@@ -351,6 +379,19 @@ function OfferLoanContent() {
         </CardFooter>
       </Card>
 
+      {scheduleProblems.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>Payment schedule needs attention</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {scheduleProblems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <TransactionStepper
         steps={steps.map((step) => ({ ...step, args: transactionArgs() }))} // Ensure args are fresh
         onComplete={() => {
@@ -0,0 +1,643 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+import {
+  StepperTransactionResult,
+  TransactionStepper,
+} from "@/components/transaction-stepper";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createAptosClient } from "@/lib/aptos-service";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useShareClasses } from "@/lib/hooks/use-share-classes";
+import {
+  PassthroughHolder,
+  usePassthroughPayouts,
+} from "@/lib/hooks/use-passthrough-payouts";
+import { useUserRoles } from "@/lib/hooks/use-user-roles";
+import { useWallet } from "@/lib/use-wallet";
+import { shortenAddress } from "@/lib/utils";
+import { addressVariants } from "@/lib/utils/events";
+import { formatTokenAmount } from "@/lib/utils/token";
+import {
+  chunkHolders,
+  SHARE_PAYOUT_POOLS,
+} from "@/lib/utils/passthrough-payout";
+
+// Owners per initiate_claim_for_many call, each claim walks every pool
+const HOLDERS_PER_CLAIM_TRANSACTION = 20;
+
+type OwnAction = "claim" | "opt-out";
+
+function hasPendingPayout(holder: PassthroughHolder) {
+  return holder.payouts.some(
+    (payout) => payout !== undefined && payout > BigInt(0)
+  );
+}
+
+function PayoutsContent() {
+  const searchParams = useSearchParams();
+  const network = useEffectiveNetwork();
+  const { account } = useWallet();
+  const facilityAddress = searchParams.get("facility");
+  const moduleAddress = searchParams.get("module") || "0x1";
+  const accountAddress = account?.address.toString();
+
+  const capTable = useShareClasses({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+  });
+  const [shareIndex, setShareIndex] = useState(0);
+  const share = capTable.data?.shares[shareIndex];
+
+  const { data, isLoading, error, refetch } = usePassthroughPayouts({
+    tokenAddress: share?.address,
+    moduleAddress,
+  });
+  const { roles } = useUserRoles({ tokenAddress: share?.address });
+
+  const [snapshotPools, setSnapshotPools] = useState<Set<number>>(
+    () => new Set()
+  );
+  const [distributing, setDistributing] = useState(false);
+  const [processedHolders, setProcessedHolders] = useState(0);
+  const [ownAction, setOwnAction] = useState<OwnAction>();
+  // Bumped to remount the steppers once their transactions land
+  const [stepperKey, setStepperKey] = useState(0);
+
+  if (!facilityAddress) {
+    return <ConfigPrompt missingFields={["facility"]} pageTitle="Payouts" />;
+  }
+
+  const tokenAddress = share?.address ?? "";
+  const holders = data?.holders ?? [];
+  const poolName = (index: number) =>
+    SHARE_PAYOUT_POOLS[index] ?? `Pool ${index}`;
+  const formatPayout = (value: bigint) =>
+    `${formatTokenAmount(value, data?.payoutDecimals ?? 6)} ${
+      data?.payoutSymbol ?? ""
+    }`;
+  const formatBalance = (value: bigint) =>
+    `${formatTokenAmount(value, data?.decimals ?? 8)} ${data?.symbol ?? ""}`;
+  const isAccount = (address: string) =>
+    !!accountAddress && addressVariants(accountAddress).includes(address);
+
+  // snapshot_ungated always snapshots every pool, so it is only used when the
+  // account cannot call snapshot_index
+  const snapshotUngated =
+    roles.tokenAdmin !== true && !!data?.supportsUngatedSnapshot;
+  const snapshotSteps = snapshotUngated
+    ? snapshotPools.size > 0
+      ? [
+          {
+            title: "Snapshot all pools",
+            description: "Anyone may snapshot this token",
+            moduleAddress,
+            moduleName: "passthrough_token",
+            functionName: "snapshot_ungated",
+            args: [tokenAddress] as unknown as EntryFunctionArgumentTypes[],
+          },
+        ]
+      : []
+    : Array.from(snapshotPools)
+        .sort()
+        .map((index) => ({
+          title: `Snapshot ${poolName(index)}`,
+          description: `${formatPayout(
+            data?.pools[index]?.unsnapshotted ?? BigInt(0)
+          )} becomes claimable`,
+          moduleAddress,
+          moduleName: "passthrough_token",
+          functionName: "snapshot_index",
+          args: [
+            tokenAddress,
+            index,
+          ] as unknown as EntryFunctionArgumentTypes[],
+        }));
+
+  // initiate_claim_for_many skips holders who opted out, unless the caller
+  // is the holder
+  const claimableHolders = holders.filter(
+    (holder) =>
+      hasPendingPayout(holder) &&
+      (!holder.optedOutAutoClaim || isAccount(holder.address))
+  );
+  const missingStores = claimableHolders.filter(
+    (holder) => !holder.hasPayoutStore
+  );
+  const claimChunks = chunkHolders(
+    claimableHolders.map((holder) => holder.address),
+    HOLDERS_PER_CLAIM_TRANSACTION
+  );
+  const distributionSteps = [
+    // A claim deposits into the owner's payout token primary store, which has
+    // to exist or the whole batch aborts
+    ...missingStores.map((holder) => ({
+      title: `Create payout store for ${shortenAddress(holder.address)}`,
+      description: "confirm_underlying_primary_store",
+      moduleAddress,
+      moduleName: "passthrough_token",
+      functionName: "confirm_underlying_primary_store",
+      args: [
+        tokenAddress,
+        holder.address,
+      ] as unknown as EntryFunctionArgumentTypes[],
+    })),
+    ...claimChunks.map((owners, i) => ({
+      title: `Claim for holders ${i * HOLDERS_PER_CLAIM_TRANSACTION + 1}-${
+        i * HOLDERS_PER_CLAIM_TRANSACTION + owners.length
+      }`,
+      description: `initiate_claim_for_many for ${owners.length} holder(s)`,
+      moduleAddress,
+      moduleName: "passthrough_token",
+      functionName: "initiate_claim_for_many",
+      args: [owners, tokenAddress] as unknown as EntryFunctionArgumentTypes[],
+    })),
+  ];
+
+  const ownHolder = holders.find((holder) => isAccount(holder.address));
+  const ownSteps =
+    ownAction === "claim"
+      ? [
+          {
+            title: "Claim payout",
+            description: "Claim every pool's payout to the connected wallet",
+            moduleAddress,
+            moduleName: "passthrough_token",
+            functionName: "claim_payout",
+            args: [tokenAddress] as unknown as EntryFunctionArgumentTypes[],
+          },
+        ]
+      : ownAction === "opt-out"
+      ? [
+          {
+            title: "Opt out of auto claims",
+            description: "Only the connected wallet can claim its payouts",
+            moduleAddress,
+            moduleName: "passthrough_token",
+            functionName: "opt_out_auto_claim",
+            args: [tokenAddress] as unknown as EntryFunctionArgumentTypes[],
+          },
+        ]
+      : [];
+
+  const waitAndRefetch = async (txHash: string) => {
+    await createAptosClient(network.name)
+      .waitForTransaction({
+        transactionHash: txHash,
+        options: { checkSuccess: false },
+      })
+      .catch((error) =>
+        console.error("Error waiting for payout transaction:", error)
+      );
+    await refetch();
+    setStepperKey((key) => key + 1);
+  };
+
+  const handleDistributionSubmitted = async ({
+    toStep,
+    txHash,
+    error,
+  }: StepperTransactionResult) => {
+    if (!txHash || error) return;
+    const claimStepsDone = Math.max(0, toStep - missingStores.length);
+    setProcessedHolders(
+      Math.min(
+        claimStepsDone * HOLDERS_PER_CLAIM_TRANSACTION,
+        claimableHolders.length
+      )
+    );
+    if (toStep < distributionSteps.length) return;
+    await waitAndRefetch(txHash);
+    setDistributing(false);
+  };
+
+  const distributionProgress =
+    claimableHolders.length > 0
+      ? (processedHolders / claimableHolders.length) * 100
+      : 0;
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Payouts</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {facilityAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {capTable.isLoading ? (
+        <div className="h-64 rounded-lg bg-muted animate-pulse" />
+      ) : capTable.error ? (
+        <div className="text-red-500">
+          Error loading share classes: {capTable.error.message}
+        </div>
+      ) : capTable.data?.shares.length === 0 ? (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            This facility has no share classes to pay out.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <div className="max-w-sm space-y-2">
+            <Label htmlFor="payout-share">Share Class</Label>
+            <Select
+              value={String(shareIndex)}
+              onValueChange={(value) => {
+                setShareIndex(Number(value));
+                setSnapshotPools(new Set());
+                setDistributing(false);
+                setOwnAction(undefined);
+              }}
+            >
+              <SelectTrigger id="payout-share" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {capTable.data?.shares.map((shareClass) => (
+                  <SelectItem
+                    key={shareClass.address}
+                    value={String(shareClass.index)}
+                  >
+                    {shareClass.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="h-64 rounded-lg bg-muted animate-pulse" />
+          ) : error ? (
+            <div className="text-red-500">
+              Error loading payouts: {error.message}
+            </div>
+          ) : data ? (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    Payout Pools
+                    {data.isUnlocked ? (
+                      <Badge variant="secondary">Unlocked</Badge>
+                    ) : (
+                      <Badge variant="outline">Whitelisted holders</Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {formatPayout(data.payoutBalance)} held by{" "}
+                    <span className="font-mono">
+                      {shortenAddress(data.tokenAddress)}
+                    </span>
+                    . Deposits become claimable once their pool is
+                    snapshotted, split by balance at snapshot time.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {roles.tokenAdmin === false &&
+                    !data.supportsUngatedSnapshot && (
+                      <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                          The connected wallet is not a token admin and this
+                          token does not support ungated snapshots.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  <div className="overflow-x-auto rounded-md border">
+                    <table className="w-full text-xs">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="px-3 py-2" />
+                          <th className="px-3 py-2 text-left">Pool</th>
+                          <th className="px-3 py-2 text-right">
+                            Awaiting Snapshot
+                          </th>
+                          <th className="px-3 py-2 text-right">Snapshots</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.pools.map((pool) => (
+                          <tr key={pool.index} className="border-t">
+                            <td className="px-3 py-2">
+                              <Checkbox
+                                checked={snapshotPools.has(pool.index)}
+                                disabled={pool.unsnapshotted === BigInt(0)}
+                                onCheckedChange={(checked) =>
+                                  setSnapshotPools((previous) => {
+                                    const next = new Set(previous);
+                                    if (checked) {
+                                      next.add(pool.index);
+                                    } else {
+                                      next.delete(pool.index);
+                                    }
+                                    return next;
+                                  })
+                                }
+                              />
+                            </td>
+                            <td className="px-3 py-2">
+                              {poolName(pool.index)}
+                            </td>
+                            <td className="px-3 py-2 text-right">
+                              {formatPayout(pool.unsnapshotted)}
+                            </td>
+                            <td className="px-3 py-2 text-right">
+                              {pool.snapshotCount}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {snapshotSteps.length > 0 && (
+                <TransactionStepper
+                  key={`snapshot-${stepperKey}`}
+                  flowId="snapshot"
+                  steps={snapshotSteps}
+                  // snapshot_ungated takes no signer, so it cannot be composed
+                  hideAtomicMode
+                  onTransactionSubmitted={async ({ toStep, txHash }) => {
+                    if (!txHash || toStep < snapshotSteps.length) return;
+                    setSnapshotPools(new Set());
+                    await waitAndRefetch(txHash);
+                  }}
+                  onComplete={() => {
+                    toast.success("Snapshot submitted", {
+                      description: "Holder payouts have been updated.",
+                    });
+                  }}
+                />
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Holders</CardTitle>
+                  <CardDescription>
+                    {holders.length} holder(s) found by the indexer
+                    {data.holderCount !== undefined &&
+                      `, ${data.holderCount} in the holder counter`}
+                    . Payouts are get_payout plus amounts carried over from
+                    transfers.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {data.holderCount !== undefined &&
+                    data.holderCount !== holders.length && (
+                      <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                          The holder counter and the indexer disagree; the
+                          indexer may be behind, so some holders may be
+                          missing below.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  {holders.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">
+                      No holders found.
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto rounded-md border">
+                      <table className="w-full text-xs">
+                        <thead className="bg-muted">
+                          <tr>
+                            <th className="px-3 py-2 text-left">Holder</th>
+                            <th className="px-3 py-2 text-right">Balance</th>
+                            {data.pools.map((pool) => (
+                              <th
+                                key={pool.index}
+                                className="px-3 py-2 text-right"
+                              >
+                                {poolName(pool.index)} Payout
+                              </th>
+                            ))}
+                            <th className="px-3 py-2 text-left">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {holders.map((holder) => (
+                            <tr key={holder.address} className="border-t">
+                              <td className="px-3 py-2 font-mono">
+                                {shortenAddress(holder.address)}
+                                {isAccount(holder.address) && (
+                                  <Badge variant="outline" className="ml-2">
+                                    You
+                                  </Badge>
+                                )}
+                              </td>
+                              <td className="px-3 py-2 text-right">
+                                {formatBalance(holder.balance)}
+                              </td>
+                              {holder.payouts.map((payout, index) => (
+                                <td
+                                  key={index}
+                                  className="px-3 py-2 text-right"
+                                >
+                                  {payout !== undefined
+                                    ? formatPayout(payout)
+                                    : "—"}
+                                </td>
+                              ))}
+                              <td className="px-3 py-2 space-x-1">
+                                {hasPendingPayout(holder) ? (
+                                  <Badge>Claimable</Badge>
+                                ) : (
+                                  <Badge variant="secondary">Claimed</Badge>
+                                )}
+                                {holder.optedOutAutoClaim && (
+                                  <Badge variant="outline">Opted out</Badge>
+                                )}
+                                {!holder.hasPayoutStore && (
+                                  <Badge variant="outline">No store</Badge>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Distribute Payouts</CardTitle>
+                  <CardDescription>
+                    Claims on behalf of every holder with a pending payout, up
+                    to {HOLDERS_PER_CLAIM_TRANSACTION} per transaction.
+                    Holders who opted out of auto claims are skipped.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <div className="text-xs text-muted-foreground">
+                        Holders to Pay
+                      </div>
+                      <div className="font-medium">
+                        {claimableHolders.length}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">
+                        Claim Transactions
+                      </div>
+                      <div className="font-medium">{claimChunks.length}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">
+                        Payout Stores to Create
+                      </div>
+                      <div className="font-medium">{missingStores.length}</div>
+                    </div>
+                  </div>
+                  {distributing && (
+                    <div className="space-y-1">
+                      <div className="h-2 rounded-full bg-muted">
+                        <div
+                          className="h-2 rounded-full bg-primary transition-all"
+                          style={{ width: `${distributionProgress}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {processedHolders} of {claimableHolders.length}{" "}
+                        holder(s) processed
+                      </p>
+                    </div>
+                  )}
+                  {!distributing && (
+                    <Button
+                      disabled={claimableHolders.length === 0}
+                      onClick={() => {
+                        setProcessedHolders(0);
+                        setDistributing(true);
+                      }}
+                    >
+                      Distribute to {claimableHolders.length} holder(s)
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+
+              {distributing && distributionSteps.length > 0 && (
+                <TransactionStepper
+                  key={`distribute-${stepperKey}`}
+                  flowId="distribute"
+                  steps={distributionSteps}
+                  // confirm_underlying_primary_store takes no signer
+                  hideAtomicMode={missingStores.length > 0}
+                  onTransactionSubmitted={handleDistributionSubmitted}
+                  onComplete={() => {
+                    toast.success("Payouts distributed", {
+                      description: `Claims submitted for ${claimableHolders.length} holder(s).`,
+                    });
+                  }}
+                />
+              )}
+
+              {ownHolder && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Your Payout</CardTitle>
+                    <CardDescription>
+                      {formatBalance(ownHolder.balance)} held
+                      {ownHolder.optedOutAutoClaim
+                        ? ", opted out of auto claims"
+                        : ""}
+                      .
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex gap-2">
+                    <Button
+                      variant={ownAction === "claim" ? "default" : "outline"}
+                      disabled={!hasPendingPayout(ownHolder)}
+                      onClick={() => setOwnAction("claim")}
+                    >
+                      Claim Payout
+                    </Button>
+                    <Button
+                      variant={
+                        ownAction === "opt-out" ? "default" : "outline"
+                      }
+                      disabled={ownHolder.optedOutAutoClaim}
+                      onClick={() => setOwnAction("opt-out")}
+                    >
+                      Opt Out of Auto Claims
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {ownSteps.length > 0 && (
+                <TransactionStepper
+                  key={`own-${ownAction}-${stepperKey}`}
+                  flowId={`own-${ownAction}`}
+                  steps={ownSteps}
+                  hideBatchMode
+                  hideAtomicMode
+                  onTransactionSubmitted={async ({ txHash }) => {
+                    if (!txHash) return;
+                    setOwnAction(undefined);
+                    await waitAndRefetch(txHash);
+                  }}
+                  onComplete={() => {
+                    toast.success(
+                      ownAction === "claim"
+                        ? "Payout claimed"
+                        : "Opted out of auto claims"
+                    );
+                  }}
+                />
+              )}
+            </>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function PayoutsPage() {
+  return (
+    <Suspense fallback={<div>Loading payouts...</div>}>
+      <PayoutsContent />
+    </Suspense>
+  );
+}
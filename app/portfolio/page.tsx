@@ -0,0 +1,445 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { NetworkType, useNavigation } from "@/lib/navigation-context";
+import {
+  PortfolioRow,
+  useFacilityPortfolio,
+} from "@/lib/hooks/use-facility-portfolio";
+import {
+  getSavedFacilityKey,
+  loadSavedFacilities,
+  SavedFacility,
+  saveSavedFacilities,
+} from "@/lib/saved-facilities";
+import {
+  comparePortfolioSortValues,
+  getPortfolioSortValue,
+  PortfolioSortKey,
+} from "@/lib/utils/facility-portfolio";
+import { formatTokenAmount } from "@/lib/utils/token";
+import { cn, shortenAddress } from "@/lib/utils";
+
+const COLUMNS: { key: PortfolioSortKey; label: string; align: string }[] = [
+  { key: "label", label: "Facility", align: "text-left" },
+  { key: "size", label: "Size", align: "text-right" },
+  { key: "outstanding", label: "Outstanding", align: "text-right" },
+  { key: "utilization", label: "Utilization", align: "text-right" },
+  { key: "headroom", label: "BB Headroom", align: "text-right" },
+  { key: "tests", label: "Tests", align: "text-left" },
+  { key: "capitalCall", label: "Capital Call", align: "text-left" },
+];
+
+// formatTokenAmount only handles non-negative amounts
+function formatSigned(value: bigint, decimals: number) {
+  return value < BigInt(0)
+    ? `-${formatTokenAmount(-value, decimals)}`
+    : formatTokenAmount(value, decimals);
+}
+
+function PortfolioTableRow({
+  row,
+  onOpen,
+  onRemove,
+}: {
+  row: PortfolioRow;
+  onOpen: (facility: SavedFacility) => void;
+  onRemove: (facility: SavedFacility) => void;
+}) {
+  const { facility, portfolio, isLoading, error } = row;
+  const health = portfolio?.health;
+  const amount = (value?: bigint) =>
+    value === undefined || !portfolio
+      ? "—"
+      : `${formatSigned(value, portfolio.decimals)} ${portfolio.symbol}`;
+  const flagged = !!health && health.flags.length > 0;
+
+  return (
+    <tr className={cn("border-t", flagged && "bg-red-50 dark:bg-red-950/30")}>
+      <td className="px-3 py-2">
+        <div className="font-medium flex items-center gap-2">
+          {facility.label}
+          <Badge variant="outline">{facility.network}</Badge>
+        </div>
+        <div className="font-mono text-muted-foreground">
+          {shortenAddress(facility.facilityAddress)}
+        </div>
+        {health?.flags.map((flag) => (
+          <Badge key={flag} variant="destructive" className="mt-1 mr-1">
+            {flag}
+          </Badge>
+        ))}
+      </td>
+      {isLoading ? (
+        <td colSpan={COLUMNS.length - 1} className="px-3 py-2">
+          <div className="h-4 rounded bg-muted animate-pulse" />
+        </td>
+      ) : error || !portfolio || !health ? (
+        <td colSpan={COLUMNS.length - 1} className="px-3 py-2 text-red-500">
+          Error loading facility: {error?.message ?? "No data"}
+        </td>
+      ) : (
+        <>
+          <td className="px-3 py-2 text-right">{amount(health.size)}</td>
+          <td className="px-3 py-2 text-right">
+            {amount(health.outstandingPrincipal)}
+          </td>
+          <td className="px-3 py-2 text-right">
+            {health.utilization !== undefined
+              ? `${(health.utilization * 100).toFixed(2)}%`
+              : "—"}
+          </td>
+          <td
+            className={cn(
+              "px-3 py-2 text-right",
+              health.headroom !== undefined &&
+                health.headroom < BigInt(0) &&
+                "text-red-500"
+            )}
+          >
+            {health.borrowingBase === undefined
+              ? "Stale"
+              : amount(health.headroom)}
+          </td>
+          <td className="px-3 py-2">
+            {portfolio.data.testsStatus === "success" ? (
+              <Badge variant="secondary">Passing</Badge>
+            ) : portfolio.data.testsStatus === "fail" ? (
+              <Badge variant="destructive">Failing</Badge>
+            ) : portfolio.data.testsStatus === "error" ? (
+              <Badge variant="outline">Error</Badge>
+            ) : portfolio.data.testBasketExists ? (
+              <Badge variant="destructive">Reverted</Badge>
+            ) : (
+              <Badge variant="outline">No tests</Badge>
+            )}
+          </td>
+          <td className="px-3 py-2">
+            {health.hasActiveCapitalCall ? (
+              <Badge>{amount(health.capitalCallRemaining)} remaining</Badge>
+            ) : (
+              <span className="text-muted-foreground">None</span>
+            )}
+          </td>
+        </>
+      )}
+      <td className="px-3 py-2 text-right whitespace-nowrap">
+        <Button size="sm" variant="outline" onClick={() => onOpen(facility)}>
+          Open
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onRemove(facility)}
+          aria-label={`Remove ${facility.label}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+function PortfolioContent() {
+  const navigation = useNavigation();
+  const [facilities, setFacilities] = useState<SavedFacility[]>(
+    loadSavedFacilities
+  );
+  const [label, setLabel] = useState("");
+  const [facilityAddress, setFacilityAddress] = useState("");
+  const [moduleAddress, setModuleAddress] = useState(
+    navigation.moduleAddress
+  );
+  const [network, setNetwork] = useState<NetworkType>(navigation.network);
+  const [sort, setSort] = useState<{
+    key: PortfolioSortKey;
+    direction: "asc" | "desc";
+  }>({ key: "label", direction: "asc" });
+
+  const rows = useFacilityPortfolio(facilities);
+
+  const updateFacilities = (next: SavedFacility[]) => {
+    setFacilities(next);
+    saveSavedFacilities(next);
+  };
+
+  const addFacility = (facility: SavedFacility) => {
+    const key = getSavedFacilityKey(facility);
+    if (facilities.some((saved) => getSavedFacilityKey(saved) === key)) {
+      toast.error("Facility already saved", {
+        description: `${shortenAddress(facility.facilityAddress)} on ${
+          facility.network
+        } is already in the portfolio.`,
+      });
+      return false;
+    }
+    updateFacilities([...facilities, facility]);
+    return true;
+  };
+
+  const handleAdd = () => {
+    if (
+      !AccountAddress.isValid({ input: facilityAddress }).valid ||
+      !AccountAddress.isValid({ input: moduleAddress }).valid
+    ) {
+      toast.error("Invalid address", {
+        description: "Enter a valid facility and module address.",
+      });
+      return;
+    }
+    const added = addFacility({
+      label: label.trim() || shortenAddress(facilityAddress),
+      facilityAddress,
+      moduleAddress,
+      network,
+    });
+    if (added) {
+      setLabel("");
+      setFacilityAddress("");
+    }
+  };
+
+  // Makes the facility the one every other page works on
+  const handleOpen = (facility: SavedFacility) => {
+    navigation.setFacilityAddress(facility.facilityAddress);
+    navigation.setModuleAddress(facility.moduleAddress);
+    navigation.setNetwork(facility.network);
+    toast.success(`Switched to ${facility.label}`, {
+      description: `${shortenAddress(facility.facilityAddress)} on ${
+        facility.network
+      }`,
+    });
+  };
+
+  const handleSort = (key: PortfolioSortKey) =>
+    setSort((previous) => ({
+      key,
+      direction:
+        previous.key === key && previous.direction === "asc" ? "desc" : "asc",
+    }));
+
+  const sortedRows = [...rows].sort((a, b) =>
+    comparePortfolioSortValues(
+      getPortfolioSortValue(sort.key, {
+        label: a.facility.label,
+        health: a.portfolio?.health,
+        testsStatus: a.portfolio?.data.testsStatus,
+        decimals: a.portfolio?.decimals ?? 6,
+      }),
+      getPortfolioSortValue(sort.key, {
+        label: b.facility.label,
+        health: b.portfolio?.health,
+        testsStatus: b.portfolio?.data.testsStatus,
+        decimals: b.portfolio?.decimals ?? 6,
+      }),
+      sort.direction
+    )
+  );
+  const flaggedCount = rows.filter(
+    (row) => (row.portfolio?.health.flags.length ?? 0) > 0
+  ).length;
+
+  const currentIsSaved =
+    !navigation.facilityAddress ||
+    facilities.some(
+      (saved) =>
+        getSavedFacilityKey(saved) ===
+        getSavedFacilityKey({
+          label: "",
+          facilityAddress: navigation.facilityAddress,
+          moduleAddress: navigation.moduleAddress,
+          network: navigation.network,
+        })
+    );
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Portfolio</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {facilities.length} saved facilit
+            {facilities.length === 1 ? "y" : "ies"}
+            {flaggedCount > 0 && `, ${flaggedCount} need attention`}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Facilities</CardTitle>
+          <CardDescription>
+            Each facility is read on its own network. Rows failing
+            vehicle_tests_satisfied or with a pending funding request are
+            flagged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {facilities.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              No facilities saved yet. Add one below.
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted">
+                  <tr>
+                    {COLUMNS.map((column) => (
+                      <th
+                        key={column.key}
+                        className={cn("px-3 py-2", column.align)}
+                      >
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 hover:underline"
+                          onClick={() => handleSort(column.key)}
+                        >
+                          {column.label}
+                          {sort.key === column.key &&
+                            (sort.direction === "asc" ? (
+                              <ArrowUp className="h-3 w-3" />
+                            ) : (
+                              <ArrowDown className="h-3 w-3" />
+                            ))}
+                        </button>
+                      </th>
+                    ))}
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.map((row) => (
+                    <PortfolioTableRow
+                      key={row.key}
+                      row={row}
+                      onOpen={handleOpen}
+                      onRemove={(facility) =>
+                        updateFacilities(
+                          facilities.filter(
+                            (saved) =>
+                              getSavedFacilityKey(saved) !==
+                              getSavedFacilityKey(facility)
+                          )
+                        )
+                      }
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Facility</CardTitle>
+          <CardDescription>
+            Saved facilities are kept in this browser.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-label">Label</Label>
+              <Input
+                id="portfolio-label"
+                placeholder="Optional"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-facility">Facility Address</Label>
+              <Input
+                id="portfolio-facility"
+                placeholder="0x..."
+                className="font-mono"
+                value={facilityAddress}
+                onChange={(e) => setFacilityAddress(e.target.value.trim())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-module">Module Address</Label>
+              <Input
+                id="portfolio-module"
+                placeholder="0x..."
+                className="font-mono"
+                value={moduleAddress}
+                onChange={(e) => setModuleAddress(e.target.value.trim())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-network">Network</Label>
+              <Select
+                value={network}
+                onValueChange={(value) => setNetwork(value as NetworkType)}
+              >
+                <SelectTrigger id="portfolio-network" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mainnet">Mainnet</SelectItem>
+                  <SelectItem value="testnet">Testnet</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleAdd}>Add Facility</Button>
+            {!currentIsSaved && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  addFacility({
+                    label: shortenAddress(navigation.facilityAddress),
+                    facilityAddress: navigation.facilityAddress,
+                    moduleAddress: navigation.moduleAddress,
+                    network: navigation.network,
+                  })
+                }
+              >
+                Add Current Facility
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function PortfolioPage() {
+  return (
+    <Suspense fallback={<div>Loading portfolio...</div>}>
+      <PortfolioContent />
+    </Suspense>
+  );
+}
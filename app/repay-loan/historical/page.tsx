@@ -0,0 +1,905 @@
+"use client";
+
+import { useEffect, useMemo, useState, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { AccountAddress, EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  Play,
+  RotateCcw,
+  Upload,
+} from "lucide-react";
+import {
+  StepperTransactionResult,
+  TransactionStepper,
+} from "@/components/transaction-stepper";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { BearerTokenGate } from "@/components/config-manager/bearer-token-prompt";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { createAptosClient } from "@/lib/aptos-service";
+import { isConfigManagerAuthError } from "@/lib/config-manager-service";
+import { useStagedLoanBook } from "@/lib/hooks/use-config-manager";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useLoanBookConfig } from "@/lib/hooks/use-loan-book-config";
+import { getLoanDetails } from "@/lib/hooks/use-loan-info";
+import { useWallet } from "@/lib/use-wallet";
+import {
+  checkHistoricalRepayments,
+  HISTORICAL_REPAYMENT_EXAMPLE,
+  HistoricalLoanState,
+  historicalLoanKey,
+  HistoricalRepaymentRow,
+  parseHistoricalRepayments,
+  previewHistoricalRepayments,
+} from "@/lib/utils/historical-repayments";
+import { formatTokenAmount } from "@/lib/utils/token";
+import {
+  downloadFile,
+  escapeCsvValue,
+  shortenAddress,
+  stringToHexBytes,
+} from "@/lib/utils";
+
+const DEFAULT_TOKEN_DECIMALS = 8;
+// Seeds and loans are looked up a few at a time to stay under rate limits
+const LOOKUP_BATCH_SIZE = 10;
+// Repayments per batch; each one still needs the admin's co-signature
+const REPAYMENT_BATCH_SIZE = 10;
+
+type RepaymentStatus = "invalid" | "ready" | "submitted" | "repaid" | "failed";
+
+interface RepaymentRow extends HistoricalRepaymentRow {
+  status: RepaymentStatus;
+  txHash?: string;
+  message?: string;
+}
+
+const STATUS_LABELS: Record<RepaymentStatus, string> = {
+  invalid: "Invalid",
+  ready: "Ready",
+  submitted: "Submitted",
+  repaid: "Repaid",
+  failed: "Failed",
+};
+
+function StatusBadge({ status }: { status: RepaymentStatus }) {
+  const variant =
+    status === "repaid"
+      ? "default"
+      : status === "invalid" || status === "failed"
+      ? "destructive"
+      : "secondary";
+  return <Badge variant={variant}>{STATUS_LABELS[status]}</Badge>;
+}
+
+function formatTimestampUs(timestampUs: number) {
+  return format(new Date(timestampUs / 1000), "MMM d, yyyy HH:mm:ss");
+}
+
+function reportToCsv(rows: RepaymentRow[], decimals: number): string {
+  const header = [
+    "row",
+    "loan",
+    "loan_address",
+    "amount",
+    "timestamp",
+    "status",
+    "tx_hash",
+    "message",
+  ];
+  const lines = rows.map((row) => [
+    String(row.rowNumber),
+    row.loan,
+    row.loanAddress ?? "",
+    formatTokenAmount(row.amount, decimals).replace(/,/g, ""),
+    row.timestampUs ? new Date(row.timestampUs / 1000).toISOString() : "",
+    row.status,
+    row.txHash ?? "",
+    row.message ?? row.errors.join("; "),
+  ]);
+  return [header, ...lines]
+    .map((line) => line.map(escapeCsvValue).join(","))
+    .join("\n");
+}
+
+/**
+ * The repayments to send next: the earliest outstanding repayment of each
+ * loan the connected wallet borrows, so a batch never holds two repayments
+ * of one loan and a loan stops at its first failed or unconfirmed one
+ */
+function nextRepaymentBatch(
+  rows: RepaymentRow[],
+  loans: Map<string, HistoricalLoanState>,
+  borrower?: string
+): RepaymentRow[] {
+  if (!borrower) return [];
+  const visited = new Set<string>();
+  const batch: RepaymentRow[] = [];
+  for (const row of rows) {
+    if (batch.length >= REPAYMENT_BATCH_SIZE) break;
+    if (row.status === "repaid") continue;
+    const key = historicalLoanKey(row);
+    if (visited.has(key)) continue;
+    visited.add(key);
+    const loan = loans.get(key);
+    if (
+      row.status === "ready" &&
+      loan &&
+      AccountAddress.from(loan.borrower).equals(AccountAddress.from(borrower))
+    ) {
+      batch.push(row);
+    }
+  }
+  return batch;
+}
+
+function HistoricalRepaymentImporter({
+  loanBookAddress,
+  bearerToken,
+  clearBearerToken,
+}: {
+  loanBookAddress: string;
+  bearerToken: string;
+  clearBearerToken: (reason?: string) => void;
+}) {
+  const network = useEffectiveNetwork();
+  const { account } = useWallet();
+
+  const [decimalsInput, setDecimalsInput] = useState(
+    String(DEFAULT_TOKEN_DECIMALS)
+  );
+  const [adminCosigner, setAdminCosigner] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [rows, setRows] = useState<RepaymentRow[]>([]);
+  const [loans, setLoans] = useState<Map<string, HistoricalLoanState>>(
+    new Map()
+  );
+  // Rows handed to the stepper, one repayment step each. Kept apart from
+  // rows so status updates do not rebuild the steps mid-flow.
+  const [queue, setQueue] = useState<RepaymentRow[]>([]);
+  const [queueCosigner, setQueueCosigner] = useState("");
+  const [stepperKey, setStepperKey] = useState(0);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const {
+    data: stagedLoanBook,
+    isLoading: isStagedLoading,
+    error: stagedError,
+  } = useStagedLoanBook(loanBookAddress, bearerToken);
+  const {
+    loanBookConfig,
+    isLoading: isLoadingConfig,
+    error: configError,
+  } = useLoanBookConfig({ loanBookAddress });
+
+  useEffect(() => {
+    if (isConfigManagerAuthError(stagedError)) {
+      clearBearerToken(
+        "The config manager rejected this token. Please enter a new one."
+      );
+    }
+  }, [stagedError, clearBearerToken]);
+
+  const decimals = parseInt(decimalsInput, 10);
+  const decimalsValid = Number.isInteger(decimals) && decimals >= 0;
+  const isAdminValid = AccountAddress.isValid({ input: adminCosigner }).valid;
+  const isHistorical = !!stagedLoanBook?.feature_flags?.is_historical;
+  const walletAddress = account?.address.toString();
+
+  const updateRows = (
+    rowNumbers: number[],
+    update: Partial<Pick<RepaymentRow, "status" | "txHash" | "message">>
+  ) => {
+    setRows((current) =>
+      current.map((row) =>
+        rowNumbers.includes(row.rowNumber) ? { ...row, ...update } : row
+      )
+    );
+  };
+
+  /**
+   * Resolves seeds to loan addresses and reads each loan's borrower and
+   * remaining debt. Rows whose loan cannot be found in this loan book get
+   * the reason added to their errors.
+   */
+  const lookUpLoans = async (
+    parsed: HistoricalRepaymentRow[]
+  ): Promise<{
+    resolved: HistoricalRepaymentRow[];
+    states: Map<string, HistoricalLoanState>;
+  }> => {
+    if (!loanBookConfig) return { resolved: parsed, states: new Map() };
+    const client = createAptosClient(network.name);
+    const loanBook = AccountAddress.from(loanBookAddress);
+
+    const seeds = Array.from(
+      new Set(
+        parsed
+          .filter((row) => row.errors.length === 0 && row.seed)
+          .map((row) => row.seed!)
+      )
+    );
+    const seedAddresses = new Map<string, string | Error>();
+    for (let i = 0; i < seeds.length; i += LOOKUP_BATCH_SIZE) {
+      await Promise.all(
+        seeds.slice(i, i + LOOKUP_BATCH_SIZE).map(async (seed) => {
+          try {
+            const [loan] = await client.view({
+              payload: {
+                function: `${loanBookConfig.moduleAddress}::hybrid_loan_book::resolve_loan`,
+                typeArguments: [],
+                functionArguments: [
+                  loanBookConfig.configAddress,
+                  stringToHexBytes(seed),
+                ],
+              },
+            });
+            seedAddresses.set(seed, (loan as { inner: string }).inner);
+          } catch {
+            seedAddresses.set(seed, new Error("No loan with this seed"));
+          }
+        })
+      );
+    }
+
+    const resolved = parsed.map((row) => {
+      const address = row.seed ? seedAddresses.get(row.seed) : undefined;
+      if (address instanceof Error) {
+        return { ...row, errors: [...row.errors, address.message] };
+      }
+      return address ? { ...row, loanAddress: address } : row;
+    });
+
+    const addresses = Array.from(
+      new Set(
+        resolved
+          .filter((row) => row.errors.length === 0 && row.loanAddress)
+          .map((row) => historicalLoanKey(row))
+      )
+    );
+    const states = new Map<string, HistoricalLoanState>();
+    const loanErrors = new Map<string, string>();
+    for (let i = 0; i < addresses.length; i += LOOKUP_BATCH_SIZE) {
+      await Promise.all(
+        addresses.slice(i, i + LOOKUP_BATCH_SIZE).map(async (address) => {
+          const loan = await getLoanDetails(
+            client,
+            address,
+            loanBookConfig.moduleAddress
+          );
+          if (!loan) {
+            loanErrors.set(address, "No outstanding loan at this address");
+          } else if (
+            !AccountAddress.from(loan.loan_book.inner).equals(loanBook)
+          ) {
+            loanErrors.set(address, "The loan belongs to another loan book");
+          } else {
+            states.set(address, {
+              loanAddress: address,
+              borrower: loan.borrower,
+              debtRemaining: loan.payment_schedule.reduce(
+                (sum, interval) =>
+                  sum +
+                  BigInt(interval.principal) +
+                  BigInt(interval.interest) +
+                  BigInt(interval.fee),
+                BigInt(0)
+              ),
+            });
+          }
+        })
+      );
+    }
+
+    return {
+      resolved: resolved.map((row) => {
+        const error =
+          row.errors.length === 0 && row.loanAddress
+            ? loanErrors.get(historicalLoanKey(row))
+            : undefined;
+        return error ? { ...row, errors: [...row.errors, error] } : row;
+      }),
+      states,
+    };
+  };
+
+  const handleValidate = async () => {
+    if (!decimalsValid) return;
+    const parsed = parseHistoricalRepayments(csvText, decimals);
+    if (parsed.length === 0) {
+      toast.error("No repayments found", {
+        description: "Paste a header row followed by one repayment per row",
+      });
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      const { resolved, states } = await lookUpLoans(parsed);
+      const problems = checkHistoricalRepayments(resolved, states, decimals);
+      setLoans(states);
+      setRows(
+        resolved.map((row): RepaymentRow => {
+          const errors = [...row.errors, ...(problems.get(row.rowNumber) ?? [])];
+          return {
+            ...row,
+            errors,
+            status: errors.length > 0 ? "invalid" : "ready",
+          };
+        })
+      );
+      setQueue([]);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+  };
+
+  const handleRunBatch = () => {
+    setQueue(nextRepaymentBatch(rows, loans, walletAddress));
+    setQueueCosigner(adminCosigner);
+    setStepperKey((key) => key + 1);
+  };
+
+  // Failed repayments aborted on chain or never reached it, so they are safe
+  // to send again. Unconfirmed ones stay submitted and hold their loan.
+  const handleRetryFailed = () => {
+    setRows((current) =>
+      current.map((row) =>
+        row.status === "failed"
+          ? { ...row, status: "ready", txHash: undefined, message: undefined }
+          : row
+      )
+    );
+  };
+
+  const handleTransactionSubmitted = async ({
+    fromStep,
+    toStep,
+    txHash,
+  }: StepperTransactionResult) => {
+    const rowNumbers = queue
+      .slice(fromStep, toStep)
+      .map((row) => row.rowNumber);
+    if (!txHash) return;
+    updateRows(rowNumbers, {
+      status: "submitted",
+      txHash,
+      message: undefined,
+    });
+
+    try {
+      const client = createAptosClient(network.name);
+      const txn = await client.waitForTransaction({
+        transactionHash: txHash,
+        options: { checkSuccess: false },
+      });
+      if ("success" in txn && !txn.success) {
+        updateRows(rowNumbers, { status: "failed", message: txn.vm_status });
+      } else {
+        updateRows(rowNumbers, { status: "repaid" });
+      }
+    } catch (error) {
+      updateRows(rowNumbers, {
+        message: `Could not confirm transaction: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  };
+
+  const handleTransactionFailed = ({
+    fromStep,
+    toStep,
+    error,
+  }: StepperTransactionResult) => {
+    updateRows(
+      queue.slice(fromStep, toStep).map((row) => row.rowNumber),
+      { status: "failed", message: error }
+    );
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      `historical-repayments-${loanBookAddress.slice(0, 10)}-${format(
+        new Date(),
+        "yyyy-MM-dd"
+      )}.csv`,
+      reportToCsv(rows, decimals),
+      "text/csv"
+    );
+  };
+
+  const previews = useMemo(
+    () =>
+      previewHistoricalRepayments(
+        rows.filter((row) => row.status !== "invalid"),
+        loans
+      ),
+    [rows, loans]
+  );
+  const nextBatch = nextRepaymentBatch(rows, loans, walletAddress);
+  const otherBorrowers = new Set(
+    previews
+      .filter(
+        (preview) =>
+          !walletAddress ||
+          !AccountAddress.from(preview.borrower).equals(
+            AccountAddress.from(walletAddress)
+          )
+      )
+      .map((preview) => preview.borrower)
+  );
+
+  const steps = useMemo(() => {
+    if (!loanBookConfig) return [];
+    return queue.map((row) => ({
+      title: `Repay ${row.seed ?? shortenAddress(row.loanAddress ?? "")}`,
+      description: `Repay ${formatTokenAmount(
+        row.amount,
+        decimals
+      )} as of ${formatTimestampUs(row.timestampUs)} (row ${row.rowNumber})`,
+      moduleAddress: loanBookConfig.moduleAddress,
+      moduleName: "hybrid_loan_book",
+      ...(row.seed
+        ? {
+            functionName: "repay_loan_historical_with_seed",
+            args: [
+              loanBookConfig.configAddress,
+              stringToHexBytes(row.seed),
+              row.amount.toString(),
+              row.timestampUs.toString(),
+            ] as unknown as EntryFunctionArgumentTypes[],
+          }
+        : {
+            functionName: "repay_loan_historical",
+            args: [
+              row.loanAddress,
+              row.amount.toString(),
+              row.timestampUs.toString(),
+            ] as unknown as EntryFunctionArgumentTypes[],
+          }),
+      secondarySigners: [queueCosigner],
+    }));
+  }, [queue, queueCosigner, loanBookConfig, decimals]);
+
+  const statusCounts = rows.reduce<Partial<Record<RepaymentStatus, number>>>(
+    (counts, row) => ({ ...counts, [row.status]: (counts[row.status] ?? 0) + 1 }),
+    {}
+  );
+  const outstanding =
+    (statusCounts.ready ?? 0) +
+    (statusCounts.submitted ?? 0) +
+    (statusCounts.failed ?? 0);
+
+  if (isLoadingConfig || isStagedLoading) {
+    return <div>Loading loan book configuration...</div>;
+  }
+
+  if (configError) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">
+              Error Loading Loan Book
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>
+              Failed to fetch loan book configuration: {configError.message}
+            </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Loan Book Address: {loanBookAddress}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Historical Repayments</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {loanBookAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {!isHistorical ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Historical repayments are not enabled</AlertTitle>
+          <AlertDescription>
+            {stagedLoanBook ? (
+              <>
+                The staged config of this loan book does not set the
+                is_historical feature flag.{" "}
+                <Link
+                  href={`/admin/staged-loan-books/${loanBookAddress}/edit`}
+                  className="underline"
+                >
+                  Edit the staged config
+                </Link>{" "}
+                to enable it before importing.
+              </>
+            ) : (
+              <>
+                No staged config could be loaded for this loan book
+                {stagedError ? ` (${stagedError.message})` : ""}, so its
+                is_historical feature flag cannot be checked.
+              </>
+            )}
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Repayment History</CardTitle>
+              <CardDescription>
+                One past repayment per row with loan, amount and timestamp
+                columns. The loan is its seed or 0x loan address, and the
+                timestamp a date or raw microseconds. Each loan&apos;s
+                repayments are replayed in file order, so list them oldest
+                first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-4 items-end">
+                <div className="w-40 space-y-2">
+                  <Label htmlFor="token-decimals">Token Decimals</Label>
+                  <Input
+                    id="token-decimals"
+                    type="number"
+                    min={0}
+                    value={decimalsInput}
+                    onChange={(e) => setDecimalsInput(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="repayments-file">Upload CSV</Label>
+                  <Input
+                    id="repayments-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => handleFileUpload(e.target.files?.[0])}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="repayments">Or paste CSV</Label>
+                <textarea
+                  id="repayments"
+                  className="w-full min-h-[160px] p-3 border rounded-md bg-transparent text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring font-mono"
+                  placeholder={HISTORICAL_REPAYMENT_EXAMPLE}
+                  value={csvText}
+                  onChange={(e) => setCsvText(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={handleValidate}
+                disabled={!csvText.trim() || !decimalsValid || isChecking}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {isChecking ? "Checking loans..." : "Validate Repayments"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {previews.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Remaining Debt Preview</CardTitle>
+                <CardDescription>
+                  Each loan&apos;s debt today and once its valid repayments
+                  are replayed. Late fees the contract deducts for late
+                  historical payments are not included, so actual debt may
+                  end up higher.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Loan</th>
+                        <th className="px-3 py-2 text-left">Borrower</th>
+                        <th className="px-3 py-2 text-right">Repayments</th>
+                        <th className="px-3 py-2 text-left">Period</th>
+                        <th className="px-3 py-2 text-right">Debt Now</th>
+                        <th className="px-3 py-2 text-right">Repaid</th>
+                        <th className="px-3 py-2 text-right">Debt After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {previews.map((preview) => (
+                        <tr key={preview.loanAddress} className="border-t">
+                          <td
+                            className="px-3 py-2 font-mono"
+                            title={preview.loanAddress}
+                          >
+                            {shortenAddress(preview.loanAddress)}
+                          </td>
+                          <td
+                            className="px-3 py-2 font-mono"
+                            title={preview.borrower}
+                          >
+                            {shortenAddress(preview.borrower)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {preview.rowNumbers.length}
+                          </td>
+                          <td className="px-3 py-2">
+                            {formatTimestampUs(preview.firstTimestampUs)} –{" "}
+                            {formatTimestampUs(preview.lastTimestampUs)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatTokenAmount(preview.debtRemaining, decimals)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatTokenAmount(preview.totalRepaid, decimals)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {preview.debtAfter === BigInt(0) ? (
+                              <Badge variant="secondary">Repaid in full</Badge>
+                            ) : (
+                              formatTokenAmount(preview.debtAfter, decimals)
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {rows.length > 0 && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div className="space-y-2">
+                  <CardTitle>Report</CardTitle>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(STATUS_LABELS) as RepaymentStatus[])
+                      .filter((status) => statusCounts[status])
+                      .map((status) => (
+                        <Badge key={status} variant="outline">
+                          {STATUS_LABELS[status]}: {statusCounts[status]}
+                        </Badge>
+                      ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {statusCounts.failed ? (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleRetryFailed}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Retry Failed Rows
+                    </Button>
+                  ) : null}
+                  <Button variant="outline" size="sm" onClick={handleExport}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Row</th>
+                        <th className="px-3 py-2 text-left">Loan</th>
+                        <th className="px-3 py-2 text-left">Timestamp</th>
+                        <th className="px-3 py-2 text-right">Amount</th>
+                        <th className="px-3 py-2 text-left">Status</th>
+                        <th className="px-3 py-2 text-left">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr key={row.rowNumber} className="border-t align-top">
+                          <td className="px-3 py-2">{row.rowNumber}</td>
+                          <td
+                            className="px-3 py-2 font-mono"
+                            title={row.loanAddress}
+                          >
+                            {row.seed ??
+                              (row.loanAddress
+                                ? shortenAddress(row.loanAddress)
+                                : "—")}
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.timestampUs
+                              ? formatTimestampUs(row.timestampUs)
+                              : "—"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatTokenAmount(row.amount, decimals)}
+                          </td>
+                          <td className="px-3 py-2">
+                            <StatusBadge status={row.status} />
+                          </td>
+                          <td className="px-3 py-2 space-y-1">
+                            {row.errors.map((error) => (
+                              <p key={error} className="text-destructive">
+                                {error}
+                              </p>
+                            ))}
+                            {row.message && (
+                              <p className="text-muted-foreground break-all">
+                                {row.message}
+                              </p>
+                            )}
+                            {row.txHash && (
+                              <p className="font-mono text-muted-foreground">
+                                {shortenAddress(row.txHash)}
+                              </p>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {rows.length > 0 && outstanding > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Run Repayments</CardTitle>
+                <CardDescription>
+                  The borrower sends each repayment and a loan book admin
+                  co-signs it. A batch holds at most one repayment per loan,
+                  and a loan waits while its earlier repayment is failed or
+                  unconfirmed, so every loan is replayed in order.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="admin-cosigner">
+                    Loan Book Admin (co-signer)
+                  </Label>
+                  <Input
+                    id="admin-cosigner"
+                    className="font-mono"
+                    placeholder="0x..."
+                    value={adminCosigner}
+                    onChange={(e) => setAdminCosigner(e.target.value.trim())}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Co-signed calls cannot be combined into one transaction, so
+                  every repayment is its own transaction and the admin
+                  co-signs each row separately: a batch of{" "}
+                  {nextBatch.length} needs {nextBatch.length} co-signature
+                  {nextBatch.length === 1 ? "" : "s"}.
+                </p>
+                {otherBorrowers.size > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {walletAddress
+                      ? `${otherBorrowers.size} borrower(s) other than the connected wallet have repayments here. Connect their wallet to run them.`
+                      : "Connect a borrower's wallet to run their repayments."}
+                  </p>
+                )}
+                <Button
+                  onClick={handleRunBatch}
+                  disabled={!isAdminValid || nextBatch.length === 0}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Run Next Batch ({nextBatch.length} co-signed transaction
+                  {nextBatch.length === 1 ? "" : "s"})
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {steps.length > 0 && (
+            <TransactionStepper
+              key={stepperKey}
+              steps={steps}
+              hideBatchMode
+              hideAtomicMode
+              onTransactionSubmitted={handleTransactionSubmitted}
+              onTransactionFailed={handleTransactionFailed}
+              onComplete={() => {
+                toast.success("Repayment batch submitted", {
+                  description: `${steps.length} repayment(s) sent; confirmations appear in the report.`,
+                });
+              }}
+            />
+          )}
+
+          {rows.length > 0 && outstanding === 0 && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4" />
+              No repayments left to submit.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function HistoricalRepaymentsContent() {
+  const searchParams = useSearchParams();
+  const [loanBookAddress, setLoanBookAddress] = useState("");
+
+  useEffect(() => {
+    const loanBookParam = searchParams.get("loan_book");
+    if (loanBookParam) {
+      setLoanBookAddress(loanBookParam);
+    }
+  }, [searchParams]);
+
+  if (!loanBookAddress) {
+    return (
+      <ConfigPrompt
+        missingFields={["loan_book"]}
+        pageTitle="Historical Repayments"
+        onConfigured={(values) => {
+          if (values.loan_book) {
+            setLoanBookAddress(values.loan_book);
+          }
+        }}
+      />
+    );
+  }
+
+  return (
+    <BearerTokenGate>
+      {(bearerToken, clearBearerToken) => (
+        <HistoricalRepaymentImporter
+          loanBookAddress={loanBookAddress}
+          bearerToken={bearerToken}
+          clearBearerToken={clearBearerToken}
+        />
+      )}
+    </BearerTokenGate>
+  );
+}
+
+export default function HistoricalRepaymentsPage() {
+  return (
+    <Suspense fallback={<div>Loading historical repayments...</div>}>
+      <HistoricalRepaymentsContent />
+    </Suspense>
+  );
+}
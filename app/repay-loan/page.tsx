@@ -157,6 +157,7 @@ function RepayLoanContent() {
       </Card>
 
       <TransactionStepper
+        flowId="repay"
         steps={steps.map((step) => ({ ...step, args: transactionArgs() }))} // Ensure args are fresh
         onComplete={() => {
           toast.success("Loan Repayment Process Complete", {
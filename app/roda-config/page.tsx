@@ -0,0 +1,415 @@
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { toast } from "sonner";
+import { ArrowRight, RotateCcw } from "lucide-react";
+import {
+  StepperTransactionResult,
+  TransactionStepper,
+} from "@/components/transaction-stepper";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { DateTimeInput } from "@/components/date-time-input";
+import { TokenAmountInput } from "@/components/token-amount-input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { createAptosClient } from "@/lib/aptos-service";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import { useRodaWaterfall } from "@/lib/hooks/use-roda-waterfall";
+import { useUserRoles } from "@/lib/hooks/use-user-roles";
+import {
+  annualizeRodaRate,
+  formatRodaValue,
+  getChangedRodaFields,
+  getChangedRodaSetters,
+  RODA_FIELDS,
+  RodaFieldDefinition,
+  RodaWaterfallState,
+  validateRodaDraft,
+} from "@/lib/utils/roda-waterfall";
+
+function RodaFieldEditor({
+  definition,
+  draft,
+  decimals,
+  penaltyDenominator,
+  disabled,
+  onChange,
+}: {
+  definition: RodaFieldDefinition;
+  draft: RodaWaterfallState;
+  decimals: number;
+  penaltyDenominator?: bigint;
+  disabled?: boolean;
+  onChange: (value: RodaWaterfallState[keyof RodaWaterfallState]) => void;
+}) {
+  const { field, label, kind, description } = definition;
+  const value = draft[field];
+
+  switch (kind) {
+    case "timestamp":
+      return (
+        <DateTimeInput
+          id={`roda-${field}`}
+          label={label}
+          value={value}
+          onChange={onChange}
+          description={description}
+          disabled={disabled}
+        />
+      );
+    case "amount":
+      return (
+        <div className="space-y-1">
+          <TokenAmountInput
+            label={label}
+            initialValue={value as bigint}
+            onChange={onChange}
+            decimals={decimals}
+            placeholder="0"
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+      );
+    case "flag":
+      return (
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor={`roda-${field}`}>{label}</Label>
+            <p className="text-xs text-muted-foreground">{description}</p>
+          </div>
+          <Switch
+            id={`roda-${field}`}
+            checked={value as boolean}
+            onCheckedChange={onChange}
+            disabled={disabled}
+          />
+        </div>
+      );
+    case "rate":
+      return (
+        <div className="flex flex-col gap-2">
+          <Label htmlFor={`roda-${field}`}>{label}</Label>
+          <Input
+            id={`roda-${field}`}
+            inputMode="numeric"
+            value={(value as bigint).toString()}
+            disabled={disabled}
+            onChange={(e) => {
+              const digits = e.target.value.replace(/[^0-9]/g, "");
+              onChange(BigInt(digits || 0));
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            {description}
+            {penaltyDenominator &&
+              ` over ${penaltyDenominator.toString()}, about ${annualizeRodaRate(
+                value as bigint,
+                penaltyDenominator
+              ).toFixed(4)}% a year`}
+          </p>
+        </div>
+      );
+  }
+}
+
+function RodaConfigContent() {
+  const searchParams = useSearchParams();
+  const network = useEffectiveNetwork();
+  const facilityAddress = searchParams.get("facility");
+  const moduleAddress = searchParams.get("module") || "0x1";
+
+  const { data, isLoading, error, refetch } = useRodaWaterfall({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+  });
+  // Every roda_waterfall setter asserts facility_core::is_admin
+  const { roles } = useUserRoles();
+  const canEdit = roles.facilityAdmin === true;
+
+  const [draft, setDraft] = useState<RodaWaterfallState>();
+  // Bumped to remount the editors, which only read their initial value
+  const [formKey, setFormKey] = useState(0);
+
+  useEffect(() => {
+    if (data && !draft) setDraft(data.state);
+  }, [data, draft]);
+
+  const resetDraft = (state: RodaWaterfallState) => {
+    setDraft(state);
+    setFormKey((key) => key + 1);
+  };
+
+  if (!facilityAddress) {
+    return (
+      <ConfigPrompt missingFields={["facility"]} pageTitle="RODA Configuration" />
+    );
+  }
+
+  const decimals = data?.decimals ?? 6;
+  const symbol = data?.symbol ?? "";
+  const changedFields =
+    data && draft ? getChangedRodaFields(data.state, draft) : [];
+  const changedSetters =
+    data && draft ? getChangedRodaSetters(data.state, draft) : [];
+  const problems =
+    draft && changedFields.length > 0 ? validateRodaDraft(draft) : [];
+
+  const steps = changedSetters.map((setter) => ({
+    title: setter.title,
+    description: setter.fields
+      .map((field) => {
+        const definition = RODA_FIELDS.find((d) => d.field === field)!;
+        return `${definition.label}: ${formatRodaValue(
+          definition,
+          draft!,
+          decimals,
+          symbol,
+          data?.penaltyDenominator
+        )}`;
+      })
+      .join(", "),
+    moduleAddress,
+    moduleName: "roda_waterfall",
+    functionName: setter.functionName,
+    args: [
+      facilityAddress,
+      ...setter.fields.map((field) => {
+        const value = draft![field];
+        return typeof value === "boolean" ? value : String(value);
+      }),
+    ] as unknown as EntryFunctionArgumentTypes[],
+  }));
+
+  // Re-read the resource once the last setter lands. Refetching earlier would
+  // shrink the step list while the stepper is still walking through it.
+  const handleTransactionSubmitted = async ({
+    toStep,
+    txHash,
+  }: StepperTransactionResult) => {
+    if (!txHash || toStep < steps.length) return;
+    await createAptosClient(network.name)
+      .waitForTransaction({
+        transactionHash: txHash,
+        options: { checkSuccess: false },
+      })
+      .catch((error) =>
+        console.error("Error waiting for RODA setter transaction:", error)
+      );
+    const { data: updated } = await refetch();
+    if (updated) resetDraft(updated.state);
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">RODA Configuration</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {facilityAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 rounded-lg bg-muted animate-pulse" />
+      ) : error ? (
+        <div className="text-red-500">
+          Error loading RodaWaterfall: {error.message}
+        </div>
+      ) : data && draft ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Current State
+                {data.state.is_in_default && (
+                  <Badge variant="destructive">In default</Badge>
+                )}
+                {data.state.is_early_close && (
+                  <Badge variant="secondary">Early close</Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                {RODA_FIELDS.map((definition) => (
+                  <div key={definition.field}>
+                    <div className="text-xs text-muted-foreground">
+                      {definition.label}
+                    </div>
+                    <div className="font-medium">
+                      {formatRodaValue(
+                        definition,
+                        data.state,
+                        decimals,
+                        symbol,
+                        data.penaltyDenominator
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+              <div className="space-y-1.5">
+                <CardTitle>Edit</CardTitle>
+                <CardDescription>
+                  Change any number of fields; only the setters for changed
+                  fields are submitted.
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resetDraft(data.state)}
+                disabled={!canEdit || changedFields.length === 0}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!canEdit && (
+                <Alert>
+                  <AlertTitle>Read only</AlertTitle>
+                  <AlertDescription>
+                    Connect a facility admin wallet to change the RODA
+                    configuration.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div
+                key={formKey}
+                className="grid grid-cols-1 md:grid-cols-2 gap-6"
+              >
+                {RODA_FIELDS.map((definition) => (
+                  <RodaFieldEditor
+                    key={definition.field}
+                    definition={definition}
+                    draft={draft}
+                    decimals={decimals}
+                    penaltyDenominator={data.penaltyDenominator}
+                    disabled={!canEdit}
+                    onChange={(value) =>
+                      setDraft((current) =>
+                        current && { ...current, [definition.field]: value }
+                      )
+                    }
+                  />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {changedFields.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Changes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Field</th>
+                        <th className="px-3 py-2 text-left">Before</th>
+                        <th className="px-3 py-2" />
+                        <th className="px-3 py-2 text-left">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedFields.map((definition) => (
+                        <tr key={definition.field} className="border-t">
+                          <td className="px-3 py-2 font-medium">
+                            {definition.label}
+                          </td>
+                          <td className="px-3 py-2 text-muted-foreground">
+                            {formatRodaValue(
+                              definition,
+                              data.state,
+                              decimals,
+                              symbol,
+                              data.penaltyDenominator
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            <ArrowRight className="h-3 w-3" />
+                          </td>
+                          <td className="px-3 py-2">
+                            {formatRodaValue(
+                              definition,
+                              draft,
+                              decimals,
+                              symbol,
+                              data.penaltyDenominator
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {problems.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTitle>Changes need attention</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {canEdit && steps.length > 0 && problems.length === 0 && (
+            <TransactionStepper
+              steps={steps}
+              onTransactionSubmitted={handleTransactionSubmitted}
+              onComplete={() => {
+                toast.success("RODA configuration submitted", {
+                  description: `${steps.length} setter(s) submitted.`,
+                });
+              }}
+            />
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function RodaConfigPage() {
+  return (
+    <Suspense fallback={<div>Loading RODA configuration...</div>}>
+      <RodaConfigContent />
+    </Suspense>
+  );
+}
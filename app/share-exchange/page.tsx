@@ -0,0 +1,615 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+import {
+  StepperTransactionResult,
+  TransactionStepper,
+} from "@/components/transaction-stepper";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { ConfigPrompt } from "@/components/config-prompt";
+import { TokenAmountInput } from "@/components/token-amount-input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createAptosClient } from "@/lib/aptos-service";
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network";
+import {
+  ExchangeShareClass,
+  useExpectedShares,
+  useShareExchange,
+} from "@/lib/hooks/use-share-exchange";
+import { shortenAddress } from "@/lib/utils";
+import { formatTokenAmount } from "@/lib/utils/token";
+import {
+  describeExchangeRule,
+  ExchangeRuleResource,
+  getTotalRaised,
+  navToSharePrice,
+} from "@/lib/utils/share-exchange";
+
+function formatTimestamp(microseconds: number) {
+  return format(new Date(microseconds / 1000), "MMM d, yyyy HH:mm");
+}
+
+function RuleList({
+  title,
+  rules,
+  shareName,
+  decimals,
+  symbol,
+}: {
+  title: string;
+  rules: ExchangeRuleResource[];
+  shareName: (index: number) => string;
+  decimals: number;
+  symbol: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">{title}</div>
+      {rules.length === 0 ? (
+        <div className="text-sm text-muted-foreground">None</div>
+      ) : (
+        <ul className="list-disc pl-4 text-sm">
+          {rules.map((rule, i) => (
+            <li key={i}>
+              <span className="font-mono text-xs text-muted-foreground">
+                {rule.__variant__}
+              </span>{" "}
+              {describeExchangeRule(rule, shareName, decimals, symbol)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ShareExchangeContent() {
+  const searchParams = useSearchParams();
+  const network = useEffectiveNetwork();
+  const facilityAddress = searchParams.get("facility");
+  const moduleAddress = searchParams.get("module") || "0x1";
+
+  const { data, isLoading, error, refetch } = useShareExchange({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+  });
+
+  const [selectedEscrows, setSelectedEscrows] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [navDrafts, setNavDrafts] = useState<Record<number, string>>({});
+  const [calculatorIndex, setCalculatorIndex] = useState(0);
+  const [purchaseAmount, setPurchaseAmount] = useState<bigint>(BigInt(0));
+  // Bumped to remount the steppers once their transactions land
+  const [stepperKey, setStepperKey] = useState(0);
+
+  const expectedShares = useExpectedShares({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+    shareIndex: data?.shares.length ? calculatorIndex : undefined,
+    purchaseAmount,
+  });
+
+  if (!facilityAddress) {
+    return (
+      <ConfigPrompt missingFields={["facility"]} pageTitle="Share Exchange" />
+    );
+  }
+
+  const decimals = data?.decimals ?? 6;
+  const symbol = data?.symbol ?? "";
+  const shares = data?.shares ?? [];
+  const shareName = (index: number) => shares[index]?.name ?? `#${index}`;
+  const formatAmount = (value: bigint) =>
+    `${formatTokenAmount(value, decimals)} ${symbol}`;
+  const formatShares = (value: bigint, share?: ExchangeShareClass) =>
+    `${formatTokenAmount(value, share?.decimals ?? 8)} ${share?.symbol ?? ""}`;
+  const formatPrice = (nav: bigint, share: ExchangeShareClass) =>
+    nav === BigInt(0)
+      ? "Not attested"
+      : `${navToSharePrice(nav, decimals, share.decimals).toLocaleString(
+          undefined,
+          { maximumFractionDigits: 6 }
+        )} ${symbol} per share`;
+
+  const pendingCommitments = (data?.commitments ?? []).filter(
+    (commitment) => commitment.isPending
+  );
+
+  const approvalSteps = pendingCommitments
+    .filter((commitment) => selectedEscrows.has(commitment.address))
+    .map((commitment) => ({
+      title: `Approve ${shortenAddress(commitment.address)}`,
+      description: `${formatAmount(commitment.amountCommitted)} from ${shortenAddress(
+        commitment.purchaser
+      )} for ${formatShares(
+        commitment.amountExpected,
+        shares[commitment.shareIndex]
+      )}`,
+      moduleAddress,
+      moduleName: "share_exchange",
+      functionName: "force_approve_escrow",
+      args: [commitment.address] as unknown as EntryFunctionArgumentTypes[],
+    }));
+
+  const navSteps = shares
+    .filter(
+      (share) =>
+        navDrafts[share.index] !== undefined &&
+        navDrafts[share.index] !== "" &&
+        BigInt(navDrafts[share.index]) !== share.nav
+    )
+    .map((share) => ({
+      title: `Attest ${share.name} NAV`,
+      description: `NAV ${navDrafts[share.index]} (${formatPrice(
+        BigInt(navDrafts[share.index]),
+        share
+      )})`,
+      moduleAddress,
+      moduleName: "share_exchange",
+      functionName: "attest_nav",
+      args: [
+        facilityAddress,
+        share.index,
+        navDrafts[share.index],
+      ] as unknown as EntryFunctionArgumentTypes[],
+    }));
+
+  // Re-read the exchange once the last transaction of a flow lands
+  const handleTransactionSubmitted =
+    (stepCount: number, reset: () => void) =>
+    async ({ toStep, txHash }: StepperTransactionResult) => {
+      if (!txHash || toStep < stepCount) return;
+      await createAptosClient(network.name)
+        .waitForTransaction({
+          transactionHash: txHash,
+          options: { checkSuccess: false },
+        })
+        .catch((error) =>
+          console.error("Error waiting for share exchange transaction:", error)
+        );
+      await refetch();
+      reset();
+      setStepperKey((key) => key + 1);
+    };
+
+  const calculatorShare = shares[calculatorIndex];
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Share Exchange</h1>
+          <p className="text-sm text-muted-foreground font-mono mt-1">
+            {facilityAddress}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 rounded-lg bg-muted animate-pulse" />
+      ) : error ? (
+        <div className="text-red-500">
+          Error loading share exchange: {error.message}
+        </div>
+      ) : data && !data.exists ? (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            This facility was not extended with a share exchange.
+          </AlertDescription>
+        </Alert>
+      ) : data ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Fundraise
+                {data.isActive ? (
+                  <Badge>Active</Badge>
+                ) : (
+                  <Badge variant="secondary">Inactive</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                NAV attestors whitelist{" "}
+                <span className="font-mono">
+                  {data.allowedAttestors &&
+                    shortenAddress(data.allowedAttestors)}
+                </span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {data.activeExchange ? (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-xs text-muted-foreground">
+                        Total Raised
+                      </div>
+                      <div className="font-medium">
+                        {formatAmount(getTotalRaised(data.activeExchange))}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">
+                        Pending in Escrow
+                      </div>
+                      <div className="font-medium">
+                        {formatAmount(
+                          data.activeExchange.statsPerClass.reduce(
+                            (sum, stats) => sum + stats.pendingRaised,
+                            BigInt(0)
+                          )
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">
+                        Started
+                      </div>
+                      <div className="font-medium">
+                        {formatTimestamp(data.activeExchange.timeStarted)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Ends</div>
+                      <div className="font-medium">
+                        {data.activeExchange.timeEnd !== undefined
+                          ? formatTimestamp(data.activeExchange.timeEnd)
+                          : "Open ended"}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <RuleList
+                      title="Pre-issuance rules"
+                      rules={data.activeExchange.preIssuanceRules}
+                      shareName={shareName}
+                      decimals={decimals}
+                      symbol={symbol}
+                    />
+                    <RuleList
+                      title="Post-issuance rules"
+                      rules={data.activeExchange.postIssuanceRules}
+                      shareName={shareName}
+                      decimals={decimals}
+                      symbol={symbol}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No fundraise has been started. start_exchange is not an
+                  entry function, so exchanges are started from facility
+                  setup code.
+                </p>
+              )}
+
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Share Class</th>
+                      <th className="px-3 py-2 text-right">NAV</th>
+                      <th className="px-3 py-2 text-right">Raised</th>
+                      <th className="px-3 py-2 text-right">Pending</th>
+                      <th className="px-3 py-2 text-right">Minted</th>
+                      <th className="px-3 py-2 text-right">To Mint</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shares.map((share) => {
+                      const stats =
+                        data.activeExchange?.statsPerClass[share.index];
+                      return (
+                        <tr key={share.address} className="border-t">
+                          <td className="px-3 py-2">
+                            <div className="font-medium">{share.name}</div>
+                            <div className="font-mono text-muted-foreground">
+                              #{share.index} {shortenAddress(share.address)}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            <div>{share.nav.toString()}</div>
+                            <div className="text-muted-foreground">
+                              {formatPrice(share.nav, share)}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {stats ? formatAmount(stats.amountRaised) : "—"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {stats ? formatAmount(stats.pendingRaised) : "—"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {stats ? formatShares(stats.minted, share) : "—"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {stats ? formatShares(stats.toMint, share) : "—"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Escrowed Commitments</CardTitle>
+              <CardDescription>
+                Purchases held back by a pre-issuance rule, newest first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  force_approve_escrow removes the commitment without minting
+                  its shares; the committed funds stay in the escrow store.
+                </AlertDescription>
+              </Alert>
+              {data.commitments.length === 0 ? (
+                <div className="text-sm text-muted-foreground">
+                  No commitments have been escrowed.
+                </div>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-3 py-2" />
+                        <th className="px-3 py-2 text-left">Commitment</th>
+                        <th className="px-3 py-2 text-left">Purchaser</th>
+                        <th className="px-3 py-2 text-right">Committed</th>
+                        <th className="px-3 py-2 text-right">
+                          Expected Shares
+                        </th>
+                        <th className="px-3 py-2 text-right">In Escrow</th>
+                        <th className="px-3 py-2 text-left">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.commitments.map((commitment) => (
+                        <tr key={commitment.address} className="border-t">
+                          <td className="px-3 py-2">
+                            <Checkbox
+                              checked={selectedEscrows.has(commitment.address)}
+                              disabled={!commitment.isPending}
+                              onCheckedChange={(checked) =>
+                                setSelectedEscrows((previous) => {
+                                  const next = new Set(previous);
+                                  if (checked) {
+                                    next.add(commitment.address);
+                                  } else {
+                                    next.delete(commitment.address);
+                                  }
+                                  return next;
+                                })
+                              }
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="font-mono">
+                              {shortenAddress(commitment.address)}
+                            </div>
+                            <div className="text-muted-foreground">
+                              {shareName(commitment.shareIndex)}
+                              {commitment.timestamp &&
+                                `, ${format(
+                                  commitment.timestamp,
+                                  "MMM d, yyyy HH:mm"
+                                )}`}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 font-mono">
+                            {shortenAddress(commitment.purchaser)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatAmount(commitment.amountCommitted)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatShares(
+                              commitment.amountExpected,
+                              shares[commitment.shareIndex]
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {commitment.escrowBalance !== undefined
+                              ? formatAmount(commitment.escrowBalance)
+                              : "—"}
+                          </td>
+                          <td className="px-3 py-2">
+                            {commitment.isPending ? (
+                              <Badge variant="outline">Pending</Badge>
+                            ) : (
+                              <Badge variant="secondary">Resolved</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {approvalSteps.length > 0 && (
+            <TransactionStepper
+              key={`approve-${stepperKey}`}
+              flowId="approve"
+              steps={approvalSteps}
+              hideAtomicMode
+              onTransactionSubmitted={handleTransactionSubmitted(
+                approvalSteps.length,
+                () => setSelectedEscrows(new Set())
+              )}
+              onComplete={() => {
+                toast.success("Escrow approvals submitted", {
+                  description: `${approvalSteps.length} commitment(s) approved.`,
+                });
+              }}
+            />
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>NAV Attestation</CardTitle>
+              <CardDescription>
+                Purchases convert at amount × 10^16 / NAV shares. The
+                connected wallet must be on the attestors whitelist.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {shares.map((share) => {
+                  const draft = navDrafts[share.index];
+                  return (
+                    <div key={share.address} className="space-y-2">
+                      <Label htmlFor={`nav-${share.index}`}>
+                        {share.name} NAV
+                      </Label>
+                      <Input
+                        id={`nav-${share.index}`}
+                        inputMode="numeric"
+                        placeholder={share.nav.toString()}
+                        value={draft ?? ""}
+                        onChange={(e) =>
+                          setNavDrafts((previous) => ({
+                            ...previous,
+                            [share.index]: e.target.value.replace(
+                              /[^0-9]/g,
+                              ""
+                            ),
+                          }))
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Current: {formatPrice(share.nav, share)}
+                        {draft && `, new: ${formatPrice(BigInt(draft), share)}`}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          {navSteps.length > 0 && (
+            <TransactionStepper
+              key={`nav-${stepperKey}`}
+              flowId="nav"
+              steps={navSteps}
+              onTransactionSubmitted={handleTransactionSubmitted(
+                navSteps.length,
+                () => setNavDrafts({})
+              )}
+              onComplete={() => {
+                toast.success("NAV attestations submitted", {
+                  description: `${navSteps.length} share class(es) attested.`,
+                });
+              }}
+            />
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Purchase Calculator</CardTitle>
+              <CardDescription>
+                Shares a purchase would receive at the attested NAV, from
+                expected_shares_for_purchase.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="calculator-share">Share Class</Label>
+                  <Select
+                    value={String(calculatorIndex)}
+                    onValueChange={(value) => setCalculatorIndex(Number(value))}
+                  >
+                    <SelectTrigger id="calculator-share" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {shares.map((share) => (
+                        <SelectItem
+                          key={share.address}
+                          value={String(share.index)}
+                        >
+                          {share.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <TokenAmountInput
+                  label={`Purchase Amount (${symbol})`}
+                  onChange={setPurchaseAmount}
+                  decimals={decimals}
+                  placeholder="0"
+                />
+                <div className="text-sm">
+                  <div className="text-xs text-muted-foreground">
+                    Expected Shares
+                  </div>
+                  <div className="font-medium">
+                    {calculatorShare?.nav === BigInt(0)
+                      ? "NAV not attested"
+                      : expectedShares.isFetching
+                      ? "Calculating..."
+                      : expectedShares.error
+                      ? "Could not calculate"
+                      : expectedShares.data !== undefined
+                      ? formatShares(expectedShares.data, calculatorShare)
+                      : "—"}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+export default function ShareExchangePage() {
+  return (
+    <Suspense fallback={<div>Loading share exchange...</div>}>
+      <ShareExchangeContent />
+    </Suspense>
+  );
+}
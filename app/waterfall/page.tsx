@@ -19,6 +19,9 @@ import { TokenAmountInput } from "@/components/token-amount-input";
 import { UserRoleDisplay } from "@/components/user-role-display";
 import { useFacilityInfo } from "@/lib/hooks/use-facility-data";
 import { ConfigPrompt } from "@/components/config-prompt";
+import { InterestWaterfallPreview } from "@/components/interest-waterfall-preview";
+import { useRodaWaterfall } from "@/lib/hooks/use-roda-waterfall";
+import { hasInterestWaterfallActivity } from "@/lib/utils/interest-waterfall-preview";
 
 function WaterfallContent() {
   const searchParams = useSearchParams();
@@ -106,6 +109,13 @@ function WaterfallContent() {
     moduleAddress: moduleAddress || undefined,
   });
 
+  // Current deficits and flags, used to attribute simulated interest events
+  // to RODA levels
+  const { data: rodaWaterfall } = useRodaWaterfall({
+    facilityAddress: facilityAddress || undefined,
+    moduleAddress,
+  });
+
   const steps = [
     {
       title: "Approve Capital Call",
@@ -203,12 +213,42 @@ function WaterfallContent() {
       undefined // No specific URL param for fallback advance rate here
     );
 
+    const showInterestPreview =
+      !!facilityAddress &&
+      hasInterestWaterfallActivity(simulationResult, facilityAddress);
+
     return (
-      <Tabs defaultValue="standard" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs
+        defaultValue={showInterestPreview ? "interest" : "standard"}
+        className="w-full"
+      >
+        <TabsList
+          className={`grid w-full ${
+            showInterestPreview ? "grid-cols-3" : "grid-cols-2"
+          }`}
+        >
+          {showInterestPreview && (
+            <TabsTrigger value="interest">Interest Distribution</TabsTrigger>
+          )}
           <TabsTrigger value="standard">Standard Results</TabsTrigger>
           <TabsTrigger value="custom">Advance Rate Details</TabsTrigger>
         </TabsList>
+        {showInterestPreview && (
+          <TabsContent value="interest">
+            <InterestWaterfallPreview
+              result={simulationResult}
+              facilityAddress={facilityAddress}
+              before={rodaWaterfall?.state}
+              available={
+                facilityData?.interestCollectionBalance
+                  ? BigInt(facilityData.interestCollectionBalance)
+                  : undefined
+              }
+              decimals={rodaWaterfall?.decimals ?? 6}
+              symbol={rodaWaterfall?.symbol ?? "USDT"}
+            />
+          </TabsContent>
+        )}
         <TabsContent value="standard">
           <SimulationResults
             result={simulationResult}
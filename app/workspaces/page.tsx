@@ -0,0 +1,539 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { Download, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WalletSelector } from "@/components/wallet-selector";
+import { UserRoleDisplay } from "@/components/user-role-display";
+import { useNavigation } from "@/lib/navigation-context";
+import { useProfile } from "@/lib/hooks/use-config-manager";
+import { useConfigManagerToken } from "@/lib/hooks/use-config-manager-token";
+import {
+  createWorkspace,
+  exportWorkspaces,
+  parseWorkspaceImport,
+  Workspace,
+  workspaceFromProfile,
+} from "@/lib/workspaces";
+import { downloadFile, shortenAddress } from "@/lib/utils";
+import { normalizeAddress } from "@/lib/address-book";
+import { useDiscoveredAddressBook } from "@/lib/hooks/use-address-book";
+
+function exportFilename(name: string) {
+  return `workspace-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`;
+}
+
+function AddressCell({ address }: { address: string }) {
+  return address ? (
+    <span className="font-mono">{shortenAddress(address)}</span>
+  ) : (
+    <span className="text-muted-foreground">—</span>
+  );
+}
+
+function ProfileImport({
+  onCreate,
+}: {
+  onCreate: (workspace: Workspace) => void;
+}) {
+  const { bearerToken, setBearerToken } = useConfigManagerToken();
+  const [tokenDraft, setTokenDraft] = useState("");
+  const [slugDraft, setSlugDraft] = useState("");
+  const [profileSlug, setProfileSlug] = useState<string>();
+  const profile = useProfile(profileSlug, bearerToken);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Load From Config Manager</CardTitle>
+        <CardDescription>
+          Create a workspace for one of a profile&apos;s loan books, with its
+          loan books and originators labelled.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          {!bearerToken && (
+            <div className="space-y-2">
+              <Label htmlFor="profile-token">Bearer Token</Label>
+              <Input
+                id="profile-token"
+                type="password"
+                autoComplete="off"
+                value={tokenDraft}
+                onChange={(e) => setTokenDraft(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="profile-slug">Profile Slug</Label>
+            <Input
+              id="profile-slug"
+              value={slugDraft}
+              onChange={(e) => setSlugDraft(e.target.value.trim())}
+            />
+          </div>
+          <Button
+            disabled={!slugDraft || (!bearerToken && !tokenDraft.trim())}
+            onClick={() => {
+              if (!bearerToken) setBearerToken(tokenDraft.trim());
+              setProfileSlug(slugDraft);
+            }}
+          >
+            Load Profile
+          </Button>
+        </div>
+        {profile.isLoading ? (
+          <div className="h-16 rounded-lg bg-muted animate-pulse" />
+        ) : profile.error ? (
+          <div className="text-red-500">
+            Error loading profile: {profile.error.message}
+          </div>
+        ) : profile.data ? (
+          profile.data.loan_books.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              This profile has no loan books.
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Loan Book</th>
+                    <th className="px-3 py-2 text-left">Chain</th>
+                    <th className="px-3 py-2 text-left">Module</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile.data.loan_books.map((loanBook) => (
+                    <tr key={loanBook.loan_book_address} className="border-t">
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{loanBook.name}</div>
+                        <AddressCell address={loanBook.loan_book_address} />
+                      </td>
+                      <td className="px-3 py-2">{loanBook.chain}</td>
+                      <td className="px-3 py-2">
+                        <AddressCell address={loanBook.module_address} />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            onCreate(
+                              workspaceFromProfile(profile.data!, loanBook)
+                            )
+                          }
+                        >
+                          Create Workspace
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function WorkspacesContent() {
+  const {
+    workspaces,
+    activeWorkspace,
+    switchWorkspace,
+    addWorkspaces,
+    updateWorkspace,
+    deleteWorkspace,
+  } = useNavigation();
+  const [newName, setNewName] = useState("");
+  const [copyCurrent, setCopyCurrent] = useState(false);
+  const [labelAddress, setLabelAddress] = useState("");
+  const [labelText, setLabelText] = useState("");
+  const { data: discovered, isLoading: isDiscovering } =
+    useDiscoveredAddressBook();
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const fields = copyCurrent
+      ? {
+          facilityAddress: activeWorkspace.facilityAddress,
+          moduleAddress: activeWorkspace.moduleAddress,
+          loanBookAddress: activeWorkspace.loanBookAddress,
+          network: activeWorkspace.network,
+          addressBook: activeWorkspace.addressBook,
+        }
+      : {};
+    addWorkspaces([createWorkspace(name, fields)], true);
+    setNewName("");
+    toast.success(`Switched to ${name}`);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseWorkspaceImport(await file.text());
+      addWorkspaces(imported);
+      toast.success(`Imported ${imported.length} workspace(s)`);
+    } catch (error) {
+      toast.error("Import failed", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleAddLabel = () => {
+    if (!AccountAddress.isValid({ input: labelAddress }).valid) {
+      toast.error("Invalid address");
+      return;
+    }
+    updateWorkspace(activeWorkspace.id, {
+      addressBook: {
+        ...activeWorkspace.addressBook,
+        [normalizeAddress(labelAddress) ?? labelAddress]: labelText.trim(),
+      },
+    });
+    setLabelAddress("");
+    setLabelText("");
+  };
+
+  const labels = Object.entries(activeWorkspace.addressBook);
+  // Discovered labels the workspace does not already override
+  const discoveredLabels = Object.entries(discovered ?? {}).filter(
+    ([address]) => !(address in activeWorkspace.addressBook)
+  );
+
+  return (
+    <div className="container mx-auto py-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Workspaces</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Active: {activeWorkspace.name}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <WalletSelector />
+          <UserRoleDisplay />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Workspaces</CardTitle>
+          <CardDescription>
+            Each workspace keeps its own facility, module, loan book, network
+            and address book. Pages read the active one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-left">Network</th>
+                  <th className="px-3 py-2 text-left">Facility</th>
+                  <th className="px-3 py-2 text-left">Module</th>
+                  <th className="px-3 py-2 text-left">Loan Book</th>
+                  <th className="px-3 py-2 text-right">Labels</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {workspaces.map((workspace) => {
+                  const isActive = workspace.id === activeWorkspace.id;
+                  return (
+                    <tr key={workspace.id} className="border-t">
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            aria-label="Workspace name"
+                            className="h-8 text-xs"
+                            value={workspace.name}
+                            onChange={(e) =>
+                              updateWorkspace(workspace.id, {
+                                name: e.target.value,
+                              })
+                            }
+                          />
+                          {isActive && <Badge>Active</Badge>}
+                        </div>
+                        {workspace.profileSlug && (
+                          <div className="text-muted-foreground mt-1">
+                            Profile {workspace.profileSlug}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 capitalize">
+                        {workspace.network}
+                      </td>
+                      <td className="px-3 py-2">
+                        <AddressCell address={workspace.facilityAddress} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <AddressCell address={workspace.moduleAddress} />
+                      </td>
+                      <td className="px-3 py-2">
+                        <AddressCell address={workspace.loanBookAddress} />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {Object.keys(workspace.addressBook).length}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isActive}
+                          onClick={() => switchWorkspace(workspace.id)}
+                        >
+                          Switch
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          aria-label={`Export ${workspace.name}`}
+                          onClick={() =>
+                            downloadFile(
+                              exportFilename(workspace.name),
+                              exportWorkspaces([workspace]),
+                              "application/json"
+                            )
+                          }
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          aria-label={`Delete ${workspace.name}`}
+                          disabled={workspaces.length === 1}
+                          onClick={() => deleteWorkspace(workspace.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-end gap-4">
+            <Button
+              variant="outline"
+              onClick={() =>
+                downloadFile(
+                  "workspaces.json",
+                  exportWorkspaces(workspaces),
+                  "application/json"
+                )
+              }
+            >
+              Export All
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="workspace-import">Import JSON</Label>
+              <Input
+                id="workspace-import"
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Workspace</CardTitle>
+          <CardDescription>
+            The new workspace becomes active.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox
+              id="workspace-copy"
+              checked={copyCurrent}
+              onCheckedChange={(checked) => setCopyCurrent(checked === true)}
+            />
+            <Label htmlFor="workspace-copy">
+              Copy addresses from {activeWorkspace.name}
+            </Label>
+          </div>
+          <Button disabled={!newName.trim()} onClick={handleCreate}>
+            Create Workspace
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Address Book</CardTitle>
+          <CardDescription>
+            Labels for addresses in {activeWorkspace.name}. They are used by
+            simulation results, contract function inputs, bulk transfers and
+            AI transaction descriptions, and override discovered labels.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {labels.length > 0 && (
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Address</th>
+                    <th className="px-3 py-2 text-left">Label</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {labels.map(([address, label]) => (
+                    <tr key={address} className="border-t">
+                      <td className="px-3 py-2 font-mono">{address}</td>
+                      <td className="px-3 py-2">{label}</td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          aria-label={`Remove ${label}`}
+                          onClick={() => {
+                            const rest = { ...activeWorkspace.addressBook };
+                            delete rest[address];
+                            updateWorkspace(activeWorkspace.id, {
+                              addressBook: rest,
+                            });
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="label-address">Address</Label>
+              <Input
+                id="label-address"
+                placeholder="0x..."
+                className="font-mono"
+                value={labelAddress}
+                onChange={(e) => setLabelAddress(e.target.value.trim())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="label-text">Label</Label>
+              <Input
+                id="label-text"
+                value={labelText}
+                onChange={(e) => setLabelText(e.target.value)}
+              />
+            </div>
+            <Button
+              disabled={!labelAddress || !labelText.trim()}
+              onClick={handleAddLabel}
+            >
+              Add Label
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-medium">Discovered</h3>
+                <p className="text-xs text-muted-foreground">
+                  Read from the facility&apos;s shares, originator receivable
+                  account, collection account and admin whitelist.
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={discoveredLabels.length === 0}
+                onClick={() =>
+                  updateWorkspace(activeWorkspace.id, {
+                    addressBook: {
+                      ...Object.fromEntries(discoveredLabels),
+                      ...activeWorkspace.addressBook,
+                    },
+                  })
+                }
+              >
+                Save to Workspace
+              </Button>
+            </div>
+            {isDiscovering ? (
+              <div className="h-16 rounded-lg bg-muted animate-pulse" />
+            ) : discoveredLabels.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                Nothing new discovered for the current facility.
+              </div>
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {discoveredLabels.map(([address, label]) => (
+                      <tr key={address} className="border-t first:border-t-0">
+                        <td className="px-3 py-2 font-mono">{address}</td>
+                        <td className="px-3 py-2">{label}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ProfileImport
+        onCreate={(workspace) => {
+          addWorkspaces([workspace], true);
+          toast.success(`Switched to ${workspace.name}`);
+        }}
+      />
+    </div>
+  );
+}
+
+export default function WorkspacesPage() {
+  return (
+    <Suspense fallback={<div>Loading workspaces...</div>}>
+      <WorkspacesContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { Calculator } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DateTimeInput } from "@/components/date-time-input";
+import { TokenAmountInput } from "@/components/token-amount-input";
+import {
+  AMORTIZATION_TYPES,
+  AmortizationType,
+  generateAmortizationSchedule,
+  PAYMENT_FREQUENCIES,
+  PaymentFrequency,
+  ScheduleInterval,
+} from "@/lib/utils/amortization";
+
+interface AmortizationScheduleGeneratorProps {
+  decimals: number;
+  onGenerate: (schedule: ScheduleInterval[], principal: bigint) => void;
+}
+
+/**
+ * Form that builds a payment schedule from loan terms instead of entering
+ * each installment by hand.
+ */
+export function AmortizationScheduleGenerator({
+  decimals,
+  onGenerate,
+}: AmortizationScheduleGeneratorProps) {
+  const [type, setType] = useState<AmortizationType>("level_payment");
+  const [principal, setPrincipal] = useState<bigint>(BigInt(0));
+  const [apr, setApr] = useState("");
+  const [daysInYear, setDaysInYear] = useState("365");
+  const [frequency, setFrequency] = useState<PaymentFrequency>("monthly");
+  const [paymentCount, setPaymentCount] = useState("12");
+  const [startTimeUs, setStartTimeUs] = useState<number>(
+    () => Date.now() * 1000
+  );
+  const [feePerPayment, setFeePerPayment] = useState<bigint>(BigInt(0));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = () => {
+    try {
+      const schedule = generateAmortizationSchedule({
+        type,
+        principal,
+        aprPercent: Number(apr || 0),
+        daysInYear: parseInt(daysInYear, 10),
+        frequency,
+        paymentCount: parseInt(paymentCount, 10),
+        startDate: new Date(startTimeUs / 1000),
+        feePerPayment,
+      });
+      setError(null);
+      onGenerate(schedule, principal);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Schedule Generator</CardTitle>
+        <CardDescription>
+          Fill the payment intervals below from loan terms. Generating replaces
+          any intervals already entered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="amortization-type">Repayment Type</Label>
+            <Select
+              value={type}
+              onValueChange={(value) => setType(value as AmortizationType)}
+            >
+              <SelectTrigger id="amortization-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AMORTIZATION_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="payment-frequency">Frequency</Label>
+            <Select
+              value={frequency}
+              onValueChange={(value) =>
+                setFrequency(value as PaymentFrequency)
+              }
+            >
+              <SelectTrigger id="payment-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_FREQUENCIES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="payment-count">Number of Payments</Label>
+            <Input
+              id="payment-count"
+              type="number"
+              min={1}
+              value={paymentCount}
+              onChange={(e) => setPaymentCount(e.target.value)}
+            />
+          </div>
+          <TokenAmountInput
+            label={`Principal (${decimals} decimals)`}
+            onChange={setPrincipal}
+            decimals={decimals}
+            placeholder="e.g., 10,000"
+          />
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="apr">APR (%)</Label>
+            <Input
+              id="apr"
+              type="number"
+              min={0}
+              step="0.01"
+              value={apr}
+              onChange={(e) => setApr(e.target.value)}
+              placeholder="e.g., 12.5"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="days-in-year">Days in Year</Label>
+            <Input
+              id="days-in-year"
+              type="number"
+              min={1}
+              value={daysInYear}
+              onChange={(e) => setDaysInYear(e.target.value)}
+            />
+          </div>
+          <TokenAmountInput
+            label="Fee per Payment (optional)"
+            onChange={setFeePerPayment}
+            decimals={decimals}
+            placeholder="0"
+          />
+          <div className="md:col-span-2">
+            <DateTimeInput
+              id="amortization-start"
+              label="Start Date"
+              value={startTimeUs}
+              onChange={setStartTimeUs}
+              description="Interest accrues from here; the first payment is due one period later."
+            />
+          </div>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleGenerate} size="sm">
+          <Calculator />
+          Generate Schedule
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
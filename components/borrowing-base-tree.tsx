@@ -0,0 +1,201 @@
+import { format, formatDistanceStrict } from "date-fns";
+import { ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn, shortenAddress } from "@/lib/utils";
+import { formatTokenAmount } from "@/lib/utils/token";
+import {
+  attestationExpiresAt,
+  BorrowingBaseNode,
+  BorrowingBaseNodeEvaluation,
+  describeBorrowingBaseNode,
+  isAttestationStale,
+} from "@/lib/utils/borrowing-base";
+
+interface BorrowingBaseTreeProps {
+  nodes: BorrowingBaseNode[];
+  evaluations: BorrowingBaseNodeEvaluation[];
+  // Evaluations after a pending attestation, shown next to the current ones
+  previewEvaluations?: BorrowingBaseNodeEvaluation[];
+  now: number; // Microseconds
+  attestableIndex?: number;
+  decimals: number;
+  symbol: string;
+}
+
+function EvaluationValue({
+  evaluation,
+  decimals,
+  symbol,
+}: {
+  evaluation?: BorrowingBaseNodeEvaluation;
+  decimals: number;
+  symbol: string;
+}) {
+  if (evaluation?.value !== undefined) {
+    return (
+      <span className="font-medium">
+        {formatTokenAmount(evaluation.value, decimals)} {symbol}
+      </span>
+    );
+  }
+  return <span className="text-red-500">{evaluation?.error ?? "—"}</span>;
+}
+
+function NodeDetails({
+  node,
+  now,
+  attestableIndex,
+}: {
+  node: BorrowingBaseNode;
+  now: number;
+  attestableIndex?: number;
+}) {
+  switch (node.kind) {
+    case "AttestedValue": {
+      const expiresAt = attestationExpiresAt(node);
+      return (
+        <div className="space-y-1">
+          <div className="flex flex-wrap gap-1">
+            {node.updatedAt === 0 ? (
+              <Badge variant="destructive">Never attested</Badge>
+            ) : isAttestationStale(node, now) ? (
+              <Badge variant="destructive">Stale</Badge>
+            ) : (
+              <Badge variant="secondary">
+                Expires in{" "}
+                {formatDistanceStrict(
+                  new Date(expiresAt / 1000),
+                  new Date(now / 1000)
+                )}
+              </Badge>
+            )}
+            {node.index !== attestableIndex && (
+              <Badge variant="outline">Not reachable by attest_value</Badge>
+            )}
+          </div>
+          <div className="text-muted-foreground">
+            {node.updatedAt > 0 &&
+              `Attested ${format(
+                new Date(node.updatedAt / 1000),
+                "MMM d, yyyy HH:mm"
+              )}, `}
+            TTL{" "}
+            {formatDistanceStrict(0, node.ttl / 1000)}, attestors{" "}
+            <span className="font-mono">
+              {shortenAddress(node.allowedAttestors)}
+            </span>
+          </div>
+        </div>
+      );
+    }
+    case "FungibleAssetBalance":
+      return (
+        <div className="text-muted-foreground">
+          Owner <span className="font-mono">{shortenAddress(node.owner)}</span>
+          , asset{" "}
+          <span className="font-mono">{shortenAddress(node.metadata)}</span>
+        </div>
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Table of every node in a borrowing base tree, indented under its parent,
+ * with each node's evaluated value.
+ */
+export function BorrowingBaseTree({
+  nodes,
+  evaluations,
+  previewEvaluations,
+  now,
+  attestableIndex,
+  decimals,
+  symbol,
+}: BorrowingBaseTreeProps) {
+  // Walk from the root so children sit under their parent
+  const rows: { node: BorrowingBaseNode; depth: number }[] = [];
+  const visit = (index: number, depth: number) => {
+    const node = nodes[index];
+    if (!node) return;
+    rows.push({ node, depth });
+    if ("children" in node) {
+      node.children.forEach((child) => visit(child, depth + 1));
+    }
+  };
+  if (nodes.length > 0) visit(0, 0);
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        The borrowing base tree has no nodes.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <table className="w-full text-xs">
+        <thead className="bg-muted">
+          <tr>
+            <th className="px-3 py-2 text-left">Node</th>
+            <th className="px-3 py-2 text-left">Details</th>
+            <th className="px-3 py-2 text-right">Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ node, depth }) => {
+            const evaluation = evaluations[node.index];
+            const preview = previewEvaluations?.[node.index];
+            const changed =
+              !!preview &&
+              (preview.value !== evaluation?.value ||
+                preview.error !== evaluation?.error);
+            return (
+              <tr key={node.index} className="border-t align-top">
+                <td className="px-3 py-2">
+                  <div
+                    className={cn(depth > 0 && "border-l pl-3")}
+                    style={{ marginLeft: `${Math.max(depth - 1, 0) * 1.5}rem` }}
+                  >
+                    <div className="font-medium">
+                      {describeBorrowingBaseNode(node)}
+                    </div>
+                    <div className="font-mono text-muted-foreground">
+                      #{node.index} {node.kind}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-3 py-2">
+                  <NodeDetails
+                    node={node}
+                    now={now}
+                    attestableIndex={attestableIndex}
+                  />
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  <EvaluationValue
+                    evaluation={evaluation}
+                    decimals={decimals}
+                    symbol={symbol}
+                  />
+                  {changed && (
+                    <div className="flex items-center justify-end gap-1">
+                      <ArrowRight className="h-3 w-3" />
+                      <EvaluationValue
+                        evaluation={preview}
+                        decimals={decimals}
+                        symbol={symbol}
+                      />
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { AccountAuthenticator, AnyRawTransaction } from "@aptos-labs/ts-sdk";
+import { toast } from "sonner";
+import { Check, Clock, Copy, Download } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useWallet } from "@/lib/use-wallet";
+import { AddressBook, formatLabelledAddress } from "@/lib/address-book";
+import {
+  decodeSigningResponse,
+  findRequiredSigner,
+  getRequiredSigners,
+  RequiredSigner,
+  SigningRequest,
+  signingRequestUrl,
+  verifySigningResponse,
+} from "@/lib/co-signing";
+import { downloadFile } from "@/lib/utils";
+
+interface CoSignatureDialogProps {
+  open: boolean;
+  request: SigningRequest;
+  transaction: AnyRawTransaction;
+  addressBook?: AddressBook;
+  onSubmitted: (hash: string) => void;
+  onCancel: () => void;
+}
+
+const signerKey = ({ role, address }: RequiredSigner) => `${role}:${address}`;
+
+/**
+ * Collects the co-signers' authenticators for a built transaction, then signs
+ * it with the connected wallet as the sender and submits it.
+ */
+export function CoSignatureDialog({
+  open,
+  request,
+  transaction,
+  addressBook = {},
+  onSubmitted,
+  onCancel,
+}: CoSignatureDialogProps) {
+  const { submitCoSignedTransaction } = useWallet();
+  const [responseInput, setResponseInput] = useState("");
+  const [authenticators, setAuthenticators] = useState<
+    Record<string, AccountAuthenticator>
+  >({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const requiredSigners = getRequiredSigners(transaction);
+  const missingSigners = requiredSigners.filter(
+    (signer) => !authenticators[signerKey(signer)]
+  );
+
+  const addResponse = (input: string) => {
+    try {
+      const response = decodeSigningResponse(input);
+      const authenticator = verifySigningResponse(transaction, response);
+      const signer = findRequiredSigner(
+        transaction,
+        response.signer,
+        response.asFeePayer ? "feePayer" : "secondary"
+      )!;
+      const key = signerKey(signer);
+      setAuthenticators((current) => ({ ...current, [key]: authenticator }));
+      setResponseInput("");
+      toast.success("Signature added");
+    } catch (error) {
+      toast.error("Invalid signature", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await submitCoSignedTransaction(transaction, {
+        additionalSignersAuthenticators: requiredSigners
+          .filter(({ role }) => role === "secondary")
+          .map((signer) => authenticators[signerKey(signer)]),
+        feePayerAuthenticator: requiredSigners
+          .filter(({ role }) => role === "feePayer")
+          .map((signer) => authenticators[signerKey(signer)])[0],
+      });
+      setAuthenticators({});
+      onSubmitted(response.hash);
+    } catch (error) {
+      toast.error("Submission failed", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const requestUrl = () =>
+    signingRequestUrl(window.location.origin, request);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen && !isSubmitting) onCancel();
+      }}
+    >
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Collect Co-Signatures</DialogTitle>
+          <DialogDescription>
+            {request.title} needs signatures from other accounts before it can
+            be submitted. Share the request, then paste or upload each
+            signer&apos;s response. The request expires at{" "}
+            {new Date(
+              Number(transaction.rawTransaction.expiration_timestamp_secs) *
+                1000
+            ).toLocaleTimeString()}
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2 text-sm">
+          {requiredSigners.map((signer) => (
+            <li key={signerKey(signer)} className="flex items-center gap-2">
+              {authenticators[signerKey(signer)] ? (
+                <Check className="h-4 w-4 text-green-600" />
+              ) : (
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              )}
+              <Badge variant="outline">
+                {signer.role === "feePayer" ? "Fee payer" : "Co-signer"}
+              </Badge>
+              <span className="font-mono text-xs break-all">
+                {formatLabelledAddress(addressBook, signer.address)}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={async () => {
+              await navigator.clipboard.writeText(requestUrl());
+              toast.success("Signing link copied");
+            }}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Copy Link
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              downloadFile(
+                "signing-request.json",
+                JSON.stringify(request, null, 2),
+                "application/json"
+              )
+            }
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download Request
+          </Button>
+        </div>
+
+        {missingSigners.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="signing-response">Signer Response</Label>
+            <textarea
+              id="signing-response"
+              className="w-full min-h-[80px] p-3 border rounded-md bg-transparent text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring font-mono"
+              placeholder="Paste a response code or link"
+              value={responseInput}
+              onChange={(e) => setResponseInput(e.target.value)}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                disabled={!responseInput.trim()}
+                onClick={() => addResponse(responseInput)}
+              >
+                Add Signature
+              </Button>
+              <Input
+                type="file"
+                accept=".json,application/json"
+                className="w-auto"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) addResponse(await file.text());
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={missingSigners.length > 0 || isSubmitting}
+          >
+            {isSubmitting ? "Submitting..." : "Sign and Submit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
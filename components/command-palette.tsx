@@ -16,6 +16,20 @@ import {
   Database,
   ArrowRight,
   Command,
+  History,
+  CalendarClock,
+  BookOpen,
+  Hourglass,
+  Files,
+  SlidersHorizontal,
+  Workflow,
+  PieChart,
+  Landmark,
+  Banknote,
+  Briefcase,
+  Layers,
+  PenLine,
+  FileClock,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useNavigation } from "@/lib/navigation-context";
@@ -46,6 +60,60 @@ const commands: CommandItem[] = [
     category: "Navigation",
     keywords: ["home", "main", "overview"],
   },
+  {
+    id: "portfolio",
+    label: "Portfolio",
+    description: "Health of every saved facility",
+    icon: Briefcase,
+    href: "/portfolio",
+    category: "Navigation",
+    keywords: ["portfolio", "facilities", "health", "utilization", "tests"],
+  },
+  {
+    id: "workspaces",
+    label: "Workspaces",
+    description: "Create, import and export workspaces",
+    icon: Layers,
+    href: "/workspaces",
+    category: "Navigation",
+    keywords: ["workspace", "profile", "import", "export", "address book"],
+  },
+  {
+    id: "history",
+    label: "Transaction History",
+    description: "Transaction history & audit log",
+    icon: History,
+    href: "/history",
+    category: "Navigation",
+    keywords: ["history", "audit", "log", "transactions", "export"],
+  },
+  {
+    id: "cosign",
+    label: "Co-Sign Transaction",
+    description: "Sign a multi-agent or sponsored transaction",
+    icon: PenLine,
+    href: "/cosign",
+    category: "Navigation",
+    keywords: ["cosign", "multi-agent", "fee payer", "sponsor", "signature"],
+  },
+  {
+    id: "facility-timeline",
+    label: "Facility Timeline",
+    description: "Chronological facility events",
+    icon: CalendarClock,
+    href: "/facility/timeline",
+    category: "Navigation",
+    keywords: ["timeline", "events", "capital", "recycle", "interest", "facility"],
+  },
+  {
+    id: "cap-table",
+    label: "Cap Table",
+    description: "Share classes and tranche ledgers",
+    icon: PieChart,
+    href: "/facility/cap-table",
+    category: "Navigation",
+    keywords: ["cap", "table", "share", "tranche", "senior", "junior", "class"],
+  },
   {
     id: "capital-call",
     label: "Capital Call",
@@ -64,6 +132,24 @@ const commands: CommandItem[] = [
     category: "Operations",
     keywords: ["waterfall", "interest", "principal", "distribution"],
   },
+  {
+    id: "roda-config",
+    label: "RODA Config",
+    description: "RODA waterfall settings",
+    icon: SlidersHorizontal,
+    href: "/roda-config",
+    category: "Operations",
+    keywords: ["roda", "waterfall", "default", "penalty", "utilization", "period"],
+  },
+  {
+    id: "borrowing-base",
+    label: "Borrowing Base",
+    description: "Borrowing base tree and attestations",
+    icon: Workflow,
+    href: "/borrowing-base",
+    category: "Operations",
+    keywords: ["borrowing", "base", "attest", "advance", "rate", "collateral"],
+  },
   {
     id: "funding-requests",
     label: "Funding Requests",
@@ -73,6 +159,24 @@ const commands: CommandItem[] = [
     category: "Operations",
     keywords: ["funding", "requests", "manage"],
   },
+  {
+    id: "loan-book",
+    label: "Loan Book Portfolio",
+    description: "Every loan in the loan book",
+    icon: BookOpen,
+    href: "/loan-book",
+    category: "Loans",
+    keywords: ["portfolio", "loans", "delinquency", "dpd", "outstanding"],
+  },
+  {
+    id: "loan-book-aging",
+    label: "DPD Aging",
+    description: "Delinquency aging and late fees",
+    icon: Hourglass,
+    href: "/loan-book/aging",
+    category: "Loans",
+    keywords: ["dpd", "aging", "delinquency", "late", "fees", "default", "csv"],
+  },
   {
     id: "offer-loan",
     label: "Offer Loan",
@@ -82,6 +186,15 @@ const commands: CommandItem[] = [
     category: "Loans",
     keywords: ["offer", "loan", "create", "new"],
   },
+  {
+    id: "offer-loan-bulk",
+    label: "Bulk Origination",
+    description: "Offer loans from a CSV loan tape",
+    icon: Files,
+    href: "/offer-loan/bulk",
+    category: "Loans",
+    keywords: ["bulk", "offer", "loan", "csv", "tape", "import", "batch"],
+  },
   {
     id: "repay-loan",
     label: "Repay Loan",
@@ -91,6 +204,15 @@ const commands: CommandItem[] = [
     category: "Loans",
     keywords: ["repay", "loan", "payment", "process"],
   },
+  {
+    id: "historical-repayments",
+    label: "Historical Repayments",
+    description: "Replay past repayments from a CSV",
+    icon: FileClock,
+    href: "/repay-loan/historical",
+    category: "Loans",
+    keywords: ["historical", "backfill", "migration", "repay", "csv", "import"],
+  },
   {
     id: "token-exchange",
     label: "Token Exchange",
@@ -100,6 +222,24 @@ const commands: CommandItem[] = [
     category: "Exchange",
     keywords: ["token", "exchange", "swap", "convert"],
   },
+  {
+    id: "share-exchange",
+    label: "Share Exchange",
+    description: "Fundraise, escrows and NAV",
+    icon: Landmark,
+    href: "/share-exchange",
+    category: "Exchange",
+    keywords: ["share", "exchange", "fundraise", "escrow", "nav", "purchase"],
+  },
+  {
+    id: "payouts",
+    label: "Payouts",
+    description: "Snapshot and distribute holder payouts",
+    icon: Banknote,
+    href: "/payouts",
+    category: "Exchange",
+    keywords: ["payout", "claim", "snapshot", "holders", "passthrough"],
+  },
   {
     id: "facility-upsize",
     label: "Facility Upsize",
@@ -177,13 +317,35 @@ export function CommandPalette() {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const router = useRouter();
-  const { buildNavUrl } = useNavigation();
+  const { buildNavUrl, workspaces, activeWorkspace, switchWorkspace } =
+    useNavigation();
+
+  // One entry per saved workspace other than the active one
+  const allCommands = useMemo(
+    () => [
+      ...commands,
+      ...workspaces
+        .filter((workspace) => workspace.id !== activeWorkspace.id)
+        .map(
+          (workspace): CommandItem => ({
+            id: `workspace-${workspace.id}`,
+            label: `Switch to ${workspace.name}`,
+            description: `${workspace.network} workspace`,
+            icon: Layers,
+            action: () => switchWorkspace(workspace.id),
+            category: "Workspaces",
+            keywords: ["workspace", "switch", "profile", workspace.network],
+          })
+        ),
+    ],
+    [workspaces, activeWorkspace.id, switchWorkspace]
+  );
 
   // Filter commands based on query
   const filteredCommands = useMemo(() => {
-    if (!query.trim()) return commands;
+    if (!query.trim()) return allCommands;
 
-    return commands.filter((cmd) => {
+    return allCommands.filter((cmd) => {
       const searchText = [
         cmd.label,
         cmd.description,
@@ -192,7 +354,7 @@ export function CommandPalette() {
       ].join(" ");
       return fuzzyMatch(searchText, query);
     });
-  }, [query]);
+  }, [query, allCommands]);
 
   // Group filtered commands by category
   const groupedCommands = useMemo(() => {
@@ -0,0 +1,443 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useQueryClient } from "@tanstack/react-query"
+import { AccountAddress, EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk"
+import { toast } from "sonner"
+import { AlertTriangleIcon } from "lucide-react"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { TransactionStepper } from "@/components/transaction-stepper"
+import { StagedLoanBookResponse } from "@/lib/types/config-manager"
+import { useAutoPledgeConfig } from "@/lib/hooks/use-auto-pledge-config"
+import { useLoanBookConfig } from "@/lib/hooks/use-loan-book-config"
+import { useUserRoles } from "@/lib/hooks/use-user-roles"
+import { useFacilityHealth } from "@/lib/hooks/use-facility-portfolio"
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network"
+import { useAddressBook } from "@/lib/hooks/use-address-book"
+import { getAddressLabel, normalizeAddress } from "@/lib/address-book"
+import { loadSavedFacilities } from "@/lib/saved-facilities"
+import { formatTokenAmount } from "@/lib/utils/token"
+import { cn, shortenAddress } from "@/lib/utils"
+
+/**
+ * Props for the AutoPledgePanel component
+ */
+interface AutoPledgePanelProps {
+  /** Staged loan book whose on-chain auto-pledge config is managed */
+  loanBook: StagedLoanBookResponse
+}
+
+/**
+ * A set_auto_pledge_config call waiting in the stepper
+ */
+interface AutoPledgeChange {
+  enabled: boolean
+  facilityAddress: string
+}
+
+/**
+ * Whether two optional addresses point at the same account, treating two
+ * missing values as equal
+ */
+function isSameTarget(a?: string | null, b?: string | null): boolean {
+  if (!a || !b) return !a && !b
+  return (normalizeAddress(a) ?? a) === (normalizeAddress(b) ?? b)
+}
+
+/**
+ * Name and health of a facility, as shown on the portfolio dashboard
+ */
+function FacilitySummary({
+  facilityAddress,
+  moduleAddress,
+  muted = false,
+}: {
+  facilityAddress: string
+  moduleAddress: string
+  muted?: boolean
+}) {
+  const network = useEffectiveNetwork()
+  const addressBook = useAddressBook()
+  const { data: facility, isLoading, error } = useFacilityHealth({
+    facilityAddress,
+    moduleAddress,
+  })
+
+  // Saved portfolio labels first, then workspace and discovered labels
+  const name = React.useMemo(
+    () =>
+      loadSavedFacilities().find(
+        (saved) =>
+          saved.network === network.name &&
+          isSameTarget(saved.facilityAddress, facilityAddress)
+      )?.label ??
+      getAddressLabel(addressBook, facilityAddress) ??
+      "Unnamed facility",
+    [addressBook, facilityAddress, network.name]
+  )
+
+  const health = facility?.health
+  const amount = (value?: bigint) =>
+    value === undefined || !facility
+      ? "—"
+      : `${value < BigInt(0) ? "-" : ""}${formatTokenAmount(
+          value < BigInt(0) ? -value : value,
+          facility.decimals
+        )} ${facility.symbol}`
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-4 space-y-3",
+        muted && "text-muted-foreground"
+      )}
+    >
+      <div>
+        <div className="font-medium">{name}</div>
+        <div className="font-mono text-xs break-all">{facilityAddress}</div>
+      </div>
+      {isLoading ? (
+        <div className="h-10 rounded bg-muted animate-pulse" />
+      ) : error || !facility || !health ? (
+        <div className="text-sm text-red-500">
+          Could not read facility: {error?.message ?? "Unknown error"}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div>
+              <div className="text-xs text-muted-foreground">Size</div>
+              <div>{amount(health.size)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Outstanding</div>
+              <div>{amount(health.outstandingPrincipal)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Utilization</div>
+              <div>
+                {health.utilization !== undefined
+                  ? `${(health.utilization * 100).toFixed(2)}%`
+                  : "—"}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">BB Headroom</div>
+              <div
+                className={cn(
+                  health.headroom !== undefined &&
+                    health.headroom < BigInt(0) &&
+                    "text-red-500"
+                )}
+              >
+                {health.borrowingBase === undefined
+                  ? "Stale"
+                  : amount(health.headroom)}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Tests</div>
+              <div className="capitalize">{facility.data.testsStatus}</div>
+            </div>
+          </div>
+          {health.flags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {health.flags.map((flag) => (
+                <Badge key={flag} variant="destructive">
+                  {flag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * On-chain auto-pledge settings of a hybrid loan book, which decide whether
+ * newly offered loans are pledged into a facility automatically.
+ *
+ * Features:
+ * - Shows the current target facility with its name and health
+ * - Enables, disables or retargets auto-pledge through the transaction stepper
+ * - Flags when the on-chain target differs from the staged auto_pledge_address
+ *
+ * @example
+ * ```tsx
+ * <AutoPledgePanel loanBook={stagedLoanBook} />
+ * ```
+ */
+export function AutoPledgePanel({ loanBook }: AutoPledgePanelProps) {
+  const queryClient = useQueryClient()
+  const {
+    loanBookConfig,
+    isLoading: isConfigLoading,
+    error: configError,
+  } = useLoanBookConfig({ loanBookAddress: loanBook.loan_book_address })
+  const {
+    data: autoPledge,
+    isLoading: isAutoPledgeLoading,
+    error: autoPledgeError,
+  } = useAutoPledgeConfig({ configAddress: loanBookConfig?.configAddress })
+  // set_auto_pledge_config admits the config owner as well as loan book admins
+  const { roles } = useUserRoles({
+    loanBookAddress: loanBook.loan_book_address,
+  })
+  const canConfigure = roles.loanBookConfigAdmin === true
+
+  const stagedTarget = loanBook.auto_pledge_address || null
+  const [targetInput, setTargetInput] = React.useState("")
+  const [pendingChange, setPendingChange] =
+    React.useState<AutoPledgeChange | null>(null)
+  const isTargetSeededRef = React.useRef(false)
+
+  // Start from the staged target, or whatever is stored on chain, once the
+  // config has loaded; refetches leave the admin's input alone
+  React.useEffect(() => {
+    if (autoPledge === undefined || isTargetSeededRef.current) return
+    isTargetSeededRef.current = true
+    setTargetInput(stagedTarget ?? autoPledge?.facilityAddress ?? "")
+  }, [autoPledge, stagedTarget])
+
+  const isLoading = isConfigLoading || isAutoPledgeLoading
+  const error = configError ?? autoPledgeError
+  const moduleAddress = loanBookConfig?.moduleAddress
+  const onChainTarget = autoPledge?.enabled ? autoPledge.facilityAddress : null
+  const isMismatch =
+    autoPledge !== undefined && !isSameTarget(stagedTarget, onChainTarget)
+  const isTargetValid = AccountAddress.isValid({ input: targetInput }).valid
+  const isNewTarget = isTargetValid && !isSameTarget(targetInput, onChainTarget)
+
+  const steps =
+    pendingChange && loanBookConfig && canConfigure
+      ? [
+          {
+            title: pendingChange.enabled
+              ? onChainTarget
+                ? "Retarget Auto-Pledge"
+                : "Enable Auto-Pledge"
+              : "Disable Auto-Pledge",
+            description: pendingChange.enabled
+              ? `Pledge new loans into facility ${shortenAddress(
+                  pendingChange.facilityAddress
+                )}`
+              : "Stop pledging new loans automatically",
+            moduleAddress: loanBookConfig.moduleAddress,
+            moduleName: "hybrid_loan_book",
+            functionName: "set_auto_pledge_config",
+            args: [
+              loanBookConfig.configAddress,
+              pendingChange.enabled,
+              pendingChange.facilityAddress,
+            ] as unknown as EntryFunctionArgumentTypes[],
+          },
+        ]
+      : []
+
+  // Disabling still names a facility; keep the current one so re-enabling
+  // later does not silently switch targets
+  const applyStagedTarget = () => {
+    if (stagedTarget) {
+      setTargetInput(stagedTarget)
+      setPendingChange({ enabled: true, facilityAddress: stagedTarget })
+    } else if (autoPledge) {
+      setPendingChange({
+        enabled: false,
+        facilityAddress: autoPledge.facilityAddress,
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Auto-Pledge</CardTitle>
+        <CardDescription>
+          Loans offered in this loan book are pledged into the target facility
+          automatically while auto-pledge is enabled.
+        </CardDescription>
+        {autoPledge !== undefined && (
+          <CardAction>
+            <Badge
+              variant={autoPledge?.enabled ? "default" : "outline"}
+              className={cn(
+                autoPledge?.enabled &&
+                  "bg-green-500 hover:bg-green-600 text-white"
+              )}
+            >
+              {autoPledge === null
+                ? "Not configured"
+                : autoPledge.enabled
+                  ? "Enabled"
+                  : "Disabled"}
+            </Badge>
+          </CardAction>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="h-32 rounded-lg bg-muted animate-pulse" />
+        ) : error ? (
+          <div className="text-red-500">
+            Error loading auto-pledge config: {error.message}
+          </div>
+        ) : (
+          <>
+            {isMismatch && (
+              <Alert variant="destructive">
+                <AlertTriangleIcon />
+                <AlertTitle>Staged config differs from chain</AlertTitle>
+                <AlertDescription>
+                  <p>
+                    Staged auto-pledge target:{" "}
+                    <span className="font-mono break-all">
+                      {stagedTarget ?? "disabled"}
+                    </span>
+                    . On chain:{" "}
+                    <span className="font-mono break-all">
+                      {onChainTarget ?? "disabled"}
+                    </span>
+                    .
+                  </p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {canConfigure && (stagedTarget || autoPledge) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={applyStagedTarget}
+                      >
+                        Apply Staged Target
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" asChild>
+                      <Link
+                        href={`/admin/staged-loan-books/${encodeURIComponent(
+                          loanBook.loan_book_address
+                        )}/edit`}
+                      >
+                        Edit Staged Config
+                      </Link>
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {autoPledge && moduleAddress ? (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">
+                  {autoPledge.enabled ? "Current Target" : "Last Target"}
+                </h3>
+                <FacilitySummary
+                  facilityAddress={autoPledge.facilityAddress}
+                  moduleAddress={moduleAddress}
+                  muted={!autoPledge.enabled}
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Auto-pledge has never been configured for this loan book.
+              </p>
+            )}
+
+            {canConfigure ? (
+              <>
+              <div className="space-y-2">
+                <Label htmlFor="auto-pledge-target">Target Facility</Label>
+                <Input
+                  id="auto-pledge-target"
+                  className="font-mono"
+                  placeholder="0x..."
+                  value={targetInput}
+                  onChange={(e) => {
+                    setTargetInput(e.target.value.trim())
+                    setPendingChange(null)
+                  }}
+                />
+              </div>
+              {isNewTarget && moduleAddress && (
+                <FacilitySummary
+                  facilityAddress={targetInput}
+                  moduleAddress={moduleAddress}
+                />
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  disabled={!isNewTarget}
+                  onClick={() =>
+                    setPendingChange({
+                      enabled: true,
+                      facilityAddress: targetInput,
+                    })
+                  }
+                >
+                  {onChainTarget ? "Retarget" : "Enable"}
+                </Button>
+                {autoPledge?.enabled && (
+                  <Button
+                    variant="outline"
+                    onClick={() =>
+                      setPendingChange({
+                        enabled: false,
+                        facilityAddress: autoPledge.facilityAddress,
+                      })
+                    }
+                  >
+                    Disable
+                  </Button>
+                )}
+              </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Only a loan book admin or the owner of the loan book config can
+                change auto-pledge. Connect one of their wallets to make
+                changes.
+              </p>
+            )}
+
+            {steps.length > 0 && (
+              <TransactionStepper
+                key={JSON.stringify(pendingChange)}
+                steps={steps}
+                loanBookAddress={loanBook.loan_book_address}
+                hideBatchMode
+                hideAtomicMode
+                onComplete={() => {
+                  toast.success(
+                    pendingChange?.enabled
+                      ? "Auto-pledge target updated"
+                      : "Auto-pledge disabled"
+                  )
+                  setPendingChange(null)
+                  queryClient.invalidateQueries({
+                    queryKey: ["autoPledgeConfig"],
+                  })
+                  queryClient.invalidateQueries({
+                    queryKey: ["onChainLoanBook"],
+                  })
+                }}
+              />
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import * as React from "react"
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useConfigManagerToken } from "@/lib/hooks/use-config-manager-token"
+import { KeyRoundIcon } from "lucide-react"
+
+/**
+ * Props for the BearerTokenPrompt component
+ */
+interface BearerTokenPromptProps {
+  /** Callback when a token is submitted */
+  onSubmit: (token: string) => void
+  /** Optional error message, e.g. after the API rejected the previous token */
+  error?: string
+}
+
+/**
+ * A card asking for the config-manager API bearer token.
+ *
+ * The token is only passed to the callback; storing it is up to the caller.
+ *
+ * @example
+ * ```tsx
+ * <BearerTokenPrompt onSubmit={setBearerToken} />
+ * ```
+ */
+export function BearerTokenPrompt({ onSubmit, error }: BearerTokenPromptProps) {
+  const [token, setToken] = React.useState("")
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = token.trim()
+    if (!trimmed) return
+    onSubmit(trimmed)
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] p-4">
+      <Card className="w-full max-w-md">
+        <form onSubmit={handleSubmit}>
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-4">
+              <KeyRoundIcon className="size-6 text-muted-foreground" />
+            </div>
+            <CardTitle>Config Manager Token Required</CardTitle>
+            <CardDescription>
+              Enter your config-manager API bearer token to manage staged loan
+              books. It is kept for this browser session only.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 py-4">
+            <Label htmlFor="bearerToken">Bearer Token</Label>
+            <Input
+              id="bearerToken"
+              type="password"
+              autoComplete="off"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="eyJhbGciOi..."
+              className={error ? "border-destructive" : ""}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" className="w-full" disabled={!token.trim()}>
+              Continue
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  )
+}
+
+/**
+ * Props for the BearerTokenGate component
+ */
+interface BearerTokenGateProps {
+  /** Rendered once a token is available */
+  children: (
+    bearerToken: string,
+    clearBearerToken: (reason?: string) => void
+  ) => React.ReactNode
+}
+
+/**
+ * Renders its children only once a config-manager bearer token has been
+ * entered for this session, prompting for one otherwise.
+ *
+ * Children receive a callback to drop the token, which sends the user back
+ * to the prompt. Pass a reason (e.g. after a 401) to show it on the prompt.
+ *
+ * @example
+ * ```tsx
+ * <BearerTokenGate>
+ *   {(token, clearToken) => <AdminContent bearerToken={token} onSignOut={clearToken} />}
+ * </BearerTokenGate>
+ * ```
+ */
+export function BearerTokenGate({ children }: BearerTokenGateProps) {
+  const { bearerToken, isHydrated, setBearerToken, clearBearerToken } =
+    useConfigManagerToken()
+  const [error, setError] = React.useState<string>()
+
+  const handleClear = React.useCallback(
+    (reason?: string) => {
+      clearBearerToken()
+      setError(reason)
+    },
+    [clearBearerToken]
+  )
+
+  if (!isHydrated) {
+    return null
+  }
+
+  if (!bearerToken) {
+    return (
+      <BearerTokenPrompt
+        error={error}
+        onSubmit={(token) => {
+          setError(undefined)
+          setBearerToken(token)
+        }}
+      />
+    )
+  }
+
+  return <>{children(bearerToken, handleClear)}</>
+}
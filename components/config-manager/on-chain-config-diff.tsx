@@ -0,0 +1,85 @@
+"use client"
+
+import * as React from "react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { ConfigDiffRow } from "@/lib/utils/staged-loan-book"
+
+/**
+ * Props for the OnChainConfigDiff component
+ */
+interface OnChainConfigDiffProps {
+  /** Rows produced by diffStagedLoanBook */
+  rows: ConfigDiffRow[]
+}
+
+/**
+ * Renders a value cell, showing "Not set" for empty values
+ */
+function ValueCell({ value }: { value: string | null }) {
+  return value === null ? (
+    <span className="text-muted-foreground italic">Not set</span>
+  ) : (
+    <span className="font-mono break-all">{value}</span>
+  )
+}
+
+/**
+ * Side-by-side table of staged config values against on-chain values.
+ *
+ * Features:
+ * - Highlights mismatched rows in red
+ * - Marks rows that could not be read from chain as unverified
+ * - Shows full addresses so mismatches can be checked by eye
+ *
+ * @example
+ * ```tsx
+ * <OnChainConfigDiff rows={diffStagedLoanBook(loanBook, onChainState, chainId)} />
+ * ```
+ */
+export function OnChainConfigDiff({ rows }: OnChainConfigDiffProps) {
+  return (
+    <div className="rounded-md border overflow-hidden">
+      <table className="w-full text-xs">
+        <thead className="bg-muted">
+          <tr>
+            <th className="text-left font-medium p-2">Field</th>
+            <th className="text-left font-medium p-2">Staged</th>
+            <th className="text-left font-medium p-2">On Chain</th>
+            <th className="p-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.label}
+              className={cn(
+                "border-t align-top",
+                row.status === "mismatch" && "bg-red-50 dark:bg-red-950/40"
+              )}
+            >
+              <td className="p-2 font-medium whitespace-nowrap">{row.label}</td>
+              <td className="p-2">
+                <ValueCell value={row.staged} />
+              </td>
+              <td className="p-2">
+                <ValueCell value={row.onChain} />
+              </td>
+              <td className="p-2 text-right">
+                {row.status === "match" && (
+                  <Badge className="bg-green-500 text-white">Match</Badge>
+                )}
+                {row.status === "mismatch" && (
+                  <Badge variant="destructive">Mismatch</Badge>
+                )}
+                {row.status === "unverified" && (
+                  <Badge variant="outline">Unverified</Badge>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+"use client"
+
+import * as React from "react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { OnChainConfigDiff } from "@/components/config-manager/on-chain-config-diff"
+import { StagedLoanBookResponse } from "@/lib/types/config-manager"
+import { useOnChainLoanBook } from "@/lib/hooks/use-on-chain-loan-book"
+import { useEffectiveNetwork } from "@/lib/hooks/use-effective-network"
+import {
+  diffStagedLoanBook,
+  getMissingPromotionFields,
+} from "@/lib/utils/staged-loan-book"
+import { AlertTriangleIcon, Loader2Icon } from "lucide-react"
+
+/**
+ * Props for the PromoteStagedLoanBookDialog component
+ */
+interface PromoteStagedLoanBookDialogProps {
+  /** The staged loan book to promote, or null when the dialog is closed */
+  loanBook: StagedLoanBookResponse | null
+  /** Callback when the dialog open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Callback when the user confirms; close the dialog once it settles */
+  onConfirm: (loanBook: StagedLoanBookResponse) => void
+  /** Whether the promotion request is in flight */
+  isPromoting?: boolean
+}
+
+/**
+ * Confirmation dialog shown before promoting a staged loan book.
+ *
+ * Features:
+ * - Blocks promotion while the loan book is not marked complete
+ * - Lists required production fields that are still empty
+ * - Shows the completion notes left by whoever staged the loan book
+ * - Diffs the staged config against the on-chain loan book and blocks
+ *   promotion on any mismatch until the user explicitly overrides it
+ *
+ * @example
+ * ```tsx
+ * <PromoteStagedLoanBookDialog
+ *   loanBook={promoting}
+ *   onOpenChange={(open) => !open && setPromoting(null)}
+ *   isPromoting={promote.isPending}
+ *   onConfirm={(lb) =>
+ *     promote.mutate(lb.loan_book_address, {
+ *       onSettled: () => setPromoting(null),
+ *     })
+ *   }
+ * />
+ * ```
+ */
+export function PromoteStagedLoanBookDialog({
+  loanBook,
+  onOpenChange,
+  onConfirm,
+  isPromoting = false,
+}: PromoteStagedLoanBookDialogProps) {
+  const missingFields = React.useMemo(
+    () => (loanBook ? getMissingPromotionFields(loanBook) : []),
+    [loanBook]
+  )
+
+  const network = useEffectiveNetwork()
+  const {
+    onChainState,
+    isLoading: isLoadingOnChain,
+    error: onChainError,
+  } = useOnChainLoanBook({ loanBookAddress: loanBook?.loan_book_address })
+
+  const diffRows = React.useMemo(
+    () =>
+      loanBook && onChainState
+        ? diffStagedLoanBook(loanBook, onChainState, network.chainId)
+        : [],
+    [loanBook, onChainState, network.chainId]
+  )
+
+  // Anything we could not confirm against the chain needs an explicit override
+  const hasDiscrepancies =
+    !!onChainError || diffRows.some((row) => row.status !== "match")
+  const mismatchCount = diffRows.filter(
+    (row) => row.status === "mismatch"
+  ).length
+
+  const [overrideDiscrepancies, setOverrideDiscrepancies] =
+    React.useState(false)
+
+  React.useEffect(() => {
+    setOverrideDiscrepancies(false)
+  }, [loanBook?.loan_book_address])
+
+  const canPromote =
+    !!loanBook?.is_complete &&
+    !isPromoting &&
+    !isLoadingOnChain &&
+    (!hasDiscrepancies || overrideDiscrepancies)
+
+  return (
+    <AlertDialog
+      open={!!loanBook}
+      onOpenChange={(open) => !isPromoting && onOpenChange(open)}
+    >
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Promote Staged Loan Book</AlertDialogTitle>
+          <AlertDialogDescription>
+            Promoting makes{" "}
+            <span className="font-medium">
+              {loanBook?.name || loanBook?.loan_book_address}
+            </span>{" "}
+            available in production. This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {loanBook && !loanBook.is_complete && (
+          <Alert variant="destructive">
+            <AlertTriangleIcon />
+            <AlertTitle>Not marked as complete</AlertTitle>
+            <AlertDescription>
+              Edit the staged loan book and mark it as complete before
+              promoting it.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {missingFields.length > 0 && (
+          <Alert>
+            <AlertTriangleIcon className="text-yellow-500" />
+            <AlertTitle>Incomplete fields</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {missingFields.map((field) => (
+                  <li key={field}>{field}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loanBook?.completion_notes && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">Completion Notes</div>
+            <p className="text-sm whitespace-pre-wrap rounded-md bg-muted p-3">
+              {loanBook.completion_notes}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">
+            Staged vs. On-Chain ({network.name})
+          </div>
+          {isLoadingOnChain ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2Icon className="size-4 animate-spin" />
+              Reading loan book from chain...
+            </div>
+          ) : onChainError ? (
+            <Alert variant="destructive">
+              <AlertTriangleIcon />
+              <AlertTitle>Could not read loan book from chain</AlertTitle>
+              <AlertDescription>{onChainError.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <OnChainConfigDiff rows={diffRows} />
+          )}
+        </div>
+
+        {hasDiscrepancies && !isLoadingOnChain && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3">
+            <Checkbox
+              id="overrideDiscrepancies"
+              checked={overrideDiscrepancies}
+              onCheckedChange={(checked) =>
+                setOverrideDiscrepancies(checked === true)
+              }
+              disabled={isPromoting}
+            />
+            <Label
+              htmlFor="overrideDiscrepancies"
+              className="text-sm font-normal leading-snug"
+            >
+              {mismatchCount > 0
+                ? `${mismatchCount} field${mismatchCount === 1 ? "" : "s"} disagree with the chain.`
+                : "Some fields could not be verified on chain."}{" "}
+              I have reviewed the differences and want to promote anyway.
+            </Label>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPromoting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!canPromote}
+            onClick={(e) => {
+              // Stay open while promoting; the caller closes the dialog once
+              // the request settles
+              e.preventDefault()
+              if (loanBook) onConfirm(loanBook)
+            }}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isPromoting ? "Promoting..." : "Promote"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,298 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardAction,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { StagedLoanBookResponse } from "@/lib/types/config-manager"
+
+/**
+ * Props for the StagedLoanBookDetails component
+ */
+interface StagedLoanBookDetailsProps {
+  /** The staged loan book to display */
+  loanBook: StagedLoanBookResponse
+}
+
+/**
+ * Formats a date string to a readable format
+ * @param dateString - ISO date string
+ * @returns Formatted date string
+ */
+function formatDate(dateString: string | null | undefined): string {
+  if (!dateString) return "N/A"
+  try {
+    return format(new Date(dateString), "MMM d, yyyy HH:mm")
+  } catch {
+    return "Invalid date"
+  }
+}
+
+/**
+ * Formats a microsecond duration as days, falling back to the raw value
+ */
+function formatMicrosAsDays(micros: number): string {
+  const days = micros / (24 * 60 * 60 * 1_000_000)
+  return `${micros.toLocaleString()} µs (${days.toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  })} days)`
+}
+
+/**
+ * A single label/value row
+ */
+function Field({
+  label,
+  value,
+  mono = false,
+}: {
+  label: string
+  value: React.ReactNode
+  mono?: boolean
+}) {
+  const isEmpty = value === null || value === undefined || value === ""
+  return (
+    <div className="space-y-0.5 min-w-0">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div
+        className={
+          isEmpty
+            ? "text-sm text-muted-foreground italic"
+            : mono
+              ? "text-sm font-mono break-all"
+              : "text-sm font-medium"
+        }
+      >
+        {isEmpty ? "Not set" : value}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * A titled section of fields
+ */
+function Section({
+  title,
+  children,
+}: {
+  title: string
+  children: React.ReactNode
+}) {
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-sm border-b pb-1">{title}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{children}</div>
+    </div>
+  )
+}
+
+/**
+ * Read-only view of every field on a staged loan book.
+ *
+ * Features:
+ * - Groups fields in the same sections as StagedLoanBookForm
+ * - Shows completion and promotion status badges
+ * - Renders empty fields as "Not set" so gaps are easy to spot
+ *
+ * @example
+ * ```tsx
+ * <StagedLoanBookDetails loanBook={stagedLoanBook} />
+ * ```
+ */
+export function StagedLoanBookDetails({ loanBook }: StagedLoanBookDetailsProps) {
+  const lateFee = loanBook.late_fee_config
+  const riskScore = loanBook.risk_score_scale
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{loanBook.name || "Unnamed Loan Book"}</CardTitle>
+        <CardDescription>
+          <code className="text-xs bg-muted px-1.5 py-0.5 rounded break-all">
+            {loanBook.loan_book_address}
+          </code>
+        </CardDescription>
+        <CardAction className="flex gap-2">
+          <Badge
+            className={
+              loanBook.is_complete
+                ? "bg-green-500 hover:bg-green-600 text-white"
+                : "bg-yellow-500 hover:bg-yellow-600 text-white"
+            }
+          >
+            {loanBook.is_complete ? "Complete" : "Incomplete"}
+          </Badge>
+          <Badge variant={loanBook.promoted_at ? "default" : "outline"}>
+            {loanBook.promoted_at ? "Promoted" : "Not Promoted"}
+          </Badge>
+        </CardAction>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <Section title="Basic Information">
+          <Field label="Organization ID" value={loanBook.org_id} mono />
+          <Field label="Tenant ID" value={loanBook.tenant_id} mono />
+          <Field label="Created By" value={loanBook.created_by} />
+          <Field label="Country Code" value={loanBook.country_code} />
+        </Section>
+
+        <Section title="Blockchain Configuration">
+          <Field label="Chain" value={loanBook.chain} />
+          <Field label="Chain ID" value={loanBook.chain_id} />
+          <Field label="Module Address" value={loanBook.module_address} mono />
+          <Field
+            label="Loan Book Config Address"
+            value={loanBook.loan_book_config_address}
+            mono
+          />
+          <Field
+            label="Originator Address"
+            value={loanBook.originator_address}
+            mono
+          />
+          <Field
+            label="Auto Pledge Address"
+            value={loanBook.auto_pledge_address}
+            mono
+          />
+          <Field label="Default Token" value={loanBook.default_token} mono />
+        </Section>
+
+        <Section title="Loan Book Configuration">
+          <Field
+            label="Loan Book Variant"
+            value={loanBook.loan_book_variant?.replace(/_/g, " ")}
+          />
+          <Field label="Days in Year" value={loanBook.days_in_year} />
+          <Field label="DPD Default Threshold" value={loanBook.dpd_default} />
+          <Field
+            label="Expected Originations Per Day"
+            value={loanBook.expected_originations_per_day}
+          />
+          <Field
+            label="Expected Payments Per Day"
+            value={loanBook.expected_payments_per_day}
+          />
+        </Section>
+
+        <Section title="Flags">
+          <Field
+            label="Feature Flags"
+            value={
+              loanBook.feature_flags && (
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(loanBook.feature_flags).map(([flag, on]) => (
+                    <Badge key={flag} variant={on ? "default" : "outline"}>
+                      {flag}
+                    </Badge>
+                  ))}
+                </div>
+              )
+            }
+          />
+          <Field
+            label="Validation Flags"
+            value={
+              loanBook.validation_flags && (
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(loanBook.validation_flags).map(
+                    ([flag, on]) => (
+                      <Badge key={flag} variant={on ? "default" : "outline"}>
+                        {flag}
+                      </Badge>
+                    )
+                  )}
+                </div>
+              )
+            }
+          />
+        </Section>
+
+        <Section title="Late Fee Configuration">
+          {lateFee ? (
+            <>
+              <Field
+                label="Grace Period"
+                value={formatMicrosAsDays(lateFee.grace_period_micros)}
+              />
+              <Field
+                label="Accrual Period"
+                value={formatMicrosAsDays(lateFee.accrual_period_micros)}
+              />
+              <Field
+                label="Accrual Per Period"
+                value={`${lateFee.accrual_per_period_numerator} / ${lateFee.accrual_per_period_denominator}`}
+              />
+              <Field label="Maximum Periods" value={lateFee.max_periods} />
+            </>
+          ) : (
+            <Field label="Late Fee" value={null} />
+          )}
+        </Section>
+
+        <Section title="Risk Score Scale">
+          {riskScore ? (
+            <Field
+              label="Linear Range"
+              value={`${riskScore.min} – ${riskScore.max}`}
+            />
+          ) : (
+            <Field label="Risk Score" value={null} />
+          )}
+        </Section>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-sm border-b pb-1">
+            Categorization Buckets
+          </h3>
+          {loanBook.categorization_buckets ? (
+            <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+              {JSON.stringify(loanBook.categorization_buckets, null, 2)}
+            </pre>
+          ) : (
+            <Field label="Buckets" value={null} />
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-sm border-b pb-1">Notes</h3>
+          <Field
+            label="Completion Notes"
+            value={
+              loanBook.completion_notes && (
+                <span className="whitespace-pre-wrap font-normal">
+                  {loanBook.completion_notes}
+                </span>
+              )
+            }
+          />
+        </div>
+
+        <div className="text-xs space-y-1 pt-2 border-t">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Created:</span>
+            <span>{formatDate(loanBook.created_at)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Updated:</span>
+            <span>{formatDate(loanBook.updated_at)}</span>
+          </div>
+          {loanBook.promoted_at && (
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Promoted:</span>
+              <span>{formatDate(loanBook.promoted_at)}</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -22,6 +22,7 @@ interface DateTimeInputProps {
   value: number | string | unknown;
   onChange: (value: number) => void;
   description?: string;
+  disabled?: boolean;
 }
 
 export function DateTimeInput({
@@ -30,6 +31,7 @@ export function DateTimeInput({
   value,
   onChange,
   description,
+  disabled,
 }: DateTimeInputProps) {
   const [date, setDate] = useState<Date | undefined>(undefined);
   const [time, setTime] = useState<string>("00:00:00");
@@ -172,6 +174,7 @@ export function DateTimeInput({
           variant="outline"
           size="sm"
           onClick={toggleInputMode}
+          disabled={disabled}
           className="h-7 px-2 text-xs"
         >
           {inputMode === "picker" ? "Use Raw Value" : "Use Date Picker"}
@@ -188,6 +191,7 @@ export function DateTimeInput({
                 <Button
                   type="button"
                   variant={"outline"}
+                  disabled={disabled}
                   className={cn(
                     "justify-start text-left font-normal",
                     !date && "text-muted-foreground"
@@ -214,6 +218,7 @@ export function DateTimeInput({
                 step="1"
                 value={time}
                 onChange={(e) => handleTimeChange(e.target.value)}
+                disabled={disabled}
                 className="sm:w-auto"
               />
             </div>
@@ -228,6 +233,7 @@ export function DateTimeInput({
           id={id}
           value={rawInput}
           onChange={handleRawInputChange}
+          disabled={disabled}
           placeholder="Enter value in microseconds"
           className="w-full"
         />
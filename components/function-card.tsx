@@ -37,6 +37,20 @@ import {
 } from "@/lib/use-contract-queries";
 import { AccountInfo, useWallet } from "@aptos-labs/wallet-adapter-react";
 import { useQueryClient } from "@tanstack/react-query";
+import { useTransactionRecorder } from "@/lib/hooks/use-transaction-history";
+import {
+  serializeArgument,
+  type NewTransactionRecord,
+} from "@/lib/transaction-history";
+import { AddressBook, getAddressLabel } from "@/lib/address-book";
+import { useAddressBook } from "@/lib/hooks/use-address-book";
+import { useUserRoles } from "@/lib/hooks/use-user-roles";
+import {
+  describeRequiredRoles,
+  getPermissionToken,
+  getRequiredRoles,
+  hasRequiredRoles,
+} from "@/lib/permissions";
 
 interface FunctionCardProps {
   functionData: ContractFunction;
@@ -54,6 +68,32 @@ interface FunctionCardProps {
   walletAccount: AccountInfo | null | undefined;
 }
 
+function lastSimulation(
+  result: SimulationResult | undefined
+): NewTransactionRecord["simulation"] {
+  return (
+    result && {
+      success: result.success,
+      vmStatus: result.vmStatus,
+      gasUsed: result.gasUsed,
+    }
+  );
+}
+
+function AddressLabelHint({
+  value,
+  addressBook,
+}: {
+  value: unknown;
+  addressBook: AddressBook;
+}) {
+  const label =
+    typeof value === "string" ? getAddressLabel(addressBook, value) : undefined;
+  return label ? (
+    <p className="text-xs text-muted-foreground">{label}</p>
+  ) : null;
+}
+
 const facility_aliases = new Set([
   "facility_orchestrator",
   "facility",
@@ -74,6 +114,9 @@ export function FunctionCard({
   const [expanded, setExpanded] = useState(false);
   const [params, setParams] = useState<Record<string, unknown>>({});
   const queryClient = useQueryClient();
+  const { recordTransaction, confirmTransaction } = useTransactionRecorder();
+  const addressBook = useAddressBook();
+  const addressListId = `${functionData.moduleName}::${functionData.functionName}-addresses`;
 
   // Set default values for facility_orchestrator parameters when facilityAddress changes
   useEffect(() => {
@@ -117,6 +160,30 @@ export function FunctionCard({
     return functionData.params.map((param) => params[param.name] ?? "");
   }, [functionData.params, params]);
 
+  const buildRecord = useCallback(
+    (
+      status: NewTransactionRecord["status"],
+      details: Pick<NewTransactionRecord, "simulation" | "txHash" | "error">
+    ): NewTransactionRecord => ({
+      source: "function-card",
+      mode: "single",
+      moduleAddress,
+      network: network?.name,
+      signer: walletAccount?.address.toString(),
+      calls: [
+        {
+          function: `${moduleAddress}::${functionData.moduleName}::${functionData.functionName}`,
+          args: getArgs().map(serializeArgument),
+          typeArguments: [],
+          title: functionData.title,
+        },
+      ],
+      status,
+      ...details,
+    }),
+    [moduleAddress, network?.name, walletAccount, functionData, getArgs]
+  );
+
   const {
     data: simulationResult,
     isLoading: isSimulating,
@@ -142,25 +209,55 @@ export function FunctionCard({
     args: getArgs(),
     account: walletAccount,
     submitFunction: onSubmit,
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({
         queryKey: ["facilityData"],
       });
+      recordTransaction(
+        buildRecord("submitted", {
+          txHash: result.hash,
+          simulation: lastSimulation(simulationResult),
+        })
+      ).then((id) => confirmTransaction(id, result.hash));
+    },
+    onError: (error) => {
+      recordTransaction(
+        buildRecord("failed", {
+          error: error.message,
+          simulation: lastSimulation(simulationResult),
+        })
+      );
     },
   });
 
+  // Simulation stays available so the abort can be inspected, but signing
+  // is blocked when the wallet lacks the function's role
+  const requiredRoles = getRequiredRoles(functionData);
+  const { roles } = useUserRoles({
+    tokenAddress: getPermissionToken({ ...functionData, args: getArgs() }),
+  });
+  const missingRoleReason = hasRequiredRoles(requiredRoles, roles)
+    ? undefined
+    : describeRequiredRoles(requiredRoles);
+
   const handleSubmit = useCallback(
     (e?: React.FormEvent) => {
       if (e) e.preventDefault();
+      if (missingRoleReason) return;
       submitTransaction();
     },
-    [submitTransaction]
+    [submitTransaction, missingRoleReason]
   );
 
-  const handleSimulate = useCallback(() => {
+  const handleSimulate = useCallback(async () => {
     if (!isWalletConnected) return;
-    runSimulation();
-  }, [isWalletConnected, runSimulation]);
+    const { data: result, error } = await runSimulation();
+    recordTransaction(
+      error
+        ? buildRecord("failed", { error: error.message })
+        : buildRecord("simulated", { simulation: lastSimulation(result) })
+    );
+  }, [isWalletConnected, runSimulation, recordTransaction, buildRecord]);
 
   const isTimeParam = useCallback((name: string): boolean => {
     return name.toLowerCase().includes("time");
@@ -282,6 +379,9 @@ export function FunctionCard({
                           : `Enter ${param.name}`
                       }
                       value={(params[param.name] as string) ?? ""}
+                      list={
+                        param.type === "address" ? addressListId : undefined
+                      }
                       onChange={(e) =>
                         handleParamChange(
                           param.name,
@@ -303,16 +403,28 @@ export function FunctionCard({
                           Using default facility address
                         </p>
                       )}
+                    {param.type === "address" && (
+                      <AddressLabelHint
+                        value={params[param.name]}
+                        addressBook={addressBook}
+                      />
+                    )}
                   </div>
                 )}
               </div>
             ))}
           </form>
+          <datalist id={addressListId}>
+            {Object.entries(addressBook).map(([address, label]) => (
+              <option key={address} value={address} label={label} />
+            ))}
+          </datalist>
 
           <SimulationResults
             result={simulationResult as SimulationResult | null}
             isLoading={isSimulating}
             error={isSimulationError ? new Error("Simulation failed") : null}
+            addressBook={addressBook}
           />
         </CardContent>
       )}
@@ -333,12 +445,19 @@ export function FunctionCard({
             <Button
               type="button"
               onClick={() => handleSubmit()}
-              disabled={!isWalletConnected || isSubmitting}
+              disabled={
+                !isWalletConnected || isSubmitting || !!missingRoleReason
+              }
               className="flex-1"
             >
               {isSubmitting ? "Executing..." : "Execute"}
             </Button>
           </div>
+          {isWalletConnected && missingRoleReason && (
+            <p className="text-xs text-red-500 text-center">
+              Connected wallet cannot execute this. {missingRoleReason}.
+            </p>
+          )}
           {isSuccess && explorerLink && (
             <div className="mt-2 text-sm text-green-600 flex items-center justify-center">
               <span>Success! View on Explorer:</span>
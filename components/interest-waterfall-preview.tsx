@@ -0,0 +1,152 @@
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { SimulationResult } from "@/lib/aptos-service";
+import { shortenAddress } from "@/lib/utils";
+import { formatTokenAmount } from "@/lib/utils/token";
+import { decodeInterestWaterfallPreview } from "@/lib/utils/interest-waterfall-preview";
+import type { RodaWaterfallState } from "@/lib/utils/roda-waterfall";
+
+interface InterestWaterfallPreviewProps {
+  result: SimulationResult;
+  facilityAddress: string;
+  before?: RodaWaterfallState;
+  available?: bigint;
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * Table of what each RodaLevel of the interest waterfall would pay, decoded
+ * from a simulation.
+ */
+export function InterestWaterfallPreview({
+  result,
+  facilityAddress,
+  before,
+  available,
+  decimals,
+  symbol,
+}: InterestWaterfallPreviewProps) {
+  const preview = decodeInterestWaterfallPreview(result, {
+    facilityAddress,
+    before,
+    available,
+  });
+  const formatAmount = (amount: bigint) =>
+    `${formatTokenAmount(amount, decimals)} ${symbol}`;
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div>
+          <div className="text-xs text-muted-foreground">
+            Interest Collection Balance
+          </div>
+          <div className="font-medium">
+            {available !== undefined ? formatAmount(available) : "Unknown"}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Distributed</div>
+          <div className="font-medium">{formatAmount(preview.totalPaid)}</div>
+        </div>
+      </div>
+
+      {!before && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The current RodaWaterfall state could not be read, so levels that
+            paid nothing may be confused with their neighbours.
+          </AlertDescription>
+        </Alert>
+      )}
+      {preview.unattributedEvents > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {preview.unattributedEvents} interest distribution event(s) could
+            not be matched to a level; check the Events tab.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-3 py-2 text-left">Level</th>
+              <th className="px-3 py-2 text-left">Recipient</th>
+              <th className="px-3 py-2 text-right">Paid</th>
+              <th className="px-3 py-2 text-right">Deficit Added</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.levels.map((level) => (
+              <tr
+                key={level.level}
+                className={
+                  level.paid === BigInt(0) &&
+                  level.deficitAdded === BigInt(0)
+                    ? "border-t text-muted-foreground"
+                    : "border-t"
+                }
+              >
+                <td className="px-3 py-2">
+                  <div className="font-medium">{level.label}</div>
+                  <div className="font-mono text-muted-foreground">
+                    {level.level}
+                  </div>
+                </td>
+                <td className="px-3 py-2 font-mono">
+                  {level.recipient
+                    ? shortenAddress(level.recipient)
+                    : level.level === "RodaSinkInterest"
+                    ? "Originator receivable"
+                    : "—"}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {level.paid !== undefined ? formatAmount(level.paid) : "—"}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {level.deficitAdded > BigInt(0)
+                    ? formatAmount(level.deficitAdded)
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {preview.deficitsAfter && (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <div className="text-xs text-muted-foreground">
+              Min Interest Deficit After
+            </div>
+            <div className="font-medium">
+              {formatAmount(preview.deficitsAfter.min_interest_deficit)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">
+              Min Utilization Deficit After
+            </div>
+            <div className="font-medium">
+              {formatAmount(preview.deficitsAfter.min_util_interest_deficit)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">
+              Default Penalty Deficit After
+            </div>
+            <div className="font-medium">
+              {formatAmount(preview.deficitsAfter.default_penalty_deficit)}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
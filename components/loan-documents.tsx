@@ -0,0 +1,366 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  AccountAddress,
+  EntryFunctionArgumentTypes,
+  Hex,
+} from "@aptos-labs/ts-sdk";
+import { CheckCircle2, FileUp, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TransactionStepper } from "@/components/transaction-stepper";
+import { useLoanDocuments } from "@/lib/hooks/use-loan-documents";
+import { useUserRoles } from "@/lib/hooks/use-user-roles";
+import { hashFile, isSameHash, LoanDocument } from "@/lib/utils/loan-documents";
+import { cn, shortenAddress } from "@/lib/utils";
+
+interface LoanDocumentsProps {
+  loanAddress: string;
+  loanBookAddress: string;
+  moduleAddress: string;
+}
+
+interface HashedFile {
+  fileName: string;
+  hash: string;
+}
+
+// Drop target that also opens the file picker when clicked
+function FileDropZone({
+  label,
+  onFile,
+}: {
+  label: string;
+  onFile: (file: File) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-6 text-sm text-muted-foreground cursor-pointer",
+        isDragging && "border-primary bg-muted"
+      )}
+      onClick={() => inputRef.current?.click()}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files?.[0];
+        if (file) onFile(file);
+      }}
+    >
+      <FileUp className="h-6 w-6" />
+      <span>{label}</span>
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) onFile(file);
+        }}
+      />
+    </div>
+  );
+}
+
+function HashLine({ hash }: { hash: string }) {
+  return <div className="font-mono text-xs break-all">SHA-256 {hash}</div>;
+}
+
+/**
+ * Documents attached to a loan through hybrid_loan_book::add_document, with
+ * client-side SHA-256 hashing to attach new files and to verify local copies
+ * against the on-chain record.
+ */
+export function LoanDocuments({
+  loanAddress,
+  loanBookAddress,
+  moduleAddress,
+}: LoanDocumentsProps) {
+  const queryClient = useQueryClient();
+  const {
+    data: scan,
+    isLoading,
+    error,
+  } = useLoanDocuments({ loanAddress, moduleAddress });
+  const documents = scan?.documents;
+  const { roles } = useUserRoles({ loanBookAddress });
+  const [mode, setMode] = useState<"attach" | "verify">("attach");
+  const [attachment, setAttachment] = useState<HashedFile>();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [adminCosigner, setAdminCosigner] = useState("");
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [verification, setVerification] = useState<HashedFile>();
+
+  const readFile = async (file: File): Promise<HashedFile | undefined> => {
+    try {
+      return { fileName: file.name, hash: await hashFile(file) };
+    } catch (error) {
+      toast.error("Could not hash file", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  };
+
+  const handleAttachFile = async (file: File) => {
+    const hashed = await readFile(file);
+    if (!hashed) return;
+    setAttachment(hashed);
+    setName(file.name);
+    setIsReviewing(false);
+  };
+
+  const handleVerifyFile = async (file: File) => {
+    const hashed = await readFile(file);
+    if (!hashed) return;
+    setVerification(hashed);
+  };
+
+  // Without the admin role, an admin co-signs through add_document_for
+  const needsCosigner = roles.loanBookAdmin === false;
+  const isCosignerValid =
+    !needsCosigner || AccountAddress.isValid({ input: adminCosigner }).valid;
+  const verifiedMatches: LoanDocument[] = verification
+    ? (documents ?? []).filter((document) =>
+        isSameHash(document.hash, verification.hash)
+      )
+    : [];
+  const alreadyAttached = attachment
+    ? documents?.find((document) => isSameHash(document.hash, attachment.hash))
+    : undefined;
+
+  const steps = attachment
+    ? [
+        {
+          title: "Attach Document",
+          description: `Attach ${name} to loan ${shortenAddress(loanAddress)}`,
+          moduleAddress,
+          moduleName: "hybrid_loan_book",
+          functionName: needsCosigner ? "add_document_for" : "add_document",
+          args: [
+            loanAddress,
+            name,
+            description,
+            Hex.fromHexInput(attachment.hash).toUint8Array(),
+          ] as unknown as EntryFunctionArgumentTypes[],
+          secondarySigners: needsCosigner ? [adminCosigner] : undefined,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">
+          Attached Documents
+        </h3>
+        {isLoading ? (
+          <div className="h-24 rounded-lg bg-muted animate-pulse" />
+        ) : error ? (
+          <div className="text-red-500">{error.message}</div>
+        ) : !documents?.length ? (
+          <div className="text-sm text-muted-foreground">
+            {scan?.isComplete
+              ? "No documents attached to this loan."
+              : "No documents attached to this loan were found in the scanned range."}
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-left">Description</th>
+                  <th className="px-3 py-2 text-left">Hash</th>
+                  <th className="px-3 py-2 text-left">Added</th>
+                  <th className="px-3 py-2 text-left">Sender</th>
+                </tr>
+              </thead>
+              <tbody>
+                {documents.map((document) => (
+                  <tr
+                    key={document.transactionVersion}
+                    className={cn(
+                      "border-t",
+                      verifiedMatches.includes(document) && "bg-green-50"
+                    )}
+                  >
+                    <td className="px-3 py-2">{document.name}</td>
+                    <td className="px-3 py-2">{document.description}</td>
+                    <td className="px-3 py-2 font-mono" title={document.hash}>
+                      {document.hash.slice(0, 10)}...{document.hash.slice(-6)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {document.timestamp?.toLocaleString() ??
+                        `Version ${document.transactionVersion}`}
+                    </td>
+                    <td className="px-3 py-2 font-mono">
+                      {shortenAddress(document.sender)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {scan && !scan.isComplete && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Only the most recent document transactions of the loan book were
+            scanned, so older documents may be missing.
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant={mode === "attach" ? "default" : "outline"}
+          onClick={() => setMode("attach")}
+        >
+          Attach
+        </Button>
+        <Button
+          size="sm"
+          variant={mode === "verify" ? "default" : "outline"}
+          onClick={() => setMode("verify")}
+        >
+          Verify
+        </Button>
+      </div>
+
+      {mode === "attach" ? (
+        <div className="space-y-4">
+          <FileDropZone
+            label="Drop a document to hash and attach, or click to choose one"
+            onFile={handleAttachFile}
+          />
+          {attachment && (
+            <div className="space-y-4">
+              <HashLine hash={attachment.hash} />
+              {alreadyAttached && (
+                <p className="text-sm text-yellow-600">
+                  This file is already attached as &quot;{alreadyAttached.name}
+                  &quot;.
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="document-name">Name</Label>
+                  <Input
+                    id="document-name"
+                    value={name}
+                    onChange={(e) => {
+                      setName(e.target.value);
+                      setIsReviewing(false);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="document-description">Description</Label>
+                  <Input
+                    id="document-description"
+                    placeholder="e.g. Credit agreement, KYC pack"
+                    value={description}
+                    onChange={(e) => {
+                      setDescription(e.target.value);
+                      setIsReviewing(false);
+                    }}
+                  />
+                </div>
+                {needsCosigner && (
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="document-admin">
+                      Loan Book Admin (co-signer)
+                    </Label>
+                    <Input
+                      id="document-admin"
+                      className="font-mono"
+                      placeholder="0x..."
+                      value={adminCosigner}
+                      onChange={(e) => {
+                        setAdminCosigner(e.target.value.trim());
+                        setIsReviewing(false);
+                      }}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      The connected wallet is not a loan book admin, so an
+                      admin co-signs the document through add_document_for.
+                    </p>
+                  </div>
+                )}
+              </div>
+              <Button
+                disabled={!name.trim() || !isCosignerValid}
+                onClick={() => setIsReviewing(true)}
+              >
+                Review
+              </Button>
+            </div>
+          )}
+          {isReviewing && steps.length > 0 && (
+            <TransactionStepper
+              flowId="loan-documents"
+              steps={steps}
+              loanBookAddress={loanBookAddress}
+              hideBatchMode
+              hideAtomicMode
+              onComplete={() => {
+                toast.success("Document attached");
+                setIsReviewing(false);
+                setAttachment(undefined);
+                setDescription("");
+                queryClient.invalidateQueries({ queryKey: ["loanDocuments"] });
+              }}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <FileDropZone
+            label="Drop a local copy to check it against the on-chain hashes"
+            onFile={handleVerifyFile}
+          />
+          {verification && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">
+                {verification.fileName}
+              </div>
+              <HashLine hash={verification.hash} />
+              {verifiedMatches.length > 0 ? (
+                <p className="flex items-center gap-2 text-sm text-green-600">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Matches{" "}
+                  {verifiedMatches
+                    .map((document) => `"${document.name}"`)
+                    .join(", ")}{" "}
+                  on chain.
+                </p>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-red-500">
+                  <XCircle className="h-4 w-4" />
+                  {scan?.isComplete
+                    ? "No document attached to this loan has this hash."
+                    : "No document with this hash was found in the scanned range."}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { EntryFunctionArgumentTypes } from "@aptos-labs/ts-sdk";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { TransactionStepper } from "@/components/transaction-stepper";
+import { Interval } from "@/lib/hooks/use-loan-info";
+import { useScheduleValidationSettings } from "@/lib/hooks/use-schedule-validation-settings";
+import { ScheduleInterval } from "@/lib/utils/amortization";
+import {
+  getNextDueIndex,
+  isIntervalChanged,
+  planScheduleUpdates,
+  toScheduleIntervals,
+  validateScheduleEdit,
+} from "@/lib/utils/payment-schedule";
+import { formatTokenAmount, parseTokenAmount } from "@/lib/utils/token";
+import { cn } from "@/lib/utils";
+
+interface PaymentScheduleEditorProps {
+  loanAddress: string;
+  loanBookAddress: string;
+  moduleAddress: string;
+  schedule: Interval[];
+  decimals: number;
+}
+
+// Amounts are edited as plain decimals, without thousands separators
+interface DraftInterval {
+  time_due_us: number;
+  principal: string;
+  interest: string;
+  fee: string;
+}
+
+type AmountField = "principal" | "interest" | "fee";
+const AMOUNT_FIELDS: AmountField[] = ["principal", "interest", "fee"];
+
+const toDraft = (interval: ScheduleInterval, decimals: number) => ({
+  time_due_us: interval.time_due_us,
+  principal: formatTokenAmount(interval.principal, decimals).replace(/,/g, ""),
+  interest: formatTokenAmount(interval.interest, decimals).replace(/,/g, ""),
+  fee: formatTokenAmount(interval.fee, decimals).replace(/,/g, ""),
+});
+
+// datetime-local works in local time at second precision
+const toDateTimeLocal = (timeDueUs: number) =>
+  timeDueUs
+    ? format(new Date(timeDueUs / 1000), "yyyy-MM-dd'T'HH:mm:ss")
+    : "";
+
+/**
+ * Editable payment schedule for loan book admins. Changed intervals are
+ * submitted one update_payment_schedule_by_index call each, ordered so every
+ * intermediate schedule passes the loan book's continuity checks.
+ */
+export function PaymentScheduleEditor({
+  loanAddress,
+  loanBookAddress,
+  moduleAddress,
+  schedule,
+  decimals,
+}: PaymentScheduleEditorProps) {
+  const queryClient = useQueryClient();
+  const original = useMemo(() => toScheduleIntervals(schedule), [schedule]);
+  const [drafts, setDrafts] = useState<DraftInterval[]>(() =>
+    original.map((interval) => toDraft(interval, decimals))
+  );
+  const [isReviewing, setIsReviewing] = useState(false);
+  const {
+    data: settings,
+    isLoading: settingsLoading,
+    error: settingsError,
+  } = useScheduleValidationSettings({ loanBookAddress, moduleAddress });
+
+  const edited: ScheduleInterval[] = drafts.map((draft) => ({
+    time_due_us: draft.time_due_us,
+    principal: parseTokenAmount(draft.principal, decimals),
+    interest: parseTokenAmount(draft.interest, decimals),
+    fee: parseTokenAmount(draft.fee, decimals),
+  }));
+  const changedCount = edited.filter((interval, i) =>
+    isIntervalChanged(original[i], interval)
+  ).length;
+  // Settled intervals before the next due one are history, not edited
+  const firstEditable = getNextDueIndex(original);
+
+  const problems = settings
+    ? validateScheduleEdit(original, edited, settings, decimals)
+    : [];
+  const plan = settings
+    ? planScheduleUpdates(original, edited, settings)
+    : undefined;
+
+  const updateDraft = (index: number, patch: Partial<DraftInterval>) => {
+    setIsReviewing(false);
+    setDrafts((current) =>
+      current.map((draft, i) => (i === index ? { ...draft, ...patch } : draft))
+    );
+  };
+
+  const reset = () => {
+    setIsReviewing(false);
+    setDrafts(original.map((interval) => toDraft(interval, decimals)));
+  };
+
+  const principalToggleStep = (enforce: boolean) => ({
+    title: enforce
+      ? "Restore Principal Validation"
+      : "Pause Principal Validation",
+    description: enforce
+      ? "Re-enable principal continuity checks on the loan book"
+      : "Principal moves between installments, so continuity is checked for the whole edit instead of each update",
+    moduleAddress,
+    moduleName: "loan_book",
+    functionName: "toggle_payment_schedule_principal_validation",
+    args: [loanBookAddress, enforce] as unknown as EntryFunctionArgumentTypes[],
+  });
+
+  const steps = plan?.order
+    ? [
+        ...(plan.togglePrincipalValidation ? [principalToggleStep(false)] : []),
+        ...plan.order.map((i) => ({
+          title: `Update Installment ${i + 1}`,
+          description: `Due ${new Date(
+            edited[i].time_due_us / 1000
+          ).toLocaleString()}: principal ${formatTokenAmount(
+            edited[i].principal,
+            decimals
+          )}, interest ${formatTokenAmount(
+            edited[i].interest,
+            decimals
+          )}, fee ${formatTokenAmount(edited[i].fee, decimals)}`,
+          moduleAddress,
+          moduleName: "hybrid_loan_book",
+          functionName: "update_payment_schedule_by_index",
+          // The trailing status is ignored by the contract
+          args: [
+            loanAddress,
+            i,
+            edited[i].time_due_us.toString(),
+            edited[i].principal.toString(),
+            edited[i].interest.toString(),
+            edited[i].fee.toString(),
+            0,
+          ] as unknown as EntryFunctionArgumentTypes[],
+        })),
+        ...(plan.togglePrincipalValidation ? [principalToggleStep(true)] : []),
+      ]
+    : [];
+
+  if (settingsLoading) {
+    return <div className="h-32 rounded-lg bg-muted animate-pulse" />;
+  }
+
+  if (settingsError || !settings) {
+    return (
+      <div className="text-red-500">
+        Failed to load schedule validation settings:{" "}
+        {settingsError?.message ?? "Unknown error"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Loan book checks:</span>
+        <Badge variant={settings.principalContinuity ? "secondary" : "outline"}>
+          Principal continuity{" "}
+          {settings.principalContinuity ? "enforced" : "off"}
+        </Badge>
+        <Badge variant={settings.dueDateContinuity ? "secondary" : "outline"}>
+          Due date continuity {settings.dueDateContinuity ? "enforced" : "off"}
+        </Badge>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-3 py-2 text-left">#</th>
+              <th className="px-3 py-2 text-left">Due Date</th>
+              <th className="px-3 py-2 text-left">Principal</th>
+              <th className="px-3 py-2 text-left">Interest</th>
+              <th className="px-3 py-2 text-left">Fee</th>
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, i) => {
+              const locked = i < firstEditable;
+              return (
+                <tr
+                  key={i}
+                  className={cn(
+                    "border-t",
+                    isIntervalChanged(original[i], edited[i]) && "bg-blue-50",
+                    locked && "text-muted-foreground"
+                  )}
+                >
+                  <td className="px-3 py-2">{i + 1}</td>
+                  <td className="px-3 py-2">
+                    <Input
+                      type="datetime-local"
+                      step={1}
+                      className="h-8 text-xs"
+                      disabled={locked}
+                      value={toDateTimeLocal(draft.time_due_us)}
+                      onChange={(e) =>
+                        updateDraft(i, {
+                          time_due_us: e.target.value
+                            ? new Date(e.target.value).getTime() * 1000
+                            : 0,
+                        })
+                      }
+                    />
+                  </td>
+                  {AMOUNT_FIELDS.map((field) => (
+                    <td key={field} className="px-3 py-2">
+                      <Input
+                        inputMode="decimal"
+                        className="h-8 text-xs font-mono"
+                        disabled={locked}
+                        value={draft[field]}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          if (/^\d*\.?\d*$/.test(value)) {
+                            updateDraft(i, { [field]: value });
+                          }
+                        }}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="list-disc pl-4 text-sm text-red-500">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      {problems.length === 0 && changedCount > 0 && !plan?.order && (
+        <p className="text-sm text-red-500">
+          These changes cannot be applied one installment at a time without
+          breaking due date continuity. Move the dates in smaller edits.
+        </p>
+      )}
+      {plan?.togglePrincipalValidation && (
+        <p className="text-sm text-muted-foreground">
+          Principal moves between installments, so principal validation is
+          paused for the loan book while they are updated and restored
+          afterwards. The updates run as one atomic transaction so validation
+          is never left off if one of them fails.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          disabled={changedCount === 0 || problems.length > 0 || !plan?.order}
+          onClick={() => setIsReviewing(true)}
+        >
+          Review {changedCount} Change{changedCount === 1 ? "" : "s"}
+        </Button>
+        <Button variant="outline" disabled={changedCount === 0} onClick={reset}>
+          Reset
+        </Button>
+      </div>
+
+      {isReviewing && steps.length > 0 && (
+        <TransactionStepper
+          flowId="payment-schedule"
+          steps={steps}
+          loanBookAddress={loanBookAddress}
+          atomicOnly={plan?.togglePrincipalValidation}
+          onComplete={() => {
+            toast.success("Payment schedule updated");
+            setIsReviewing(false);
+            queryClient.invalidateQueries({ queryKey: ["loanData"] });
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -19,11 +19,34 @@ import {
   ChevronDown,
   Globe,
   Send,
+  History,
+  CalendarClock,
+  BookOpen,
+  Hourglass,
+  Files,
+  SlidersHorizontal,
+  Workflow,
+  PieChart,
+  Landmark,
+  Banknote,
+  Briefcase,
+  Layers,
+  Check,
+  PenLine,
+  FileClock,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useNavigation, NetworkType } from "@/lib/navigation-context";
 import { useWallet } from "@/lib/use-wallet";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Tooltip,
   TooltipContent,
@@ -54,6 +77,42 @@ const navigationGroups: NavGroup[] = [
         icon: Home,
         description: "Main control center",
       },
+      {
+        label: "Portfolio",
+        href: "/portfolio",
+        icon: Briefcase,
+        description: "Health of every saved facility",
+      },
+      {
+        label: "Workspaces",
+        href: "/workspaces",
+        icon: Layers,
+        description: "Saved address bundles per client",
+      },
+      {
+        label: "History",
+        href: "/history",
+        icon: History,
+        description: "Transaction history & audit log",
+      },
+      {
+        label: "Co-Sign",
+        href: "/cosign",
+        icon: PenLine,
+        description: "Sign transactions shared by other wallets",
+      },
+      {
+        label: "Facility Timeline",
+        href: "/facility/timeline",
+        icon: CalendarClock,
+        description: "Chronological facility events",
+      },
+      {
+        label: "Cap Table",
+        href: "/facility/cap-table",
+        icon: PieChart,
+        description: "Share classes and tranche ledgers",
+      },
     ],
   },
   {
@@ -71,6 +130,18 @@ const navigationGroups: NavGroup[] = [
         icon: Droplets,
         description: "Interest & principal distribution",
       },
+      {
+        label: "RODA Config",
+        href: "/roda-config",
+        icon: SlidersHorizontal,
+        description: "RODA waterfall settings",
+      },
+      {
+        label: "Borrowing Base",
+        href: "/borrowing-base",
+        icon: Workflow,
+        description: "Borrowing base tree and attestations",
+      },
       {
         label: "Funding Requests",
         href: "/funding-requests",
@@ -82,18 +153,42 @@ const navigationGroups: NavGroup[] = [
   {
     label: "Loans",
     items: [
+      {
+        label: "Portfolio",
+        href: "/loan-book",
+        icon: BookOpen,
+        description: "Every loan in the loan book",
+      },
+      {
+        label: "DPD Aging",
+        href: "/loan-book/aging",
+        icon: Hourglass,
+        description: "Delinquency aging and late fees",
+      },
       {
         label: "Offer Loan",
         href: "/offer-loan",
         icon: HandCoins,
         description: "Create new loan offers",
       },
+      {
+        label: "Bulk Origination",
+        href: "/offer-loan/bulk",
+        icon: Files,
+        description: "Offer loans from a CSV loan tape",
+      },
       {
         label: "Repay Loan",
         href: "/repay-loan",
         icon: Receipt,
         description: "Process loan repayments",
       },
+      {
+        label: "Historical Repayments",
+        href: "/repay-loan/historical",
+        icon: FileClock,
+        description: "Replay past repayments from a CSV",
+      },
     ],
   },
   {
@@ -105,6 +200,18 @@ const navigationGroups: NavGroup[] = [
         icon: ArrowLeftRight,
         description: "Exchange tokens",
       },
+      {
+        label: "Share Exchange",
+        href: "/share-exchange",
+        icon: Landmark,
+        description: "Fundraise, escrows and NAV",
+      },
+      {
+        label: "Payouts",
+        href: "/payouts",
+        icon: Banknote,
+        description: "Snapshot and distribute holder payouts",
+      },
       {
         label: "Bulk Transfer",
         href: "/bulk-transfer",
@@ -260,6 +367,50 @@ function NavGroupComponent({
   );
 }
 
+function WorkspaceSwitcher({ collapsed }: { collapsed: boolean }) {
+  const { workspaces, activeWorkspace, switchWorkspace, buildNavUrl } =
+    useNavigation();
+
+  const trigger = collapsed ? (
+    <button className="w-8 h-8 rounded-full bg-sidebar-accent flex items-center justify-center">
+      <Layers className="h-4 w-4" />
+    </button>
+  ) : (
+    <button className="flex items-center gap-2 w-full px-2 py-1.5 rounded-md hover:bg-sidebar-accent transition-colors">
+      <Layers className="h-4 w-4 shrink-0" />
+      <span className="text-sm flex-1 text-left truncate">
+        {activeWorkspace.name}
+      </span>
+      <ChevronDown className="h-3 w-3 shrink-0" />
+    </button>
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{trigger}</DropdownMenuTrigger>
+      <DropdownMenuContent side="right" align="start" className="w-56">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem
+            key={workspace.id}
+            onClick={() => switchWorkspace(workspace.id)}
+            className="flex items-center gap-2"
+          >
+            <span className="flex-1 truncate">{workspace.name}</span>
+            {workspace.id === activeWorkspace.id && (
+              <Check className="h-4 w-4" />
+            )}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href={buildNavUrl("/workspaces")}>Manage workspaces</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 export function Sidebar() {
   const pathname = usePathname();
   const { sidebarCollapsed, toggleSidebar, facilityAddress, network, setNetwork } = useNavigation();
@@ -313,6 +464,16 @@ export function Sidebar() {
           </AnimatePresence>
         </div>
 
+        {/* Workspace Switcher */}
+        <div
+          className={cn(
+            "px-3 py-2 border-b border-sidebar-border",
+            sidebarCollapsed && "px-2"
+          )}
+        >
+          <WorkspaceSwitcher collapsed={sidebarCollapsed} />
+        </div>
+
         {/* Network Toggle */}
         <div
           className={cn(
@@ -17,17 +17,50 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useState } from "react";
+import {
+  AddressBook,
+  findLabelledAddresses,
+  getAddressLabel,
+} from "@/lib/address-book";
 
 interface SimulationResultsProps {
   result: SimulationResult | null;
   isLoading: boolean;
   error?: Error | null;
+  addressBook?: AddressBook; // Labels shown for known addresses
+}
+
+// Labels for the known addresses found in event or change data
+function KnownAddresses({
+  value,
+  addressBook,
+}: {
+  value: unknown;
+  addressBook: AddressBook;
+}) {
+  const known = findLabelledAddresses(value, addressBook);
+  if (known.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mb-2">
+      {known.map(([address, label]) => (
+        <Badge
+          key={address}
+          variant="outline"
+          className="text-xs font-normal"
+          title={address}
+        >
+          {label}: {shortenAddress(address)}
+        </Badge>
+      ))}
+    </div>
+  );
 }
 
 export function SimulationResults({
   result,
   isLoading,
   error,
+  addressBook = {},
 }: SimulationResultsProps) {
   const [expandedEvents, setExpandedEvents] = useState<number[]>([]);
   const [expandedChanges, setExpandedChanges] = useState<number[]>([]);
@@ -110,7 +143,7 @@ export function SimulationResults({
           )}
         </CardTitle>
         <CardDescription className="flex flex-col gap-1 pt-1">
-          {renderVmStatus(result.vmStatus)}
+          {renderVmStatus(result.vmStatus, addressBook)}
           <div className="flex items-center gap-4 pt-2">
             <Badge
               variant="secondary"
@@ -212,6 +245,10 @@ export function SimulationResults({
                           </TooltipProvider>
                         )}
                       </div>
+                      <KnownAddresses
+                        value={event.data}
+                        addressBook={addressBook}
+                      />
                       <div
                         className={`overflow-hidden transition-all duration-200 ${
                           isExpanded ? "max-h-96" : "max-h-20"
@@ -259,6 +296,10 @@ export function SimulationResults({
                       : typeof change.handle === "string"
                       ? change.handle
                       : "";
+                  const addressLabel =
+                    typeof change.address === "string"
+                      ? getAddressLabel(addressBook, change.address)
+                      : undefined;
 
                   return (
                     <div key={index} className="border rounded-md p-3">
@@ -310,6 +351,11 @@ export function SimulationResults({
                                 <span className="cursor-help flex items-center gap-1">
                                   {change.resource ? "Resource:" : "Address:"}{" "}
                                   {shortenAddress(addressStr)}
+                                  {addressLabel && (
+                                    <span className="font-medium text-gray-700">
+                                      {addressLabel}
+                                    </span>
+                                  )}
                                 </span>
                               </TooltipTrigger>
                               <TooltipContent side="top">
@@ -321,6 +367,10 @@ export function SimulationResults({
                           </TooltipProvider>
                         </div>
                       )}
+                      <KnownAddresses
+                        value={change.data}
+                        addressBook={addressBook}
+                      />
                       <div
                         className={`overflow-hidden transition-all duration-200 ${
                           isExpanded ? "max-h-96" : "max-h-20"
@@ -443,8 +493,10 @@ function parseVmStatus(vmStatus: string): ParsedVmStatus {
   return { isAbort: false, status: vmStatus };
 }
 
-function renderVmStatus(vmStatus: string) {
+function renderVmStatus(vmStatus: string, addressBook: AddressBook) {
   const parsedStatus = parseVmStatus(vmStatus);
+  const abortLabel =
+    parsedStatus.address && getAddressLabel(addressBook, parsedStatus.address);
 
   if (parsedStatus.isAbort) {
     return (
@@ -458,6 +510,7 @@ function renderVmStatus(vmStatus: string) {
           </span>
           <span className="break-all">
             {shortenAddress(parsedStatus.address || "")}
+            {abortLabel && ` (${abortLabel})`}
           </span>
         </div>
         <div className="flex">
@@ -16,22 +16,46 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useWallet } from "@/lib/use-wallet";
 import {
+  buildTransaction,
   createAptosClient,
   simulateTransaction,
   SimulationResult,
+  toSimulationResult,
+  TransactionCosigners,
 } from "@/lib/aptos-service";
 import {
   InputEntryFunctionData,
   EntryFunctionArgumentTypes,
   Network,
-  WriteSetChangeWriteResource,
   CallArgument,
+  AccountAddress,
+  AccountAddressInput,
+  AnyRawTransaction,
+  Aptos,
 } from "@aptos-labs/ts-sdk";
 import { toast } from "sonner";
 import { SimulationResults } from "@/components/simulation-results";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { ReactNode } from "react";
+import { useTransactionRecorder } from "@/lib/hooks/use-transaction-history";
+import { RecordedCall, serializeArgument } from "@/lib/transaction-history";
+import { useFlowProgress } from "@/lib/hooks/use-flow-progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, History, Loader2 } from "lucide-react";
+import { AddressBook, mergeAddressBooks } from "@/lib/address-book";
+import { useAddressBook } from "@/lib/hooks/use-address-book";
+import { useUserRoles } from "@/lib/hooks/use-user-roles";
+import { Input } from "@/components/ui/input";
+import { CoSignatureDialog } from "@/components/co-signature-dialog";
+import { createSigningRequest, SigningRequest } from "@/lib/co-signing";
+import {
+  describeRequiredRoles,
+  getPermissionToken,
+  getRequiredRoles,
+  hasRequiredRoles,
+} from "@/lib/permissions";
 
 interface TransactionStep {
   title: string;
@@ -41,29 +65,94 @@ interface TransactionStep {
   functionName: string;
   args: EntryFunctionArgumentTypes[];
   typeArguments?: string[];
+  // Accounts that sign alongside the sender, for entry functions taking
+  // several signers
+  secondarySigners?: string[];
 }
 
-interface AddressBook {
-  [address: string]: string;
+// Steps covered by one submitted transaction, toStep exclusive
+export interface StepperTransactionResult {
+  fromStep: number;
+  toStep: number;
+  txHash?: string;
+  error?: string; // Set when the wallet or node rejected the submission
 }
 
 interface TransactionStepperProps {
   steps: TransactionStep[];
   onComplete: () => void;
+  // Called after each submission so callers can track per-step outcomes
+  onTransactionSubmitted?: (result: StepperTransactionResult) => void;
+  onTransactionFailed?: (result: StepperTransactionResult) => void;
+  // Extra labels on top of the workspace and discovered address book
   addressBook?: AddressBook;
   renderCustomSimulationResults?: (
     simulationResult: SimulationResult
   ) => ReactNode;
   hideBatchMode?: boolean;
+  hideAtomicMode?: boolean;
+  // Run every step as one composed transaction, for flows that must not be
+  // left half applied; single steps, batches and sponsored gas are disabled
+  atomicOnly?: boolean;
+  // Keeps the saved progress of steppers sharing a page apart; defaults to
+  // the functions the steps call
+  flowId?: string;
+  // Loan book whose roles gate the steps, when it is not the current one
+  loanBookAddress?: string;
 }
 
 const BATCH_SIZE = 5;
 
+interface PendingCoSignature {
+  request: SigningRequest;
+  transaction: AnyRawTransaction;
+  resolve: (result: { hash: string }) => void;
+  reject: (error: Error) => void;
+}
+
+// Compiles the given steps into a single script-composer transaction, so they
+// either all apply or none do.
+async function buildComposedTransaction(
+  client: Aptos,
+  sender: AccountAddressInput,
+  composedSteps: TransactionStep[]
+) {
+  return client.transaction.build.scriptComposer({
+    sender,
+    builder: async (builder) => {
+      for (const step of composedSteps) {
+        await builder.addBatchedCalls({
+          function: `${step.moduleAddress}::${step.moduleName}::${step.functionName}`,
+          functionArguments: [CallArgument.newSigner(0), ...step.args],
+          typeArguments: step.typeArguments ?? [],
+        });
+      }
+      return builder;
+    },
+  });
+}
+
+function toRecordedCall(step: TransactionStep): RecordedCall {
+  return {
+    function: `${step.moduleAddress}::${step.moduleName}::${step.functionName}`,
+    args: step.args.map(serializeArgument),
+    typeArguments: step.typeArguments ?? [],
+    title: step.title,
+  };
+}
+
 export function TransactionStepper({
   steps,
   onComplete,
+  onTransactionSubmitted,
+  onTransactionFailed,
+  addressBook,
   renderCustomSimulationResults,
   hideBatchMode = false,
+  hideAtomicMode = false,
+  atomicOnly = false,
+  flowId,
+  loanBookAddress,
 }: TransactionStepperProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [currentBatchIndex, setCurrentBatchIndex] = useState(0);
@@ -71,9 +160,36 @@ export function TransactionStepper({
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [simulationResult, setSimulationResult] =
     useState<SimulationResult | null>(null);
-  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [batchModeSelected, setBatchModeSelected] = useState(false);
+  const [atomicModeSelected, setAtomicModeSelected] = useState(false);
+  // Derived so that atomicOnly takes effect whenever the prop changes, not
+  // just on mount; the selections above only apply when the caller allows
+  const isAtomicMode = atomicOnly || atomicModeSelected;
+  const isBatchMode = !atomicOnly && batchModeSelected;
   const [isAutoExecute, setIsAutoExecute] = useState(false);
+  const [isSponsored, setIsSponsored] = useState(false);
+  const [feePayer, setFeePayer] = useState("");
+  const [pendingCoSignature, setPendingCoSignature] =
+    useState<PendingCoSignature | null>(null);
   const pendingAutoExecuteRef = useRef(false);
+  // History record for the transaction awaiting confirmation
+  const recordIdRef = useRef<string | undefined>(undefined);
+  const { recordTransaction, updateTransaction, confirmTransaction } =
+    useTransactionRecorder();
+  const recordedCalls = useMemo(() => steps.map(toRecordedCall), [steps]);
+  const { savedFlow, recordProgress, clearProgress, dismissSavedFlow } =
+    useFlowProgress(
+      recordedCalls,
+      flowId ??
+        Array.from(new Set(recordedCalls.map((call) => call.function)))
+          .sort()
+          .join(",")
+    );
+  const knownAddresses = useAddressBook();
+  const labels = useMemo(
+    () => mergeAddressBooks(knownAddresses, addressBook ?? {}),
+    [knownAddresses, addressBook]
+  );
 
   const batches = useMemo(() => {
     const result: typeof steps[] = [];
@@ -93,11 +209,119 @@ export function TransactionStepper({
 
   const { account, submitTransaction, network } = useWallet();
 
+  const isFeePayerValid =
+    !isSponsored || AccountAddress.isValid({ input: feePayer }).valid;
+  const cosignersFor = (step: TransactionStep): TransactionCosigners => ({
+    secondarySigners: step.secondarySigners,
+    feePayer: isSponsored ? feePayer : undefined,
+  });
+  const needsCoSigning = (step: TransactionStep) =>
+    isSponsored || !!step.secondarySigners?.length;
+  // Composed scripts are signed by the sender alone, so batch and atomic
+  // modes are unavailable once anyone else has to sign
+  const canCompose = !isSponsored && !steps.some(needsCoSigning);
+
+  // Shares the built transaction with its co-signers and resolves once the
+  // dialog has submitted it
+  const collectCoSignatures = (
+    step: TransactionStep,
+    transaction: AnyRawTransaction
+  ) =>
+    new Promise<{ hash: string }>((resolve, reject) =>
+      setPendingCoSignature({
+        request: createSigningRequest(
+          transaction,
+          step.title,
+          step.args.map(serializeArgument),
+          network?.name
+        ),
+        transaction,
+        resolve,
+        reject,
+      })
+    );
+
+  // Steps that the next composed transaction covers: every remaining step in
+  // atomic mode, or the current batch in batch mode.
+  const getComposedSteps = () =>
+    isAtomicMode ? steps.slice(currentStep) : batches[currentBatchIndex];
+
+  // Steps covered by the next transaction, toStep exclusive
+  const getPendingRange = () => {
+    const fromStep =
+      isBatchMode && !isAtomicMode ? currentBatchIndex * BATCH_SIZE : currentStep;
+    const toStep = isAtomicMode
+      ? steps.length
+      : isBatchMode
+      ? Math.min(fromStep + BATCH_SIZE, steps.length)
+      : currentStep + 1;
+    return { fromStep, toStep };
+  };
+
+  // Steps the connected wallet lacks a role for, with what they require
+  const { roles } = useUserRoles({
+    tokenAddress: steps.map(getPermissionToken).find(Boolean),
+    loanBookAddress,
+  });
+  const roleBlocks = useMemo(
+    () =>
+      steps.map((step) => {
+        const required = getRequiredRoles(step);
+        return hasRequiredRoles(required, roles)
+          ? undefined
+          : describeRequiredRoles(required);
+      }),
+    [steps, roles]
+  );
+  const { fromStep: pendingFrom, toStep: pendingTo } = getPendingRange();
+  const blockedPendingSteps = steps
+    .map((step, index) => ({ step, index, reason: roleBlocks[index] }))
+    .slice(pendingFrom, pendingTo)
+    .filter(({ reason }) => reason);
+
+  // Refuses to simulate or sign steps the wallet lacks a role for
+  const ensurePermitted = () => {
+    if (blockedPendingSteps.length === 0) return true;
+    const [{ step, reason }] = blockedPendingSteps;
+    toast.error(`Missing role for ${step.title}`, { description: reason });
+    return false;
+  };
+
+  const recordSimulation = async (
+    simulatedSteps: TransactionStep[],
+    result: SimulationResult | undefined,
+    error?: unknown
+  ) => {
+    recordIdRef.current = await recordTransaction({
+      source: "transaction-stepper",
+      mode: isAtomicMode ? "atomic" : isBatchMode ? "batch" : "single",
+      moduleAddress: simulatedSteps[0].moduleAddress,
+      network: network?.name,
+      signer: account?.address.toString(),
+      calls: simulatedSteps.map(toRecordedCall),
+      simulation: result && {
+        success: result.success,
+        vmStatus: result.vmStatus,
+        gasUsed: result.gasUsed,
+      },
+      status: error ? "failed" : "simulated",
+      error: error
+        ? error instanceof Error
+          ? error.message
+          : String(error)
+        : undefined,
+    });
+  };
 
   const handleStepClick = async (stepIndex: number) => {
-    if (stepIndex !== currentStep || isExecuting) return;
+    if (stepIndex !== currentStep || isExecuting || atomicOnly) return;
 
     const step = steps[stepIndex];
+    if (!ensurePermitted()) return;
+    if (!isFeePayerValid) {
+      toast.error("Enter a valid fee payer address");
+      return;
+    }
     setIsExecuting(true);
 
     try {
@@ -107,10 +331,12 @@ export function TransactionStepper({
         step.moduleAddress,
         step.args,
         network?.name,
-        step.typeArguments ?? []
+        step.typeArguments ?? [],
+        cosignersFor(step)
       );
 
       setSimulationResult(result);
+      await recordSimulation([step], result);
 
       if (isAutoExecute && result.success) {
         await executeConfirmedTransaction();
@@ -119,6 +345,7 @@ export function TransactionStepper({
       }
     } catch (error) {
       console.error("Error simulating transaction:", error);
+      await recordSimulation([step], undefined, error);
       toast.error("Simulation failed", {
         description: error instanceof Error ? error.message : "Unknown error",
       });
@@ -127,11 +354,11 @@ export function TransactionStepper({
   };
 
   const handleBatchSimulation = async () => {
-    if (!account) return;
+    if (!account || !ensurePermitted()) return;
     setIsExecuting(true);
 
-    const currentBatch = batches[currentBatchIndex];
-    if (!currentBatch || currentBatch.length === 0) {
+    const composedSteps = getComposedSteps();
+    if (!composedSteps || composedSteps.length === 0) {
       setIsExecuting(false);
       return;
     }
@@ -139,55 +366,23 @@ export function TransactionStepper({
     try {
       const client = createAptosClient(network?.name || Network.DEVNET);
 
-      const transaction = await client.transaction.build.scriptComposer({
-        sender: account.address,
-        builder: async (builder) => {
-          for (const step of currentBatch) {
-            await builder.addBatchedCalls({
-              function: `${step.moduleAddress}::${step.moduleName}::${step.functionName}`,
-              functionArguments: [CallArgument.newSigner(0), ...step.args],
-              typeArguments: step.typeArguments ?? [],
-            });
-          }
-          return builder;
-        },
-      });
+      const transaction = await buildComposedTransaction(
+        client,
+        account.address,
+        composedSteps
+      );
 
       const response = await client.transaction.simulate.simple({
         signerPublicKey: account.publicKey,
         transaction,
       });
 
-      const simulationResponse = Array.isArray(response)
-        ? response[0]
-        : response;
-      const result: SimulationResult = {
-        success: simulationResponse.success,
-        vmStatus: simulationResponse.vm_status,
-        gasUsed: simulationResponse.gas_used.toString(),
-        events: simulationResponse.events.map((event) => ({
-          type: event.type,
-          data: event.data as Record<string, unknown>,
-          key:
-            typeof event.guid === "object"
-              ? event.guid.account_address + event.guid.creation_number
-              : "unknown",
-          sequenceNumber: event.sequence_number,
-        })),
-        changes: simulationResponse.changes
-          .filter(
-            (change): change is WriteSetChangeWriteResource =>
-              "data" in change && !!change.data
-          )
-          .map((change) => ({
-            type: change.type,
-            address: change.address,
-            resource: change.data.type,
-            data: change.data.data as Record<string, unknown>,
-          })),
-      };
+      const result = toSimulationResult(
+        Array.isArray(response) ? response[0] : response
+      );
 
       setSimulationResult(result);
+      await recordSimulation(composedSteps, result);
 
       if (isAutoExecute && result.success) {
         await executeConfirmedTransaction();
@@ -196,40 +391,40 @@ export function TransactionStepper({
       }
     } catch (error) {
       console.error("Error simulating batch transaction:", error);
-      toast.error("Batch simulation failed", {
-        description: error instanceof Error ? error.message : "Unknown error",
-      });
+      await recordSimulation(composedSteps, undefined, error);
+      toast.error(
+        isAtomicMode ? "Atomic simulation failed" : "Batch simulation failed",
+        {
+          description:
+            error instanceof Error ? error.message : "Unknown error",
+        }
+      );
       setIsExecuting(false);
     }
   };
 
   const executeConfirmedTransaction = async () => {
-    if (!account) return;
+    if (!account || !ensurePermitted()) return;
+
+    // Steps covered by this transaction, saved so a reload can resume after it
+    const { fromStep, toStep } = getPendingRange();
 
     try {
       let txnResult: { hash: string } | undefined;
-      if (isBatchMode) {
-        const currentBatch = batches[currentBatchIndex];
-        if (!currentBatch || currentBatch.length === 0) {
+      if (isBatchMode || isAtomicMode) {
+        const composedSteps = getComposedSteps();
+        if (!composedSteps || composedSteps.length === 0) {
           handleComplete();
           return;
         }
 
         const client = createAptosClient(network?.name || Network.DEVNET);
 
-        const transaction = await client.transaction.build.scriptComposer({
-          sender: account.address,
-          builder: async (builder) => {
-            for (const step of currentBatch) {
-              await builder.addBatchedCalls({
-                function: `${step.moduleAddress}::${step.moduleName}::${step.functionName}`,
-                functionArguments: [CallArgument.newSigner(0), ...step.args],
-                typeArguments: step.typeArguments ?? [],
-              });
-            }
-            return builder;
-          },
-        });
+        const transaction = await buildComposedTransaction(
+          client,
+          account.address,
+          composedSteps
+        );
 
         const { args, bytecode, type_args } =
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -246,10 +441,11 @@ export function TransactionStepper({
           }
         );
 
-        const completedSteps = (currentBatchIndex + 1) * BATCH_SIZE;
-        setCurrentStep(Math.min(completedSteps, steps.length));
-
-        if (currentBatchIndex < batches.length - 1) {
+        if (isAtomicMode) {
+          handleComplete();
+        } else if (currentBatchIndex < batches.length - 1) {
+          const completedSteps = (currentBatchIndex + 1) * BATCH_SIZE;
+          setCurrentStep(Math.min(completedSteps, steps.length));
           if (isAutoExecute) pendingAutoExecuteRef.current = true;
           setCurrentBatchIndex(currentBatchIndex + 1);
           toast.success(
@@ -270,9 +466,20 @@ export function TransactionStepper({
           functionArguments: step.args,
         };
 
-        txnResult = await submitTransaction(payload, {
-          max_gas_amount: 100000,
-        });
+        if (needsCoSigning(step)) {
+          const client = createAptosClient(network?.name || Network.DEVNET);
+          const transaction = await buildTransaction(
+            client,
+            account.address,
+            payload,
+            cosignersFor(step)
+          );
+          txnResult = await collectCoSignatures(step, transaction);
+        } else {
+          txnResult = await submitTransaction(payload, {
+            max_gas_amount: 100000,
+          });
+        }
 
         if (currentStep === steps.length - 1) {
           handleComplete();
@@ -282,6 +489,26 @@ export function TransactionStepper({
         }
       }
 
+      onTransactionSubmitted?.({ fromStep, toStep, txHash: txnResult?.hash });
+
+      await updateTransaction(recordIdRef.current, {
+        status: "submitted",
+        txHash: txnResult?.hash,
+      });
+      // Not awaited, so the flow moves on while the outcome is recorded
+      if (txnResult?.hash) {
+        confirmTransaction(recordIdRef.current, txnResult.hash);
+      }
+
+      if (toStep >= steps.length) {
+        clearProgress();
+      } else if (txnResult?.hash) {
+        recordProgress(
+          { txHash: txnResult.hash, fromStep, toStep },
+          steps.map((step) => step.title)
+        );
+      }
+
       if (txnResult?.hash) {
         const explorerUrl = `https://explorer.aptoslabs.com/txn/${
           txnResult.hash
@@ -295,6 +522,15 @@ export function TransactionStepper({
       }
     } catch (error) {
       console.error("Error executing transaction:", error);
+      onTransactionFailed?.({
+        fromStep,
+        toStep,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await updateTransaction(recordIdRef.current, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
       toast.error("Transaction submission failed", {
         description: error instanceof Error ? error.message : "Unknown error",
       });
@@ -317,7 +553,7 @@ export function TransactionStepper({
     pendingAutoExecuteRef.current = false;
 
     const timer = setTimeout(() => {
-      if (isBatchMode) {
+      if (isBatchMode || isAtomicMode) {
         handleBatchSimulation();
       } else {
         handleStepClick(currentStep);
@@ -326,7 +562,21 @@ export function TransactionStepper({
 
     return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentStep, currentBatchIndex, isAutoExecute, isExecuting, steps.length, isBatchMode]);
+  }, [currentStep, currentBatchIndex, isAutoExecute, isExecuting, steps.length, isBatchMode, isAtomicMode]);
+
+  const handleResume = () => {
+    if (savedFlow?.status !== "resumable") return;
+    setCurrentStep(savedFlow.progress.completedStepCount);
+    // Batches are counted from step 0, so resume step by step
+    setBatchModeSelected(false);
+    setCurrentBatchIndex(0);
+    dismissSavedFlow();
+  };
+
+  const explorerTxUrl = (hash: string) =>
+    `https://explorer.aptoslabs.com/txn/${hash}?network=${
+      network?.name?.toLowerCase() || "devnet"
+    }`;
 
   return (
     <Card>
@@ -334,15 +584,116 @@ export function TransactionStepper({
         <CardTitle>Transaction Steps</CardTitle>
       </CardHeader>
       <CardContent>
+        {savedFlow && currentStep === 0 && (
+          <Alert
+            variant={savedFlow.status === "drifted" ? "destructive" : "default"}
+            className="mb-4"
+          >
+            {savedFlow.status === "checking" ? (
+              <Loader2 className="animate-spin" />
+            ) : savedFlow.status === "drifted" ? (
+              <AlertTriangle />
+            ) : (
+              <History />
+            )}
+            <AlertTitle>
+              {savedFlow.status === "checking"
+                ? "Checking saved progress on chain..."
+                : savedFlow.status === "resumable"
+                ? `${savedFlow.progress.completedStepCount} of ${steps.length} steps already executed`
+                : "On-chain state has drifted since this flow was interrupted"}
+            </AlertTitle>
+            <AlertDescription>
+              {savedFlow.status === "drifted" && (
+                <p>
+                  {savedFlow.argsChanged
+                    ? "The steps for this flow no longer match the ones that were partly executed, so it cannot be resumed safely. Review the current values before starting over."
+                    : "Not every saved transaction succeeded on chain. Review them before starting over."}
+                </p>
+              )}
+              {savedFlow.status !== "checking" && (
+                <ul className="space-y-1 my-2">
+                  {savedFlow.transactions.map((tx) => (
+                    <li key={tx.txHash} className="flex items-center gap-2">
+                      <Badge
+                        variant={
+                          tx.onChainStatus === "success"
+                            ? "secondary"
+                            : "destructive"
+                        }
+                      >
+                        {tx.onChainStatus.replace("_", " ")}
+                      </Badge>
+                      <span>
+                        {savedFlow.progress.stepTitles
+                          .slice(tx.fromStep, tx.toStep)
+                          .join(", ")}
+                      </span>
+                      <a
+                        href={explorerTxUrl(tx.txHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs underline"
+                      >
+                        {tx.txHash.slice(0, 10)}...
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {savedFlow.status !== "checking" && (
+                <div className="flex gap-2">
+                  {savedFlow.status === "resumable" && (
+                    <Button size="sm" onClick={handleResume}>
+                      Resume from &quot;
+                      {steps[savedFlow.progress.completedStepCount]?.title}
+                      &quot;
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={clearProgress}>
+                    Start Over
+                  </Button>
+                </div>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+        {steps.length > currentStep && !atomicOnly && (
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="sponsored"
+                checked={isSponsored}
+                onCheckedChange={(checked) => {
+                  setIsSponsored(checked);
+                  if (checked) {
+                    setBatchModeSelected(false);
+                    setAtomicModeSelected(false);
+                  }
+                }}
+              />
+              <Label htmlFor="sponsored">Sponsored Gas</Label>
+            </div>
+            {isSponsored && (
+              <Input
+                className="w-96 font-mono text-xs"
+                placeholder="Fee payer address (0x...)"
+                value={feePayer}
+                onChange={(e) => setFeePayer(e.target.value.trim())}
+              />
+            )}
+          </div>
+        )}
         {steps.length > 1 && steps.length > currentStep && (
           <div className="flex flex-wrap items-center gap-4 mb-4">
-            {!hideBatchMode && (
+            {!hideBatchMode && !atomicOnly && canCompose && (
               <div className="flex items-center space-x-2">
                 <Switch
                   id="batch-mode"
                   checked={isBatchMode}
                   onCheckedChange={(checked) => {
-                    setIsBatchMode(checked);
+                    setBatchModeSelected(checked);
+                    if (checked) setAtomicModeSelected(false);
                     setCurrentBatchIndex(0);
                   }}
                 />
@@ -351,6 +702,23 @@ export function TransactionStepper({
                 </Label>
               </div>
             )}
+            {!hideAtomicMode && canCompose && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="atomic-mode"
+                  checked={isAtomicMode}
+                  disabled={atomicOnly}
+                  onCheckedChange={(checked) => {
+                    setAtomicModeSelected(checked);
+                    if (checked) setBatchModeSelected(false);
+                  }}
+                />
+                <Label htmlFor="atomic-mode">
+                  Atomic Mode ({steps.length - currentStep} steps in one
+                  transaction)
+                </Label>
+              </div>
+            )}
             <div className="flex items-center space-x-2">
               <Switch
                 id="auto-execute"
@@ -374,18 +742,41 @@ export function TransactionStepper({
           }))}
           onStepClick={handleStepClick}
         />
+        {currentStep < steps.length && blockedPendingSteps.length > 0 && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Connected wallet lacks a required role</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {blockedPendingSteps.map(({ step, index, reason }) => (
+                  <li key={index}>
+                    {step.title}: {reason}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
         {currentStep < steps.length && (
           <div className="mt-4">
             <Button
               onClick={() =>
-                isBatchMode
+                isBatchMode || isAtomicMode
                   ? handleBatchSimulation()
                   : handleStepClick(currentStep)
               }
-              disabled={isExecuting || currentStep === steps.length}
+              disabled={
+                isExecuting ||
+                currentStep === steps.length ||
+                blockedPendingSteps.length > 0 ||
+                !isFeePayerValid ||
+                (atomicOnly && !canCompose)
+              }
             >
               {isExecuting
                 ? "Simulating..."
+                : isAtomicMode
+                ? "Simulate Atomic Transaction"
                 : isBatchMode
                 ? batches.length > 1
                   ? `Simulate Batch ${currentBatchIndex + 1}/${batches.length}`
@@ -404,6 +795,8 @@ export function TransactionStepper({
               <AlertDialogDescription>
                 Are you sure you want to execute this transaction? This action
                 cannot be undone.
+                {isAtomicMode &&
+                  ` All ${steps.length - currentStep} remaining steps run in a single transaction: if any step fails, none of them are applied.`}
               </AlertDialogDescription>
             </AlertDialogHeader>
             {simulationResult && (
@@ -415,12 +808,20 @@ export function TransactionStepper({
                     result={simulationResult}
                     isLoading={false}
                     error={null}
+                    addressBook={labels}
                   />
                 )}
               </div>
             )}
             <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => setIsExecuting(false)}>
+              <AlertDialogCancel
+                onClick={() => {
+                  setIsExecuting(false);
+                  updateTransaction(recordIdRef.current, {
+                    status: "cancelled",
+                  });
+                }}
+              >
                 Cancel
               </AlertDialogCancel>
               <AlertDialogAction onClick={handleConfirm}>
@@ -429,6 +830,23 @@ export function TransactionStepper({
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        {pendingCoSignature && (
+          <CoSignatureDialog
+            open
+            request={pendingCoSignature.request}
+            transaction={pendingCoSignature.transaction}
+            addressBook={labels}
+            onSubmitted={(hash) => {
+              pendingCoSignature.resolve({ hash });
+              setPendingCoSignature(null);
+            }}
+            onCancel={() => {
+              pendingCoSignature.reject(new Error("Co-signing cancelled"));
+              setPendingCoSignature(null);
+            }}
+          />
+        )}
       </CardContent>
     </Card>
   );
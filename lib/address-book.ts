@@ -0,0 +1,94 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { shortenAddress } from "./utils";
+
+/** Human-readable labels keyed by account or object address */
+export interface AddressBook {
+  [address: string]: string;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+/**
+ * Long form of an address so "0x1" and "0x000…001" share a label, or
+ * undefined when the value is not an address.
+ */
+export function normalizeAddress(value: string): string | undefined {
+  if (!ADDRESS_PATTERN.test(value)) return undefined;
+  return AccountAddress.from(value, { maxMissingChars: 63 }).toStringLong();
+}
+
+/**
+ * Merges address books into one keyed by long-form address. Later books win,
+ * and keys that are not addresses are dropped.
+ */
+export function mergeAddressBooks(...books: AddressBook[]): AddressBook {
+  const merged: AddressBook = {};
+  books.forEach((book) =>
+    Object.entries(book).forEach(([address, label]) => {
+      const normalized = normalizeAddress(address);
+      if (normalized && label) merged[normalized] = label;
+    })
+  );
+  return merged;
+}
+
+export function getAddressLabel(
+  addressBook: AddressBook,
+  address: string
+): string | undefined {
+  const normalized = normalizeAddress(address);
+  return (normalized && addressBook[normalized]) || addressBook[address];
+}
+
+/** "Label (0x1234...abcd)" for known addresses, the address otherwise */
+export function formatLabelledAddress(
+  addressBook: AddressBook,
+  address: string
+): string {
+  const normalized = normalizeAddress(address);
+  const label = (normalized && addressBook[normalized]) || addressBook[address];
+  return label ? `${label} (${shortenAddress(normalized ?? address)})` : address;
+}
+
+/**
+ * Known addresses appearing anywhere in a value, such as event data, each
+ * listed once with its label.
+ */
+export function findLabelledAddresses(
+  value: unknown,
+  addressBook: AddressBook
+): [string, string][] {
+  const found = new Map<string, string>();
+  const visit = (current: unknown) => {
+    if (typeof current === "string") {
+      const label = getAddressLabel(addressBook, current);
+      if (label) found.set(current, label);
+    } else if (current && typeof current === "object") {
+      Object.values(current).forEach(visit);
+    }
+  };
+  visit(value);
+  return Array.from(found.entries());
+}
+
+/** Copy of a value with every known address replaced by its labelled form */
+export function labelAddressesInValue(
+  value: unknown,
+  addressBook: AddressBook
+): unknown {
+  if (typeof value === "string") {
+    return formatLabelledAddress(addressBook, value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => labelAddressesInValue(item, addressBook));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        labelAddressesInValue(item, addressBook),
+      ])
+    );
+  }
+  return value;
+}
@@ -1,9 +1,13 @@
 "use client";
 
 import {
+  AccountAddress,
+  AccountAddressInput,
+  AnyRawTransaction,
   Aptos,
   AptosConfig,
   InputEntryFunctionData,
+  InputGenerateTransactionPayloadData,
   MoveFunctionId,
   Network,
   UserTransactionResponse,
@@ -35,6 +39,19 @@ export interface SimulationResult {
   changes: SimulationChange[];
 }
 
+/**
+ * Accounts other than the sender that sign a transaction: secondary signers
+ * for entry functions taking several signers, and a fee payer sponsoring gas
+ */
+export interface TransactionCosigners {
+  secondarySigners?: string[];
+  feePayer?: string;
+}
+
+// Co-signatures are collected by hand, so give signers an hour rather than
+// the SDK's default of 20 seconds
+const CO_SIGNED_EXPIRY_SECONDS = 60 * 60;
+
 const backupKeys: Record<Network, string> = {
   [Network.TESTNET]: "aptoslabs_aXLqtBTfEYA_BirLiL7RrdDfhY3SUStVrkxbpbWwGvRHV",
   [Network.MAINNET]: "aptoslabs_EvEyBavu4Vd_DGBMbzktvZ61VchxWvscDsoNG849HXm8g",
@@ -76,7 +93,79 @@ export const getNetworkUrl = (networkName?: string): string => {
 };
 
 /**
- * Simulate a transaction and format the result
+ * Format a simulated transaction for display
+ */
+export const toSimulationResult = (
+  simulationResponse: UserTransactionResponse
+): SimulationResult => ({
+  success: simulationResponse.success,
+  vmStatus: simulationResponse.vm_status,
+  gasUsed: simulationResponse.gas_used.toString(),
+  events: simulationResponse.events.map((event) => ({
+    type: event.type,
+    data: event.data as Record<string, unknown>,
+    key:
+      typeof event.guid === "object"
+        ? event.guid.account_address + event.guid.creation_number
+        : "unknown",
+    sequenceNumber: event.sequence_number,
+  })),
+  changes: simulationResponse.changes
+    .filter(
+      (change): change is WriteSetChangeWriteResource =>
+        "data" in change && !!change.data
+    )
+    .map((change) => ({
+      type: change.type,
+      address: change.address,
+      resource: change.data.type,
+      data: change.data.data as Record<string, unknown>,
+    })),
+});
+
+/**
+ * Build a transaction, as a multi-agent transaction when there are secondary
+ * signers and with the fee payer set when one sponsors it
+ */
+export const buildTransaction = async (
+  client: Aptos,
+  sender: AccountAddressInput,
+  data: InputGenerateTransactionPayloadData,
+  { secondarySigners = [], feePayer }: TransactionCosigners = {}
+): Promise<AnyRawTransaction> => {
+  const withFeePayer = !!feePayer;
+  const options =
+    secondarySigners.length > 0 || withFeePayer
+      ? {
+          expireTimestamp:
+            Math.floor(Date.now() / 1000) + CO_SIGNED_EXPIRY_SECONDS,
+        }
+      : undefined;
+
+  const transaction =
+    secondarySigners.length > 0
+      ? await client.transaction.build.multiAgent({
+          sender,
+          data,
+          secondarySignerAddresses: secondarySigners,
+          options,
+          withFeePayer,
+        })
+      : await client.transaction.build.simple({
+          sender,
+          data,
+          options,
+          withFeePayer,
+        });
+  if (feePayer) {
+    transaction.feePayerAddress = AccountAddress.from(feePayer);
+  }
+  return transaction;
+};
+
+/**
+ * Simulate a transaction and format the result. Co-signers are simulated
+ * without their public keys, so their signatures are not needed yet.
  */
 export const simulateTransaction = async (
   account: AccountInfo,
@@ -84,7 +173,8 @@ export const simulateTransaction = async (
   moduleAddress: string,
   args: unknown[],
   network: Network = Network.DEVNET,
-  typeArguments: string[] = []
+  typeArguments: string[] = [],
+  cosigners: TransactionCosigners = {}
 ): Promise<SimulationResult> => {
   try {
     const client = createAptosClient(network);
@@ -94,45 +184,21 @@ export const simulateTransaction = async (
       args,
       typeArguments
     );
-    const transaction = await client.transaction.build.simple({
-      sender: account.address.toString(),
-      data: payload,
-    });
+    const transaction = await buildTransaction(
+      client,
+      account.address.toString(),
+      payload,
+      cosigners
+    );
 
-    const response: UserTransactionResponse[] =
-      await client.transaction.simulate.simple({
-        transaction,
-      });
+    const response: UserTransactionResponse[] = cosigners.secondarySigners
+      ?.length
+      ? await client.transaction.simulate.multiAgent({ transaction })
+      : await client.transaction.simulate.simple({ transaction });
 
     const simulationResponse = Array.isArray(response) ? response : [response];
 
-    const result: SimulationResult = {
-      success: simulationResponse[0].success,
-      vmStatus: simulationResponse[0].vm_status,
-      gasUsed: simulationResponse[0].gas_used.toString(),
-      events: simulationResponse[0].events.map((event) => ({
-        type: event.type,
-        data: event.data as Record<string, unknown>,
-        key:
-          typeof event.guid === "object"
-            ? event.guid.account_address + event.guid.creation_number
-            : "unknown",
-        sequenceNumber: event.sequence_number,
-      })),
-      changes: simulationResponse[0].changes
-        .filter((change) => "data" in change && !!change.data)
-        .map((_change) => {
-          const change = _change as WriteSetChangeWriteResource;
-          return {
-            type: change.type,
-            address: change.address,
-            resource: change.data.type,
-            data: change.data.data as Record<string, unknown>,
-          };
-        }),
-    };
-
-    return result;
+    return toSimulationResult(simulationResponse[0]);
   } catch (error) {
     console.error("Error simulating transaction:", error);
     throw error;
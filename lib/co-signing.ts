@@ -0,0 +1,225 @@
+import {
+  AccountAddress,
+  AccountAuthenticator,
+  AnyRawTransaction,
+  Deserializer,
+  generateSigningMessageForTransaction,
+  Hex,
+  MultiAgentTransaction,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+} from "@aptos-labs/ts-sdk";
+
+/**
+ * A built transaction handed to co-signers by link or file. The transaction
+ * bytes are what gets signed; the summary is only for display.
+ */
+export interface SigningRequest {
+  version: 1;
+  network?: string;
+  title: string;
+  transaction: string; // BCS hex
+  multiAgent: boolean;
+  summary: {
+    function: string;
+    args: string[];
+  };
+}
+
+/** A co-signer's serialized authenticator, sent back to the sender */
+export interface SigningResponse {
+  version: 1;
+  signer: string;
+  asFeePayer: boolean;
+  authenticator: string; // BCS hex
+}
+
+export type SignerRole = "secondary" | "feePayer";
+
+export interface RequiredSigner {
+  address: string;
+  role: SignerRole;
+}
+
+// Links carry the code in one of these query params
+const REQUEST_PARAM = "request";
+const RESPONSE_PARAM = "response";
+
+// btoa and atob only handle Latin-1, so the JSON goes through UTF-8 bytes
+// to keep titles and arguments in any script intact
+const toBase64Url = (json: string) => {
+  let binary = "";
+  new TextEncoder().encode(json).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (code: string) =>
+  new TextDecoder().decode(
+    Uint8Array.from(atob(code.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+      char.charCodeAt(0)
+    )
+  );
+
+/**
+ * Reads a code pasted on its own, inside a link, or as the JSON of a
+ * downloaded file.
+ */
+function decodeShared(input: string, param: string): unknown {
+  const trimmed = input.trim();
+  if (trimmed.startsWith("{")) return JSON.parse(trimmed);
+  let code = trimmed;
+  if (/^https?:\/\//.test(trimmed)) {
+    code = new URL(trimmed).searchParams.get(param) ?? "";
+  }
+  if (!code) throw new Error(`Link has no ${param} code`);
+  return JSON.parse(fromBase64Url(code));
+}
+
+export function encodeSigningRequest(request: SigningRequest): string {
+  return toBase64Url(JSON.stringify(request));
+}
+
+export function encodeSigningResponse(response: SigningResponse): string {
+  return toBase64Url(JSON.stringify(response));
+}
+
+export function signingRequestUrl(origin: string, request: SigningRequest) {
+  return `${origin}/cosign?${REQUEST_PARAM}=${encodeSigningRequest(request)}`;
+}
+
+export function decodeSigningRequest(input: string): SigningRequest {
+  const request = decodeShared(input, REQUEST_PARAM) as SigningRequest;
+  if (request?.version !== 1 || typeof request.transaction !== "string") {
+    throw new Error("Not a signing request");
+  }
+  return request;
+}
+
+export function decodeSigningResponse(input: string): SigningResponse {
+  const response = decodeShared(input, RESPONSE_PARAM) as SigningResponse;
+  if (response?.version !== 1 || typeof response.authenticator !== "string") {
+    throw new Error("Not a signing response");
+  }
+  return response;
+}
+
+export function createSigningRequest(
+  transaction: AnyRawTransaction,
+  title: string,
+  args: string[],
+  network?: string
+): SigningRequest {
+  return {
+    version: 1,
+    network,
+    title,
+    transaction: transaction.bcsToHex().toString(),
+    multiAgent: transaction instanceof MultiAgentTransaction,
+    summary: { function: getTransactionFunction(transaction) ?? "", args },
+  };
+}
+
+export function deserializeTransaction(
+  request: SigningRequest
+): AnyRawTransaction {
+  const deserializer = new Deserializer(
+    Hex.fromHexInput(request.transaction).toUint8Array()
+  );
+  return request.multiAgent
+    ? MultiAgentTransaction.deserialize(deserializer)
+    : SimpleTransaction.deserialize(deserializer);
+}
+
+export function deserializeAuthenticator(
+  response: SigningResponse
+): AccountAuthenticator {
+  return AccountAuthenticator.deserialize(
+    new Deserializer(Hex.fromHexInput(response.authenticator).toUint8Array())
+  );
+}
+
+/** The entry function a transaction calls, read from its bytes */
+export function getTransactionFunction(
+  transaction: AnyRawTransaction
+): string | undefined {
+  const { payload } = transaction.rawTransaction;
+  if (!(payload instanceof TransactionPayloadEntryFunction)) return undefined;
+  const { module_name, function_name } = payload.entryFunction;
+  return `${module_name.address.toString()}::${module_name.name.identifier}::${function_name.identifier}`;
+}
+
+/** Every signature besides the sender's that the transaction needs */
+export function getRequiredSigners(
+  transaction: AnyRawTransaction
+): RequiredSigner[] {
+  const signers: RequiredSigner[] = (
+    transaction.secondarySignerAddresses ?? []
+  ).map((address) => ({ address: address.toString(), role: "secondary" }));
+  if (transaction.feePayerAddress) {
+    signers.push({
+      address: transaction.feePayerAddress.toString(),
+      role: "feePayer",
+    });
+  }
+  return signers;
+}
+
+export function findRequiredSigner(
+  transaction: AnyRawTransaction,
+  address: string,
+  role?: SignerRole
+): RequiredSigner | undefined {
+  const target = AccountAddress.from(address);
+  return getRequiredSigners(transaction).find(
+    (signer) =>
+      AccountAddress.from(signer.address).equals(target) &&
+      (!role || signer.role === role)
+  );
+}
+
+/**
+ * Checks a co-signer's response against the transaction: the signer must be
+ * one the transaction expects and, for single-key accounts, the signature
+ * must verify. Other authenticators are left for the chain to check.
+ */
+export function verifySigningResponse(
+  transaction: AnyRawTransaction,
+  response: SigningResponse
+): AccountAuthenticator {
+  const signer = findRequiredSigner(
+    transaction,
+    response.signer,
+    response.asFeePayer ? "feePayer" : "secondary"
+  );
+  if (!signer) {
+    throw new Error(
+      `${response.signer} is not a ${
+        response.asFeePayer ? "fee payer" : "secondary signer"
+      } of this transaction`
+    );
+  }
+
+  const authenticator = deserializeAuthenticator(response);
+  const message = generateSigningMessageForTransaction(transaction);
+  let valid = true;
+  try {
+    if (authenticator.isEd25519()) {
+      const { public_key, signature } = authenticator;
+      valid = public_key.verifySignature({ message, signature });
+    } else if (authenticator.isSingleKey()) {
+      const { public_key, signature } = authenticator;
+      valid = public_key.verifySignature({ message, signature });
+    }
+  } catch {
+    // Keyless signatures only verify asynchronously against the chain
+  }
+  if (!valid) {
+    throw new Error("Signature does not match this transaction");
+  }
+  return authenticator;
+}
@@ -24,6 +24,18 @@ export class ConfigManagerError extends Error {
   }
 }
 
+/**
+ * Whether an error means the bearer token is missing, invalid or lacks access
+ *
+ * @param error - Error thrown by a ConfigManagerService call
+ */
+export function isConfigManagerAuthError(error: unknown): boolean {
+  return (
+    error instanceof ConfigManagerError &&
+    (error.statusCode === 401 || error.statusCode === 403)
+  );
+}
+
 /**
  * Configuration for the Config Manager service
  */
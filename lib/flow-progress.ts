@@ -0,0 +1,65 @@
+import type { RecordedCall } from "./transaction-history";
+
+const STORAGE_PREFIX = "facility-control-center:flow-progress:";
+
+export interface FlowTransaction {
+  txHash: string;
+  fromStep: number; // First step covered by this transaction
+  toStep: number; // Exclusive end, > fromStep for batched/atomic transactions
+}
+
+/**
+ * Progress of a multi-step flow, saved after every submitted transaction so a
+ * reload can pick up where it left off.
+ */
+export interface FlowProgress {
+  page: string;
+  facilityAddress: string;
+  argsHash: string; // Hash of every step's function and args
+  stepTitles: string[];
+  transactions: FlowTransaction[];
+  completedStepCount: number;
+  updatedAt: number;
+}
+
+// One flow per page, facility and stepper on the page; a different argsHash
+// means the inputs changed
+export function getFlowKey(
+  page: string,
+  facilityAddress: string,
+  flowId: string
+): string {
+  return `${STORAGE_PREFIX}${page}:${facilityAddress}:${flowId}`;
+}
+
+export async function hashFlowSteps(calls: RecordedCall[]): Promise<string> {
+  const signature = JSON.stringify(
+    calls.map((call) => [call.function, call.typeArguments, call.args])
+  );
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(signature)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function loadFlowProgress(key: string): FlowProgress | null {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as FlowProgress;
+  } catch {
+    localStorage.removeItem(key);
+    return null;
+  }
+}
+
+export function saveFlowProgress(key: string, progress: FlowProgress) {
+  localStorage.setItem(key, JSON.stringify(progress));
+}
+
+export function clearFlowProgress(key: string) {
+  localStorage.removeItem(key);
+}
@@ -0,0 +1,166 @@
+import { useMemo } from "react";
+import { Aptos } from "@aptos-labs/ts-sdk";
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { AddressBook, mergeAddressBooks } from "../address-book";
+import { useNavigation } from "../navigation-context";
+import { useEffectiveNetwork } from "./use-effective-network";
+
+interface SmartTableResource {
+  buckets: { inner: { handle: string } };
+  num_buckets: string;
+}
+
+interface SmartTableEntry {
+  key: string;
+  value: boolean;
+}
+
+// Members of a BasicWhitelist, read bucket by bucket from its SmartTable
+async function fetchWhitelistMembers(
+  client: Aptos,
+  moduleAddress: string,
+  whitelistAddress: string
+): Promise<string[]> {
+  const { whitelist } = await client.getAccountResource<{
+    whitelist: SmartTableResource;
+  }>({
+    accountAddress: whitelistAddress,
+    resourceType: `${moduleAddress}::whitelist::BasicWhitelist`,
+  });
+
+  const buckets = await Promise.all(
+    Array.from({ length: Number(whitelist.num_buckets) }, (_, index) =>
+      client.getTableItem<SmartTableEntry[]>({
+        handle: whitelist.buckets.inner.handle,
+        data: {
+          key_type: "u64",
+          value_type: "vector<0x1::smart_table::Entry<address, bool>>",
+          key: String(index),
+        },
+      })
+    )
+  );
+  return buckets.flat().filter(({ value }) => value).map(({ key }) => key);
+}
+
+/**
+ * Labels for the addresses a facility is built from, discovered through its
+ * views: share classes (`get_shares`), the originator receivable account,
+ * the principal collection account and the members of the admin whitelist.
+ * Each lookup fails on its own so one missing view does not hide the rest.
+ */
+export async function discoverFacilityAddressBook(
+  client: Aptos,
+  facilityAddress: string,
+  moduleAddress: string
+): Promise<AddressBook> {
+  const view = async <T>(functionName: string): Promise<T> =>
+    (
+      await client.view({
+        payload: {
+          function: `${moduleAddress}::facility_core::${functionName}`,
+          typeArguments: [],
+          functionArguments: [facilityAddress],
+        },
+      })
+    )[0] as T;
+  const book: AddressBook = {
+    [facilityAddress]: "Facility",
+    [moduleAddress]: "Facility contracts",
+  };
+  const discover = (name: string, lookup: () => Promise<void>) =>
+    lookup().catch((error) =>
+      console.error(`Error discovering ${name} addresses:`, error)
+    );
+
+  await Promise.all([
+    discover("share class", async () => {
+      const shares = await view<string[]>("get_shares");
+      await Promise.all(
+        shares.map(async (share, index) => {
+          const metadata = await client
+            .getAccountResource<{ symbol: string }>({
+              accountAddress: share,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+            .catch(() => undefined);
+          book[share] = `${metadata?.symbol ?? `Share ${index + 1}`} share class`;
+        })
+      );
+    }),
+    discover("originator", async () => {
+      book[await view<string>("get_originator_receivable_account")] =
+        "Originator receivable account";
+    }),
+    discover("collection account", async () => {
+      book[await view<string>("get_principal_collection_account")] =
+        "Principal collection account";
+    }),
+    discover("admin", async () => {
+      const whitelist = (
+        await view<{ inner: string }>("get_admin_whitelist")
+      ).inner;
+      book[whitelist] = "Facility admin whitelist";
+      const admins = await fetchWhitelistMembers(
+        client,
+        moduleAddress,
+        whitelist
+      );
+      admins.forEach((admin, index) => {
+        book[admin] =
+          admins.length > 1 ? `Facility admin ${index + 1}` : "Facility admin";
+      });
+    }),
+  ]);
+
+  return mergeAddressBooks(book);
+}
+
+/**
+ * Hook to discover labels for the current facility's addresses. Loan book
+ * and facility labels come from the navigation context rather than views.
+ */
+export const useDiscoveredAddressBook = () => {
+  const { facilityAddress, moduleAddress, loanBookAddress } = useNavigation();
+  const network = useEffectiveNetwork();
+
+  return useQuery<AddressBook, Error>({
+    queryKey: [
+      "discoveredAddressBook",
+      facilityAddress,
+      moduleAddress,
+      loanBookAddress,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<AddressBook> => {
+      const discovered =
+        facilityAddress && moduleAddress
+          ? await discoverFacilityAddressBook(
+              createAptosClient(network.name),
+              facilityAddress,
+              moduleAddress
+            )
+          : {};
+      return mergeAddressBooks(
+        loanBookAddress ? { [loanBookAddress]: "Loan book" } : {},
+        discovered
+      );
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+/**
+ * The address book used across the app: discovered labels, overridden by
+ * the labels saved in the active workspace.
+ */
+export const useAddressBook = (): AddressBook => {
+  const { addressBook } = useNavigation();
+  const { data: discovered } = useDiscoveredAddressBook();
+
+  return useMemo(
+    () => mergeAddressBooks(discovered ?? {}, addressBook),
+    [discovered, addressBook]
+  );
+};
@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+
+// hybrid_loan_book::AutoPledgeConfig, stored on the loan book config object
+export interface AutoPledgeConfig {
+  enabled: boolean;
+  facilityAddress: string; // Kept while disabled, unlike get_auto_pledge_address
+}
+
+interface UseAutoPledgeConfigProps {
+  configAddress?: string;
+}
+
+/**
+ * Hook to read a loan book's auto-pledge config. Resolves to null when
+ * set_auto_pledge_config has never been called for the loan book.
+ */
+export const useAutoPledgeConfig = ({
+  configAddress,
+}: UseAutoPledgeConfigProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<AutoPledgeConfig | null, Error>({
+    queryKey: ["autoPledgeConfig", configAddress, network.chainId],
+    queryFn: async (): Promise<AutoPledgeConfig | null> => {
+      if (!configAddress) {
+        throw new Error("Loan book config address is required");
+      }
+
+      const client = createAptosClient(network.name);
+      const resources = await client.account.getAccountResources({
+        accountAddress: configAddress,
+      });
+      const resource = resources.find((r) =>
+        r.type.endsWith("::hybrid_loan_book::AutoPledgeConfig")
+      ) as
+        | { data: { enabled: boolean; facility: { inner: string } } }
+        | undefined;
+
+      return resource
+        ? {
+            enabled: resource.data.enabled,
+            facilityAddress: resource.data.facility.inner,
+          }
+        : null;
+    },
+    enabled: !!configAddress,
+    staleTime: 15000,
+  });
+};
@@ -0,0 +1,125 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import {
+  BorrowingBaseNode,
+  BorrowingBaseTreeResource,
+  parseBorrowingBaseTree,
+} from "../utils/borrowing-base";
+
+export interface BorrowingBaseTreeData {
+  nodes: BorrowingBaseNode[];
+  balances: Record<number, bigint>; // FungibleAssetBalance node index to balance
+  now: number; // Ledger timestamp in microseconds, for staleness checks
+  evaluated?: bigint; // borrowing_base_engine::evaluate, when it does not abort
+  evaluateError?: string;
+  decimals: number;
+  symbol: string;
+}
+
+interface UseBorrowingBaseTreeProps {
+  facilityAddress?: string;
+  moduleAddress?: string;
+}
+
+/**
+ * Hook to read the BorrowingBaseTree stored on a facility object, together
+ * with everything needed to evaluate it off chain: balances of the fungible
+ * asset nodes and the ledger time attestations are checked against.
+ */
+export const useBorrowingBaseTree = ({
+  facilityAddress,
+  moduleAddress,
+}: UseBorrowingBaseTreeProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<BorrowingBaseTreeData, Error>({
+    queryKey: [
+      "borrowingBaseTree",
+      facilityAddress,
+      moduleAddress,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<BorrowingBaseTreeData> => {
+      if (!facilityAddress) {
+        throw new Error("Facility address is required");
+      }
+      if (!moduleAddress) {
+        throw new Error("Module address is required");
+      }
+
+      const client = createAptosClient(network.name);
+
+      const [resource, ledgerInfo, evaluation, metadata] = await Promise.all([
+        client.getAccountResource<BorrowingBaseTreeResource>({
+          accountAddress: facilityAddress,
+          resourceType: `${moduleAddress}::borrowing_base_engine::BorrowingBaseTree`,
+        }),
+        client.getLedgerInfo(),
+        // Aborts when an attestation is stale or an operator underflows
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::borrowing_base_engine::evaluate`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .then(([value]) => ({ value: BigInt(value as string) }))
+          .catch((error: Error) => ({ error: error.message })),
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::facility_core::get_fa_metadata`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .then(([faMetadata]) =>
+            client.getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: (faMetadata as { inner: string }).inner,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+          )
+          .catch((error) => {
+            console.error("Error fetching facility token metadata:", error);
+            return undefined;
+          }),
+      ]);
+
+      const nodes = parseBorrowingBaseTree(resource);
+
+      const balances: Record<number, bigint> = {};
+      await Promise.all(
+        nodes.map(async (node) => {
+          if (node.kind !== "FungibleAssetBalance") return;
+          try {
+            const [balance] = await client.view({
+              payload: {
+                function: "0x1::primary_fungible_store::balance",
+                typeArguments: ["0x1::fungible_asset::Metadata"],
+                functionArguments: [node.owner, node.metadata],
+              },
+            });
+            balances[node.index] = BigInt(balance as string);
+          } catch (error) {
+            console.error(`Error fetching balance for node ${node.index}:`, error);
+          }
+        })
+      );
+
+      return {
+        nodes,
+        balances,
+        now: Number(ledgerInfo.ledger_timestamp),
+        evaluated: "value" in evaluation ? evaluation.value : undefined,
+        evaluateError: "error" in evaluation ? evaluation.error : undefined,
+        // USDT facilities are the common case when metadata cannot be read
+        decimals: metadata?.decimals ?? 6,
+        symbol: metadata?.symbol ?? "USDT",
+      };
+    },
+    enabled: !!facilityAddress && !!moduleAddress,
+    staleTime: 15000,
+  });
+};
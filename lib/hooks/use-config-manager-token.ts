@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+const TOKEN_STORAGE_KEY = "facility-control-center:config-manager-token";
+
+/**
+ * Hook to hold the config-manager bearer token for the current browser session
+ *
+ * The token is kept in sessionStorage so it survives navigation between the
+ * admin routes but is dropped when the tab is closed.
+ *
+ * @returns The current token, whether it has been read from storage yet, and setters
+ */
+export function useConfigManagerToken() {
+  const [bearerToken, setBearerTokenState] = useState("");
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    const storedToken = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    if (storedToken) setBearerTokenState(storedToken);
+    setIsHydrated(true);
+  }, []);
+
+  const setBearerToken = useCallback((token: string) => {
+    setBearerTokenState(token);
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+  }, []);
+
+  const clearBearerToken = useCallback(() => {
+    setBearerTokenState("");
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+  }, []);
+
+  return { bearerToken, isHydrated, setBearerToken, clearBearerToken };
+}
@@ -25,7 +25,7 @@ export function useStagedLoanBooks(
   bearerToken?: string
 ) {
   return useQuery<StagedLoanBookResponse[], Error>({
-    queryKey: ["staged-loan-books", incompleteOnly],
+    queryKey: ["staged-loan-books", incompleteOnly, bearerToken],
     queryFn: async () => {
       const service = createConfigManagerService(bearerToken);
       return service.listStagedLoanBooks(incompleteOnly);
@@ -44,7 +44,7 @@ export function useStagedLoanBooks(
  */
 export function useStagedLoanBook(address?: string, bearerToken?: string) {
   return useQuery<StagedLoanBookResponse, Error>({
-    queryKey: ["staged-loan-book", address],
+    queryKey: ["staged-loan-book", address, bearerToken],
     queryFn: async () => {
       if (!address) {
         throw new Error("Address is required");
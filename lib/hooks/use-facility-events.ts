@@ -0,0 +1,222 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import {
+  addressVariants,
+  eventTypes,
+  fetchModuleEvents,
+} from "../utils/events";
+
+export type FacilityEventCategory =
+  | "capital-call"
+  | "recycle"
+  | "distribution"
+  | "contribution";
+
+export interface FacilityEventDefinition {
+  name: string;
+  moduleName: "facility_core" | "share_class";
+  label: string;
+  category: FacilityEventCategory;
+  amountFields: string[]; // Fields holding token amounts, formatted with decimals
+}
+
+export const FACILITY_EVENTS: FacilityEventDefinition[] = [
+  {
+    name: "CapitalCallRequestCreated",
+    moduleName: "facility_core",
+    label: "Capital Call Requested",
+    category: "capital-call",
+    amountFields: ["amount"],
+  },
+  {
+    name: "CapitalCallRequestApproved",
+    moduleName: "facility_core",
+    label: "Capital Call Approved",
+    category: "capital-call",
+    amountFields: ["previous_max", "new_max"],
+  },
+  {
+    name: "CapitalCallRequestRejected",
+    moduleName: "facility_core",
+    label: "Capital Call Rejected",
+    category: "capital-call",
+    amountFields: ["proposed_max"],
+  },
+  {
+    name: "CapitalCallInitiatedEventV0",
+    moduleName: "share_class",
+    label: "Capital Call Initiated",
+    category: "capital-call",
+    amountFields: ["amount"],
+  },
+  {
+    name: "RecycleRequestCreated",
+    moduleName: "facility_core",
+    label: "Recycle Requested",
+    category: "recycle",
+    amountFields: ["amount"],
+  },
+  {
+    name: "RecycleRequestApproved",
+    moduleName: "facility_core",
+    label: "Recycle Approved",
+    category: "recycle",
+    amountFields: ["previous_max", "new_max"],
+  },
+  {
+    name: "RecycleRequestRejected",
+    moduleName: "facility_core",
+    label: "Recycle Rejected",
+    category: "recycle",
+    amountFields: ["proposed_max"],
+  },
+  {
+    name: "InterestDistributedEventV0",
+    moduleName: "share_class",
+    label: "Interest Distributed",
+    category: "distribution",
+    amountFields: ["amount", "deficit", "total_distributed_interest"],
+  },
+  {
+    name: "PrincipalRepaidEventV0",
+    moduleName: "share_class",
+    label: "Principal Repaid",
+    category: "distribution",
+    amountFields: ["amount", "outstanding_principal"],
+  },
+  {
+    name: "ContributionEventV0",
+    moduleName: "share_class",
+    label: "Contribution",
+    category: "contribution",
+    amountFields: ["amount", "total_contributed", "current_contributed"],
+  },
+];
+
+export interface FacilityTimelineEvent {
+  id: string;
+  definition: FacilityEventDefinition;
+  data: Record<string, unknown>;
+  transactionVersion: number;
+  timestamp?: Date;
+}
+
+export interface FacilityTimeline {
+  events: FacilityTimelineEvent[];
+  decimals: number;
+  symbol: string;
+}
+
+interface UseFacilityEventsProps {
+  facilityAddress?: string;
+  moduleAddress?: string;
+  shareAddress?: string; // Only share_class events for this share class
+  limit?: number;
+}
+
+/**
+ * Hook to fetch facility_core and share_class events for a facility from the
+ * indexer, newest first, along with the facility token's decimals.
+ */
+export const useFacilityEvents = ({
+  facilityAddress,
+  moduleAddress,
+  shareAddress,
+  limit = 100,
+}: UseFacilityEventsProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<FacilityTimeline, Error>({
+    queryKey: [
+      "facilityEvents",
+      facilityAddress,
+      moduleAddress,
+      shareAddress,
+      limit,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<FacilityTimeline> => {
+      if (!facilityAddress) {
+        throw new Error("Facility address is required");
+      }
+      if (!moduleAddress) {
+        throw new Error("Module address is required");
+      }
+
+      const client = createAptosClient(network.name);
+
+      const definitionsByType = new Map<string, FacilityEventDefinition>();
+      FACILITY_EVENTS.filter(
+        (definition) => !shareAddress || definition.moduleName === "share_class"
+      ).forEach((definition) =>
+        eventTypes(moduleAddress, definition.moduleName, [
+          definition.name,
+        ]).forEach((type) => definitionsByType.set(type, definition))
+      );
+
+      // facility_core events key the facility as `facility`, share_class
+      // events as `facility_address`
+      const facilityFilters = shareAddress
+        ? addressVariants(facilityAddress).flatMap((address) =>
+            addressVariants(shareAddress).map((share) => ({
+              facility_address: address,
+              share_address: share,
+            }))
+          )
+        : addressVariants(facilityAddress).flatMap((address) => [
+            { facility: address },
+            { facility_address: address },
+          ]);
+
+      const [events, metadata] = await Promise.all([
+        fetchModuleEvents(client, {
+          types: Array.from(definitionsByType.keys()),
+          dataFilters: facilityFilters,
+          limit,
+        }),
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::facility_core::get_fa_metadata`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .then(([faMetadata]) =>
+            client.getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: (faMetadata as { inner: string }).inner,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+          )
+          .catch((error) => {
+            console.error("Error fetching facility token metadata:", error);
+            return undefined;
+          }),
+      ]);
+
+      return {
+        events: events.flatMap((event) => {
+          const definition = definitionsByType.get(event.type);
+          return definition
+            ? [
+                {
+                  id: `${event.transactionVersion}-${event.eventIndex}`,
+                  definition,
+                  data: event.data,
+                  transactionVersion: event.transactionVersion,
+                  timestamp: event.timestamp,
+                },
+              ]
+            : [];
+        }),
+        // USDT facilities are the common case when metadata cannot be read
+        decimals: metadata?.decimals ?? 6,
+        symbol: metadata?.symbol ?? "USDT",
+      };
+    },
+    enabled: !!facilityAddress && !!moduleAddress,
+    refetchInterval: 30000,
+    staleTime: 15000,
+  });
+};
@@ -0,0 +1,127 @@
+import { Aptos, Network } from "@aptos-labs/ts-sdk";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { FacilityData, fetchFacilityData } from "./use-facility-data";
+import { getSavedFacilityKey, SavedFacility } from "../saved-facilities";
+import { useEffectiveNetwork } from "./use-effective-network";
+import { FacilityHealth, getFacilityHealth } from "../utils/facility-portfolio";
+
+export interface PortfolioFacility {
+  data: FacilityData;
+  health: FacilityHealth;
+  decimals: number;
+  symbol: string;
+}
+
+export interface PortfolioRow {
+  key: string;
+  facility: SavedFacility;
+  portfolio?: PortfolioFacility;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Reads a facility's state and health along with its token for display
+ */
+export async function fetchPortfolioFacility(
+  client: Aptos,
+  facilityAddress: string,
+  moduleAddress: string
+): Promise<PortfolioFacility> {
+  const [data, metadata] = await Promise.all([
+    fetchFacilityData(client, facilityAddress, moduleAddress),
+    client
+      .view({
+        payload: {
+          function: `${moduleAddress}::facility_core::get_fa_metadata`,
+          typeArguments: [],
+          functionArguments: [facilityAddress],
+        },
+      })
+      .then(([faMetadata]) =>
+        client.getAccountResource<{ symbol: string; decimals: number }>({
+          accountAddress: (faMetadata as { inner: string }).inner,
+          resourceType: "0x1::fungible_asset::Metadata",
+        })
+      )
+      .catch((error) => {
+        console.error("Error fetching facility token metadata:", error);
+        return undefined;
+      }),
+  ]);
+
+  return {
+    data,
+    health: getFacilityHealth(data),
+    // USDT facilities are the common case when metadata cannot be read
+    decimals: metadata?.decimals ?? 6,
+    symbol: metadata?.symbol ?? "USDT",
+  };
+}
+
+/**
+ * Hook to read every saved facility in parallel, each on its own network
+ * rather than the wallet's, along with its token for display.
+ */
+export const useFacilityPortfolio = (facilities: SavedFacility[]) => {
+  return useQueries({
+    queries: facilities.map((facility) => ({
+      queryKey: [
+        "facilityPortfolio",
+        facility.facilityAddress,
+        facility.moduleAddress,
+        facility.network,
+      ],
+      queryFn: (): Promise<PortfolioFacility> =>
+        fetchPortfolioFacility(
+          createAptosClient(
+            facility.network === "testnet" ? Network.TESTNET : Network.MAINNET
+          ),
+          facility.facilityAddress,
+          facility.moduleAddress
+        ),
+      refetchInterval: 30000,
+      staleTime: 15000,
+    })),
+    combine: (results): PortfolioRow[] =>
+      results.map((result, i) => ({
+        key: getSavedFacilityKey(facilities[i]),
+        facility: facilities[i],
+        portfolio: result.data,
+        isLoading: result.isLoading,
+        error: result.error,
+      })),
+  });
+};
+
+/**
+ * Hook to read one facility's health on the effective network, for panels
+ * that point at a facility outside the saved portfolio.
+ */
+export const useFacilityHealth = ({
+  facilityAddress,
+  moduleAddress,
+}: {
+  facilityAddress?: string;
+  moduleAddress?: string;
+}) => {
+  const network = useEffectiveNetwork();
+  return useQuery<PortfolioFacility, Error>({
+    queryKey: [
+      "facilityHealth",
+      facilityAddress,
+      moduleAddress,
+      network.chainId,
+    ],
+    queryFn: () =>
+      fetchPortfolioFacility(
+        createAptosClient(network.name),
+        facilityAddress!,
+        moduleAddress!
+      ),
+    enabled: !!facilityAddress && !!moduleAddress,
+    refetchInterval: 30000,
+    staleTime: 15000,
+  });
+};
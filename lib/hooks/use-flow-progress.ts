@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { UserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import {
+  clearFlowProgress,
+  FlowProgress,
+  FlowTransaction,
+  getFlowKey,
+  hashFlowSteps,
+  loadFlowProgress,
+  saveFlowProgress,
+} from "../flow-progress";
+import type { RecordedCall } from "../transaction-history";
+
+export type OnChainTransactionStatus =
+  | "success"
+  | "failed"
+  | "pending"
+  | "not_found";
+
+export interface VerifiedFlowTransaction extends FlowTransaction {
+  onChainStatus: OnChainTransactionStatus;
+  vmStatus?: string;
+}
+
+export type SavedFlowState =
+  | { status: "checking"; progress: FlowProgress }
+  | {
+      // Inputs unchanged and every saved transaction succeeded on chain
+      status: "resumable";
+      progress: FlowProgress;
+      transactions: VerifiedFlowTransaction[];
+    }
+  | {
+      // Inputs changed, or a saved transaction failed or cannot be found
+      status: "drifted";
+      progress: FlowProgress;
+      transactions: VerifiedFlowTransaction[];
+      argsChanged: boolean;
+    };
+
+// Pages often rebuild their steps while on-chain data is still loading, so
+// wait for the step arguments to settle before comparing against saved ones.
+const SETTLE_DELAY_MS = 1000;
+
+/**
+ * Hook that saves TransactionStepper progress per page, facility and flow id,
+ * and on load verifies previously submitted transactions on chain. The flow
+ * id keeps several steppers on one page apart; step arguments are only
+ * compared to tell whether a saved flow drifted.
+ */
+export const useFlowProgress = (calls: RecordedCall[], flowId: string) => {
+  const network = useEffectiveNetwork();
+  const [savedFlow, setSavedFlow] = useState<SavedFlowState | null>(null);
+  const dismissedRef = useRef(false);
+
+  const flowKey = useMemo(() => {
+    if (typeof window === "undefined") return "";
+    const facility =
+      new URLSearchParams(window.location.search).get("facility") ?? "";
+    return getFlowKey(window.location.pathname, facility, flowId);
+  }, [flowId]);
+
+  // Stable string so the effect below only re-runs when step contents change
+  const callsSignature = useMemo(() => JSON.stringify(calls), [calls]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const hash = await hashFlowSteps(JSON.parse(callsSignature));
+      if (cancelled) return;
+
+      const progress = loadFlowProgress(flowKey);
+      if (!progress || dismissedRef.current) {
+        setSavedFlow(null);
+        return;
+      }
+
+      setSavedFlow({ status: "checking", progress });
+      const client = createAptosClient(network.name);
+      const transactions = await Promise.all(
+        progress.transactions.map(
+          async (tx): Promise<VerifiedFlowTransaction> => {
+            try {
+              const response = await client.getTransactionByHash({
+                transactionHash: tx.txHash,
+              });
+              if (response.type === "pending_transaction") {
+                return { ...tx, onChainStatus: "pending" };
+              }
+              const userTx = response as UserTransactionResponse;
+              return {
+                ...tx,
+                onChainStatus: userTx.success ? "success" : "failed",
+                vmStatus: userTx.vm_status,
+              };
+            } catch {
+              return { ...tx, onChainStatus: "not_found" };
+            }
+          }
+        )
+      );
+      if (cancelled) return;
+
+      const argsChanged = progress.argsHash !== hash;
+      const allSucceeded = transactions.every(
+        (tx) => tx.onChainStatus === "success"
+      );
+      setSavedFlow(
+        !argsChanged && allSucceeded
+          ? { status: "resumable", progress, transactions }
+          : { status: "drifted", progress, transactions, argsChanged }
+      );
+    }, SETTLE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [callsSignature, flowKey, network.name]);
+
+  // Hashes the current steps itself rather than waiting on the settled check
+  // above, so transactions submitted before it has run are still saved
+  const recordProgress = useCallback(
+    async (transaction: FlowTransaction, stepTitles: string[]) => {
+      const argsHash = await hashFlowSteps(JSON.parse(callsSignature));
+      // Once this session is executing, its own saves are not a resumable flow
+      dismissedRef.current = true;
+      const existing = loadFlowProgress(flowKey);
+      const previous =
+        existing?.argsHash === argsHash ? existing.transactions : [];
+      const searchParams = new URLSearchParams(window.location.search);
+      saveFlowProgress(flowKey, {
+        page: window.location.pathname,
+        facilityAddress: searchParams.get("facility") ?? "",
+        argsHash,
+        stepTitles,
+        transactions: [...previous, transaction],
+        completedStepCount: transaction.toStep,
+        updatedAt: Date.now(),
+      });
+    },
+    [callsSignature, flowKey]
+  );
+
+  const clearProgress = useCallback(() => {
+    clearFlowProgress(flowKey);
+    dismissedRef.current = true;
+    setSavedFlow(null);
+  }, [flowKey]);
+
+  // Hide the saved flow banner, keeping storage so it can still be resumed
+  // after another reload
+  const dismissSavedFlow = useCallback(() => {
+    dismissedRef.current = true;
+    setSavedFlow(null);
+  }, []);
+
+  return { savedFlow, recordProgress, clearProgress, dismissSavedFlow };
+};
@@ -1,11 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { SimulationResult } from "@/lib/aptos-service";
+import type { AddressBook } from "@/lib/address-book";
 import { generateTransactionDescription } from "@/lib/utils/llm";
 
-interface AddressBook {
-  [address: string]: string;
-}
-
 export function useLlmDescription(
   result: SimulationResult | null,
   addressBook: AddressBook
@@ -16,6 +13,7 @@ export function useLlmDescription(
       result?.vmStatus,
       result?.events,
       result?.changes,
+      addressBook,
     ],
     queryFn: () => {
       if (!result) return null;
@@ -0,0 +1,255 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import { useLoanBookConfig } from "./use-loan-book-config";
+import { getLoanDetails, Interval } from "./use-loan-info";
+import {
+  bucketByDaysPastDue,
+  DAY_US,
+  DelinquencyBucket,
+  discoverLoanBookLoans,
+  getDaysPastDue,
+  getNextDueInterval,
+  summarizeSchedule,
+} from "../utils/loan-portfolio";
+
+export type PortfolioLoanStatus = "pending" | "active" | "paid_off";
+
+export interface PortfolioLoan {
+  loanAddress: string;
+  status: PortfolioLoanStatus;
+  borrowerAddress?: string;
+  faMetadataAddress?: string;
+  startingPrincipal?: bigint;
+  principalRemaining: bigint;
+  debtRemaining: bigint;
+  nextInstallment?: Interval;
+  daysPastDue: number;
+  lateFeeAccrued?: bigint; // undefined when get_late_fee could not be read
+  startTimeUs?: number;
+  maturityTimeUs?: number;
+  lastPaymentUs?: number;
+}
+
+export interface LoanBookPortfolio {
+  loans: PortfolioLoan[];
+  totalPrincipalOutstanding: bigint;
+  totalDebtOutstanding: bigint;
+  totalLateFees: bigint;
+  activeLoanCount: number;
+  // Remaining days to maturity, weighted by outstanding principal
+  weightedAverageTenorDays?: number;
+  delinquencyBuckets: DelinquencyBucket[];
+  decimals: number;
+  symbol: string;
+  mixedTokens: boolean; // Loans use more than one token, so totals mix units
+}
+
+// Loans are read a few at a time to stay under fullnode rate limits
+const LOAN_READ_BATCH_SIZE = 10;
+
+/**
+ * Hook to build a portfolio view of every loan in a hybrid loan book.
+ *
+ * Loans are discovered from loan_book events, then each live loan's Loan
+ * resource and late fee are read from chain. Loans that have been fully repaid
+ * no longer have a Loan resource and are reported from their last payment.
+ */
+export const useLoanBookPortfolio = ({
+  loanBookAddress,
+}: {
+  loanBookAddress?: string;
+}) => {
+  const network = useEffectiveNetwork();
+  const {
+    loanBookConfig,
+    isLoading: isConfigLoading,
+    error: configError,
+  } = useLoanBookConfig({ loanBookAddress });
+
+  const {
+    data: portfolio,
+    isLoading: isPortfolioLoading,
+    isFetching,
+    error: portfolioError,
+  } = useQuery<LoanBookPortfolio, Error>({
+    queryKey: [
+      "loanBookPortfolio",
+      loanBookConfig?.loanBookAddress,
+      loanBookConfig?.moduleAddress,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<LoanBookPortfolio> => {
+      if (!loanBookConfig) {
+        throw new Error("Loan book config is required");
+      }
+      const { moduleAddress } = loanBookConfig;
+      const client = createAptosClient(network.name);
+      const nowUs = Date.now() * 1000;
+
+      const discovered = await discoverLoanBookLoans(
+        client,
+        moduleAddress,
+        loanBookConfig.loanBookAddress
+      );
+
+      const loans: PortfolioLoan[] = [];
+      for (let i = 0; i < discovered.length; i += LOAN_READ_BATCH_SIZE) {
+        const batch = discovered.slice(i, i + LOAN_READ_BATCH_SIZE);
+        const results = await Promise.all(
+          batch.map(async (loan): Promise<PortfolioLoan> => {
+            const resource = loan.started
+              ? await getLoanDetails(client, loan.loanAddress, moduleAddress)
+              : undefined;
+
+            if (!resource) {
+              // Started loans without a Loan resource were repaid and removed
+              const principalRemaining = BigInt(
+                loan.lastPayment?.principalRemaining ?? 0
+              );
+              return {
+                loanAddress: loan.loanAddress,
+                status: loan.started ? "paid_off" : "pending",
+                borrowerAddress: loan.borrowerAddress,
+                faMetadataAddress: loan.faMetadataAddress,
+                startingPrincipal: loan.principal
+                  ? BigInt(loan.principal)
+                  : undefined,
+                principalRemaining: loan.started
+                  ? principalRemaining
+                  : BigInt(0),
+                debtRemaining: loan.started
+                  ? BigInt(loan.lastPayment?.debtRemaining ?? 0)
+                  : BigInt(0),
+                daysPastDue: 0,
+                startTimeUs: loan.startTimeUs,
+                maturityTimeUs: loan.maturityTimeUs,
+                lastPaymentUs: loan.lastPayment?.timestampUs,
+              };
+            }
+
+            const lateFee = await client
+              .view({
+                payload: {
+                  function: `${moduleAddress}::loan_book::get_late_fee`,
+                  typeArguments: [],
+                  functionArguments: [loan.loanAddress],
+                },
+              })
+              .then(([fee]) => BigInt(fee as string))
+              .catch((error) => {
+                console.warn(
+                  `Error fetching late fee for ${loan.loanAddress}:`,
+                  error
+                );
+                return undefined;
+              });
+
+            const schedule = resource.payment_schedule;
+            const summary = summarizeSchedule(schedule);
+            const nextInstallment = getNextDueInterval(schedule);
+            const debtRemaining =
+              summary.principal + summary.interest + summary.fees;
+
+            return {
+              loanAddress: loan.loanAddress,
+              status: debtRemaining > BigInt(0) ? "active" : "paid_off",
+              borrowerAddress: resource.borrower,
+              faMetadataAddress: resource.fa_metadata.inner,
+              startingPrincipal: BigInt(resource.starting_principal),
+              principalRemaining: summary.principal,
+              debtRemaining,
+              nextInstallment,
+              daysPastDue: getDaysPastDue(nextInstallment, nowUs),
+              lateFeeAccrued: lateFee,
+              startTimeUs: Number(resource.start_time_us),
+              maturityTimeUs:
+                schedule.length > 0
+                  ? Number(schedule[schedule.length - 1].time_due_us)
+                  : loan.maturityTimeUs,
+              lastPaymentUs: loan.lastPayment?.timestampUs,
+            };
+          })
+        );
+        loans.push(...results);
+      }
+
+      const activeLoans = loans.filter((loan) => loan.status === "active");
+      const totalPrincipalOutstanding = activeLoans.reduce(
+        (sum, loan) => sum + loan.principalRemaining,
+        BigInt(0)
+      );
+
+      // Number precision is plenty for an average
+      let tenorWeight = 0;
+      let tenorWeightedDays = 0;
+      activeLoans.forEach((loan) => {
+        if (loan.maturityTimeUs === undefined) return;
+        const weight = Number(loan.principalRemaining);
+        const remainingDays = Math.max(0, loan.maturityTimeUs - nowUs) / DAY_US;
+        tenorWeight += weight;
+        tenorWeightedDays += weight * remainingDays;
+      });
+
+      // Aggregates use the most common token; mixed books are flagged
+      const tokenCounts = new Map<string, number>();
+      loans.forEach((loan) => {
+        if (loan.faMetadataAddress) {
+          tokenCounts.set(
+            loan.faMetadataAddress,
+            (tokenCounts.get(loan.faMetadataAddress) ?? 0) + 1
+          );
+        }
+      });
+      const primaryToken = Array.from(tokenCounts.entries()).sort(
+        (a, b) => b[1] - a[1]
+      )[0]?.[0];
+      const metadata = primaryToken
+        ? await client
+            .getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: primaryToken,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+            .catch((error) => {
+              console.error("Error fetching loan token metadata:", error);
+              return undefined;
+            })
+        : undefined;
+
+      return {
+        loans,
+        totalPrincipalOutstanding,
+        totalDebtOutstanding: activeLoans.reduce(
+          (sum, loan) => sum + loan.debtRemaining,
+          BigInt(0)
+        ),
+        totalLateFees: activeLoans.reduce(
+          (sum, loan) => sum + (loan.lateFeeAccrued ?? BigInt(0)),
+          BigInt(0)
+        ),
+        activeLoanCount: activeLoans.length,
+        weightedAverageTenorDays:
+          tenorWeight > 0 ? tenorWeightedDays / tenorWeight : undefined,
+        delinquencyBuckets: bucketByDaysPastDue(
+          activeLoans,
+          (loan) => loan.daysPastDue,
+          (loan) => loan.principalRemaining
+        ),
+        // USDT loan books are the common case when metadata cannot be read
+        decimals: metadata?.decimals ?? 6,
+        symbol: metadata?.symbol ?? "USDT",
+        mixedTokens: tokenCounts.size > 1,
+      };
+    },
+    enabled: !!loanBookConfig,
+    refetchInterval: 60000,
+    staleTime: 30000,
+  });
+
+  return {
+    portfolio,
+    isLoading: isConfigLoading || isPortfolioLoading,
+    isFetching,
+    error: configError || portfolioError,
+  };
+};
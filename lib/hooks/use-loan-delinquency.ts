@@ -0,0 +1,175 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import { useLoanBookConfig } from "./use-loan-book-config";
+import { getLoanDetails, Interval } from "./use-loan-info";
+import {
+  discoverLoanBookLoans,
+  getDaysPastDue,
+  summarizeSchedule,
+} from "../utils/loan-portfolio";
+
+export interface DelinquencyLoan {
+  loanAddress: string;
+  borrowerAddress: string;
+  faMetadataAddress: string;
+  paymentSchedule: Interval[];
+  currentInstallment: Interval;
+  daysPastDue: number;
+  principalRemaining: bigint;
+  debtRemaining: bigint;
+  lateFeeAccrued?: bigint; // undefined when get_late_fee could not be read
+}
+
+export interface LoanBookDelinquency {
+  loans: DelinquencyLoan[];
+  asOfUs: number; // Time days past due were measured at
+  decimals: number;
+  symbol: string;
+}
+
+// Loans are read a few at a time to stay under fullnode rate limits
+const LOAN_READ_BATCH_SIZE = 10;
+
+/**
+ * Hook to read the current installment and accrued late fee of every
+ * outstanding loan in a loan book, for delinquency aging.
+ *
+ * Loans that are pending or fully repaid are left out.
+ */
+export const useLoanDelinquency = ({
+  loanBookAddress,
+}: {
+  loanBookAddress?: string;
+}) => {
+  const network = useEffectiveNetwork();
+  const {
+    loanBookConfig,
+    isLoading: isConfigLoading,
+    error: configError,
+  } = useLoanBookConfig({ loanBookAddress });
+
+  const {
+    data: delinquency,
+    isLoading: isDelinquencyLoading,
+    isFetching,
+    error: delinquencyError,
+  } = useQuery<LoanBookDelinquency, Error>({
+    queryKey: [
+      "loanDelinquency",
+      loanBookConfig?.loanBookAddress,
+      loanBookConfig?.moduleAddress,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<LoanBookDelinquency> => {
+      if (!loanBookConfig) {
+        throw new Error("Loan book config is required");
+      }
+      const { moduleAddress } = loanBookConfig;
+      const client = createAptosClient(network.name);
+      const asOfUs = Date.now() * 1000;
+
+      const discovered = (
+        await discoverLoanBookLoans(
+          client,
+          moduleAddress,
+          loanBookConfig.loanBookAddress
+        )
+      ).filter(
+        (loan) => loan.started && loan.lastPayment?.debtRemaining !== "0"
+      );
+
+      const loans: DelinquencyLoan[] = [];
+      for (let i = 0; i < discovered.length; i += LOAN_READ_BATCH_SIZE) {
+        const batch = discovered.slice(i, i + LOAN_READ_BATCH_SIZE);
+        const results = await Promise.all(
+          batch.map(async ({ loanAddress }) => {
+            const [resource, installmentResult, lateFeeResult] =
+              await Promise.all([
+                getLoanDetails(client, loanAddress, moduleAddress),
+                client
+                  .view({
+                    payload: {
+                      function: `${moduleAddress}::loan_book::get_current_payment_installment`,
+                      typeArguments: [],
+                      functionArguments: [loanAddress],
+                    },
+                  })
+                  .catch(() => undefined),
+                client
+                  .view({
+                    payload: {
+                      function: `${moduleAddress}::loan_book::get_late_fee`,
+                      typeArguments: [],
+                      functionArguments: [loanAddress],
+                    },
+                  })
+                  .catch((error) => {
+                    console.warn(
+                      `Error fetching late fee for ${loanAddress}:`,
+                      error
+                    );
+                    return undefined;
+                  }),
+              ]);
+
+            // No Loan resource means the loan was repaid and removed
+            if (!resource || !installmentResult) return undefined;
+
+            const summary = summarizeSchedule(resource.payment_schedule);
+            const debtRemaining =
+              summary.principal + summary.interest + summary.fees;
+            if (debtRemaining === BigInt(0)) return undefined;
+
+            const currentInstallment = installmentResult[0] as Interval;
+            return {
+              loanAddress,
+              borrowerAddress: resource.borrower,
+              faMetadataAddress: resource.fa_metadata.inner,
+              paymentSchedule: resource.payment_schedule,
+              currentInstallment,
+              daysPastDue: getDaysPastDue(currentInstallment, asOfUs),
+              principalRemaining: summary.principal,
+              debtRemaining,
+              lateFeeAccrued: lateFeeResult
+                ? BigInt(lateFeeResult[0] as string)
+                : undefined,
+            };
+          })
+        );
+        results.forEach((loan) => loan && loans.push(loan));
+      }
+
+      const faMetadata = loans[0]?.faMetadataAddress;
+      const metadata = faMetadata
+        ? await client
+            .getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: faMetadata,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+            .catch((error) => {
+              console.error("Error fetching loan token metadata:", error);
+              return undefined;
+            })
+        : undefined;
+
+      return {
+        loans,
+        asOfUs,
+        // USDT loan books are the common case when metadata cannot be read
+        decimals: metadata?.decimals ?? 6,
+        symbol: metadata?.symbol ?? "USDT",
+      };
+    },
+    enabled: !!loanBookConfig,
+    refetchInterval: 60000,
+    staleTime: 30000,
+  });
+
+  return {
+    delinquency,
+    isLoading: isConfigLoading || isDelinquencyLoading,
+    isFetching,
+    error: configError || delinquencyError,
+  };
+};
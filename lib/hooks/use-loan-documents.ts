@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import {
+  fetchLoanDocuments,
+  LoanDocumentScan,
+} from "../utils/loan-documents";
+import { useEffectiveNetwork } from "./use-effective-network";
+
+interface UseLoanDocumentsProps {
+  loanAddress?: string;
+  moduleAddress?: string; // Address of the hybrid_loan_book module
+}
+
+/**
+ * Hook to list the documents attached to a loan, newest first, along with
+ * whether every document transaction of the module was scanned
+ */
+export const useLoanDocuments = ({
+  loanAddress,
+  moduleAddress,
+}: UseLoanDocumentsProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<LoanDocumentScan, Error>({
+    queryKey: ["loanDocuments", loanAddress, moduleAddress, network.chainId],
+    queryFn: () =>
+      fetchLoanDocuments(
+        createAptosClient(network.name),
+        moduleAddress!,
+        loanAddress!
+      ),
+    enabled: !!loanAddress && !!moduleAddress,
+  });
+};
@@ -46,27 +46,27 @@ interface UseLoanInfoProps {
   moduleAddress?: string; // Address of the loan_book module
 }
 
-async function getLoanDetails(
+// Raw fields of the loan_book::Loan resource
+export interface LoanResourceData {
+  loan_book: {
+    inner: string;
+  };
+  fa_metadata: {
+    inner: string;
+  };
+  borrower: string;
+  starting_principal: string;
+  start_time_us: string;
+  payment_count: string;
+  payment_schedule: Interval[];
+  payment_order_bitmap: string;
+}
+
+export async function getLoanDetails(
   client: Aptos,
   loanAddress: string,
   moduleAddress: string
-): Promise<
-  | {
-      loan_book: {
-        inner: string;
-      };
-      fa_metadata: {
-        inner: string;
-      };
-      borrower: string;
-      starting_principal: string;
-      start_time_us: string;
-      payment_count: string;
-      payment_schedule: Interval[];
-      payment_order_bitmap: string;
-    }
-  | undefined
-> {
+): Promise<LoanResourceData | undefined> {
   try {
     const loanResource = await client.account.getAccountResource({
       accountAddress: loanAddress,
@@ -0,0 +1,141 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import { useLoanBookConfig } from "./use-loan-book-config";
+
+export interface OnChainLoanBookState {
+  loanBookAddress: string;
+  configAddress: string;
+  moduleAddress: string;
+  // undefined means the view call failed, so the value could not be checked
+  originatorAddress?: string;
+  autoPledgeAddress?: string | null; // null when auto-pledge is disabled
+  faMetadataAddress?: string | null; // Token of the auto-pledge facility
+  faSymbol?: string | null;
+  hasLateFeeRules?: boolean;
+}
+
+/**
+ * Hook to read the on-chain configuration of a hybrid loan book, for
+ * comparing against a staged config-manager entry.
+ *
+ * The config and module addresses come from useLoanBookConfig; the remaining
+ * fields are read from loan_book, hybrid_loan_book and facility_core views.
+ * Individual view failures are reported as undefined rather than failing the
+ * query, so callers can tell "not set on chain" apart from "could not read".
+ */
+export const useOnChainLoanBook = ({
+  loanBookAddress,
+}: {
+  loanBookAddress?: string;
+}) => {
+  const network = useEffectiveNetwork();
+  const {
+    loanBookConfig,
+    isLoading: isConfigLoading,
+    error: configError,
+  } = useLoanBookConfig({ loanBookAddress });
+
+  const {
+    data: onChainState,
+    isLoading: isStateLoading,
+    error: stateError,
+  } = useQuery<OnChainLoanBookState, Error>({
+    queryKey: [
+      "onChainLoanBook",
+      loanBookConfig?.loanBookAddress,
+      loanBookConfig?.configAddress,
+      loanBookConfig?.moduleAddress,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<OnChainLoanBookState> => {
+      if (!loanBookConfig) {
+        throw new Error("Loan book config is required");
+      }
+      const { configAddress, moduleAddress } = loanBookConfig;
+      const client = createAptosClient(network.name);
+
+      const [originatorResult, autoPledgeResult, lateFeeResult] =
+        await Promise.allSettled([
+          client.view({
+            payload: {
+              function: `${moduleAddress}::loan_book::get_originator`,
+              typeArguments: [],
+              functionArguments: [loanBookConfig.loanBookAddress],
+            },
+          }),
+          client.view({
+            payload: {
+              function: `${moduleAddress}::hybrid_loan_book::get_auto_pledge_address`,
+              typeArguments: [],
+              functionArguments: [configAddress],
+            },
+          }),
+          client.view({
+            payload: {
+              function: `${moduleAddress}::loan_book::has_late_fee_rules`,
+              typeArguments: [],
+              functionArguments: [loanBookConfig.loanBookAddress],
+            },
+          }),
+        ]);
+
+      const originatorAddress =
+        originatorResult.status === "fulfilled"
+          ? (originatorResult.value[0] as string)
+          : undefined;
+      // Option<address> comes back as { vec: [] } or { vec: [address] }
+      const autoPledgeAddress =
+        autoPledgeResult.status === "fulfilled"
+          ? ((autoPledgeResult.value[0] as { vec: string[] }).vec[0] ?? null)
+          : undefined;
+      const hasLateFeeRules =
+        lateFeeResult.status === "fulfilled"
+          ? (lateFeeResult.value[0] as boolean)
+          : undefined;
+
+      // Without an auto-pledge facility there is no token to read
+      let faMetadataAddress: string | null | undefined =
+        autoPledgeAddress === null ? null : undefined;
+      let faSymbol: string | null | undefined = faMetadataAddress;
+      if (autoPledgeAddress) {
+        try {
+          const [metadata] = await client.view({
+            payload: {
+              function: `${moduleAddress}::facility_core::get_fa_metadata`,
+              typeArguments: [],
+              functionArguments: [autoPledgeAddress],
+            },
+          });
+          faMetadataAddress = (metadata as { inner: string }).inner;
+          const resource = await client.getAccountResource<{ symbol: string }>({
+            accountAddress: faMetadataAddress,
+            resourceType: "0x1::fungible_asset::Metadata",
+          });
+          faSymbol = resource.symbol;
+        } catch (error) {
+          console.error("Error fetching auto-pledge FA metadata:", error);
+        }
+      }
+
+      return {
+        loanBookAddress: loanBookConfig.loanBookAddress,
+        configAddress,
+        moduleAddress,
+        originatorAddress,
+        autoPledgeAddress,
+        faMetadataAddress,
+        faSymbol,
+        hasLateFeeRules,
+      };
+    },
+    enabled: !!loanBookConfig,
+    staleTime: 15000,
+  });
+
+  return {
+    onChainState,
+    isLoading: isConfigLoading || isStateLoading,
+    error: configError ?? stateError,
+  };
+};
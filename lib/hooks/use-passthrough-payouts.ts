@@ -0,0 +1,250 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import { addressVariants } from "../utils/events";
+import {
+  claimRecordAddress,
+  ClaimRecordResource,
+  findHolderCount,
+  PassThroughTokenStateResource,
+} from "../utils/passthrough-payout";
+
+export interface PayoutPool {
+  index: number;
+  unsnapshotted: bigint; // Deposited since the last snapshot, not yet claimable
+  snapshotCount: number;
+}
+
+export interface PassthroughHolder {
+  address: string;
+  balance: bigint;
+  // get_payout plus extra_claimable per pool, what a claim would transfer;
+  // undefined when get_payout could not be read
+  payouts: (bigint | undefined)[];
+  hasClaimRecord: boolean;
+  optedOutAutoClaim: boolean;
+  hasPayoutStore: boolean; // Claims deposit into this primary store
+}
+
+export interface PassthroughPayouts {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  isUnlocked: boolean;
+  payoutFaAddress: string;
+  payoutSymbol: string;
+  payoutDecimals: number;
+  payoutBalance: bigint; // Payout token held by the token object
+  pools: PayoutPool[];
+  supportsUngatedSnapshot: boolean;
+  holderCount?: number; // From the TokenHolderCounter, if the token has one
+  holders: PassthroughHolder[];
+}
+
+interface UsePassthroughPayoutsProps {
+  tokenAddress?: string;
+  moduleAddress?: string;
+}
+
+// Holder reads go a few at a time to stay under fullnode rate limits
+const HOLDER_READ_BATCH_SIZE = 10;
+const HOLDER_PAGE_SIZE = 100;
+
+/**
+ * Hook to read a passthrough token's payout pools and every holder's pending
+ * payout and claim record.
+ *
+ * Holders are listed from the indexer's fungible asset balances; the holder
+ * count is read separately from the token's TokenHolderCounter so callers
+ * can tell when the indexer is behind.
+ */
+export const usePassthroughPayouts = ({
+  tokenAddress,
+  moduleAddress,
+}: UsePassthroughPayoutsProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<PassthroughPayouts, Error>({
+    queryKey: [
+      "passthroughPayouts",
+      tokenAddress,
+      moduleAddress,
+      network.chainId,
+    ],
+    queryFn: async (): Promise<PassthroughPayouts> => {
+      if (!tokenAddress) {
+        throw new Error("Token address is required");
+      }
+      if (!moduleAddress) {
+        throw new Error("Module address is required");
+      }
+
+      const client = createAptosClient(network.name);
+
+      const view = async (
+        functionName: string,
+        functionArguments: (string | number)[]
+      ) => {
+        const [value] = await client.view({
+          payload: {
+            function: `${moduleAddress}::passthrough_token::${functionName}`,
+            typeArguments: [],
+            functionArguments,
+          },
+        });
+        return value;
+      };
+
+      const [state, metadata, supportsUngatedSnapshot, hasCounter] =
+        await Promise.all([
+          client.getAccountResource<PassThroughTokenStateResource>({
+            accountAddress: tokenAddress,
+            resourceType: `${moduleAddress}::passthrough_token::PassThroughTokenState`,
+          }),
+          client
+            .getAccountResource<{
+              name: string;
+              symbol: string;
+              decimals: number;
+            }>({
+              accountAddress: tokenAddress,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+            .catch(() => undefined),
+          view("supports_ungated_snapshot", [tokenAddress]),
+          view("token_holder_counter_exists", [tokenAddress]),
+        ]);
+
+      const payoutFaAddress = state.payout_fa.inner;
+
+      const [payoutMetadata, payoutBalance, holderCount, balances] =
+        await Promise.all([
+          client
+            .getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: payoutFaAddress,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+            .catch((error) => {
+              console.error("Error fetching payout token metadata:", error);
+              return undefined;
+            }),
+          client
+            .view({
+              payload: {
+                function: "0x1::primary_fungible_store::balance",
+                typeArguments: ["0x1::fungible_asset::Metadata"],
+                functionArguments: [tokenAddress, payoutFaAddress],
+              },
+            })
+            .then(([balance]) => BigInt(balance as string)),
+          hasCounter
+            ? findHolderCount(
+                async (reference) =>
+                  (await view("current_holders_at_most", [
+                    tokenAddress,
+                    reference,
+                  ])) as boolean
+              )
+            : Promise.resolve(undefined),
+          (async () => {
+            const found: { owner_address: string; amount?: unknown }[] = [];
+            for (let offset = 0; ; offset += HOLDER_PAGE_SIZE) {
+              const page = await client.getCurrentFungibleAssetBalances({
+                options: {
+                  where: {
+                    asset_type: { _in: addressVariants(tokenAddress) },
+                    amount: { _gt: 0 },
+                  },
+                  limit: HOLDER_PAGE_SIZE,
+                  offset,
+                },
+              });
+              found.push(...page);
+              if (page.length < HOLDER_PAGE_SIZE) return found;
+            }
+          })(),
+        ]);
+
+      const holders: PassthroughHolder[] = [];
+      for (let i = 0; i < balances.length; i += HOLDER_READ_BATCH_SIZE) {
+        const batch = balances.slice(i, i + HOLDER_READ_BATCH_SIZE);
+        holders.push(
+          ...(await Promise.all(
+            batch.map(async ({ owner_address, amount }) => {
+              const [record, hasPayoutStore, payouts] = await Promise.all([
+                client
+                  .getAccountResource<ClaimRecordResource>({
+                    accountAddress: claimRecordAddress(
+                      tokenAddress,
+                      owner_address
+                    ),
+                    resourceType: `${moduleAddress}::passthrough_token::ClaimRecord`,
+                  })
+                  .catch(() => undefined),
+                client
+                  .view({
+                    payload: {
+                      function: "0x1::primary_fungible_store::primary_store_exists",
+                      typeArguments: ["0x1::fungible_asset::Metadata"],
+                      functionArguments: [owner_address, payoutFaAddress],
+                    },
+                  })
+                  .then(([exists]) => exists as boolean),
+                Promise.all(
+                  state.claimable_amount.map((_, index) =>
+                    view("get_payout", [tokenAddress, owner_address, index])
+                      .then((payout) => BigInt(payout as string))
+                      .catch(() => undefined)
+                  )
+                ),
+              ]);
+              return {
+                address: owner_address,
+                balance: BigInt(String(amount ?? 0)),
+                // Transfers move pending payouts into extra_claimable, which
+                // get_payout does not include
+                payouts: payouts.map((payout, index) =>
+                  payout === undefined
+                    ? undefined
+                    : payout + BigInt(record?.extra_claimable[index] ?? 0)
+                ),
+                hasClaimRecord: !!record,
+                optedOutAutoClaim: record?.opt_out_auto_claim ?? false,
+                hasPayoutStore,
+              };
+            })
+          ))
+        );
+      }
+
+      holders.sort((a, b) =>
+        a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1
+      );
+
+      return {
+        tokenAddress,
+        name: metadata?.name ?? "Passthrough token",
+        symbol: metadata?.symbol ?? "",
+        // Passthrough tokens are created with 8 decimals
+        decimals: metadata?.decimals ?? 8,
+        isUnlocked: state.is_unlocked,
+        payoutFaAddress,
+        // USDT facilities are the common case when metadata cannot be read
+        payoutSymbol: payoutMetadata?.symbol ?? "USDT",
+        payoutDecimals: payoutMetadata?.decimals ?? 6,
+        payoutBalance,
+        pools: state.claimable_amount.map((amount, index) => ({
+          index,
+          unsnapshotted: BigInt(amount),
+          snapshotCount: state.claimable_history[index]?.length ?? 0,
+        })),
+        supportsUngatedSnapshot: supportsUngatedSnapshot as boolean,
+        holderCount,
+        holders,
+      };
+    },
+    enabled: !!tokenAddress && !!moduleAddress,
+    staleTime: 15000,
+  });
+};
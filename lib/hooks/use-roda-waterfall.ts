@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import {
+  parseRodaWaterfall,
+  RodaWaterfallResource,
+  RodaWaterfallState,
+} from "../utils/roda-waterfall";
+
+export interface RodaWaterfallConfig {
+  state: RodaWaterfallState;
+  penaltyDenominator?: bigint; // Senior share accrual denominator, if readable
+  decimals: number;
+  symbol: string;
+}
+
+interface UseRodaWaterfallProps {
+  facilityAddress?: string;
+  moduleAddress?: string;
+}
+
+/**
+ * Hook to read the RodaWaterfall resource stored on a facility object, along
+ * with the facility token's decimals for display.
+ */
+export const useRodaWaterfall = ({
+  facilityAddress,
+  moduleAddress,
+}: UseRodaWaterfallProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<RodaWaterfallConfig, Error>({
+    queryKey: ["rodaWaterfall", facilityAddress, moduleAddress, network.chainId],
+    queryFn: async (): Promise<RodaWaterfallConfig> => {
+      if (!facilityAddress) {
+        throw new Error("Facility address is required");
+      }
+      if (!moduleAddress) {
+        throw new Error("Module address is required");
+      }
+
+      const client = createAptosClient(network.name);
+
+      const [resource, penaltyInterest, metadata] = await Promise.all([
+        client.getAccountResource<RodaWaterfallResource>({
+          accountAddress: facilityAddress,
+          resourceType: `${moduleAddress}::roda_waterfall::RodaWaterfall`,
+        }),
+        // Fails when the facility has no senior share class yet
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::roda_waterfall::get_default_penalty_interest`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .catch(() => undefined),
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::facility_core::get_fa_metadata`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .then(([faMetadata]) =>
+            client.getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: (faMetadata as { inner: string }).inner,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+          )
+          .catch((error) => {
+            console.error("Error fetching facility token metadata:", error);
+            return undefined;
+          }),
+      ]);
+
+      return {
+        state: parseRodaWaterfall(resource),
+        penaltyDenominator: penaltyInterest
+          ? BigInt(penaltyInterest[1] as string)
+          : undefined,
+        // USDT facilities are the common case when metadata cannot be read
+        decimals: metadata?.decimals ?? 6,
+        symbol: metadata?.symbol ?? "USDT",
+      };
+    },
+    enabled: !!facilityAddress && !!moduleAddress,
+    staleTime: 15000,
+  });
+};
@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { ScheduleValidationSettings } from "../utils/payment-schedule";
+import { useEffectiveNetwork } from "./use-effective-network";
+
+interface UseScheduleValidationSettingsProps {
+  loanBookAddress?: string;
+  moduleAddress?: string; // Address of the loan_book module
+}
+
+/**
+ * Hook to fetch which payment schedule continuity checks a loan book applies
+ * to schedule updates
+ */
+export const useScheduleValidationSettings = ({
+  loanBookAddress,
+  moduleAddress,
+}: UseScheduleValidationSettingsProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<ScheduleValidationSettings, Error>({
+    queryKey: [
+      "scheduleValidationSettings",
+      loanBookAddress,
+      moduleAddress,
+      network.chainId,
+    ],
+    queryFn: async () => {
+      const client = createAptosClient(network.name);
+      const [[principalContinuity], [dueDateContinuity]] = await Promise.all(
+        [
+          "should_validate_principal_continuity",
+          "should_validate_due_date_continuity",
+        ].map((view) =>
+          client.view<[boolean]>({
+            payload: {
+              function: `${moduleAddress}::loan_book::${view}` as const,
+              functionArguments: [loanBookAddress],
+            },
+          })
+        )
+      );
+      return { principalContinuity, dueDateContinuity };
+    },
+    enabled: !!loanBookAddress && !!moduleAddress,
+  });
+};
@@ -0,0 +1,189 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+
+export interface ShareClassSummary {
+  index: number; // Position in the SharesManager, as the share views expect
+  address: string;
+  name: string;
+  symbol: string;
+  currentContributed: bigint;
+  totalContributed: bigint;
+  totalDistributedInterest: bigint;
+  interestOwed?: bigint; // undefined when the share does not accrue interest
+  interestType?: string; // InterestTracker variant, e.g. MinimumInterestRate
+  interestDeficit: bigint;
+  lastInterestPaidAt?: number; // Microseconds
+  capitalCallWeight: bigint;
+  capitalCallPriority: number;
+  principalRepayPriority: number;
+  capitalCallTotal: bigint;
+  capitalCallRemaining: bigint;
+}
+
+export interface CapTable {
+  shares: ShareClassSummary[];
+  totalCapitalCallWeight: bigint;
+  decimals: number;
+  symbol: string;
+}
+
+interface InterestTrackerResource {
+  last_interest_paid_timestamp: string;
+  interest: { __variant__: string };
+  deficit: { __variant__: "SimpleDeficit"; deficit: string };
+}
+
+interface UseShareClassesProps {
+  facilityAddress?: string;
+  moduleAddress?: string;
+}
+
+/**
+ * Hook to read every share class (tranche) registered with a facility's
+ * SharesManager through the per-share views, along with the facility
+ * token's decimals for display.
+ */
+export const useShareClasses = ({
+  facilityAddress,
+  moduleAddress,
+}: UseShareClassesProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<CapTable, Error>({
+    queryKey: ["shareClasses", facilityAddress, moduleAddress, network.chainId],
+    queryFn: async (): Promise<CapTable> => {
+      if (!facilityAddress) {
+        throw new Error("Facility address is required");
+      }
+      if (!moduleAddress) {
+        throw new Error("Module address is required");
+      }
+
+      const client = createAptosClient(network.name);
+
+      const view = async (
+        moduleName: string,
+        functionName: string,
+        functionArguments: (string | number)[]
+      ) => {
+        const [value] = await client.view({
+          payload: {
+            function: `${moduleAddress}::${moduleName}::${functionName}`,
+            typeArguments: [],
+            functionArguments,
+          },
+        });
+        return value;
+      };
+
+      const [count, metadata] = await Promise.all([
+        view("shares_manager", "get_share_class_count", [facilityAddress]),
+        view("facility_core", "get_fa_metadata", [facilityAddress])
+          .then((faMetadata) =>
+            client.getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: (faMetadata as { inner: string }).inner,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+          )
+          .catch((error) => {
+            console.error("Error fetching facility token metadata:", error);
+            return undefined;
+          }),
+      ]);
+
+      const shares = await Promise.all(
+        Array.from({ length: Number(count) }, async (_, index) => {
+          const args = [facilityAddress, index];
+          const address = (
+            (await view("shares_manager", "get_share_class_by_index", args)) as {
+              inner: string;
+            }
+          ).inner;
+
+          const [
+            currentContributed,
+            totalContributed,
+            totalDistributedInterest,
+            interestOwed,
+            capitalCallWeight,
+            capitalCallPriority,
+            principalRepayPriority,
+            capitalCallTotal,
+            capitalCallRemaining,
+            shareMetadata,
+            interestTracker,
+          ] = await Promise.all([
+            view("shares_manager", "get_share_current_contributed", args),
+            view("shares_manager", "get_share_total_contributed", args),
+            view("shares_manager", "get_share_total_distributed_interest", args),
+            // Aborts for shares without an InterestTracker
+            view("shares_manager", "get_interest_owed_for_share", args).catch(
+              () => undefined
+            ),
+            view("shares_manager", "get_share_capital_call_weight", args),
+            view("shares_manager", "get_share_capital_call_priority", args),
+            view("shares_manager", "get_share_principal_repay_priority", args),
+            view("shares_manager", "get_share_capital_call_total_amount", args),
+            view(
+              "shares_manager",
+              "get_share_capital_call_amount_remaining",
+              args
+            ),
+            // Shares are passthrough tokens, so the share object is also the
+            // fungible asset carrying the tranche name
+            client
+              .getAccountResource<{ name: string; symbol: string }>({
+                accountAddress: address,
+                resourceType: "0x1::fungible_asset::Metadata",
+              })
+              .catch(() => undefined),
+            client
+              .getAccountResource<InterestTrackerResource>({
+                accountAddress: address,
+                resourceType: `${moduleAddress}::share_class::InterestTracker`,
+              })
+              .catch(() => undefined),
+          ]);
+
+          return {
+            index,
+            address,
+            name: shareMetadata?.name ?? `Share class ${index}`,
+            symbol: shareMetadata?.symbol ?? "",
+            currentContributed: BigInt(currentContributed as string),
+            totalContributed: BigInt(totalContributed as string),
+            totalDistributedInterest: BigInt(totalDistributedInterest as string),
+            interestOwed:
+              interestOwed !== undefined
+                ? BigInt(interestOwed as string)
+                : undefined,
+            interestType: interestTracker?.interest.__variant__,
+            interestDeficit: BigInt(interestTracker?.deficit.deficit ?? 0),
+            lastInterestPaidAt: interestTracker
+              ? Number(interestTracker.last_interest_paid_timestamp)
+              : undefined,
+            capitalCallWeight: BigInt(capitalCallWeight as string),
+            capitalCallPriority: Number(capitalCallPriority),
+            principalRepayPriority: Number(principalRepayPriority),
+            capitalCallTotal: BigInt(capitalCallTotal as string),
+            capitalCallRemaining: BigInt(capitalCallRemaining as string),
+          };
+        })
+      );
+
+      return {
+        shares,
+        totalCapitalCallWeight: shares.reduce(
+          (sum, share) => sum + share.capitalCallWeight,
+          BigInt(0)
+        ),
+        // USDT facilities are the common case when metadata cannot be read
+        decimals: metadata?.decimals ?? 6,
+        symbol: metadata?.symbol ?? "USDT",
+      };
+    },
+    enabled: !!facilityAddress && !!moduleAddress,
+    staleTime: 15000,
+  });
+};
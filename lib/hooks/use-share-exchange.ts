@@ -0,0 +1,275 @@
+import { useQuery } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+import {
+  addressVariants,
+  eventTypes,
+  fetchModuleEvents,
+} from "../utils/events";
+import {
+  ActiveExchangeResource,
+  ActiveExchangeState,
+  parseActiveExchange,
+  ShareExchangeBaseResource,
+} from "../utils/share-exchange";
+
+export interface ExchangeShareClass {
+  index: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  nav: bigint; // Attested NAV, 0 until attest_nav is called
+}
+
+export interface EscrowCommitment {
+  address: string;
+  shareIndex: number;
+  purchaser: string;
+  amountCommitted: bigint;
+  amountExpected: bigint; // Shares minted on execution
+  escrowBalance?: bigint;
+  isPending: boolean; // EscrowedCommitment resource still exists
+  transactionVersion: number;
+  timestamp?: Date;
+}
+
+export interface ShareExchange {
+  exists: boolean;
+  isActive: boolean;
+  allowedAttestors?: string;
+  shares: ExchangeShareClass[];
+  activeExchange?: ActiveExchangeState;
+  commitments: EscrowCommitment[];
+  decimals: number;
+  symbol: string;
+}
+
+interface EscrowCommitmentMadeData {
+  share_index: number;
+  amount_committed: string;
+  amount_expected: string;
+  purchaser: string;
+  escrow_address: string;
+}
+
+interface UseShareExchangeProps {
+  facilityAddress?: string;
+  moduleAddress?: string;
+}
+
+/**
+ * Hook to read the share exchange a facility was extended with: attested NAVs
+ * per share class, the active fundraise if any, and escrowed commitments
+ * found through EscrowCommitmentMade events.
+ */
+export const useShareExchange = ({
+  facilityAddress,
+  moduleAddress,
+}: UseShareExchangeProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<ShareExchange, Error>({
+    queryKey: ["shareExchange", facilityAddress, moduleAddress, network.chainId],
+    queryFn: async (): Promise<ShareExchange> => {
+      if (!facilityAddress) {
+        throw new Error("Facility address is required");
+      }
+      if (!moduleAddress) {
+        throw new Error("Module address is required");
+      }
+
+      const client = createAptosClient(network.name);
+
+      const [base, metadata] = await Promise.all([
+        client
+          .getAccountResource<ShareExchangeBaseResource>({
+            accountAddress: facilityAddress,
+            resourceType: `${moduleAddress}::share_exchange::ShareExchangeBase`,
+          })
+          .catch(() => undefined),
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::facility_core::get_fa_metadata`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .then(([faMetadata]) =>
+            client.getAccountResource<{ symbol: string; decimals: number }>({
+              accountAddress: (faMetadata as { inner: string }).inner,
+              resourceType: "0x1::fungible_asset::Metadata",
+            })
+          )
+          .catch((error) => {
+            console.error("Error fetching facility token metadata:", error);
+            return undefined;
+          }),
+      ]);
+
+      // USDT facilities are the common case when metadata cannot be read
+      const decimals = metadata?.decimals ?? 6;
+      const symbol = metadata?.symbol ?? "USDT";
+
+      if (!base) {
+        return {
+          exists: false,
+          isActive: false,
+          shares: [],
+          commitments: [],
+          decimals,
+          symbol,
+        };
+      }
+
+      const [isActive, activeExchange, shares, events] = await Promise.all([
+        client
+          .view({
+            payload: {
+              function: `${moduleAddress}::share_exchange::is_exchange_active`,
+              typeArguments: [],
+              functionArguments: [facilityAddress],
+            },
+          })
+          .then(([active]) => active as boolean),
+        client
+          .getAccountResource<ActiveExchangeResource>({
+            accountAddress: facilityAddress,
+            resourceType: `${moduleAddress}::share_exchange::ActiveExchange`,
+          })
+          .then(parseActiveExchange)
+          .catch(() => undefined),
+        Promise.all(
+          base.mint_refs.map(async ({ inner: address }, index) => {
+            const shareMetadata = await client
+              .getAccountResource<{
+                name: string;
+                symbol: string;
+                decimals: number;
+              }>({
+                accountAddress: address,
+                resourceType: "0x1::fungible_asset::Metadata",
+              })
+              .catch(() => undefined);
+            return {
+              index,
+              address,
+              name: shareMetadata?.name ?? `Share class ${index}`,
+              symbol: shareMetadata?.symbol ?? "",
+              // Passthrough tokens are created with 8 decimals
+              decimals: shareMetadata?.decimals ?? 8,
+              nav: BigInt(base.exchange_type.nav_per_class[index] ?? 0),
+            };
+          })
+        ),
+        fetchModuleEvents<EscrowCommitmentMadeData>(client, {
+          types: eventTypes(moduleAddress, "share_exchange", [
+            "EscrowCommitmentMade",
+          ]),
+          dataFilters: addressVariants(facilityAddress).map((address) => ({
+            facility_address: address,
+          })),
+        }),
+      ]);
+
+      // Approving or executing a commitment removes its resource, so only
+      // commitments whose resource is still there are pending
+      const commitments = await Promise.all(
+        events.map(async (event) => {
+          const address = event.data.escrow_address;
+          const [commitment, store] = await Promise.all([
+            client
+              .getAccountResource({
+                accountAddress: address,
+                resourceType: `${moduleAddress}::share_exchange::EscrowedCommitment`,
+              })
+              .catch(() => undefined),
+            client
+              .getAccountResource<{ balance: string }>({
+                accountAddress: address,
+                resourceType: "0x1::fungible_asset::FungibleStore",
+              })
+              .catch(() => undefined),
+          ]);
+          return {
+            address,
+            shareIndex: Number(event.data.share_index),
+            purchaser: event.data.purchaser,
+            amountCommitted: BigInt(event.data.amount_committed),
+            amountExpected: BigInt(event.data.amount_expected),
+            escrowBalance: store ? BigInt(store.balance) : undefined,
+            isPending: !!commitment,
+            transactionVersion: event.transactionVersion,
+            timestamp: event.timestamp,
+          };
+        })
+      );
+
+      return {
+        exists: true,
+        isActive,
+        allowedAttestors: base.exchange_type.allowed_attestors.inner,
+        shares,
+        activeExchange,
+        commitments,
+        decimals,
+        symbol,
+      };
+    },
+    enabled: !!facilityAddress && !!moduleAddress,
+    staleTime: 15000,
+  });
+};
+
+interface UseExpectedSharesProps {
+  facilityAddress?: string;
+  moduleAddress?: string;
+  shareIndex?: number;
+  purchaseAmount?: bigint;
+}
+
+/**
+ * Hook to call share_exchange::expected_shares_for_purchase for a purchase
+ * amount in the facility token's base units.
+ */
+export const useExpectedShares = ({
+  facilityAddress,
+  moduleAddress,
+  shareIndex,
+  purchaseAmount,
+}: UseExpectedSharesProps) => {
+  const network = useEffectiveNetwork();
+
+  return useQuery<bigint, Error>({
+    queryKey: [
+      "expectedShares",
+      facilityAddress,
+      moduleAddress,
+      shareIndex,
+      purchaseAmount?.toString(),
+      network.chainId,
+    ],
+    queryFn: async (): Promise<bigint> => {
+      const [shares] = await createAptosClient(network.name).view({
+        payload: {
+          function: `${moduleAddress}::share_exchange::expected_shares_for_purchase`,
+          typeArguments: [],
+          functionArguments: [
+            facilityAddress!,
+            shareIndex!,
+            purchaseAmount!.toString(),
+          ],
+        },
+      });
+      return BigInt(shares as string);
+    },
+    enabled:
+      !!facilityAddress &&
+      !!moduleAddress &&
+      shareIndex !== undefined &&
+      !!purchaseAmount &&
+      purchaseAmount > BigInt(0),
+    staleTime: 15000,
+  });
+};
@@ -0,0 +1,90 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addTransactionRecord,
+  listTransactionRecords,
+  NewTransactionRecord,
+  TransactionRecord,
+  updateTransactionRecord,
+} from "../transaction-history";
+import { createAptosClient } from "../aptos-service";
+import { useEffectiveNetwork } from "./use-effective-network";
+
+const TRANSACTION_HISTORY_KEY = ["transactionHistory"];
+
+/**
+ * Hook to read the locally stored transaction history, newest first
+ */
+export const useTransactionHistory = () => {
+  return useQuery<TransactionRecord[], Error>({
+    queryKey: TRANSACTION_HISTORY_KEY,
+    queryFn: listTransactionRecords,
+  });
+};
+
+/**
+ * Hook returning callbacks that write to the transaction history.
+ *
+ * Recording is best-effort: storage failures are logged and swallowed so they
+ * never interrupt the transaction flow being recorded.
+ */
+export const useTransactionRecorder = () => {
+  const queryClient = useQueryClient();
+  const network = useEffectiveNetwork();
+
+  const recordTransaction = useCallback(
+    async (record: NewTransactionRecord): Promise<string | undefined> => {
+      try {
+        const id = await addTransactionRecord(record);
+        queryClient.invalidateQueries({ queryKey: TRANSACTION_HISTORY_KEY });
+        return id;
+      } catch (error) {
+        console.error("Error recording transaction:", error);
+        return undefined;
+      }
+    },
+    [queryClient]
+  );
+
+  const updateTransaction = useCallback(
+    async (
+      id: string | undefined,
+      update: Parameters<typeof updateTransactionRecord>[1]
+    ) => {
+      if (!id) return;
+      try {
+        await updateTransactionRecord(id, update);
+        queryClient.invalidateQueries({ queryKey: TRANSACTION_HISTORY_KEY });
+      } catch (error) {
+        console.error("Error updating transaction record:", error);
+      }
+    },
+    [queryClient]
+  );
+
+  // Waits for a submitted transaction and records its outcome. A transaction
+  // that cannot be confirmed is left as submitted.
+  const confirmTransaction = useCallback(
+    async (id: string | undefined, txHash: string) => {
+      if (!id) return;
+      try {
+        const txn = await createAptosClient(network.name).waitForTransaction({
+          transactionHash: txHash,
+          options: { checkSuccess: false },
+        });
+        const success = !("success" in txn) || txn.success;
+        const vmStatus = "vm_status" in txn ? txn.vm_status : undefined;
+        await updateTransaction(id, {
+          status: success ? "success" : "failed",
+          vmStatus,
+          error: success ? undefined : vmStatus,
+        });
+      } catch (error) {
+        console.error("Error confirming transaction:", error);
+      }
+    },
+    [network.name, updateTransaction]
+  );
+
+  return { recordTransaction, updateTransaction, confirmTransaction };
+};
@@ -0,0 +1,171 @@
+import { useSearchParams } from "next/navigation";
+import { useQueries } from "@tanstack/react-query";
+import { createAptosClient } from "../aptos-service";
+import { useNavigation } from "../navigation-context";
+import { Role, RoleStatus } from "../permissions";
+import { useWallet } from "../use-wallet";
+import { useEffectiveNetwork } from "./use-effective-network";
+import { useLoanBookConfig } from "./use-loan-book-config";
+
+interface UseUserRolesProps {
+  tokenAddress?: string; // Passthrough or ZVT token to check tokenAdmin on
+  loanBookAddress?: string; // Loan book to check instead of the current one
+}
+
+export interface UserRoles {
+  roles: RoleStatus; // undefined while loading or when a role cannot be checked
+  isLoading: boolean;
+  isConnected: boolean;
+}
+
+/**
+ * Hook to check every on-chain role of the connected wallet against the
+ * current facility, loan book and, optionally, a token. Like the pages, the
+ * facility, module and loan book in the URL win over the navigation context,
+ * and an explicit loan book wins over both. Roles that do not apply (no loan
+ * book selected, no token given) stay undefined.
+ */
+export const useUserRoles = ({
+  tokenAddress,
+  loanBookAddress: loanBookOverride,
+}: UseUserRolesProps = {}): UserRoles => {
+  const { account } = useWallet();
+  const navigation = useNavigation();
+  const searchParams = useSearchParams();
+  const facilityAddress =
+    searchParams?.get("facility") || navigation.facilityAddress;
+  const moduleAddress = searchParams?.get("module") || navigation.moduleAddress;
+  const loanBookAddress =
+    loanBookOverride ||
+    searchParams?.get("loan_book") ||
+    navigation.loanBookAddress;
+  const network = useEffectiveNetwork();
+  const { loanBookConfig } = useLoanBookConfig({
+    loanBookAddress: loanBookAddress || undefined,
+  });
+  const accountAddress = account?.address.toString();
+
+  const view = async (
+    functionName: `${string}::${string}::${string}`,
+    functionArguments: string[]
+  ) => {
+    const [value] = await createAptosClient(network.name).view<[unknown]>({
+      payload: { function: functionName, functionArguments },
+    });
+    return value;
+  };
+
+  const facilityReady =
+    !!accountAddress && !!facilityAddress && !!moduleAddress;
+  const loanBookModule = loanBookConfig?.moduleAddress;
+  const configAddress = loanBookConfig?.configAddress;
+  const loanBookReady =
+    !!accountAddress && !!loanBookAddress && !!loanBookModule;
+  const checks: {
+    role: Role;
+    key: unknown[];
+    enabled: boolean;
+    check: () => Promise<boolean>;
+  }[] = [
+    {
+      role: "facilityAdmin",
+      key: [facilityAddress, moduleAddress],
+      enabled: facilityReady,
+      check: async () =>
+        (await view(`${moduleAddress}::facility_core::is_admin`, [
+          facilityAddress,
+          accountAddress!,
+        ])) as boolean,
+    },
+    {
+      role: "originatorAdmin",
+      key: [facilityAddress, moduleAddress],
+      enabled: facilityReady,
+      check: async () =>
+        (await view(`${moduleAddress}::facility_core::is_originator_admin`, [
+          facilityAddress,
+          accountAddress!,
+        ])) as boolean,
+    },
+    {
+      role: "originatorReceivable",
+      key: [facilityAddress, moduleAddress],
+      enabled: facilityReady,
+      check: async () => {
+        const receivable = (await view(
+          `${moduleAddress}::facility_core::get_originator_receivable_account`,
+          [facilityAddress]
+        )) as string;
+        return receivable.toLowerCase() === accountAddress!.toLowerCase();
+      },
+    },
+    {
+      role: "loanBookAdmin",
+      key: [loanBookAddress, loanBookModule],
+      enabled: loanBookReady,
+      check: async () =>
+        (await view(`${loanBookModule}::loan_book::is_admin`, [
+          loanBookAddress,
+          accountAddress!,
+        ])) as boolean,
+    },
+    {
+      role: "loanBookOriginator",
+      key: [loanBookAddress, loanBookModule],
+      enabled: loanBookReady,
+      check: async () =>
+        (await view(`${loanBookModule}::loan_book::can_offer_loan`, [
+          loanBookAddress,
+          accountAddress!,
+        ])) as boolean,
+    },
+    {
+      role: "loanBookConfigAdmin",
+      key: [configAddress, loanBookModule],
+      enabled: loanBookReady && !!configAddress,
+      check: async () =>
+        (await view(`${loanBookModule}::hybrid_loan_book::is_admin`, [
+          configAddress!,
+          accountAddress!,
+        ])) as boolean,
+    },
+    {
+      role: "tokenAdmin",
+      key: [tokenAddress, moduleAddress],
+      enabled: !!accountAddress && !!tokenAddress && !!moduleAddress,
+      // A token is either a passthrough token or a ZVT, so whichever view
+      // aborts is for the other kind
+      check: async () => {
+        const results = await Promise.all(
+          ["passthrough_token", "zero_value_token"].map((module) =>
+            view(`${moduleAddress}::${module}::is_admin`, [
+              tokenAddress!,
+              accountAddress!,
+            ]).catch(() => undefined)
+          )
+        );
+        if (results.every((result) => result === undefined)) {
+          throw new Error("Token is neither a passthrough token nor a ZVT");
+        }
+        return results.some((result) => result === true);
+      },
+    },
+  ];
+
+  return useQueries({
+    queries: checks.map(({ role, key, enabled, check }) => ({
+      queryKey: ["userRole", role, ...key, accountAddress, network.chainId],
+      queryFn: check,
+      enabled,
+      staleTime: 5 * 60 * 1000,
+      retry: false,
+    })),
+    combine: (results): UserRoles => ({
+      roles: Object.fromEntries(
+        results.map((result, i) => [checks[i].role, result.data])
+      ),
+      isLoading: results.some((result) => result.isLoading),
+      isConnected: !!accountAddress,
+    }),
+  });
+};
@@ -8,6 +8,13 @@ import {
   ReactNode,
   useCallback,
 } from "react";
+import type { AddressBook } from "./address-book";
+import {
+  loadWorkspaces,
+  saveWorkspaces,
+  Workspace,
+  WorkspaceFields,
+} from "./workspaces";
 
 export type NetworkType = "mainnet" | "testnet";
 
@@ -24,6 +31,14 @@ interface NavigationContextType {
   setSidebarCollapsed: (collapsed: boolean) => void;
   toggleSidebar: () => void;
   buildNavUrl: (href: string) => string;
+  // The addresses above belong to the active workspace
+  workspaces: Workspace[];
+  activeWorkspace: Workspace;
+  addressBook: AddressBook;
+  switchWorkspace: (id: string) => void;
+  addWorkspaces: (workspaces: Workspace[], activate?: boolean) => void;
+  updateWorkspace: (id: string, fields: Partial<Workspace>) => void;
+  deleteWorkspace: (id: string) => void;
 }
 
 const NavigationContext = createContext<NavigationContextType | undefined>(
@@ -31,10 +46,6 @@ const NavigationContext = createContext<NavigationContextType | undefined>(
 );
 
 const STORAGE_KEYS = {
-  FACILITY_ADDRESS: "facility-control-center:facility-address",
-  MODULE_ADDRESS: "facility-control-center:module-address",
-  LOAN_BOOK_ADDRESS: "facility-control-center:loan-book-address",
-  NETWORK: "facility-control-center:network",
   SIDEBAR_COLLAPSED: "facility-control-center:sidebar-collapsed",
 };
 
@@ -45,61 +56,111 @@ const FACILITY_ROUTES = [
   "/funding-requests",
   "/token-exchange",
   "/facility-upsize",
+  "/facility/timeline",
+  "/facility/cap-table",
+  "/roda-config",
+  "/borrowing-base",
+  "/share-exchange",
+  "/payouts",
 ];
 
 // Routes that need loan_book param
-const LOAN_BOOK_ROUTES = ["/offer-loan"];
+const LOAN_BOOK_ROUTES = ["/offer-loan", "/loan-book"];
 
 // Routes that only need module param
 const MODULE_ONLY_ROUTES = ["/repay-loan"];
 
 export function NavigationProvider({ children }: { children: ReactNode }) {
-  const [facilityAddress, setFacilityAddressState] = useState("");
-  const [moduleAddress, setModuleAddressState] = useState("");
-  const [loanBookAddress, setLoanBookAddressState] = useState("");
-  const [network, setNetworkState] = useState<NetworkType>("mainnet");
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState("");
   const [sidebarCollapsed, setSidebarCollapsedState] = useState(false);
   const [isHydrated, setIsHydrated] = useState(false);
 
   // Hydrate from localStorage on mount
   useEffect(() => {
-    const storedFacility = localStorage.getItem(STORAGE_KEYS.FACILITY_ADDRESS);
-    const storedModule = localStorage.getItem(STORAGE_KEYS.MODULE_ADDRESS);
-    const storedLoanBook = localStorage.getItem(STORAGE_KEYS.LOAN_BOOK_ADDRESS);
-    const storedNetwork = localStorage.getItem(STORAGE_KEYS.NETWORK);
+    const stored = loadWorkspaces();
     const storedCollapsed = localStorage.getItem(STORAGE_KEYS.SIDEBAR_COLLAPSED);
 
-    if (storedFacility) setFacilityAddressState(storedFacility);
-    if (storedModule) setModuleAddressState(storedModule);
-    if (storedLoanBook) setLoanBookAddressState(storedLoanBook);
-    if (storedNetwork === "testnet" || storedNetwork === "mainnet") {
-      setNetworkState(storedNetwork);
-    }
+    setWorkspaces(stored.workspaces);
+    setActiveWorkspaceId(stored.activeWorkspaceId);
     if (storedCollapsed) setSidebarCollapsedState(storedCollapsed === "true");
 
     setIsHydrated(true);
   }, []);
 
-  const setFacilityAddress = useCallback((address: string) => {
-    setFacilityAddressState(address);
-    localStorage.setItem(STORAGE_KEYS.FACILITY_ADDRESS, address);
-  }, []);
+  useEffect(() => {
+    if (isHydrated) saveWorkspaces(workspaces, activeWorkspaceId);
+  }, [isHydrated, workspaces, activeWorkspaceId]);
+
+  const activeWorkspace =
+    workspaces.find(({ id }) => id === activeWorkspaceId) ?? workspaces[0];
+  const facilityAddress = activeWorkspace?.facilityAddress ?? "";
+  const moduleAddress = activeWorkspace?.moduleAddress ?? "";
+  const loanBookAddress = activeWorkspace?.loanBookAddress ?? "";
+  const network = activeWorkspace?.network ?? "mainnet";
+
+  const updateWorkspace = useCallback(
+    (id: string, fields: Partial<Workspace>) => {
+      setWorkspaces((previous) =>
+        previous.map((workspace) =>
+          workspace.id === id ? { ...workspace, ...fields, id } : workspace
+        )
+      );
+    },
+    []
+  );
 
-  const setModuleAddress = useCallback((address: string) => {
-    setModuleAddressState(address);
-    localStorage.setItem(STORAGE_KEYS.MODULE_ADDRESS, address);
-  }, []);
+  const updateActiveWorkspace = useCallback(
+    (fields: Partial<WorkspaceFields>) => {
+      updateWorkspace(activeWorkspaceId, fields);
+    },
+    [activeWorkspaceId, updateWorkspace]
+  );
 
-  const setLoanBookAddress = useCallback((address: string) => {
-    setLoanBookAddressState(address);
-    localStorage.setItem(STORAGE_KEYS.LOAN_BOOK_ADDRESS, address);
-  }, []);
+  const setFacilityAddress = useCallback(
+    (address: string) => updateActiveWorkspace({ facilityAddress: address }),
+    [updateActiveWorkspace]
+  );
 
-  const setNetwork = useCallback((newNetwork: NetworkType) => {
-    setNetworkState(newNetwork);
-    localStorage.setItem(STORAGE_KEYS.NETWORK, newNetwork);
+  const setModuleAddress = useCallback(
+    (address: string) => updateActiveWorkspace({ moduleAddress: address }),
+    [updateActiveWorkspace]
+  );
+
+  const setLoanBookAddress = useCallback(
+    (address: string) => updateActiveWorkspace({ loanBookAddress: address }),
+    [updateActiveWorkspace]
+  );
+
+  const setNetwork = useCallback(
+    (newNetwork: NetworkType) => updateActiveWorkspace({ network: newNetwork }),
+    [updateActiveWorkspace]
+  );
+
+  const switchWorkspace = useCallback((id: string) => {
+    setActiveWorkspaceId(id);
   }, []);
 
+  const addWorkspaces = useCallback(
+    (added: Workspace[], activate = false) => {
+      setWorkspaces((previous) => [...previous, ...added]);
+      if (activate && added.length > 0) setActiveWorkspaceId(added[0].id);
+    },
+    []
+  );
+
+  // The last workspace cannot be deleted; deleting the active one activates
+  // the first remaining workspace
+  const deleteWorkspace = useCallback(
+    (id: string) => {
+      const remaining = workspaces.filter((workspace) => workspace.id !== id);
+      if (remaining.length === 0) return;
+      setWorkspaces(remaining);
+      if (id === activeWorkspaceId) setActiveWorkspaceId(remaining[0].id);
+    },
+    [workspaces, activeWorkspaceId]
+  );
+
   const setSidebarCollapsed = useCallback((collapsed: boolean) => {
     setSidebarCollapsedState(collapsed);
     localStorage.setItem(STORAGE_KEYS.SIDEBAR_COLLAPSED, String(collapsed));
@@ -147,7 +208,7 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
   );
 
   // Prevent hydration mismatch by not rendering until hydrated
-  if (!isHydrated) {
+  if (!isHydrated || !activeWorkspace) {
     return null;
   }
 
@@ -166,6 +227,13 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
         setSidebarCollapsed,
         toggleSidebar,
         buildNavUrl,
+        workspaces,
+        activeWorkspace,
+        addressBook: activeWorkspace.addressBook,
+        switchWorkspace,
+        addWorkspaces,
+        updateWorkspace,
+        deleteWorkspace,
       }}
     >
       {children}
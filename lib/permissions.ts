@@ -0,0 +1,158 @@
+import { contractFunctions } from "./contract-functions";
+
+/**
+ * On-chain roles a connected wallet can hold, each backed by a view:
+ * - facilityAdmin: facility_core::is_admin
+ * - originatorAdmin: facility_core::is_originator_admin
+ * - originatorReceivable: facility_core::get_originator_receivable_account
+ * - loanBookAdmin: loan_book::is_admin
+ * - loanBookOriginator: loan_book::can_offer_loan
+ * - loanBookConfigAdmin: hybrid_loan_book::is_admin, the loan book config's
+ *   owner or a loan book admin
+ * - tokenAdmin: passthrough_token::is_admin or zero_value_token::is_admin
+ */
+export type Role =
+  | "facilityAdmin"
+  | "originatorAdmin"
+  | "originatorReceivable"
+  | "loanBookAdmin"
+  | "loanBookOriginator"
+  | "loanBookConfigAdmin"
+  | "tokenAdmin";
+
+export type RoleStatus = Partial<Record<Role, boolean>>;
+
+export const ROLE_LABELS: Record<Role, string> = {
+  facilityAdmin: "Facility admin",
+  originatorAdmin: "Originator admin",
+  originatorReceivable: "Originator receivable account",
+  loanBookAdmin: "Loan book admin",
+  loanBookOriginator: "Loan book originator",
+  loanBookConfigAdmin: "Loan book config admin",
+  tokenAdmin: "Token admin",
+};
+
+// Roles for each ContractFunction.actor. Functions of an actor that do not
+// assert its role, such as the whitelist functions under admin, are listed in
+// FUNCTION_PERMISSIONS instead; test harness functions are open.
+const ACTOR_ROLES: Record<string, Role[]> = {
+  admin: ["facilityAdmin"],
+  "fund-manager": ["facilityAdmin"],
+  originator: ["originatorAdmin"],
+  tester: [],
+};
+
+interface FunctionPermission {
+  roles: Role[]; // Any one of these is enough
+  tokenArg?: number; // Argument holding the token that tokenAdmin applies to
+}
+
+// Entry functions whose contracts assert a role, keyed by module::function.
+// These take precedence over the actor of a ContractFunction. An empty roles
+// list marks functions that are permissionless, checked against a whitelist
+// there is no role view for, or where the role belongs to a co-signer (such
+// as repay_loan_historical's admin), since only the sender's roles are checked.
+const FUNCTION_PERMISSIONS: Record<string, FunctionPermission> = {
+  "facility_core::create_capital_call_request": { roles: ["originatorAdmin"] },
+  "facility_core::create_recycle_request": { roles: ["originatorAdmin"] },
+  "facility_core::respond_to_capital_call_request": {
+    roles: ["facilityAdmin"],
+  },
+  "facility_core::respond_to_recycle_request": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_period": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_min_utilization_timestamp": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_min_utilization": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_default_penalty_interest": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_min_interest_deficit": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_min_util_interest_deficit": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_default_penalty_deficit": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_is_in_default": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_is_early_close": { roles: ["facilityAdmin"] },
+  "roda_waterfall::set_early_close_penalty": { roles: ["facilityAdmin"] },
+  "facility_orchestrator::run_principal_waterfall": {
+    roles: ["facilityAdmin"],
+  },
+  "facility_orchestrator::run_interest_waterfall": { roles: ["facilityAdmin"] },
+  "share_exchange::force_approve_escrow": { roles: ["facilityAdmin"] },
+  "share_exchange::attest_nav": { roles: [] }, // allowed_attestors
+  "token_exchanger::exchange": { roles: [] }, // can_exchange
+  "roda_test_harness::exchange_tokens": { roles: [] }, // can_exchange
+  "roda_test_harness::update_attested_borrowing_base_value": { roles: [] },
+  "facility_test_harness::exchange_tokens_by_rate": { roles: [] },
+  "whitelist::create_whitelist": { roles: [] },
+  "whitelist::toggle": { roles: [] }, // Whitelist owner
+  "whitelist::bulk_toggle": { roles: [] }, // Whitelist owner
+  "hybrid_loan_book::offer_loan_simple": { roles: ["loanBookOriginator"] },
+  "hybrid_loan_book::repay_loan_historical": { roles: [] },
+  "hybrid_loan_book::repay_loan_historical_with_seed": { roles: [] },
+  "hybrid_loan_book::add_document": { roles: ["loanBookAdmin"] },
+  "hybrid_loan_book::update_payment_schedule_by_index": {
+    roles: ["loanBookAdmin"],
+  },
+  "hybrid_loan_book::set_auto_pledge_config": {
+    roles: ["loanBookConfigAdmin"],
+  },
+  "loan_book::toggle_payment_schedule_principal_validation": {
+    roles: ["loanBookAdmin"],
+  },
+  "loan_book::remove_late_fee_rules": { roles: ["loanBookAdmin"] },
+  "passthrough_token::snapshot_index": { roles: ["tokenAdmin"], tokenArg: 0 },
+  // Skips owners who opted out of auto-claim rather than asserting a role
+  "passthrough_token::initiate_claim_for_many": { roles: [] },
+};
+
+export interface PermissionTarget {
+  moduleName: string;
+  functionName: string;
+  actor?: string;
+  args?: unknown[];
+}
+
+/**
+ * Roles a call requires. Steps built by pages carry no actor, so it is looked
+ * up from the matching ContractFunction.
+ */
+export function getRequiredRoles(target: PermissionTarget): Role[] {
+  const permission =
+    FUNCTION_PERMISSIONS[`${target.moduleName}::${target.functionName}`];
+  if (permission) return permission.roles;
+  const actor =
+    target.actor ??
+    contractFunctions.find(
+      (fn) =>
+        fn.moduleName === target.moduleName &&
+        fn.functionName === target.functionName
+    )?.actor;
+  return (actor && ACTOR_ROLES[actor]) || [];
+}
+
+/** The token a tokenAdmin requirement applies to, taken from the call args */
+export function getPermissionToken(
+  target: PermissionTarget
+): string | undefined {
+  const permission =
+    FUNCTION_PERMISSIONS[`${target.moduleName}::${target.functionName}`];
+  const token =
+    permission?.tokenArg !== undefined
+      ? target.args?.[permission.tokenArg]
+      : undefined;
+  return typeof token === "string" ? token : undefined;
+}
+
+/**
+ * Whether the roles satisfy a requirement. Roles still loading (undefined)
+ * do not block, so actions are only disabled once a check has failed.
+ */
+export function hasRequiredRoles(required: Role[], roles: RoleStatus): boolean {
+  return (
+    required.length === 0 ||
+    required.some((role) => roles[role] !== false)
+  );
+}
+
+export function describeRequiredRoles(required: Role[]): string {
+  const labels = required.map((role) => ROLE_LABELS[role]);
+  return labels.length > 1
+    ? `Requires one of: ${labels.join(", ")}`
+    : `Requires the ${labels[0]} role`;
+}
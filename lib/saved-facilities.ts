@@ -0,0 +1,31 @@
+import type { NetworkType } from "./navigation-context";
+
+const STORAGE_KEY = "facility-control-center:saved-facilities";
+
+/** A facility pinned to the portfolio dashboard */
+export interface SavedFacility {
+  label: string;
+  facilityAddress: string;
+  moduleAddress: string;
+  network: NetworkType;
+}
+
+// The same facility address may be saved once per network
+export function getSavedFacilityKey(facility: SavedFacility): string {
+  return `${facility.network}:${facility.facilityAddress.toLowerCase()}`;
+}
+
+export function loadSavedFacilities(): SavedFacility[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored) as SavedFacility[];
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+    return [];
+  }
+}
+
+export function saveSavedFacilities(facilities: SavedFacility[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(facilities));
+}
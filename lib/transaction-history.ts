@@ -0,0 +1,208 @@
+import { Hex } from "@aptos-labs/ts-sdk";
+import type { SimulationResult } from "./aptos-service";
+import { escapeCsvValue } from "./utils";
+
+const DB_NAME = "facility-control-center";
+const DB_VERSION = 1;
+const STORE_NAME = "transaction-history";
+
+export type TransactionRecordSource = "transaction-stepper" | "function-card";
+
+// simulated: dry run only, never confirmed
+// cancelled: simulated, then dismissed in the confirmation dialog
+// submitted: accepted by the wallet, tx hash recorded, outcome not yet known
+// success: committed on chain and executed successfully
+// failed: simulation or submission threw, or the transaction aborted on chain
+export type TransactionRecordStatus =
+  | "simulated"
+  | "cancelled"
+  | "submitted"
+  | "success"
+  | "failed";
+
+export interface RecordedCall {
+  function: string; // Fully qualified, e.g. 0x1::facility_core::attest_value
+  args: string[];
+  typeArguments: string[];
+  title?: string;
+}
+
+export interface TransactionRecord {
+  id: string;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  source: TransactionRecordSource;
+  mode: "single" | "batch" | "atomic";
+  page: string;
+  facilityAddress?: string;
+  moduleAddress: string;
+  network?: string;
+  signer?: string;
+  calls: RecordedCall[];
+  simulation?: Pick<SimulationResult, "success" | "vmStatus" | "gasUsed">;
+  txHash?: string;
+  status: TransactionRecordStatus;
+  vmStatus?: string; // Of the committed transaction
+  error?: string;
+}
+
+export type NewTransactionRecord = Omit<
+  TransactionRecord,
+  "id" | "createdAt" | "updatedAt" | "page" | "facilityAddress"
+>;
+
+/**
+ * Renders an entry function argument as a readable string. Arguments may be
+ * plain JS values or ts-sdk BCS types, so fall back through their toString.
+ */
+export function serializeArgument(arg: unknown): string {
+  if (arg === null || arg === undefined) return "";
+  if (typeof arg === "string") return arg;
+  if (typeof arg === "bigint" || typeof arg === "number") return arg.toString();
+  if (typeof arg === "boolean") return String(arg);
+  if (arg instanceof Uint8Array) return Hex.fromHexInput(arg).toString();
+  if (Array.isArray(arg)) return `[${arg.map(serializeArgument).join(", ")}]`;
+  if (typeof arg === "object" && "value" in arg) {
+    return serializeArgument((arg as { value: unknown }).value);
+  }
+  if (typeof arg === "object" && "values" in arg) {
+    return serializeArgument((arg as { values: unknown }).values);
+  }
+  if (arg.toString !== Object.prototype.toString) return arg.toString();
+  return JSON.stringify(arg, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Stores a new record, filling in the id, timestamps and the page and facility
+ * the user is currently on. Returns the new record's id.
+ */
+export async function addTransactionRecord(
+  record: NewTransactionRecord
+): Promise<string> {
+  const now = Date.now();
+  const searchParams = new URLSearchParams(window.location.search);
+  const stored: TransactionRecord = {
+    ...record,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    page: window.location.pathname,
+    facilityAddress: searchParams.get("facility") ?? undefined,
+  };
+  await withStore("readwrite", (store) => store.add(stored));
+  return stored.id;
+}
+
+export async function updateTransactionRecord(
+  id: string,
+  update: Partial<
+    Pick<TransactionRecord, "status" | "txHash" | "vmStatus" | "error">
+  >
+): Promise<void> {
+  const existing = await withStore<TransactionRecord | undefined>(
+    "readonly",
+    (store) => store.get(id)
+  );
+  if (!existing) return;
+  await withStore("readwrite", (store) =>
+    store.put({ ...existing, ...update, updatedAt: Date.now() })
+  );
+}
+
+/**
+ * Returns every stored record, newest first
+ */
+export async function listTransactionRecords(): Promise<TransactionRecord[]> {
+  const records = await withStore<TransactionRecord[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function clearTransactionRecords(): Promise<void> {
+  await withStore("readwrite", (store) => store.clear());
+}
+
+export function transactionRecordsToCsv(records: TransactionRecord[]): string {
+  const header = [
+    "created_at",
+    "status",
+    "source",
+    "mode",
+    "page",
+    "facility",
+    "module",
+    "network",
+    "signer",
+    "functions",
+    "args",
+    "simulation_success",
+    "vm_status",
+    "gas_used",
+    "tx_hash",
+    "tx_vm_status",
+    "error",
+  ];
+  const rows = records.map((record) => [
+    new Date(record.createdAt).toISOString(),
+    record.status,
+    record.source,
+    record.mode,
+    record.page,
+    record.facilityAddress ?? "",
+    record.moduleAddress,
+    record.network ?? "",
+    record.signer ?? "",
+    record.calls.map((call) => call.function).join(" | "),
+    record.calls.map((call) => call.args.join(", ")).join(" | "),
+    record.simulation ? String(record.simulation.success) : "",
+    record.simulation?.vmStatus ?? "",
+    record.simulation?.gasUsed ?? "",
+    record.txHash ?? "",
+    record.vmStatus ?? "",
+    record.error ?? "",
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(","))
+    .join("\n");
+}
@@ -1,8 +1,14 @@
 "use client";
 
-import { InputGenerateTransactionPayloadData } from "@aptos-labs/ts-sdk";
+import {
+  AccountAuthenticator,
+  AnyRawTransaction,
+  InputGenerateTransactionPayloadData,
+  Network,
+} from "@aptos-labs/ts-sdk";
 import { useWallet as useAptosWallet } from "@aptos-labs/wallet-adapter-react";
 import { useState, useCallback, useEffect } from "react";
+import { createAptosClient } from "./aptos-service";
 
 export interface WalletTransactionOptions {
   max_gas_amount?: number;
@@ -92,10 +98,48 @@ export function useWallet() {
     [connected, account, signAndSubmitTransaction]
   );
 
+  // Signs a prebuilt multi-agent or sponsored transaction as the sender and
+  // submits it with the co-signers' authenticators
+  const submitCoSignedTransaction = useCallback(
+    async (
+      transaction: AnyRawTransaction,
+      {
+        additionalSignersAuthenticators = [],
+        feePayerAuthenticator,
+      }: {
+        additionalSignersAuthenticators?: AccountAuthenticator[];
+        feePayerAuthenticator?: AccountAuthenticator;
+      }
+    ) => {
+      if (!connected || !account) {
+        throw new Error("Wallet not connected");
+      }
+
+      const { authenticator: senderAuthenticator } = await signTransaction({
+        transactionOrPayload: transaction,
+      });
+      const client = createAptosClient(network?.name || Network.DEVNET);
+      return transaction.secondarySignerAddresses?.length
+        ? client.transaction.submit.multiAgent({
+            transaction,
+            senderAuthenticator,
+            additionalSignersAuthenticators,
+            feePayerAuthenticator,
+          })
+        : client.transaction.submit.simple({
+            transaction,
+            senderAuthenticator,
+            feePayerAuthenticator,
+          });
+    },
+    [connected, account, network, signTransaction]
+  );
+
   return {
     connectWallet,
     disconnectWallet,
     submitTransaction,
+    submitCoSignedTransaction,
     signTransaction,
     signMessage,
     signMessageAndVerify,
@@ -8,3 +8,29 @@ export function cn(...inputs: ClassValue[]) {
 export function shortenAddress(address: string) {
   return address.slice(0, 6) + "..." + address.slice(-4);
 }
+
+// UTF-8 bytes of a string as a 0x-prefixed hex string, for vector<u8> args
+export function stringToHexBytes(str: string): string {
+  const encoder = new TextEncoder();
+  const byteArray = encoder.encode(str);
+  return (
+    "0x" +
+    Array.from(byteArray)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+export function escapeCsvValue(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Triggers a browser download of in-memory content
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
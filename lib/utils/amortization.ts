@@ -0,0 +1,226 @@
+import { addMonths, addWeeks } from "date-fns";
+import { DAY_US } from "./loan-portfolio";
+import { formatTokenAmount } from "./token";
+
+// Bitmaps from lucid::payment_schedule_bitmap
+export const PAYMENT_ORDER_BITMAPS = {
+  pif: 9, // PRINCIPAL_FIRST | INTEREST_SECOND
+  ifp: 36, // INTEREST_FIRST | FEE_SECOND
+  fip: 24, // FEE_FIRST | INTEREST_SECOND
+} as const;
+
+export type AmortizationType =
+  | "level_payment"
+  | "interest_only"
+  | "equal_principal";
+
+export type PaymentFrequency = "weekly" | "biweekly" | "monthly" | "quarterly";
+
+export const AMORTIZATION_TYPES: { value: AmortizationType; label: string }[] =
+  [
+    { value: "level_payment", label: "Level payment (amortizing)" },
+    { value: "interest_only", label: "Interest only with balloon" },
+    { value: "equal_principal", label: "Equal principal" },
+  ];
+
+export const PAYMENT_FREQUENCIES: {
+  value: PaymentFrequency;
+  label: string;
+}[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every two weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+];
+
+export interface AmortizationInput {
+  type: AmortizationType;
+  principal: bigint;
+  aprPercent: number; // e.g. 12.5 for 12.5%
+  daysInYear: number;
+  frequency: PaymentFrequency;
+  paymentCount: number;
+  startDate: Date; // Interest accrues from here; first payment is one period later
+  feePerPayment?: bigint;
+}
+
+export interface ScheduleInterval {
+  time_due_us: number;
+  principal: bigint;
+  interest: bigint;
+  fee: bigint;
+}
+
+// APR is scaled to an integer so interest can be computed in bigint
+const APR_SCALE = 1_000_000;
+
+function addPeriods(date: Date, frequency: PaymentFrequency, count: number) {
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(date, count);
+    case "biweekly":
+      return addWeeks(date, count * 2);
+    case "monthly":
+      return addMonths(date, count);
+    case "quarterly":
+      return addMonths(date, count * 3);
+  }
+}
+
+// Nominal period length, used only to size the level payment
+function nominalPeriodDays(frequency: PaymentFrequency, daysInYear: number) {
+  switch (frequency) {
+    case "weekly":
+      return 7;
+    case "biweekly":
+      return 14;
+    case "monthly":
+      return daysInYear / 12;
+    case "quarterly":
+      return daysInYear / 4;
+  }
+}
+
+/**
+ * Generates a payment schedule for offer_loan_simple.
+ *
+ * Interest accrues on the outstanding principal for the actual days in each
+ * period over daysInYear. Level payments are sized from the nominal period
+ * rate, so the principal share absorbs small differences in period length;
+ * any rounding remainder is folded into the final installment so the
+ * principal always sums to the loan amount.
+ */
+export function generateAmortizationSchedule(
+  input: AmortizationInput
+): ScheduleInterval[] {
+  const {
+    type,
+    principal,
+    aprPercent,
+    daysInYear,
+    frequency,
+    paymentCount,
+    startDate,
+    feePerPayment = BigInt(0),
+  } = input;
+  if (!Number.isInteger(paymentCount) || paymentCount < 1) {
+    throw new Error("At least one payment is required");
+  }
+  if (principal <= BigInt(0)) {
+    throw new Error("Principal must be greater than zero");
+  }
+  if (aprPercent < 0 || daysInYear <= 0) {
+    throw new Error("APR and days in year must be positive");
+  }
+
+  const scaledApr = BigInt(Math.round(aprPercent * APR_SCALE));
+  const interestDenominator =
+    BigInt(100 * APR_SCALE) * BigInt(daysInYear) * BigInt(DAY_US);
+  const accrue = (outstanding: bigint, elapsedUs: number) =>
+    (outstanding * scaledApr * BigInt(elapsedUs)) / interestDenominator;
+
+  let levelPayment = BigInt(0);
+  if (type === "level_payment") {
+    const rate =
+      (aprPercent / 100) *
+      (nominalPeriodDays(frequency, daysInYear) / daysInYear);
+    levelPayment =
+      rate === 0
+        ? principal / BigInt(paymentCount)
+        : BigInt(
+            Math.round(
+              (Number(principal) * rate) /
+                (1 - Math.pow(1 + rate, -paymentCount))
+            )
+          );
+  }
+
+  const schedule: ScheduleInterval[] = [];
+  let outstanding = principal;
+  let previousDueUs = startDate.getTime() * 1000;
+  for (let i = 1; i <= paymentCount; i++) {
+    const dueUs = addPeriods(startDate, frequency, i).getTime() * 1000;
+    const interest = accrue(outstanding, dueUs - previousDueUs);
+    const isLast = i === paymentCount;
+
+    let principalPayment: bigint;
+    if (isLast) {
+      principalPayment = outstanding;
+    } else if (type === "interest_only") {
+      principalPayment = BigInt(0);
+    } else if (type === "equal_principal") {
+      principalPayment = principal / BigInt(paymentCount);
+    } else {
+      principalPayment = levelPayment - interest;
+      if (principalPayment < BigInt(0)) principalPayment = BigInt(0);
+      if (principalPayment > outstanding) principalPayment = outstanding;
+    }
+
+    schedule.push({
+      time_due_us: dueUs,
+      principal: principalPayment,
+      interest,
+      fee: feePerPayment,
+    });
+    outstanding -= principalPayment;
+    previousDueUs = dueUs;
+  }
+  return schedule;
+}
+
+/**
+ * Picks a payment order for a schedule: fees, then interest, then principal
+ * when there are fees; otherwise interest before principal, so partial
+ * payments settle accrued interest first.
+ */
+export function suggestPaymentOrder(schedule: ScheduleInterval[]): number {
+  return schedule.some((interval) => interval.fee > BigInt(0))
+    ? PAYMENT_ORDER_BITMAPS.fip
+    : PAYMENT_ORDER_BITMAPS.ifp;
+}
+
+/**
+ * Checks a schedule the way loan_book validates updates: due dates must
+ * strictly increase, and when an expected principal is given, the principal
+ * installments must add up to it exactly.
+ *
+ * @returns Human-readable problems, empty when the schedule is valid
+ */
+export function validatePaymentSchedule(
+  schedule: ScheduleInterval[],
+  expectedPrincipal: bigint | undefined,
+  decimals: number
+): string[] {
+  const problems: string[] = [];
+  if (schedule.length === 0) {
+    return ["The schedule needs at least one installment"];
+  }
+
+  schedule.forEach((interval, i) => {
+    if (!interval.time_due_us) {
+      problems.push(`Installment ${i + 1} has no due date`);
+    } else if (i > 0 && interval.time_due_us <= schedule[i - 1].time_due_us) {
+      problems.push(`Installment ${i + 1} is not due after installment ${i}`);
+    }
+  });
+
+  if (expectedPrincipal !== undefined) {
+    const totalPrincipal = schedule.reduce(
+      (sum, interval) => sum + interval.principal,
+      BigInt(0)
+    );
+    if (totalPrincipal !== expectedPrincipal) {
+      problems.push(
+        `Principal installments add up to ${formatTokenAmount(
+          totalPrincipal,
+          decimals
+        )}, not the loan principal of ${formatTokenAmount(
+          expectedPrincipal,
+          decimals
+        )}`
+      );
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,322 @@
+import type { SimulationResult } from "../aptos-service";
+import { addressVariants } from "./events";
+
+// Largest value a Move u64 can hold; node results above it abort on chain
+const U64_MAX = BigInt("18446744073709551615");
+
+/** VersionedBorrowingBaseNode as returned by the fullnode */
+export interface BorrowingBaseNodeResource {
+  __variant__: "V1";
+  _0:
+    | {
+        __variant__: "Value";
+        _0:
+          | {
+              __variant__: "AttestedValue";
+              _0: {
+                update_key: string;
+                allowed_attestors: { inner: string };
+                value: string;
+                updated_at: string;
+                ttl: string;
+              };
+            }
+          | {
+              __variant__: "FungibleAssetBalance";
+              _0: { metadata: { inner: string }; owner: string };
+            };
+      }
+    | {
+        __variant__: "Complex";
+        node:
+          | {
+              __variant__: "SimpleAdvanceRate";
+              _0: { numerator: string; denominator: string };
+            }
+          | {
+              __variant__: "BinaryOperator";
+              _0: { __variant__: BinaryOperatorName };
+            };
+        children_indices: string[];
+      };
+}
+
+/** BorrowingBaseTree resource as returned by the fullnode */
+export interface BorrowingBaseTreeResource {
+  nodes: BorrowingBaseNodeResource[];
+}
+
+export type BinaryOperatorName = "Add" | "Subtract" | "Multiply" | "Divide";
+
+export type BorrowingBaseNode =
+  | {
+      index: number;
+      kind: "AttestedValue";
+      updateKey: string; // Hex encoded, as passed back to attest_value
+      updateKeyLabel: string; // UTF-8 decoding of the key when printable
+      allowedAttestors: string; // BasicWhitelist object address
+      value: bigint;
+      updatedAt: number; // Microseconds, 0 until the first attestation
+      ttl: number; // Microseconds
+    }
+  | {
+      index: number;
+      kind: "FungibleAssetBalance";
+      metadata: string;
+      owner: string;
+    }
+  | {
+      index: number;
+      kind: "SimpleAdvanceRate";
+      numerator: bigint;
+      denominator: bigint;
+      children: number[];
+    }
+  | {
+      index: number;
+      kind: "BinaryOperator";
+      operator: BinaryOperatorName;
+      children: number[];
+    };
+
+export type AttestedValueNode = Extract<
+  BorrowingBaseNode,
+  { kind: "AttestedValue" }
+>;
+
+/** Result of evaluating one node; `error` mirrors the abort the chain hits */
+export interface BorrowingBaseNodeEvaluation {
+  value?: bigint;
+  error?: string;
+}
+
+interface EvaluateOptions {
+  now: number; // Microseconds, ideally the ledger timestamp
+  balances: Record<number, bigint>; // FungibleAssetBalance node index to balance
+  ignoreAdvanceRate?: boolean; // bb_flags::ignore_advance_rate
+}
+
+function decodeUpdateKey(hex: string): string {
+  const bytes = hex
+    .replace(/^0x/, "")
+    .match(/.{2}/g)
+    ?.map((byte) => parseInt(byte, 16));
+  if (!bytes || bytes.some((byte) => byte < 0x20 || byte > 0x7e)) return hex;
+  return String.fromCharCode(...bytes);
+}
+
+export function parseBorrowingBaseTree(
+  resource: BorrowingBaseTreeResource
+): BorrowingBaseNode[] {
+  return resource.nodes.map(({ _0: node }, index): BorrowingBaseNode => {
+    if (node.__variant__ === "Complex") {
+      const children = node.children_indices.map(Number);
+      return node.node.__variant__ === "SimpleAdvanceRate"
+        ? {
+            index,
+            kind: "SimpleAdvanceRate",
+            numerator: BigInt(node.node._0.numerator),
+            denominator: BigInt(node.node._0.denominator),
+            children,
+          }
+        : {
+            index,
+            kind: "BinaryOperator",
+            operator: node.node._0.__variant__,
+            children,
+          };
+    }
+    if (node._0.__variant__ === "FungibleAssetBalance") {
+      return {
+        index,
+        kind: "FungibleAssetBalance",
+        metadata: node._0._0.metadata.inner,
+        owner: node._0._0.owner,
+      };
+    }
+    const attested = node._0._0;
+    return {
+      index,
+      kind: "AttestedValue",
+      updateKey: attested.update_key,
+      updateKeyLabel: decodeUpdateKey(attested.update_key),
+      allowedAttestors: attested.allowed_attestors.inner,
+      value: BigInt(attested.value),
+      updatedAt: Number(attested.updated_at),
+      ttl: Number(attested.ttl),
+    };
+  });
+}
+
+/** When an attested value stops evaluating, in microseconds */
+export function attestationExpiresAt(node: AttestedValueNode): number {
+  return node.updatedAt + node.ttl;
+}
+
+/** bb_value_nodes aborts with E_ATTESTED_VALUE_STALE once the TTL has passed */
+export function isAttestationStale(
+  node: AttestedValueNode,
+  now: number
+): boolean {
+  return now >= attestationExpiresAt(node);
+}
+
+/**
+ * Index of the only node attest_value can update.
+ *
+ * attest_value walks the nodes in storage order and stops at the first value
+ * node whether or not its key matched, so attested values stored after
+ * another value node can never be updated. Returns undefined when the first
+ * value node is a balance node.
+ */
+export function getAttestableNodeIndex(
+  nodes: BorrowingBaseNode[]
+): number | undefined {
+  const first = nodes.find(
+    (node) =>
+      node.kind === "AttestedValue" || node.kind === "FungibleAssetBalance"
+  );
+  return first?.kind === "AttestedValue" ? first.index : undefined;
+}
+
+/** Copy of the tree with an attestation applied, as attest_value would */
+export function withAttestedValue(
+  nodes: BorrowingBaseNode[],
+  index: number,
+  value: bigint,
+  now: number
+): BorrowingBaseNode[] {
+  return nodes.map((node) =>
+    node.index === index && node.kind === "AttestedValue"
+      ? { ...node, value, updatedAt: now }
+      : node
+  );
+}
+
+function applyOperator(
+  operator: BinaryOperatorName,
+  values: bigint[]
+): BorrowingBaseNodeEvaluation {
+  let result = values[0];
+  for (const value of values.slice(1)) {
+    switch (operator) {
+      case "Add":
+        result += value;
+        break;
+      case "Subtract":
+        if (value > result) return { error: "Subtraction underflows" };
+        result -= value;
+        break;
+      case "Multiply":
+        result *= value;
+        break;
+      case "Divide":
+        if (value === BigInt(0)) return { error: "Division by zero" };
+        result /= value;
+        break;
+    }
+    if (result > U64_MAX) return { error: "Result overflows u64" };
+  }
+  return { value: result };
+}
+
+/**
+ * Evaluates every node the way borrowing_base_engine::evaluate_node does,
+ * integer division included. A node whose evaluation would abort on chain
+ * gets an error instead of a value, and the error carries up to the root.
+ *
+ * @returns One evaluation per node, indexed like the tree
+ */
+export function evaluateBorrowingBaseTree(
+  nodes: BorrowingBaseNode[],
+  { now, balances, ignoreAdvanceRate = false }: EvaluateOptions
+): BorrowingBaseNodeEvaluation[] {
+  const evaluations: BorrowingBaseNodeEvaluation[] = [];
+
+  const evaluate = (index: number): BorrowingBaseNodeEvaluation => {
+    if (evaluations[index]) return evaluations[index];
+    const node = nodes[index];
+    let evaluation: BorrowingBaseNodeEvaluation;
+
+    if (!node) {
+      evaluation = { error: `Node ${index} does not exist` };
+    } else if (node.kind === "AttestedValue") {
+      evaluation = isAttestationStale(node, now)
+        ? { error: "Attested value is stale" }
+        : { value: node.value };
+    } else if (node.kind === "FungibleAssetBalance") {
+      evaluation =
+        balances[index] !== undefined
+          ? { value: balances[index] }
+          : { error: "Balance could not be read" };
+    } else {
+      const children = node.children.map(evaluate);
+      const failed = children.findIndex((child) => child.value === undefined);
+      const values = children.map((child) => child.value!);
+
+      if (failed !== -1) {
+        evaluation = { error: `Child node ${node.children[failed]} fails` };
+      } else if (node.kind === "SimpleAdvanceRate") {
+        if (values.length !== 1) {
+          evaluation = { error: "Advance rate needs exactly one child" };
+        } else if (ignoreAdvanceRate) {
+          evaluation = { value: values[0] };
+        } else if (node.denominator === BigInt(0)) {
+          evaluation = { error: "Advance rate denominator is zero" };
+        } else {
+          const value = (node.numerator * values[0]) / node.denominator;
+          evaluation =
+            value > U64_MAX ? { error: "Result overflows u64" } : { value };
+        }
+      } else {
+        evaluation =
+          values.length === 0
+            ? { error: "Operator needs at least one child" }
+            : applyOperator(node.operator, values);
+      }
+    }
+
+    evaluations[index] = evaluation;
+    return evaluation;
+  };
+
+  nodes.forEach((node) => evaluate(node.index));
+  return evaluations;
+}
+
+/** Short description of what a node computes, e.g. "90 / 100 advance rate" */
+export function describeBorrowingBaseNode(node: BorrowingBaseNode): string {
+  switch (node.kind) {
+    case "AttestedValue":
+      return `Attested value "${node.updateKeyLabel}"`;
+    case "FungibleAssetBalance":
+      return "Fungible asset balance";
+    case "SimpleAdvanceRate":
+      return `Advance rate ${node.numerator.toString()} / ${node.denominator.toString()}`;
+    case "BinaryOperator":
+      return {
+        Add: "Sum",
+        Subtract: "Difference",
+        Multiply: "Product",
+        Divide: "Quotient",
+      }[node.operator];
+  }
+}
+
+/** The facility's tree as a simulated transaction would leave it, if touched */
+export function getSimulatedBorrowingBaseTree(
+  result: SimulationResult,
+  facilityAddress: string
+): BorrowingBaseNode[] | undefined {
+  const facilityVariants = addressVariants(facilityAddress);
+  const change = result.changes.find(
+    (change) =>
+      change.resource?.endsWith("::borrowing_base_engine::BorrowingBaseTree") &&
+      facilityVariants.includes(String(change.address))
+  );
+  return change?.data
+    ? parseBorrowingBaseTree(
+        change.data as unknown as BorrowingBaseTreeResource
+      )
+    : undefined;
+}
@@ -0,0 +1,107 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+
+export interface IndexedEvent<T = Record<string, unknown>> {
+  type: string;
+  data: T;
+  transactionVersion: number;
+  eventIndex: number;
+  timestamp?: Date; // Block time of the emitting transaction
+}
+
+/**
+ * Returns every spelling of an address the indexer may store: the long
+ * zero-padded form and the form with leading zeros trimmed.
+ */
+export function addressVariants(address: string): string[] {
+  try {
+    const long = AccountAddress.from(address).toStringLong();
+    const trimmed = `0x${long.slice(2).replace(/^0+/, "") || "0"}`;
+    return Array.from(new Set([long, trimmed]));
+  } catch {
+    return [address];
+  }
+}
+
+/**
+ * Fully qualified event types for a module, in every address spelling
+ */
+export function eventTypes(
+  moduleAddress: string,
+  moduleName: string,
+  structNames: string[]
+): string[] {
+  return addressVariants(moduleAddress).flatMap((address) =>
+    structNames.map((name) => `${address}::${moduleName}::${name}`)
+  );
+}
+
+/**
+ * Fetches module events from the indexer, newest first, and attaches the
+ * timestamp of the transaction that emitted each one.
+ *
+ * @param types - Fully qualified event types, see eventTypes
+ * @param dataFilters - Each entry is a partial event payload; an event matches
+ *   if its data contains any of them (e.g. { facility: "0x..." })
+ * @param limit - Maximum number of events to return
+ * @param offset - Number of newest matching events to skip, for paging
+ */
+export async function fetchModuleEvents<T = Record<string, unknown>>(
+  client: Aptos,
+  {
+    types,
+    dataFilters,
+    limit = 100,
+    offset = 0,
+  }: {
+    types: string[];
+    dataFilters?: Record<string, unknown>[];
+    limit?: number;
+    offset?: number;
+  }
+): Promise<IndexedEvent<T>[]> {
+  const events = await client.getEvents({
+    options: {
+      where: {
+        type: { _in: types },
+        ...(dataFilters?.length && {
+          _or: dataFilters.map((filter) => ({ data: { _contains: filter } })),
+        }),
+      },
+      orderBy: [{ transaction_version: "desc" }, { event_index: "desc" }],
+      limit,
+      offset,
+    },
+  });
+
+  const versions = Array.from(
+    new Set(events.map((event) => Number(event.transaction_version)))
+  );
+  const timestamps = new Map<number, Date>();
+  if (versions.length > 0) {
+    const { user_transactions } = await client.queryIndexer<{
+      user_transactions: { version: number; timestamp: string }[];
+    }>({
+      query: {
+        query: `query TransactionTimestamps($versions: [bigint!]) {
+          user_transactions(where: { version: { _in: $versions } }) {
+            version
+            timestamp
+          }
+        }`,
+        variables: { versions },
+      },
+    });
+    // Indexer timestamps are UTC without a zone suffix
+    user_transactions.forEach(({ version, timestamp }) =>
+      timestamps.set(Number(version), new Date(`${timestamp}Z`))
+    );
+  }
+
+  return events.map((event) => ({
+    type: event.type,
+    data: event.data as T,
+    transactionVersion: Number(event.transaction_version),
+    eventIndex: Number(event.event_index),
+    timestamp: timestamps.get(Number(event.transaction_version)),
+  }));
+}
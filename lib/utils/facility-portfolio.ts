@@ -0,0 +1,119 @@
+import type { FacilityData } from "../hooks/use-facility-data";
+
+export interface FacilityHealth {
+  size?: bigint;
+  outstandingPrincipal?: bigint;
+  utilization?: number; // Outstanding principal over facility size
+  borrowingBase?: bigint; // undefined when the borrowing base is stale
+  headroom?: bigint; // Borrowing base left after outstanding principal
+  hasActiveCapitalCall: boolean;
+  capitalCallRemaining?: bigint;
+  hasPendingFundingRequest: boolean;
+  flags: string[]; // Reasons the facility needs attention
+}
+
+export type PortfolioSortKey =
+  | "label"
+  | "size"
+  | "outstanding"
+  | "utilization"
+  | "headroom"
+  | "tests"
+  | "capitalCall";
+
+// facility data reports views that failed as "Error" (or "Stale")
+function toBigInt(value: string): bigint | undefined {
+  return /^\d+$/.test(value) ? BigInt(value) : undefined;
+}
+
+export function getFacilityHealth(data: FacilityData): FacilityHealth {
+  const size = toBigInt(data.facilitySize);
+  const outstandingPrincipal = toBigInt(data.outstandingPrincipal);
+  const borrowingBase = toBigInt(data.borrowingBase);
+  const hasPendingFundingRequest = data.fundingRequestId !== undefined;
+
+  const flags: string[] = [];
+  if (data.testsStatus === "error") {
+    flags.push("Facility could not be read");
+  } else if (data.testsStatus === "fail") {
+    flags.push("Vehicle tests failing");
+  } else if (data.testsStatus === "revert" && data.testBasketExists) {
+    flags.push("Vehicle tests reverted");
+  }
+  if (hasPendingFundingRequest) {
+    flags.push("Pending funding request");
+  }
+
+  return {
+    size,
+    outstandingPrincipal,
+    utilization:
+      size !== undefined && outstandingPrincipal !== undefined && size > 0
+        ? Number(outstandingPrincipal) / Number(size)
+        : undefined,
+    borrowingBase,
+    headroom:
+      borrowingBase !== undefined && outstandingPrincipal !== undefined
+        ? borrowingBase - outstandingPrincipal
+        : undefined,
+    hasActiveCapitalCall: data.hasActiveCapitalCall,
+    capitalCallRemaining: data.hasActiveCapitalCall
+      ? toBigInt(data.capitalCallAmountRemaining)
+      : undefined,
+    hasPendingFundingRequest,
+    flags,
+  };
+}
+
+/**
+ * Sort value of a portfolio row. Amounts are scaled by the facility token's
+ * decimals so facilities in different tokens compare by whole units.
+ */
+export function getPortfolioSortValue(
+  key: PortfolioSortKey,
+  row: {
+    label: string;
+    health?: FacilityHealth;
+    testsStatus?: FacilityData["testsStatus"];
+    decimals: number;
+  }
+): string | number | undefined {
+  const { health, decimals } = row;
+  const units = (value?: bigint) =>
+    value === undefined ? undefined : Number(value) / 10 ** decimals;
+
+  switch (key) {
+    case "label":
+      return row.label.toLowerCase();
+    case "size":
+      return units(health?.size);
+    case "outstanding":
+      return units(health?.outstandingPrincipal);
+    case "utilization":
+      return health?.utilization;
+    case "headroom":
+      return units(health?.headroom);
+    case "tests":
+      // Failing facilities first when sorted ascending
+      return row.testsStatus === undefined
+        ? undefined
+        : ["fail", "error", "revert", "success"].indexOf(row.testsStatus);
+    case "capitalCall":
+      return health?.hasActiveCapitalCall
+        ? units(health.capitalCallRemaining) ?? 0
+        : -1;
+  }
+}
+
+/** Orders rows by a sort value, keeping rows without one last */
+export function comparePortfolioSortValues(
+  a: string | number | undefined,
+  b: string | number | undefined,
+  direction: "asc" | "desc"
+): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  const order = a < b ? -1 : a > b ? 1 : 0;
+  return direction === "asc" ? order : -order;
+}
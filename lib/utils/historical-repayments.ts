@@ -0,0 +1,214 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { parseCsv } from "./loan-tape";
+import { formatTokenAmount, tryParseTokenAmount } from "./token";
+
+/**
+ * A past repayment parsed from one row of a historical repayment CSV, to be
+ * replayed through repay_loan_historical(_with_seed) once errors is empty
+ */
+export interface HistoricalRepaymentRow {
+  rowNumber: number; // Line in the CSV, counting the header as line 1
+  loan: string; // As given in the file
+  seed?: string; // Set when the loan is given by its seed
+  loanAddress?: string; // Set for addresses, and for seeds once resolved
+  amount: bigint;
+  timestampUs: number;
+  errors: string[];
+}
+
+// On-chain state of a loan that the import is previewed against
+export interface HistoricalLoanState {
+  loanAddress: string;
+  borrower: string;
+  debtRemaining: bigint;
+}
+
+export interface HistoricalLoanPreview extends HistoricalLoanState {
+  rowNumbers: number[];
+  firstTimestampUs: number;
+  lastTimestampUs: number;
+  totalRepaid: bigint;
+  debtAfter: bigint;
+}
+
+// Shown on the importer as the expected format; loan is a seed or a 0x
+// loan address, timestamp a date or raw microseconds
+export const HISTORICAL_REPAYMENT_EXAMPLE = [
+  "loan,amount,timestamp",
+  "loan-001,250.50,2024-03-01T12:00:00Z",
+  "0x123...,100,1709294400000000",
+].join("\n");
+
+// Microseconds from either a raw microsecond timestamp or a date string
+function parseTimestampUs(value: string): number | undefined {
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  return isNaN(ms) ? undefined : ms * 1000;
+}
+
+/** Key that groups the rows of one loan, whether given by seed or address */
+export function historicalLoanKey(row: HistoricalRepaymentRow): string {
+  return row.loanAddress
+    ? AccountAddress.from(row.loanAddress).toStringLong()
+    : `seed:${row.seed}`;
+}
+
+/**
+ * Parses a CSV of past repayments with loan, amount and timestamp columns.
+ * A loan starting with 0x that is a valid address is taken as the loan
+ * address, anything else as its seed. Rows are returned with their problems
+ * rather than dropped so they can be reported back.
+ */
+export function parseHistoricalRepayments(
+  text: string,
+  decimals: number
+): HistoricalRepaymentRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((column) => column.toLowerCase());
+  const nowUs = Date.now() * 1000;
+
+  return lines.map((cells, index) => {
+    const get = (column: string) => {
+      const i = columns.indexOf(column);
+      return i >= 0 && cells[i] ? cells[i] : undefined;
+    };
+    const errors: string[] = [];
+
+    const loan = get("loan") ?? "";
+    const isAddress =
+      loan.startsWith("0x") && AccountAddress.isValid({ input: loan }).valid;
+    if (!loan) errors.push("loan is required");
+
+    const amountValue = get("amount") ?? "";
+    const amount = tryParseTokenAmount(amountValue, decimals);
+    if (amount === undefined) {
+      errors.push(
+        `amount must be a positive decimal with at most ${decimals} decimal places`
+      );
+    } else if (amount === BigInt(0)) {
+      errors.push("amount must be greater than zero");
+    }
+
+    const timestampValue = get("timestamp") ?? "";
+    const timestampUs = parseTimestampUs(timestampValue);
+    if (timestampUs === undefined) {
+      errors.push(
+        timestampValue
+          ? `Invalid timestamp "${timestampValue}"`
+          : "timestamp is required"
+      );
+    } else if (timestampUs > nowUs) {
+      errors.push("timestamp is in the future");
+    }
+
+    return {
+      rowNumber: index + 2,
+      loan,
+      seed: loan && !isAddress ? loan : undefined,
+      loanAddress: isAddress ? loan : undefined,
+      amount: amount ?? BigInt(0),
+      timestampUs: timestampUs ?? 0,
+      errors,
+    };
+  });
+}
+
+/**
+ * Checks each loan's repayments against the order they will be replayed in,
+ * which is the order of the file: timestamps may not go backwards, and
+ * nothing may follow the repayment that clears the loan's remaining debt,
+ * since the loan is retired at that point.
+ *
+ * @returns Problems keyed by row number
+ */
+export function checkHistoricalRepayments(
+  rows: HistoricalRepaymentRow[],
+  loans: Map<string, HistoricalLoanState>,
+  decimals: number
+): Map<number, string[]> {
+  const problems = new Map<number, string[]>();
+  const addProblem = (rowNumber: number, problem: string) =>
+    problems.set(rowNumber, [...(problems.get(rowNumber) ?? []), problem]);
+
+  const previous = new Map<string, HistoricalRepaymentRow>();
+  const repaid = new Map<string, bigint>();
+  const clearedBy = new Map<string, number>();
+  for (const row of rows) {
+    if (row.errors.length > 0) continue;
+    const key = historicalLoanKey(row);
+    const loan = loans.get(key);
+    if (!loan) continue;
+
+    const before = previous.get(key);
+    if (before && row.timestampUs < before.timestampUs) {
+      addProblem(
+        row.rowNumber,
+        `timestamp is before the previous repayment of this loan (row ${before.rowNumber})`
+      );
+    }
+    const cleared = clearedBy.get(key);
+    if (cleared !== undefined) {
+      addProblem(
+        row.rowNumber,
+        `the loan is fully repaid by row ${cleared}, so it no longer exists`
+      );
+    }
+    previous.set(key, row);
+
+    const total = (repaid.get(key) ?? BigInt(0)) + row.amount;
+    repaid.set(key, total);
+    if (cleared === undefined && total >= loan.debtRemaining) {
+      clearedBy.set(key, row.rowNumber);
+      if (total > loan.debtRemaining) {
+        addProblem(
+          row.rowNumber,
+          `repays ${formatTokenAmount(
+            total - loan.debtRemaining,
+            decimals
+          )} more than the loan's remaining debt`
+        );
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Remaining debt of each loan once its valid repayments are replayed, in the
+ * order loans first appear in the file. Historical late fees the contract
+ * deducts from a payment are not modelled, so debt can end up higher.
+ */
+export function previewHistoricalRepayments(
+  rows: HistoricalRepaymentRow[],
+  loans: Map<string, HistoricalLoanState>
+): HistoricalLoanPreview[] {
+  const previews = new Map<string, HistoricalLoanPreview>();
+  for (const row of rows) {
+    if (row.errors.length > 0) continue;
+    const key = historicalLoanKey(row);
+    const loan = loans.get(key);
+    if (!loan) continue;
+
+    const preview = previews.get(key) ?? {
+      ...loan,
+      rowNumbers: [],
+      firstTimestampUs: row.timestampUs,
+      lastTimestampUs: row.timestampUs,
+      totalRepaid: BigInt(0),
+      debtAfter: loan.debtRemaining,
+    };
+    const totalRepaid = preview.totalRepaid + row.amount;
+    previews.set(key, {
+      ...preview,
+      rowNumbers: [...preview.rowNumbers, row.rowNumber],
+      lastTimestampUs: row.timestampUs,
+      totalRepaid,
+      debtAfter:
+        totalRepaid >= loan.debtRemaining
+          ? BigInt(0)
+          : loan.debtRemaining - totalRepaid,
+    });
+  }
+  return Array.from(previews.values());
+}
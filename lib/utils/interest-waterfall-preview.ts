@@ -0,0 +1,273 @@
+import type { SimulationEvent, SimulationResult } from "../aptos-service";
+import { addressVariants } from "./events";
+import {
+  parseRodaWaterfall,
+  RodaWaterfallResource,
+  RodaWaterfallState,
+} from "./roda-waterfall";
+
+export type RodaLevelName =
+  | "MinInterestDeficit"
+  | "MinUtilizationDeficit"
+  | "MinInterest"
+  | "MinUtilization"
+  | "DefaultPenalty"
+  | "EarlyClosePenalty"
+  | "SeniorShare"
+  | "RodaSinkInterest";
+
+type DeficitField =
+  | "min_interest_deficit"
+  | "min_util_interest_deficit"
+  | "default_penalty_deficit";
+
+interface InterestLevelDefinition {
+  level: RodaLevelName;
+  label: string;
+  // Deficit the level cures or adds to, for levels paying the senior share
+  deficitField?: DeficitField;
+  cures?: boolean;
+}
+
+// Interest waterfall order from roda_test_harness::add_waterfalls. The
+// borrowing base cure level between EarlyClosePenalty and SeniorShare repays
+// senior principal too, so it is reported under SeniorShare.
+export const INTEREST_WATERFALL_LEVELS: InterestLevelDefinition[] = [
+  {
+    level: "MinInterestDeficit",
+    label: "Min Interest Deficit",
+    deficitField: "min_interest_deficit",
+    cures: true,
+  },
+  {
+    level: "MinUtilizationDeficit",
+    label: "Min Utilization Deficit",
+    deficitField: "min_util_interest_deficit",
+    cures: true,
+  },
+  {
+    level: "MinInterest",
+    label: "Min Interest",
+    deficitField: "min_interest_deficit",
+  },
+  {
+    level: "MinUtilization",
+    label: "Min Utilization",
+    deficitField: "min_util_interest_deficit",
+  },
+  {
+    level: "DefaultPenalty",
+    label: "Default Penalty",
+    deficitField: "default_penalty_deficit",
+  },
+  { level: "EarlyClosePenalty", label: "Early Close Penalty" },
+  { level: "SeniorShare", label: "Senior Share Principal" },
+  { level: "RodaSinkInterest", label: "RODA Sink (Originator)" },
+];
+
+export interface InterestLevelAllocation {
+  level: RodaLevelName;
+  label: string;
+  recipient?: string; // Share class address, when an event names it
+  paid?: bigint; // undefined when the simulation does not reveal it
+  deficitAdded: bigint;
+}
+
+export interface InterestWaterfallPreview {
+  levels: InterestLevelAllocation[];
+  totalPaid: bigint;
+  available?: bigint;
+  deficitsAfter?: Pick<RodaWaterfallState, DeficitField>;
+  unattributedEvents: number; // Interest events no level could be matched to
+}
+
+interface DecodeOptions {
+  facilityAddress: string;
+  before?: RodaWaterfallState; // RodaWaterfall as it is on chain now
+  available?: bigint; // Interest collection balance the waterfall spreads
+}
+
+function eventName(event: SimulationEvent) {
+  return event.type.split("::")[2];
+}
+
+function isFacilityEvent(event: SimulationEvent, facilityAddress: string) {
+  const variants = addressVariants(facilityAddress);
+  return variants.includes(String(event.data.facility_address));
+}
+
+/**
+ * Splits a simulated interest waterfall run into what each RodaLevel paid.
+ *
+ * The roda levels paying the senior share each emit one
+ * InterestDistributedEventV0, in waterfall order, but only when they pay
+ * something, so events are matched to levels using the current RodaWaterfall
+ * state: a deficit cure only runs when there is a deficit, and a level that
+ * accrues interest reports in `deficit` exactly what its own deficit field
+ * grew by in the simulated RodaWaterfall change. Senior principal comes from
+ * PrincipalRepaidEventV0 and the sink receives whatever is left.
+ */
+export function decodeInterestWaterfallPreview(
+  result: SimulationResult,
+  { facilityAddress, before, available }: DecodeOptions
+): InterestWaterfallPreview {
+  const facilityEvents = result.events.filter((event) =>
+    isFacilityEvent(event, facilityAddress)
+  );
+  const interestEvents = facilityEvents.filter(
+    (event) => eventName(event) === "InterestDistributedEventV0"
+  );
+  // Earlier steps in a batch may also repay principal; only count repayments
+  // that follow the first interest distribution
+  const firstInterestIndex = facilityEvents.findIndex(
+    (event) => eventName(event) === "InterestDistributedEventV0"
+  );
+  const principalEvents = facilityEvents
+    .slice(Math.max(firstInterestIndex, 0))
+    .filter((event) => eventName(event) === "PrincipalRepaidEventV0");
+
+  const facilityVariants = addressVariants(facilityAddress);
+  const rodaChange = result.changes.find(
+    (change) =>
+      change.resource?.endsWith("::roda_waterfall::RodaWaterfall") &&
+      facilityVariants.includes(String(change.address))
+  );
+  const after = rodaChange?.data
+    ? parseRodaWaterfall(rodaChange.data as unknown as RodaWaterfallResource)
+    : undefined;
+
+  const cured: Partial<Record<DeficitField, bigint>> = {};
+  let remaining = available;
+  let cursor = 0;
+  const levels: InterestLevelAllocation[] = [];
+
+  const take = (level: InterestLevelDefinition, deficitAdded: bigint) => {
+    const event = interestEvents[cursor++];
+    const paid = BigInt(String(event.data.amount));
+    if (remaining !== undefined) remaining -= paid;
+    levels.push({
+      level: level.level,
+      label: level.label,
+      recipient: String(event.data.share_address),
+      paid,
+      deficitAdded,
+    });
+    return paid;
+  };
+  const skip = (level: InterestLevelDefinition, deficitAdded = BigInt(0)) =>
+    levels.push({
+      level: level.level,
+      label: level.label,
+      paid: BigInt(0),
+      deficitAdded,
+    });
+
+  for (const level of INTEREST_WATERFALL_LEVELS) {
+    const next = interestEvents[cursor];
+    const field = level.deficitField;
+    const nothingLeft = remaining !== undefined && remaining <= BigInt(0);
+
+    if (level.cures && field) {
+      const owed = before?.[field];
+      if (!next || nothingLeft || owed === BigInt(0)) {
+        skip(level);
+      } else {
+        cured[field] = take(level, BigInt(0));
+      }
+    } else if (field) {
+      const eligible =
+        !before ||
+        (level.level === "MinUtilization"
+          ? before.min_utilization > BigInt(0)
+          : level.level === "DefaultPenalty"
+          ? before.is_in_default
+          : true);
+      // after = before - cured + added, so the added deficit is known exactly
+      const expectedDeficit =
+        before && after
+          ? after[field] - before[field] + (cured[field] ?? BigInt(0))
+          : undefined;
+      const matches =
+        !!next &&
+        (expectedDeficit === undefined ||
+          BigInt(String(next.data.deficit)) === expectedDeficit);
+      if (eligible && !nothingLeft && matches) {
+        take(level, BigInt(String(next.data.deficit)));
+      } else {
+        skip(level, expectedDeficit ?? BigInt(0));
+      }
+    } else if (level.level === "EarlyClosePenalty") {
+      // Emits whenever early close is on with a penalty, even paying nothing
+      const eligible =
+        !before ||
+        (before.is_early_close && before.early_close_penalty > BigInt(0));
+      if (eligible && next && BigInt(String(next.data.deficit)) === BigInt(0)) {
+        take(level, BigInt(0));
+      } else {
+        skip(level);
+      }
+    } else if (level.level === "SeniorShare") {
+      const paid = principalEvents.reduce(
+        (sum, event) => sum + BigInt(String(event.data.amount)),
+        BigInt(0)
+      );
+      if (remaining !== undefined) remaining -= paid;
+      levels.push({
+        level: level.level,
+        label: level.label,
+        recipient: principalEvents[0]
+          ? String(principalEvents[0].data.share_address)
+          : undefined,
+        paid,
+        deficitAdded: BigInt(0),
+      });
+    } else {
+      levels.push({
+        level: level.level,
+        label: level.label,
+        paid:
+          remaining === undefined
+            ? undefined
+            : remaining > BigInt(0)
+            ? remaining
+            : BigInt(0),
+        deficitAdded: BigInt(0),
+      });
+    }
+  }
+
+  return {
+    levels,
+    totalPaid: levels.reduce(
+      (sum, level) => sum + (level.paid ?? BigInt(0)),
+      BigInt(0)
+    ),
+    available,
+    deficitsAfter: after && {
+      min_interest_deficit: after.min_interest_deficit,
+      min_util_interest_deficit: after.min_util_interest_deficit,
+      default_penalty_deficit: after.default_penalty_deficit,
+    },
+    unattributedEvents: interestEvents.length - cursor,
+  };
+}
+
+/** Whether a simulation ran the interest waterfall for the facility */
+export function hasInterestWaterfallActivity(
+  result: SimulationResult,
+  facilityAddress: string
+): boolean {
+  const facilityVariants = addressVariants(facilityAddress);
+  return (
+    result.events.some(
+      (event) =>
+        eventName(event) === "InterestDistributedEventV0" &&
+        isFacilityEvent(event, facilityAddress)
+    ) ||
+    result.changes.some(
+      (change) =>
+        change.resource?.endsWith("::roda_waterfall::RodaWaterfall") &&
+        facilityVariants.includes(String(change.address))
+    )
+  );
+}
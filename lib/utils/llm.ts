@@ -3,10 +3,11 @@ import {
   SimulationEvent,
   SimulationChange,
 } from "@/lib/aptos-service";
-
-interface AddressBook {
-  [address: string]: string;
-}
+import {
+  AddressBook,
+  formatLabelledAddress,
+  labelAddressesInValue,
+} from "@/lib/address-book";
 
 interface LLMResponse {
   description: string;
@@ -44,8 +45,8 @@ function formatEventForLLM(
   return JSON.stringify(
     {
       type,
-      data,
-      key: addressBook[key] || key,
+      data: labelAddressesInValue(data, addressBook),
+      key: formatLabelledAddress(addressBook, key),
     },
     null,
     2
@@ -63,8 +64,8 @@ function formatChangeForLLM(
   return JSON.stringify(
     {
       type,
-      data,
-      address: addressBook[address] || address,
+      data: labelAddressesInValue(data, addressBook),
+      address: formatLabelledAddress(addressBook, address),
     },
     null,
     2
@@ -88,6 +89,8 @@ Transaction Status: ${result.success ? "Success" : "Failed"}
 VM Status: ${result.vmStatus}
 Gas Used: ${result.gasUsed}
 
+Addresses are shown as "Label (short address)" where the label is known; refer to them by label.
+
 Events:
 ${events.join("\n")}
 
@@ -0,0 +1,152 @@
+import {
+  AccountAddress,
+  Aptos,
+  EntryFunctionPayloadResponse,
+  Hex,
+} from "@aptos-labs/ts-sdk";
+import { addressVariants } from "./events";
+
+export interface LoanDocument {
+  name: string;
+  description: string;
+  hash: string; // 0x-prefixed hex, SHA-256 for documents added here
+  sender: string;
+  transactionVersion: number;
+  timestamp?: Date;
+}
+
+// Entry functions that attach a document; args after the signers are
+// (loan, name, description, hash) for both
+const DOCUMENT_FUNCTIONS = ["add_document", "add_document_for"];
+
+// Document transactions are listed across the whole module, a page at a
+// time, until none are left or the scan limit is reached
+const DOCUMENT_PAGE_SIZE = 100;
+const DOCUMENT_SCAN_LIMIT = 2000;
+const TRANSACTION_READ_BATCH_SIZE = 10;
+
+export interface LoanDocumentScan {
+  documents: LoanDocument[];
+  isComplete: boolean; // False when the scan limit was reached
+}
+
+/** SHA-256 of a file as 0x-prefixed hex, computed in the browser */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer()
+  );
+  return Hex.fromHexInput(new Uint8Array(digest)).toString();
+}
+
+export function isSameHash(a: string, b: string): boolean {
+  const normalize = (hash: string) => hash.toLowerCase().replace(/^0x/, "");
+  return normalize(a) === normalize(b);
+}
+
+// Object<Loan> arguments come back as either an address or { inner }
+const argumentAddress = (arg: unknown) =>
+  typeof arg === "string"
+    ? arg
+    : (arg as { inner?: string } | undefined)?.inner ?? "";
+
+/**
+ * Documents attached to a loan, newest first. document_manager keeps them in
+ * a collection without a view to list it, so they are read back from the
+ * successful add_document and add_document_for transactions that name the
+ * loan. The indexer cannot filter on arguments, so every document
+ * transaction of the module is read until DOCUMENT_SCAN_LIMIT.
+ */
+export async function fetchLoanDocuments(
+  client: Aptos,
+  moduleAddress: string,
+  loanAddress: string
+): Promise<LoanDocumentScan> {
+  const functionIds = addressVariants(moduleAddress).flatMap((address) =>
+    DOCUMENT_FUNCTIONS.map((name) => `${address}::hybrid_loan_book::${name}`)
+  );
+
+  const candidates: { version: number; timestamp: string }[] = [];
+  let isComplete = false;
+  while (candidates.length < DOCUMENT_SCAN_LIMIT) {
+    const { user_transactions } = await client.queryIndexer<{
+      user_transactions: { version: number; timestamp: string }[];
+    }>({
+      query: {
+        query: `query DocumentTransactions(
+          $functions: [String!]
+          $limit: Int
+          $offset: Int
+        ) {
+          user_transactions(
+            where: { entry_function_id_str: { _in: $functions } }
+            order_by: { version: desc }
+            limit: $limit
+            offset: $offset
+          ) {
+            version
+            timestamp
+          }
+        }`,
+        variables: {
+          functions: functionIds,
+          limit: DOCUMENT_PAGE_SIZE,
+          offset: candidates.length,
+        },
+      },
+    });
+    candidates.push(...user_transactions);
+    if (user_transactions.length < DOCUMENT_PAGE_SIZE) {
+      isComplete = true;
+      break;
+    }
+  }
+
+  const loan = AccountAddress.from(loanAddress);
+  const readDocument = async ({
+    version,
+    timestamp,
+  }: {
+    version: number;
+    timestamp: string;
+  }): Promise<LoanDocument | undefined> => {
+    const transaction = await client.getTransactionByVersion({
+      ledgerVersion: Number(version),
+    });
+    if (
+      transaction.type !== "user_transaction" ||
+      !transaction.success ||
+      transaction.payload.type !== "entry_function_payload"
+    ) {
+      return undefined;
+    }
+    const [loanArg, name, description, hash] = (
+      transaction.payload as EntryFunctionPayloadResponse
+    ).arguments as unknown[];
+    const argAddress = argumentAddress(loanArg);
+    if (!argAddress || !AccountAddress.from(argAddress).equals(loan)) {
+      return undefined;
+    }
+    return {
+      name: String(name),
+      description: String(description),
+      hash: String(hash),
+      sender: transaction.sender,
+      transactionVersion: Number(version),
+      // Indexer timestamps are UTC without a zone suffix
+      timestamp: new Date(`${timestamp}Z`),
+    };
+  };
+
+  const documents: LoanDocument[] = [];
+  for (let i = 0; i < candidates.length; i += TRANSACTION_READ_BATCH_SIZE) {
+    const batch = candidates.slice(i, i + TRANSACTION_READ_BATCH_SIZE);
+    const read = await Promise.all(batch.map(readDocument));
+    documents.push(
+      ...read.filter(
+        (document): document is LoanDocument => document !== undefined
+      )
+    );
+  }
+  return { documents, isComplete };
+}
@@ -0,0 +1,262 @@
+import { Aptos } from "@aptos-labs/ts-sdk";
+import type { Interval } from "../hooks/use-loan-info";
+import type { DelinquentLinearAccrualLateFee } from "../types/config-manager";
+import {
+  addressVariants,
+  eventTypes,
+  fetchModuleEvents,
+  IndexedEvent,
+} from "./events";
+
+export const DAY_US = 86_400_000_000;
+
+const EVENT_PAGE_SIZE = 100;
+const MAX_EVENT_PAGES = 50;
+
+/**
+ * A loan found in a loan book's event history. Event fields are kept as-is
+ * so callers can decide which on-chain reads they need.
+ */
+export interface DiscoveredLoan {
+  loanAddress: string;
+  borrowerAddress?: string;
+  faMetadataAddress?: string;
+  principal?: string; // From PendingLoanCreated
+  startTimeUs?: number; // From LoanStarted
+  maturityTimeUs?: number; // From LoanStarted
+  started: boolean;
+  lastPayment?: {
+    timestampUs: number;
+    debtRemaining: string;
+    principalRemaining: string;
+  };
+}
+
+interface LoanBookEventData {
+  loan_address?: string;
+  loan?: { inner: string };
+  borrower?: string;
+  fa_metadata?: { inner: string };
+  principal?: string;
+  start_time_us?: string;
+  maturity_time_us?: string;
+  timestamp_us?: string;
+  debt_remaining?: string;
+  principal_remaining?: string;
+}
+
+/**
+ * Discovers every loan in a loan book from its PendingLoanCreated,
+ * LoanStarted and PaymentMade events, paging through the indexer.
+ */
+export async function discoverLoanBookLoans(
+  client: Aptos,
+  moduleAddress: string,
+  loanBookAddress: string
+): Promise<DiscoveredLoan[]> {
+  const types = eventTypes(moduleAddress, "loan_book", [
+    "PendingLoanCreated",
+    "LoanStarted",
+    "PaymentMade",
+  ]);
+  const dataFilters = addressVariants(loanBookAddress).map((address) => ({
+    loan_book: { inner: address },
+  }));
+
+  const events: IndexedEvent<LoanBookEventData>[] = [];
+  for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+    const batch = await fetchModuleEvents<LoanBookEventData>(client, {
+      types,
+      dataFilters,
+      limit: EVENT_PAGE_SIZE,
+      offset: page * EVENT_PAGE_SIZE,
+    });
+    events.push(...batch);
+    if (batch.length < EVENT_PAGE_SIZE) break;
+  }
+
+  const loans = new Map<string, DiscoveredLoan>();
+  const getLoan = (loanAddress: string) => {
+    let loan = loans.get(loanAddress);
+    if (!loan) {
+      loan = { loanAddress, started: false };
+      loans.set(loanAddress, loan);
+    }
+    return loan;
+  };
+
+  // Events are newest first, so the first PaymentMade seen per loan is the
+  // latest one
+  events.forEach(({ type, data }) => {
+    const structName = type.split("::").pop();
+    const loanAddress = data.loan_address ?? data.loan?.inner;
+    if (!loanAddress) return;
+    const loan = getLoan(loanAddress);
+
+    if (structName === "PendingLoanCreated") {
+      loan.borrowerAddress = data.borrower;
+      loan.faMetadataAddress = data.fa_metadata?.inner;
+      loan.principal = data.principal;
+    } else if (structName === "LoanStarted") {
+      loan.started = true;
+      loan.startTimeUs = Number(data.start_time_us);
+      loan.maturityTimeUs = Number(data.maturity_time_us);
+    } else if (structName === "PaymentMade") {
+      // A payment implies the loan started even if LoanStarted fell outside
+      // the fetched pages
+      loan.started = true;
+      loan.faMetadataAddress ??= data.fa_metadata?.inner;
+      loan.lastPayment ??= {
+        timestampUs: Number(data.timestamp_us),
+        debtRemaining: data.debt_remaining ?? "0",
+        principalRemaining: data.principal_remaining ?? "0",
+      };
+    }
+  });
+
+  return Array.from(loans.values());
+}
+
+/**
+ * Mirrors loan_book::get_next_due_interval_i: the first interval with
+ * anything left to pay, or undefined once the schedule is fully paid.
+ */
+export function getNextDueInterval(
+  schedule: Interval[]
+): Interval | undefined {
+  return schedule.find(
+    (interval) =>
+      BigInt(interval.principal) > BigInt(0) ||
+      BigInt(interval.interest) > BigInt(0) ||
+      BigInt(interval.fee) > BigInt(0)
+  );
+}
+
+/**
+ * Remaining principal, interest and fees across a payment schedule, as
+ * loan_book::get_payment_schedule_summary computes them
+ */
+export function summarizeSchedule(schedule: Interval[]) {
+  return schedule.reduce(
+    (summary, interval) => ({
+      principal: summary.principal + BigInt(interval.principal),
+      interest: summary.interest + BigInt(interval.interest),
+      fees: summary.fees + BigInt(interval.fee),
+    }),
+    { principal: BigInt(0), interest: BigInt(0), fees: BigInt(0) }
+  );
+}
+
+// Days an installment is overdue, rounded up so any overdue amount counts as
+// at least 1 DPD; 0 when not yet due
+export function getDaysPastDue(
+  interval: Interval | undefined,
+  nowUs: number
+): number {
+  if (!interval) return 0;
+  const overdueUs = nowUs - Number(interval.time_due_us);
+  return overdueUs > 0 ? Math.ceil(overdueUs / DAY_US) : 0;
+}
+
+export interface DelinquencyBucketDefinition {
+  label: string;
+  minDays: number;
+  maxDays?: number; // Inclusive, open-ended when omitted
+}
+
+export const DEFAULT_DELINQUENCY_BUCKETS: DelinquencyBucketDefinition[] = [
+  { label: "Current", minDays: 0, maxDays: 0 },
+  { label: "1–30 DPD", minDays: 1, maxDays: 30 },
+  { label: "31–60 DPD", minDays: 31, maxDays: 60 },
+  { label: "61–90 DPD", minDays: 61, maxDays: 90 },
+  { label: "90+ DPD", minDays: 91 },
+];
+
+export interface DelinquencyBucket extends DelinquencyBucketDefinition {
+  loanCount: number;
+  outstanding: bigint;
+}
+
+/**
+ * Groups loans into days-past-due buckets, summing their outstanding amount
+ */
+export function bucketByDaysPastDue<T>(
+  loans: T[],
+  daysPastDueOf: (loan: T) => number,
+  outstandingOf: (loan: T) => bigint,
+  definitions: DelinquencyBucketDefinition[] = DEFAULT_DELINQUENCY_BUCKETS
+): DelinquencyBucket[] {
+  const buckets = definitions.map((definition) => ({
+    ...definition,
+    loanCount: 0,
+    outstanding: BigInt(0),
+  }));
+  loans.forEach((loan) => {
+    const days = daysPastDueOf(loan);
+    const bucket = buckets.find(
+      (b) => days >= b.minDays && (b.maxDays === undefined || days <= b.maxDays)
+    );
+    if (bucket) {
+      bucket.loanCount += 1;
+      bucket.outstanding += outstandingOf(loan);
+    }
+  });
+  return buckets;
+}
+
+// Standard aging edges; buckets stop at the loan book's dpd_default, past
+// which a loan counts as defaulted
+const AGING_BUCKET_EDGES = [30, 60, 90];
+
+/**
+ * Builds current, 1–30, 31–60, 61–90 and >dpd_default buckets. Edges past
+ * dpdDefault are dropped, and a gap between 90 and dpdDefault gets its own
+ * bucket.
+ */
+export function buildAgingBuckets(
+  dpdDefault: number
+): DelinquencyBucketDefinition[] {
+  const buckets: DelinquencyBucketDefinition[] = [
+    { label: "Current", minDays: 0, maxDays: 0 },
+  ];
+  let minDays = 1;
+  [...AGING_BUCKET_EDGES.filter((edge) => edge < dpdDefault), dpdDefault]
+    .filter((edge) => edge >= minDays)
+    .forEach((maxDays) => {
+      buckets.push({ label: `${minDays}–${maxDays} DPD`, minDays, maxDays });
+      minDays = maxDays + 1;
+    });
+  buckets.push({ label: `Default (>${dpdDefault} DPD)`, minDays });
+  return buckets;
+}
+
+/**
+ * Mirrors loan_book::delinquent_linear_accrual_late_fee for a loan with no
+ * late fees tracked yet: every installment with principal outstanding more
+ * than the grace period past due accrues a share of that principal per
+ * elapsed accrual period, up to max_periods.
+ */
+export function projectLinearAccrualLateFee(
+  schedule: Interval[],
+  config: DelinquentLinearAccrualLateFee,
+  referenceUs: number
+): bigint {
+  const accrualReferenceUs = referenceUs - config.grace_period_micros;
+  let accrued = BigInt(0);
+  for (const interval of schedule) {
+    const dueUs = Number(interval.time_due_us);
+    if (dueUs >= accrualReferenceUs) break;
+    const principal = BigInt(interval.principal);
+    if (principal === BigInt(0)) continue;
+    const periods = Math.min(
+      Math.floor((accrualReferenceUs - dueUs) / config.accrual_period_micros),
+      config.max_periods
+    );
+    accrued +=
+      (BigInt(periods) *
+        principal *
+        BigInt(config.accrual_per_period_numerator)) /
+      BigInt(config.accrual_per_period_denominator);
+  }
+  return accrued;
+}
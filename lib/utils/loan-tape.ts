@@ -0,0 +1,288 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import {
+  AmortizationType,
+  generateAmortizationSchedule,
+  PAYMENT_ORDER_BITMAPS,
+  PaymentFrequency,
+  ScheduleInterval,
+  suggestPaymentOrder,
+  validatePaymentSchedule,
+} from "./amortization";
+import { tryParseTokenAmount } from "./token";
+
+/**
+ * A loan parsed from one row of a loan tape CSV, ready for offer_loan_simple
+ * once errors is empty
+ */
+export interface LoanTapeRow {
+  rowNumber: number; // Line in the CSV, counting the header as line 1
+  seed: string;
+  borrower: string;
+  schedule: ScheduleInterval[];
+  principal: bigint;
+  paymentOrderBitmap: number;
+  errors: string[];
+}
+
+// Shown on the bulk origination page as the expected format; a row uses
+// either the generator columns or the explicit schedule columns
+export const LOAN_TAPE_EXAMPLE = [
+  "seed,borrower,amount,apr,payments,frequency,type,start_date,due_dates,principal,interest,fee",
+  "loan-001,0x123...,10000,12.5,12,monthly,level_payment,2025-01-01,,,,",
+  "loan-002,0x456...,1000,,,,,,2025-02-01;2025-03-01,500;500,10;5,0;0",
+].join("\n");
+
+const AMORTIZATION_TYPE_ALIASES: Record<string, AmortizationType> = {
+  level_payment: "level_payment",
+  level: "level_payment",
+  amortizing: "level_payment",
+  interest_only: "interest_only",
+  balloon: "interest_only",
+  equal_principal: "equal_principal",
+};
+
+const FREQUENCIES: PaymentFrequency[] = [
+  "weekly",
+  "biweekly",
+  "monthly",
+  "quarterly",
+];
+
+/**
+ * Splits CSV text into rows of trimmed cells, honouring double-quoted cells
+ * that contain commas or escaped quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        cells.push(cell.trim());
+        cell = "";
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+    rows.push(cells);
+  }
+  return rows;
+}
+
+// Microseconds from either a raw microsecond timestamp or a date string
+function parseDueDate(value: string): number | undefined {
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  return isNaN(ms) ? undefined : ms * 1000;
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(";").map((item) => item.trim()) : [];
+}
+
+// Reads a token amount cell, recording an error instead of taking a bad
+// amount as zero. Empty cells are zero.
+function parseAmount(
+  value: string,
+  column: string,
+  decimals: number,
+  errors: string[]
+): bigint | undefined {
+  if (!value) return BigInt(0);
+  const amount = tryParseTokenAmount(value, decimals);
+  if (amount === undefined) {
+    errors.push(
+      `${column} "${value}" is not an amount with at most ${decimals} decimal places`
+    );
+  }
+  return amount;
+}
+
+function parseExplicitSchedule(
+  get: (column: string) => string | undefined,
+  decimals: number,
+  errors: string[]
+): ScheduleInterval[] {
+  const dueDates = splitList(get("due_dates"));
+  const principals = splitList(get("principal"));
+  const interests = splitList(get("interest"));
+  const fees = splitList(get("fee"));
+
+  if (principals.length !== dueDates.length) {
+    errors.push("principal needs one amount per due date");
+  }
+  [
+    ["interest", interests],
+    ["fee", fees],
+  ].forEach(([column, values]) => {
+    if (values.length > 0 && values.length !== dueDates.length) {
+      errors.push(`${column} needs one amount per due date`);
+    }
+  });
+
+  return dueDates.map((dueDate, i) => {
+    const timeDueUs = parseDueDate(dueDate);
+    if (timeDueUs === undefined) {
+      errors.push(`Invalid due date "${dueDate}"`);
+    }
+    return {
+      time_due_us: timeDueUs ?? 0,
+      principal:
+        parseAmount(principals[i] ?? "", "principal", decimals, errors) ??
+        BigInt(0),
+      interest:
+        parseAmount(interests[i] ?? "", "interest", decimals, errors) ??
+        BigInt(0),
+      fee: parseAmount(fees[i] ?? "", "fee", decimals, errors) ?? BigInt(0),
+    };
+  });
+}
+
+function parseGeneratedSchedule(
+  get: (column: string) => string | undefined,
+  principal: bigint,
+  decimals: number,
+  errors: string[]
+): ScheduleInterval[] {
+  const typeValue = (get("type") || "level_payment").toLowerCase();
+  const type = AMORTIZATION_TYPE_ALIASES[typeValue];
+  const frequency = (get("frequency") || "monthly").toLowerCase();
+  const startDate = Date.parse(get("start_date") ?? "");
+  const previousErrorCount = errors.length;
+  const feePerPayment = parseAmount(
+    get("fee_per_payment") ?? "",
+    "fee_per_payment",
+    decimals,
+    errors
+  );
+
+  if (!type) errors.push(`Unknown type "${typeValue}"`);
+  if (!FREQUENCIES.includes(frequency as PaymentFrequency)) {
+    errors.push(`Unknown frequency "${frequency}"`);
+  }
+  if (isNaN(startDate)) errors.push("start_date is required");
+  if (
+    !type ||
+    feePerPayment === undefined ||
+    errors.length > previousErrorCount
+  ) {
+    return [];
+  }
+
+  try {
+    return generateAmortizationSchedule({
+      type,
+      principal,
+      aprPercent: Number(get("apr") || 0),
+      daysInYear: Number(get("days_in_year") || 365),
+      frequency: frequency as PaymentFrequency,
+      paymentCount: parseInt(get("payments") ?? "", 10),
+      startDate: new Date(startDate),
+      feePerPayment,
+    });
+  } catch (e) {
+    errors.push(e instanceof Error ? e.message : String(e));
+    return [];
+  }
+}
+
+/**
+ * Parses a loan tape with one loan per row. Each row either lists its
+ * schedule (due_dates, principal, interest, fee as ;-separated lists) or
+ * gives generator parameters (amount, apr, payments, frequency, type,
+ * start_date). Rows are returned with their problems rather than dropped so
+ * they can be reported back.
+ */
+export function parseLoanTape(text: string, decimals: number): LoanTapeRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((column) => column.toLowerCase());
+
+  const seenSeeds = new Set<string>();
+  return lines.map((cells, index) => {
+    const get = (column: string) => {
+      const i = columns.indexOf(column);
+      return i >= 0 && cells[i] ? cells[i] : undefined;
+    };
+    const errors: string[] = [];
+
+    const seed = get("seed") ?? "";
+    if (!seed) {
+      errors.push("seed is required");
+    } else if (seenSeeds.has(seed)) {
+      errors.push("seed is repeated earlier in the file");
+    }
+    seenSeeds.add(seed);
+
+    const borrower = get("borrower") ?? "";
+    if (!AccountAddress.isValid({ input: borrower }).valid) {
+      errors.push("borrower is not a valid address");
+    }
+
+    const amount = get("amount");
+    const expectedPrincipal = amount
+      ? parseAmount(amount, "amount", decimals, errors)
+      : undefined;
+    let schedule: ScheduleInterval[] = [];
+    if (get("due_dates")) {
+      schedule = parseExplicitSchedule(get, decimals, errors);
+    } else if (amount) {
+      if (expectedPrincipal !== undefined) {
+        schedule = parseGeneratedSchedule(
+          get,
+          expectedPrincipal,
+          decimals,
+          errors
+        );
+      }
+    } else {
+      errors.push("Either due_dates or amount is required");
+    }
+
+    if (schedule.length > 0) {
+      errors.push(
+        ...validatePaymentSchedule(schedule, expectedPrincipal, decimals)
+      );
+    }
+
+    const orderValue = get("payment_order")?.toLowerCase();
+    let paymentOrderBitmap = suggestPaymentOrder(schedule);
+    if (orderValue) {
+      if (orderValue in PAYMENT_ORDER_BITMAPS) {
+        paymentOrderBitmap =
+          PAYMENT_ORDER_BITMAPS[orderValue as keyof typeof PAYMENT_ORDER_BITMAPS];
+      } else {
+        errors.push("payment_order must be one of pif, ifp or fip");
+      }
+    }
+
+    return {
+      rowNumber: index + 2,
+      seed,
+      borrower,
+      schedule,
+      principal: schedule.reduce(
+        (sum, interval) => sum + interval.principal,
+        BigInt(0)
+      ),
+      paymentOrderBitmap,
+      errors,
+    };
+  });
+}
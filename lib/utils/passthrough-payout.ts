@@ -0,0 +1,72 @@
+import { AccountAddress, createObjectAddress } from "@aptos-labs/ts-sdk";
+
+// passthrough_token::CLAIMABLE_PER_SHARE_DENOMINATOR
+export const CLAIMABLE_PER_SHARE_DENOMINATOR = BigInt(1000000000);
+
+// share_class::to_passthrough_index, the payout pools of a share class token
+export const SHARE_PAYOUT_POOLS = ["Principal", "Interest"];
+
+/** PassThroughTokenState resource as returned by the fullnode */
+export interface PassThroughTokenStateResource {
+  is_unlocked: boolean;
+  allowed_holders: { inner: string };
+  admins: { inner: string };
+  payout_fa: { inner: string };
+  claimable_amount: string[]; // Deposited per pool since the last snapshot
+  claimable_history: string[][]; // Payout per token for every snapshot
+}
+
+/** ClaimRecord resource as returned by the fullnode */
+export interface ClaimRecordResource {
+  next_claim_index: number[];
+  extra_claimable: string[];
+  opt_out_auto_claim: boolean;
+}
+
+/**
+ * Same address as passthrough_token::claim_record_address: a named object of
+ * the token seeded with the owner's BCS bytes.
+ */
+export function claimRecordAddress(tokenAddress: string, owner: string) {
+  return createObjectAddress(
+    AccountAddress.from(tokenAddress),
+    AccountAddress.from(owner).toUint8Array()
+  ).toStringLong();
+}
+
+/**
+ * Reads the exact holder count out of a TokenHolderCounter, which only
+ * exposes current_holders_at_most, by doubling then bisecting.
+ *
+ * @param isAtMost - Calls current_holders_at_most for a reference count
+ */
+export async function findHolderCount(
+  isAtMost: (reference: number) => Promise<boolean>
+): Promise<number> {
+  if (await isAtMost(0)) return 0;
+
+  let low = 0; // Always more holders than this
+  let high = 1;
+  while (!(await isAtMost(high))) {
+    low = high;
+    high *= 2;
+  }
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (await isAtMost(middle)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+}
+
+/** Splits holders into the owner lists of initiate_claim_for_many calls */
+export function chunkHolders<T>(holders: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < holders.length; i += size) {
+    chunks.push(holders.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,147 @@
+import type { Interval } from "../hooks/use-loan-info";
+import type { ScheduleInterval } from "./amortization";
+import { formatTokenAmount } from "./token";
+
+// loan_book::PaymentScheduleUpdateValidationSettings; both default to true
+export interface ScheduleValidationSettings {
+  principalContinuity: boolean;
+  dueDateContinuity: boolean;
+}
+
+export interface ScheduleUpdatePlan {
+  // Changed intervals in the order to update them, undefined when no order
+  // keeps every intermediate schedule valid
+  order?: number[];
+  // Principal moves between intervals, so validation has to be off while
+  // the intervals are updated one at a time
+  togglePrincipalValidation: boolean;
+}
+
+export function toScheduleIntervals(intervals: Interval[]): ScheduleInterval[] {
+  return intervals.map((interval) => ({
+    time_due_us: Number(interval.time_due_us),
+    principal: BigInt(interval.principal),
+    interest: BigInt(interval.interest),
+    fee: BigInt(interval.fee),
+  }));
+}
+
+const isSettled = (interval: ScheduleInterval) =>
+  interval.principal === BigInt(0) &&
+  interval.interest === BigInt(0) &&
+  interval.fee === BigInt(0);
+
+/** Mirrors loan_book::get_next_due_interval_i */
+export function getNextDueIndex(schedule: ScheduleInterval[]): number {
+  const index = schedule.findIndex((interval) => !isSettled(interval));
+  return index === -1 ? schedule.length - 1 : index;
+}
+
+const remainingPrincipal = (schedule: ScheduleInterval[]) =>
+  schedule.reduce((sum, interval) => sum + interval.principal, BigInt(0));
+
+// Mirrors loan_book::ensure_time_due_strictly_increases
+function dueDatesIncrease(schedule: ScheduleInterval[]): boolean {
+  for (let i = getNextDueIndex(schedule) + 1; i < schedule.length; i++) {
+    if (schedule[i].time_due_us <= schedule[i - 1].time_due_us) return false;
+  }
+  return true;
+}
+
+export function isIntervalChanged(a: ScheduleInterval, b: ScheduleInterval) {
+  return (
+    a.time_due_us !== b.time_due_us ||
+    a.principal !== b.principal ||
+    a.interest !== b.interest ||
+    a.fee !== b.fee
+  );
+}
+
+/**
+ * Checks an edited schedule the way loan_book validates an update: remaining
+ * principal is unchanged when principal continuity is enforced, and due dates
+ * strictly increase from the next due interval when due-date continuity is.
+ *
+ * @returns Human-readable problems, empty when the edit is valid
+ */
+export function validateScheduleEdit(
+  original: ScheduleInterval[],
+  edited: ScheduleInterval[],
+  settings: ScheduleValidationSettings,
+  decimals: number
+): string[] {
+  const problems: string[] = [];
+
+  edited.forEach((interval, i) => {
+    if (!interval.time_due_us) {
+      problems.push(`Installment ${i + 1} has no due date`);
+    }
+  });
+
+  if (settings.principalContinuity) {
+    const before = remainingPrincipal(original);
+    const after = remainingPrincipal(edited);
+    if (before !== after) {
+      problems.push(
+        `Remaining principal must stay at ${formatTokenAmount(
+          before,
+          decimals
+        )}, but the edited schedule adds up to ${formatTokenAmount(
+          after,
+          decimals
+        )}`
+      );
+    }
+  }
+
+  if (settings.dueDateContinuity) {
+    const nextDue = getNextDueIndex(edited);
+    for (let i = nextDue + 1; i < edited.length; i++) {
+      if (edited[i].time_due_us <= edited[i - 1].time_due_us) {
+        problems.push(`Installment ${i + 1} is not due after installment ${i}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Orders the changed intervals for update_payment_schedule_by_index, which
+ * validates the whole schedule after every call. Each update is applied only
+ * once the schedule it leaves behind still has strictly increasing due dates.
+ */
+export function planScheduleUpdates(
+  original: ScheduleInterval[],
+  edited: ScheduleInterval[],
+  settings: ScheduleValidationSettings
+): ScheduleUpdatePlan {
+  const changed = Array.from(edited.keys()).filter((i) =>
+    isIntervalChanged(original[i], edited[i])
+  );
+  const togglePrincipalValidation =
+    settings.principalContinuity &&
+    changed.some((i) => original[i].principal !== edited[i].principal);
+
+  if (!settings.dueDateContinuity) {
+    return { order: changed, togglePrincipalValidation };
+  }
+
+  const current = [...original];
+  const remaining = [...changed];
+  const order: number[] = [];
+  while (remaining.length > 0) {
+    const next = remaining.find((i) => {
+      const candidate = [...current];
+      candidate[i] = edited[i];
+      return dueDatesIncrease(candidate);
+    });
+    if (next === undefined) {
+      return { order: undefined, togglePrincipalValidation };
+    }
+    current[next] = edited[next];
+    order.push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+  return { order, togglePrincipalValidation };
+}
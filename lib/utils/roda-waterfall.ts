@@ -0,0 +1,239 @@
+import { format } from "date-fns";
+import { formatTokenAmount } from "./token";
+
+// Microseconds in a 365 day year, used to annualize per-microsecond rates
+const US_PER_YEAR = 365 * 24 * 60 * 60 * 1_000_000;
+
+/** RodaWaterfall resource as returned by the fullnode */
+export interface RodaWaterfallResource {
+  period_start_timestamp: { vec: string[] };
+  period_end_timestamp: { vec: string[] };
+  min_utilization_timestamp: string;
+  min_utilization: string;
+  early_close_penalty: string;
+  is_early_close: boolean;
+  is_in_default: boolean;
+  default_penalty_interest: string;
+  min_interest_deficit: string;
+  min_util_interest_deficit: string;
+  default_penalty_deficit: string;
+}
+
+/** Editable RodaWaterfall fields, timestamps in microseconds */
+export interface RodaWaterfallState {
+  period_start_timestamp?: number; // undefined until set_period is called
+  period_end_timestamp?: number;
+  min_utilization_timestamp: number;
+  min_utilization: bigint;
+  early_close_penalty: bigint;
+  is_early_close: boolean;
+  is_in_default: boolean;
+  default_penalty_interest: bigint; // Per-microsecond numerator
+  min_interest_deficit: bigint;
+  min_util_interest_deficit: bigint;
+  default_penalty_deficit: bigint;
+}
+
+export type RodaWaterfallField = keyof RodaWaterfallState;
+
+export type RodaFieldKind = "timestamp" | "amount" | "flag" | "rate";
+
+export interface RodaFieldDefinition {
+  field: RodaWaterfallField;
+  label: string;
+  kind: RodaFieldKind;
+  description: string;
+}
+
+export const RODA_FIELDS: RodaFieldDefinition[] = [
+  {
+    field: "period_start_timestamp",
+    label: "Period Start",
+    kind: "timestamp",
+    description: "Start of the period interest levels accrue over",
+  },
+  {
+    field: "period_end_timestamp",
+    label: "Period End",
+    kind: "timestamp",
+    description: "End of the period interest levels accrue over",
+  },
+  {
+    field: "min_utilization_timestamp",
+    label: "Min Utilization Cutoff",
+    kind: "timestamp",
+    description: "Minimum utilization accrues from the later of this and the period start",
+  },
+  {
+    field: "min_utilization",
+    label: "Min Utilization",
+    kind: "amount",
+    description: "Senior balance below which the shortfall accrues interest",
+  },
+  {
+    field: "default_penalty_interest",
+    label: "Default Penalty Interest",
+    kind: "rate",
+    description: "Per-microsecond accrual numerator charged while in default",
+  },
+  {
+    field: "min_interest_deficit",
+    label: "Min Interest Deficit",
+    kind: "amount",
+    description: "Unpaid minimum interest carried to the next run",
+  },
+  {
+    field: "min_util_interest_deficit",
+    label: "Min Utilization Interest Deficit",
+    kind: "amount",
+    description: "Unpaid minimum utilization interest carried to the next run",
+  },
+  {
+    field: "default_penalty_deficit",
+    label: "Default Penalty Deficit",
+    kind: "amount",
+    description: "Unpaid default penalty interest carried to the next run",
+  },
+  {
+    field: "is_in_default",
+    label: "In Default",
+    kind: "flag",
+    description: "Enables the default penalty level",
+  },
+  {
+    field: "is_early_close",
+    label: "Early Close",
+    kind: "flag",
+    description: "Enables the early close penalty level",
+  },
+  {
+    field: "early_close_penalty",
+    label: "Early Close Penalty",
+    kind: "amount",
+    description: "Remaining penalty paid to the senior share on early close",
+  },
+];
+
+export interface RodaSetterDefinition {
+  functionName: string;
+  title: string;
+  fields: RodaWaterfallField[]; // Setter arguments after the waterfall object
+}
+
+// One roda_waterfall::set_* entry function per field, except set_period
+export const RODA_SETTERS: RodaSetterDefinition[] = [
+  {
+    functionName: "set_period",
+    title: "Set Period",
+    fields: ["period_start_timestamp", "period_end_timestamp"],
+  },
+  ...RODA_FIELDS.filter(
+    ({ field }) =>
+      field !== "period_start_timestamp" && field !== "period_end_timestamp"
+  ).map(({ field, label }) => ({
+    functionName: `set_${field}`,
+    title: `Set ${label}`,
+    fields: [field],
+  })),
+];
+
+export function parseRodaWaterfall(
+  resource: RodaWaterfallResource
+): RodaWaterfallState {
+  const optionalTimestamp = ({ vec }: { vec: string[] }) =>
+    vec.length > 0 ? Number(vec[0]) : undefined;
+  return {
+    period_start_timestamp: optionalTimestamp(resource.period_start_timestamp),
+    period_end_timestamp: optionalTimestamp(resource.period_end_timestamp),
+    min_utilization_timestamp: Number(resource.min_utilization_timestamp),
+    min_utilization: BigInt(resource.min_utilization),
+    early_close_penalty: BigInt(resource.early_close_penalty),
+    is_early_close: resource.is_early_close,
+    is_in_default: resource.is_in_default,
+    default_penalty_interest: BigInt(resource.default_penalty_interest),
+    min_interest_deficit: BigInt(resource.min_interest_deficit),
+    min_util_interest_deficit: BigInt(resource.min_util_interest_deficit),
+    default_penalty_deficit: BigInt(resource.default_penalty_deficit),
+  };
+}
+
+/**
+ * Annualized rate in percent for a per-microsecond accrual numerator over
+ * the senior share's accrual denominator.
+ */
+export function annualizeRodaRate(
+  numerator: bigint,
+  denominator: bigint
+): number {
+  return (Number(numerator) / Number(denominator)) * US_PER_YEAR * 100;
+}
+
+/** Formats a field value for display, e.g. in a before/after diff */
+export function formatRodaValue(
+  definition: RodaFieldDefinition,
+  state: RodaWaterfallState,
+  decimals: number,
+  symbol: string,
+  penaltyDenominator?: bigint
+): string {
+  const value = state[definition.field];
+  switch (definition.kind) {
+    case "timestamp":
+      return value === undefined || value === 0
+        ? "Not set"
+        : format(new Date(Number(value) / 1000), "MMM d, yyyy HH:mm");
+    case "amount":
+      return `${formatTokenAmount(value as bigint, decimals)} ${symbol}`;
+    case "flag":
+      return value ? "Yes" : "No";
+    case "rate":
+      return penaltyDenominator
+        ? `${(value as bigint).toString()} (${annualizeRodaRate(
+            value as bigint,
+            penaltyDenominator
+          ).toFixed(4)}% APR)`
+        : (value as bigint).toString();
+  }
+}
+
+/** Fields whose draft value differs from the current on-chain value */
+export function getChangedRodaFields(
+  current: RodaWaterfallState,
+  draft: RodaWaterfallState
+): RodaFieldDefinition[] {
+  return RODA_FIELDS.filter(({ field }) => current[field] !== draft[field]);
+}
+
+/**
+ * Setters needed to move the on-chain state to the draft. set_period is
+ * included when either bound changed since it writes both.
+ */
+export function getChangedRodaSetters(
+  current: RodaWaterfallState,
+  draft: RodaWaterfallState
+): RodaSetterDefinition[] {
+  const changed = new Set(
+    getChangedRodaFields(current, draft).map(({ field }) => field)
+  );
+  return RODA_SETTERS.filter((setter) =>
+    setter.fields.some((field) => changed.has(field))
+  );
+}
+
+/**
+ * Checks a draft before submitting it
+ *
+ * @returns Human-readable problems, empty when the draft can be submitted
+ */
+export function validateRodaDraft(draft: RodaWaterfallState): string[] {
+  const problems: string[] = [];
+  const { period_start_timestamp: start, period_end_timestamp: end } = draft;
+  if (start === undefined || end === undefined) {
+    if (start !== undefined || end !== undefined) {
+      problems.push("The period needs both a start and an end");
+    }
+  } else if (end <= start) {
+    problems.push("The period end must be after its start");
+  }
+  return problems;
+}
@@ -0,0 +1,168 @@
+import { formatTokenAmount } from "./token";
+
+// share_exchange::DENOMINATOR: shares = purchase_amount * DENOMINATOR / nav
+export const NAV_DENOMINATOR = BigInt("10000000000000000");
+
+type MoveOption<T> = { vec: T[] };
+
+/** ShareExchangeBase resource as returned by the fullnode */
+export interface ShareExchangeBaseResource {
+  exchange_type: {
+    __variant__: "AttestedNavExchange";
+    allowed_attestors: { inner: string };
+    nav_per_class: string[];
+  };
+  facility_core: { inner: string };
+  mint_refs: { inner: string }[]; // ShareMintRef, holding the share address
+}
+
+export type ExchangeRuleResource =
+  | {
+      __variant__: "MinimumFundraiseAmount";
+      amount: string;
+      index: MoveOption<number>;
+    }
+  | { __variant__: "MintCap"; cap: string; index: number }
+  | { __variant__: "RequireExplicitApproval"; index: MoveOption<number> }
+  | { __variant__: "EnforceShareWeights" }
+  | { __variant__: "MaxInvestorCount"; cap: string; index: number }
+  | {
+      __variant__: "MaxOwnership";
+      numerator: number;
+      denominator: number;
+      index: number;
+    }
+  | {
+      __variant__: "MinimumInvestmentAmount";
+      amount: string;
+      index: MoveOption<number>;
+    };
+
+/** ActiveExchange resource as returned by the fullnode */
+export interface ActiveExchangeResource {
+  time_started: string;
+  time_end: MoveOption<string>;
+  details_per_class: {
+    amount_raised: string;
+    pending_raised: string;
+    to_mint: string;
+    minted: string;
+  }[];
+  pre_issuance_rules: ExchangeRuleResource[];
+  post_issuance_rules: ExchangeRuleResource[];
+  escrow: { inner: string };
+}
+
+export interface ExchangeClassStats {
+  amountRaised: bigint;
+  pendingRaised: bigint; // Held in escrowed commitments
+  toMint: bigint; // Shares owed to escrowed commitments
+  minted: bigint;
+}
+
+export interface ActiveExchangeState {
+  timeStarted: number; // Microseconds
+  timeEnd?: number;
+  statsPerClass: ExchangeClassStats[];
+  preIssuanceRules: ExchangeRuleResource[];
+  postIssuanceRules: ExchangeRuleResource[];
+}
+
+export function parseActiveExchange(
+  resource: ActiveExchangeResource
+): ActiveExchangeState {
+  return {
+    timeStarted: Number(resource.time_started),
+    timeEnd:
+      resource.time_end.vec.length > 0
+        ? Number(resource.time_end.vec[0])
+        : undefined,
+    statsPerClass: resource.details_per_class.map((stats) => ({
+      amountRaised: BigInt(stats.amount_raised),
+      pendingRaised: BigInt(stats.pending_raised),
+      toMint: BigInt(stats.to_mint),
+      minted: BigInt(stats.minted),
+    })),
+    preIssuanceRules: resource.pre_issuance_rules,
+    postIssuanceRules: resource.post_issuance_rules,
+  };
+}
+
+/**
+ * Mirrors share_exchange::total_raised: raised plus pending escrowed amounts,
+ * for one share index or across all of them.
+ */
+export function getTotalRaised(
+  exchange: ActiveExchangeState,
+  shareIndex?: number
+): bigint {
+  const stats =
+    shareIndex === undefined
+      ? exchange.statsPerClass
+      : exchange.statsPerClass.slice(shareIndex, shareIndex + 1);
+  return stats.reduce(
+    (sum, { amountRaised, pendingRaised }) =>
+      sum + amountRaised + pendingRaised,
+    BigInt(0)
+  );
+}
+
+/**
+ * Price of one whole share in the purchase token implied by a NAV, the
+ * inverse of share_exchange::convert_to_shares.
+ */
+export function navToSharePrice(
+  nav: bigint,
+  tokenDecimals: number,
+  shareDecimals: number
+): number {
+  return (
+    (Number(nav) / Number(NAV_DENOMINATOR)) *
+    10 ** (shareDecimals - tokenDecimals)
+  );
+}
+
+/** Same rounding as share_exchange::convert_to_shares */
+export function expectedShares(purchaseAmount: bigint, nav: bigint): bigint {
+  return nav === BigInt(0)
+    ? BigInt(0)
+    : (purchaseAmount * NAV_DENOMINATOR) / nav;
+}
+
+/**
+ * One line summary of an exchange rule
+ *
+ * @param shareName - Display name for a share index
+ */
+export function describeExchangeRule(
+  rule: ExchangeRuleResource,
+  shareName: (index: number) => string,
+  decimals: number,
+  symbol: string
+): string {
+  const amount = (value: string) =>
+    `${formatTokenAmount(BigInt(value), decimals)} ${symbol}`;
+  const scope = (index: MoveOption<number>) =>
+    index.vec.length > 0 ? shareName(Number(index.vec[0])) : "all classes";
+
+  switch (rule.__variant__) {
+    case "MinimumFundraiseAmount":
+      return `Escrow until ${amount(rule.amount)} is raised (${scope(
+        rule.index
+      )})`;
+    case "MintCap":
+      return `At most ${rule.cap} ${shareName(rule.index)} shares minted`;
+    case "RequireExplicitApproval":
+      return `Escrow every purchase for approval (${scope(rule.index)})`;
+    case "EnforceShareWeights":
+      return "Keep every class within its min and max risk weight";
+    case "MaxInvestorCount":
+      return `At most ${rule.cap} ${shareName(rule.index)} holders`;
+    case "MaxOwnership":
+      return `No holder above ${rule.numerator}/${rule.denominator} of ${shareName(
+        rule.index
+      )}`;
+    case "MinimumInvestmentAmount":
+      return `Purchases of at least ${amount(rule.amount)}`;
+  }
+}
@@ -0,0 +1,177 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import type { OnChainLoanBookState } from "@/lib/hooks/use-on-chain-loan-book";
+import type {
+  ProfileLoanBookConfig,
+  StagedLoanBookResponse,
+} from "@/lib/types/config-manager";
+
+/**
+ * Fields that a promoted loan book must carry. These mirror the required
+ * properties of ProfileLoanBookConfig, which is what production serves.
+ */
+const REQUIRED_PROMOTION_FIELDS: {
+  key: keyof ProfileLoanBookConfig & keyof StagedLoanBookResponse;
+  label: string;
+}[] = [
+  { key: "name", label: "Name" },
+  { key: "tenant_id", label: "Tenant ID" },
+  { key: "org_id", label: "Organization ID" },
+  { key: "chain", label: "Chain" },
+  { key: "chain_id", label: "Chain ID" },
+  { key: "module_address", label: "Module Address" },
+  { key: "loan_book_config_address", label: "Loan Book Config Address" },
+  { key: "loan_book_variant", label: "Loan Book Variant" },
+  { key: "days_in_year", label: "Days in Year" },
+  { key: "default_token", label: "Default Token" },
+  { key: "originator_address", label: "Originator Address" },
+  { key: "country_code", label: "Country Code" },
+  { key: "feature_flags", label: "Feature Flags" },
+  { key: "validation_flags", label: "Validation Flags" },
+];
+
+/**
+ * Lists the labels of required production fields that are still empty
+ *
+ * @param loanBook - Staged loan book to check
+ * @returns Human-readable labels of the missing fields
+ */
+export function getMissingPromotionFields(
+  loanBook: StagedLoanBookResponse
+): string[] {
+  return REQUIRED_PROMOTION_FIELDS.filter(({ key }) => {
+    const value = loanBook[key];
+    return value === null || value === undefined || value === "";
+  }).map(({ label }) => label);
+}
+
+/**
+ * Whether a staged loan book has already been promoted to production
+ */
+export function isPromoted(loanBook: StagedLoanBookResponse): boolean {
+  return !!loanBook.promoted_at;
+}
+
+export type ConfigDiffStatus = "match" | "mismatch" | "unverified";
+
+export interface ConfigDiffRow {
+  label: string;
+  staged: string | null;
+  onChain: string | null;
+  status: ConfigDiffStatus;
+}
+
+/**
+ * Normalizes an address so short and long forms compare equal
+ */
+function normalizeAddress(address: string): string {
+  try {
+    return AccountAddress.from(address).toStringLong();
+  } catch {
+    return address.trim().toLowerCase();
+  }
+}
+
+function compareAddresses(
+  label: string,
+  staged: string | null | undefined,
+  onChain: string | null | undefined
+): ConfigDiffRow {
+  const stagedValue = staged || null;
+  if (onChain === undefined) {
+    return { label, staged: stagedValue, onChain: null, status: "unverified" };
+  }
+  const matches =
+    stagedValue === null || onChain === null
+      ? stagedValue === onChain
+      : normalizeAddress(stagedValue) === normalizeAddress(onChain);
+  return {
+    label,
+    staged: stagedValue,
+    onChain,
+    status: matches ? "match" : "mismatch",
+  };
+}
+
+/**
+ * Compares a staged loan book against what is deployed on chain
+ *
+ * @param loanBook - Staged loan book about to be promoted
+ * @param onChain - State read by useOnChainLoanBook
+ * @param chainId - Chain ID of the network the state was read from
+ * @returns One row per compared field, in display order
+ */
+export function diffStagedLoanBook(
+  loanBook: StagedLoanBookResponse,
+  onChain: OnChainLoanBookState,
+  chainId: number
+): ConfigDiffRow[] {
+  const stagedChainId = loanBook.chain_id ?? null;
+
+  // default_token is usually a symbol, but may be the metadata address. Only
+  // the auto-pledge facility exposes a token to check it against.
+  const stagedToken = loanBook.default_token || null;
+  const tokenRow: ConfigDiffRow = stagedToken?.startsWith("0x")
+    ? compareAddresses(
+        "Default Token",
+        stagedToken,
+        onChain.faMetadataAddress ?? undefined
+      )
+    : {
+        label: "Default Token",
+        staged: stagedToken,
+        onChain: onChain.faSymbol ?? null,
+        status: !onChain.faSymbol
+          ? "unverified"
+          : stagedToken?.toLowerCase() === onChain.faSymbol.toLowerCase()
+            ? "match"
+            : "mismatch",
+      };
+
+  const stagedLateFees = !!loanBook.late_fee_config;
+
+  return [
+    {
+      label: "Chain ID",
+      staged: stagedChainId?.toString() ?? null,
+      onChain: chainId.toString(),
+      status: stagedChainId === chainId ? "match" : "mismatch",
+    },
+    compareAddresses(
+      "Module Address",
+      loanBook.module_address,
+      onChain.moduleAddress
+    ),
+    compareAddresses(
+      "Loan Book Config Address",
+      loanBook.loan_book_config_address,
+      onChain.configAddress
+    ),
+    compareAddresses(
+      "Originator Address",
+      loanBook.originator_address,
+      onChain.originatorAddress
+    ),
+    compareAddresses(
+      "Auto Pledge Address",
+      loanBook.auto_pledge_address,
+      onChain.autoPledgeAddress
+    ),
+    tokenRow,
+    {
+      label: "Late Fee Rules",
+      staged: stagedLateFees ? "Configured" : "None",
+      onChain:
+        onChain.hasLateFeeRules === undefined
+          ? null
+          : onChain.hasLateFeeRules
+            ? "Configured"
+            : "None",
+      status:
+        onChain.hasLateFeeRules === undefined
+          ? "unverified"
+          : onChain.hasLateFeeRules === stagedLateFees
+            ? "match"
+            : "mismatch",
+    },
+  ];
+}
@@ -62,3 +62,19 @@ export const parseTokenAmount = (
     return BigInt(0);
   }
 };
+
+/**
+ * Strict parseTokenAmount for amounts typed or imported by users. Returns
+ * undefined unless the input is a non-negative decimal number with at most
+ * `decimals` fractional digits, rather than reading bad input as zero.
+ */
+export const tryParseTokenAmount = (
+  amount: string,
+  decimals: number = TOKEN_DECIMALS.default
+): bigint | undefined => {
+  const value = amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(value)) return undefined;
+  const [, fractional = ""] = value.split(".");
+  if (fractional.length > decimals) return undefined;
+  return parseTokenAmount(value, decimals);
+};
@@ -0,0 +1,194 @@
+import type { AddressBook } from "./address-book";
+import type { NetworkType } from "./navigation-context";
+import type {
+  ProfileLoanBookConfig,
+  ProfileResponse,
+} from "./types/config-manager";
+
+/**
+ * A named bundle of the addresses the app works on, so switching between
+ * clients does not mean pasting addresses again.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  facilityAddress: string;
+  moduleAddress: string;
+  loanBookAddress: string;
+  network: NetworkType;
+  addressBook: AddressBook;
+  profileSlug?: string; // Set when created from a config-manager profile
+}
+
+export type WorkspaceFields = Omit<Workspace, "id" | "name">;
+
+const STORAGE_KEYS = {
+  WORKSPACES: "facility-control-center:workspaces",
+  ACTIVE_WORKSPACE: "facility-control-center:active-workspace",
+};
+
+// Keys used before workspaces, read once to migrate into the first workspace
+const LEGACY_STORAGE_KEYS = {
+  FACILITY_ADDRESS: "facility-control-center:facility-address",
+  MODULE_ADDRESS: "facility-control-center:module-address",
+  LOAN_BOOK_ADDRESS: "facility-control-center:loan-book-address",
+  NETWORK: "facility-control-center:network",
+};
+
+const EXPORT_VERSION = 1;
+
+export function createWorkspace(
+  name: string,
+  fields: Partial<WorkspaceFields> = {}
+): Workspace {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    facilityAddress: fields.facilityAddress ?? "",
+    moduleAddress: fields.moduleAddress ?? "",
+    loanBookAddress: fields.loanBookAddress ?? "",
+    network: fields.network ?? "mainnet",
+    addressBook: fields.addressBook ?? {},
+    ...(fields.profileSlug && { profileSlug: fields.profileSlug }),
+  };
+}
+
+/**
+ * Reads saved workspaces, migrating the single facility, module, loan book
+ * and network keys into a "Default" workspace the first time.
+ */
+export function loadWorkspaces(): {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+} {
+  const stored = localStorage.getItem(STORAGE_KEYS.WORKSPACES);
+  if (stored) {
+    try {
+      const workspaces = JSON.parse(stored) as Workspace[];
+      if (workspaces.length > 0) {
+        const activeId = localStorage.getItem(STORAGE_KEYS.ACTIVE_WORKSPACE);
+        return {
+          workspaces,
+          activeWorkspaceId: workspaces.some(({ id }) => id === activeId)
+            ? activeId!
+            : workspaces[0].id,
+        };
+      }
+    } catch {
+      localStorage.removeItem(STORAGE_KEYS.WORKSPACES);
+    }
+  }
+
+  const storedNetwork = localStorage.getItem(LEGACY_STORAGE_KEYS.NETWORK);
+  const workspace = createWorkspace("Default", {
+    facilityAddress:
+      localStorage.getItem(LEGACY_STORAGE_KEYS.FACILITY_ADDRESS) ?? "",
+    moduleAddress: localStorage.getItem(LEGACY_STORAGE_KEYS.MODULE_ADDRESS) ?? "",
+    loanBookAddress:
+      localStorage.getItem(LEGACY_STORAGE_KEYS.LOAN_BOOK_ADDRESS) ?? "",
+    network: storedNetwork === "testnet" ? "testnet" : "mainnet",
+  });
+  saveWorkspaces([workspace], workspace.id);
+  Object.values(LEGACY_STORAGE_KEYS).forEach((key) =>
+    localStorage.removeItem(key)
+  );
+  return { workspaces: [workspace], activeWorkspaceId: workspace.id };
+}
+
+export function saveWorkspaces(
+  workspaces: Workspace[],
+  activeWorkspaceId: string
+) {
+  localStorage.setItem(STORAGE_KEYS.WORKSPACES, JSON.stringify(workspaces));
+  localStorage.setItem(STORAGE_KEYS.ACTIVE_WORKSPACE, activeWorkspaceId);
+}
+
+export function exportWorkspaces(workspaces: Workspace[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, workspaces }, null, 2);
+}
+
+function parseWorkspace(value: unknown, index: number): Workspace {
+  const candidate = value as Partial<Workspace> | null;
+  if (
+    !candidate ||
+    typeof candidate !== "object" ||
+    typeof candidate.name !== "string" ||
+    !candidate.name.trim()
+  ) {
+    throw new Error(`Workspace ${index + 1} has no name`);
+  }
+  const addressBook = candidate.addressBook ?? {};
+  if (
+    typeof addressBook !== "object" ||
+    Object.values(addressBook).some((label) => typeof label !== "string")
+  ) {
+    throw new Error(`Workspace "${candidate.name}" has an invalid address book`);
+  }
+  // Imported workspaces always get fresh ids so they never replace existing ones
+  return createWorkspace(candidate.name.trim(), {
+    facilityAddress: String(candidate.facilityAddress ?? ""),
+    moduleAddress: String(candidate.moduleAddress ?? ""),
+    loanBookAddress: String(candidate.loanBookAddress ?? ""),
+    network: candidate.network === "testnet" ? "testnet" : "mainnet",
+    addressBook,
+    profileSlug: candidate.profileSlug,
+  });
+}
+
+/**
+ * Parses workspaces exported by exportWorkspaces. A bare workspace or array
+ * of workspaces is accepted too.
+ *
+ * @throws Error describing the first problem found
+ */
+export function parseWorkspaceImport(json: string): Workspace[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && "workspaces" in parsed
+    ? (parsed as { workspaces: unknown }).workspaces
+    : [parsed];
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error("File contains no workspaces");
+  }
+  return list.map(parseWorkspace);
+}
+
+// Config-manager chains are named by network, e.g. "aptos-testnet"
+function profileNetwork(loanBook: ProfileLoanBookConfig): NetworkType {
+  return loanBook.chain_id === 2 || /testnet/i.test(loanBook.chain)
+    ? "testnet"
+    : "mainnet";
+}
+
+/**
+ * Builds a workspace for one of a config-manager profile's loan books, with
+ * its loan books and originators labelled in the address book.
+ */
+export function workspaceFromProfile(
+  profile: ProfileResponse,
+  loanBook: ProfileLoanBookConfig
+): Workspace {
+  const addressBook: AddressBook = {};
+  profile.loan_books.forEach((book) => {
+    addressBook[book.loan_book_address] = book.name;
+    addressBook[book.loan_book_config_address] = `${book.name} config`;
+    if (book.originator_address) {
+      addressBook[book.originator_address] = `${book.name} originator`;
+    }
+  });
+
+  return createWorkspace(`${profile.profile_slug} / ${loanBook.name}`, {
+    moduleAddress: loanBook.module_address,
+    loanBookAddress: loanBook.loan_book_address,
+    network: profileNetwork(loanBook),
+    addressBook,
+    profileSlug: profile.profile_slug,
+  });
+}